@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * EntryForm — Client component for adding a single blocklist entry.
+ */
+
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { createBlockedEntry } from '@/server-actions/blocklist';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+const TYPE_OPTIONS = [
+  { value: 'phone', label: 'Phone Number' },
+  { value: 'user_id', label: 'User ID' },
+  { value: 'address_keyword', label: 'Address Keyword' },
+  { value: 'ip', label: 'IP Address' },
+];
+
+const SEVERITY_OPTIONS = [
+  { value: 'hard_block', label: 'Hard Block (reject order)' },
+  { value: 'flag_only', label: 'Flag Only (add risk points)' },
+];
+
+const EMPTY_FORM = {
+  type: 'phone',
+  value: '',
+  reason: '',
+  severity: 'hard_block',
+  expires_at: '',
+};
+
+export function EntryForm() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      try {
+        const result = await createBlockedEntry({
+          type: formData.type as any,
+          value: formData.value,
+          reason: formData.reason || undefined,
+          severity: formData.severity as any,
+          expires_at: formData.expires_at || undefined,
+        });
+        if (!result.success) {
+          setError(result.error || 'Failed to add entry.');
+          return;
+        }
+        setFormData(EMPTY_FORM);
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold text-gray-900 mb-4">Add Entry</h2>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <Select
+          label="Type"
+          name="type"
+          value={formData.type}
+          onChange={handleChange}
+          options={TYPE_OPTIONS}
+        />
+        <Input
+          label="Value"
+          name="value"
+          placeholder={formData.type === 'phone' ? '01712345678' : ''}
+          value={formData.value}
+          onChange={handleChange}
+          required
+        />
+        <Select
+          label="Severity"
+          name="severity"
+          value={formData.severity}
+          onChange={handleChange}
+          options={SEVERITY_OPTIONS}
+        />
+        <Input
+          label="Reason"
+          name="reason"
+          placeholder="e.g. Refused 3 parcels"
+          value={formData.reason}
+          onChange={handleChange}
+        />
+        <Input
+          label="Expires (optional)"
+          name="expires_at"
+          type="datetime-local"
+          value={formData.expires_at}
+          onChange={handleChange}
+        />
+
+        <button
+          type="submit"
+          disabled={isPending || !formData.value}
+          className="w-full flex items-center justify-center gap-2 bg-gray-900 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Saving…
+            </>
+          ) : (
+            'Add to Blocklist'
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
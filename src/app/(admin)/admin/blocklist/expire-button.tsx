@@ -0,0 +1,39 @@
+'use client';
+
+/**
+ * ExpireButton — Expires a blocklist entry immediately.
+ */
+
+import { expireBlockedEntry } from '@/server-actions/blocklist';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+export function ExpireButton({ entryId }: { entryId: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleExpire = () => {
+    startTransition(async () => {
+      try {
+        await expireBlockedEntry(entryId);
+        router.refresh();
+      } catch (err) {
+        console.error('Expire entry failed:', err);
+      }
+    });
+  };
+
+  if (isPending) {
+    return <Loader2 className="w-4 h-4 animate-spin text-gray-400 ml-auto" />;
+  }
+
+  return (
+    <button
+      onClick={handleExpire}
+      className="px-2.5 py-1 bg-red-50 text-red-700 text-xs font-medium rounded-md hover:bg-red-100 transition-colors"
+    >
+      Expire
+    </button>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * ImportForm — Client component for bulk-importing blocklist entries from CSV.
+ */
+
+import { Textarea } from '@/components/ui/textarea';
+import { importBlockedEntries } from '@/server-actions/blocklist';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export function ImportForm() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [csv, setCsv] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    imported: number;
+    errors: { line: number; error: string }[];
+  } | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setResult(null);
+
+    startTransition(async () => {
+      try {
+        const res = await importBlockedEntries(csv);
+        if (!res.success) {
+          setError(res.error || 'Import failed.');
+          return;
+        }
+        setResult({ imported: res.imported, errors: res.errors });
+        if (res.errors.length === 0) setCsv('');
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold text-gray-900 mb-1">Bulk Import</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        One entry per line: <code>type,value,reason,severity,expires_at</code>
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+        {result && (
+          <div className="bg-gray-50 border rounded-lg p-3 text-sm text-gray-700 space-y-1">
+            <p>Imported {result.imported} entr{result.imported === 1 ? 'y' : 'ies'}.</p>
+            {result.errors.map((err) => (
+              <p key={err.line} className="text-red-600">
+                Line {err.line}: {err.error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <Textarea
+          name="csv"
+          placeholder={'phone,01712345678,Fake orders,hard_block,\naddress_keyword,test address,,flag_only,2026-12-31'}
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          rows={6}
+          className="font-mono text-xs"
+        />
+
+        <button
+          type="submit"
+          disabled={isPending || !csv.trim()}
+          className="w-full flex items-center justify-center gap-2 bg-gray-100 text-gray-700 py-2.5 rounded-lg font-medium text-sm hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Importing…
+            </>
+          ) : (
+            'Import'
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
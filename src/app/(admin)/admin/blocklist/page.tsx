@@ -0,0 +1,194 @@
+/**
+ * Admin Blocklist Page — /admin/blocklist
+ * Search, filter and expire blocklist entries (phones, accounts, IPs,
+ * address keywords), with single-entry and bulk CSV import forms.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Pagination } from '@/components/ui/pagination';
+import type { BlockedEntryType } from '@/lib/blocklist';
+import { getBlockedEntries } from '@/server-actions/blocklist';
+import { Search } from 'lucide-react';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { EntryForm } from './entry-form';
+import { ExpireButton } from './expire-button';
+import { ImportForm } from './import-form';
+
+export const metadata: Metadata = {
+  title: 'Blocklist | Admin | Niihut',
+};
+
+const STATUS_FILTERS = [
+  { value: 'active', label: 'Active' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'all', label: 'All' },
+];
+
+const TYPE_LABELS: Record<string, string> = {
+  phone: 'Phone',
+  user_id: 'User ID',
+  address_keyword: 'Address Keyword',
+  ip: 'IP',
+};
+
+const PAGE_SIZE = 25;
+
+export default async function AdminBlocklistPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; type?: string; status?: string; page?: string }>;
+}) {
+  const params = await searchParams;
+  const { q = '', type = '', status = 'active' } = params;
+  const page = Number(params.page) || 1;
+
+  const { entries, total, totalPages } = await getBlockedEntries({
+    search: q || undefined,
+    type: (type || undefined) as BlockedEntryType | undefined,
+    status: status as 'active' | 'expired' | 'all',
+    page,
+    perPage: PAGE_SIZE,
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Blocklist</h1>
+        <span className="text-sm text-gray-500">{total} entries</span>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Entries */}
+        <div className="xl:col-span-2 space-y-4">
+          {/* Filters */}
+          <form className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                name="q"
+                defaultValue={q}
+                placeholder="Search value…"
+                className="h-10 w-full rounded-lg border border-gray-300 bg-white pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+              />
+            </div>
+            <select
+              name="type"
+              defaultValue={type}
+              className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm"
+            >
+              <option value="">All types</option>
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input type="hidden" name="status" value={status} />
+            <button
+              type="submit"
+              className="h-10 px-4 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              Search
+            </button>
+          </form>
+
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map((f) => (
+              <Link
+                key={f.value}
+                href={`/admin/blocklist?${new URLSearchParams({
+                  ...(q ? { q } : {}),
+                  ...(type ? { type } : {}),
+                  status: f.value,
+                }).toString()}`}
+                className={`px-3.5 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                  status === f.value
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {f.label}
+              </Link>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl border overflow-hidden">
+            {entries.length === 0 ? (
+              <div className="py-16 text-center text-gray-400 text-sm">
+                No entries found.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-gray-50/50">
+                      <th className="text-left px-5 py-3 font-medium text-gray-500">Value</th>
+                      <th className="text-left px-5 py-3 font-medium text-gray-500">Severity</th>
+                      <th className="text-left px-5 py-3 font-medium text-gray-500">Reason</th>
+                      <th className="text-right px-5 py-3 font-medium text-gray-500">Expires</th>
+                      <th className="text-right px-5 py-3 font-medium text-gray-500">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry: any) => (
+                      <tr
+                        key={entry.id}
+                        className="border-b last:border-b-0 hover:bg-gray-50/50 transition-colors"
+                      >
+                        <td className="px-5 py-3">
+                          <p className="font-medium text-gray-900 break-all">{entry.value}</p>
+                          <p className="text-xs text-gray-400 mt-0.5">
+                            {TYPE_LABELS[entry.type] ?? entry.type}
+                          </p>
+                        </td>
+                        <td className="px-5 py-3">
+                          <Badge variant={entry.severity === 'hard_block' ? 'danger' : 'warning'}>
+                            {entry.severity.replace(/_/g, ' ')}
+                          </Badge>
+                        </td>
+                        <td className="px-5 py-3 text-gray-600">
+                          <p>{entry.reason || '—'}</p>
+                          {entry.creator && (
+                            <p className="text-xs text-gray-400 mt-0.5">
+                              by {entry.creator.email}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-5 py-3 text-right text-xs text-gray-500">
+                          {entry.expires_at
+                            ? new Date(entry.expires_at).toLocaleString()
+                            : 'Never'}
+                        </td>
+                        <td className="px-5 py-3 text-right">
+                          {entry.is_expired ? (
+                            <span className="text-xs text-gray-400">Expired</span>
+                          ) : (
+                            <ExpireButton entryId={entry.id} />
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <Pagination
+            currentPage={page}
+            totalPages={totalPages}
+            baseUrl="/admin/blocklist"
+            searchParams={{ q, type, status }}
+          />
+        </div>
+
+        {/* Forms */}
+        <div className="xl:col-span-1 space-y-6">
+          <EntryForm />
+          <ImportForm />
+        </div>
+      </div>
+    </div>
+  );
+}
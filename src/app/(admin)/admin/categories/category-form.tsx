@@ -4,12 +4,16 @@
  * CategoryForm — Client component for creating and editing categories.
  *
  * Usage:
- *   <CategoryForm />                          — renders inline "Add" form
- *   <CategoryForm editMode category={cat} />  — renders "Edit" button that shows modal
+ *   <CategoryForm parentOptions={opts} />                          — renders inline "Add" form
+ *   <CategoryForm editMode category={cat} parentOptions={opts} />  — renders "Edit" button that shows modal
+ *
+ * `parentOptions` are the categories this one may sit under (for an edit,
+ * excluding itself and its subcategories).
  */
 
 import { ImageUpload } from '@/components/ui/image-upload';
 import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { createCategory, updateCategory } from '@/server-actions/admin';
 import { Loader2, Pencil } from 'lucide-react';
@@ -19,9 +23,10 @@ import { useState, useTransition } from 'react';
 interface CategoryFormProps {
   editMode?: boolean;
   category?: any;
+  parentOptions: { value: string; label: string }[];
 }
 
-export function CategoryForm({ editMode = false, category }: CategoryFormProps) {
+export function CategoryForm({ editMode = false, category, parentOptions }: CategoryFormProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
@@ -32,11 +37,12 @@ export function CategoryForm({ editMode = false, category }: CategoryFormProps)
     slug: category?.slug ?? '',
     description: category?.description ?? '',
     image_url: category?.image_url ?? '',
+    parent_id: category?.parent_id ?? '',
     is_active: category?.is_active ?? true,
   });
 
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => {
@@ -68,6 +74,7 @@ export function CategoryForm({ editMode = false, category }: CategoryFormProps)
             slug: formData.slug,
             description: formData.description || null,
             image_url: formData.image_url || null,
+            parent_id: formData.parent_id || null,
             is_active: formData.is_active,
           });
           if (!result.success) {
@@ -81,6 +88,7 @@ export function CategoryForm({ editMode = false, category }: CategoryFormProps)
             slug: formData.slug,
             description: formData.description || undefined,
             image_url: formData.image_url || undefined,
+            parent_id: formData.parent_id || null,
           });
           if (!result.success) {
             setError(result.error || 'Failed to create category.');
@@ -92,6 +100,7 @@ export function CategoryForm({ editMode = false, category }: CategoryFormProps)
             slug: '',
             description: '',
             image_url: '',
+            parent_id: '',
             is_active: true,
           });
         }
@@ -130,6 +139,7 @@ export function CategoryForm({ editMode = false, category }: CategoryFormProps)
             handleSubmit={handleSubmit}
             submitLabel="Update Category"
             onCancel={() => setShowEdit(false)}
+            parentOptions={parentOptions}
           />
         </div>
       </div>
@@ -149,6 +159,7 @@ export function CategoryForm({ editMode = false, category }: CategoryFormProps)
         isPending={isPending}
         handleSubmit={handleSubmit}
         submitLabel="Create Category"
+        parentOptions={parentOptions}
       />
     </div>
   );
@@ -164,9 +175,10 @@ function FormFields({
   handleSubmit,
   submitLabel,
   onCancel,
+  parentOptions,
 }: {
   formData: any;
-  handleChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  handleChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
   handleImageChange: (url: string | null) => void;
   setFormData: any;
   error: string | null;
@@ -174,6 +186,7 @@ function FormFields({
   handleSubmit: (e: React.FormEvent) => void;
   submitLabel: string;
   onCancel?: () => void;
+  parentOptions: { value: string; label: string }[];
 }) {
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
@@ -199,6 +212,13 @@ function FormFields({
         onChange={handleChange}
         required
       />
+      <Select
+        label="Parent Category"
+        name="parent_id"
+        value={formData.parent_id}
+        onChange={handleChange}
+        options={[{ value: '', label: 'None (top level)' }, ...parentOptions]}
+      />
 
       {/* Image Upload with drag-and-drop */}
       <ImageUpload
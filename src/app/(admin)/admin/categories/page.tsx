@@ -1,9 +1,16 @@
 /**
  * Admin Categories Page — /admin/categories
- * Lists all categories with inline create/edit form.
+ * Lists all categories as a tree (subcategories indented under their
+ * parent) with inline create/edit form.
  * Server Component with client form.
  */
 
+import {
+  buildCategoryTree,
+  categorySelectOptions,
+  descendantIds,
+  flattenCategoryTree,
+} from '@/lib/categories';
 import { getAdminCategories } from '@/server-actions/admin';
 import { Metadata } from 'next';
 import Image from 'next/image';
@@ -15,6 +22,7 @@ export const metadata: Metadata = {
 
 export default async function AdminCategoriesPage() {
   const categories = await getAdminCategories();
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
 
   return (
     <div>
@@ -25,7 +33,7 @@ export default async function AdminCategoriesPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Category Form */}
         <div className="lg:col-span-1">
-          <CategoryForm />
+          <CategoryForm parentOptions={categorySelectOptions(categories)} />
         </div>
 
         {/* Category List */}
@@ -43,10 +51,11 @@ export default async function AdminCategoriesPage() {
               </div>
             ) : (
               <div className="divide-y">
-                {categories.map((cat: any) => (
+                {rows.map(({ category: cat, depth }) => (
                   <div
                     key={cat.id}
                     className="px-5 py-4 flex items-center gap-4 hover:bg-gray-50/50 transition-colors"
+                    style={depth > 0 ? { paddingLeft: `${1.25 + depth * 1.5}rem` } : undefined}
                   >
                     {/* Thumbnail */}
                     <div className="w-12 h-12 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0 relative">
@@ -72,6 +81,8 @@ export default async function AdminCategoriesPage() {
                       </p>
                       <p className="text-xs text-gray-500 mt-0.5">
                         Slug: {cat.slug}
+                        {cat.children.length > 0 &&
+                          ` · ${cat.children.length} subcategor${cat.children.length === 1 ? 'y' : 'ies'}`}
                       </p>
                     </div>
 
@@ -90,6 +101,7 @@ export default async function AdminCategoriesPage() {
                     <CategoryForm
                       editMode
                       category={cat}
+                      parentOptions={categorySelectOptions(categories, descendantIds(categories, cat.id))}
                     />
                   </div>
                 ))}
@@ -0,0 +1,35 @@
+/**
+ * Admin Delivery Page — /admin/delivery
+ * Edit zone-based delivery pricing: base fees, item/weight surcharges,
+ * free-delivery thresholds and the place names that map addresses to zones.
+ */
+
+import { getDeliveryZones } from '@/server-actions/delivery';
+import { Metadata } from 'next';
+import { ZoneForm } from './zone-form';
+
+export const metadata: Metadata = {
+  title: 'Delivery | Admin | Niihut',
+};
+
+export default async function AdminDeliveryPage() {
+  const zones = await getDeliveryZones();
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Delivery Pricing</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Addresses are matched against zones in priority order; unmatched addresses are
+          charged as Outside Dhaka. Changes apply to carts within a minute.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {zones.map((zone) => (
+          <ZoneForm key={zone.key} zone={zone} />
+        ))}
+      </div>
+    </div>
+  );
+}
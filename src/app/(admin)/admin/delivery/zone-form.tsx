@@ -0,0 +1,175 @@
+'use client';
+
+/**
+ * ZoneForm — Client component for editing one delivery zone's pricing.
+ */
+
+import { Input } from '@/components/ui/input';
+import type { DeliveryZone } from '@/lib/delivery-pricing';
+import { updateDeliveryZone } from '@/server-actions/delivery';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export function ZoneForm({ zone }: { zone: DeliveryZone }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: zone.name,
+    priority: String(zone.priority),
+    match_terms: zone.match_terms.join(', '),
+    base_fee: String(zone.base_fee),
+    included_items: String(zone.included_items),
+    per_item_fee: String(zone.per_item_fee),
+    included_weight_grams: String(zone.included_weight_grams),
+    per_kg_fee: String(zone.per_kg_fee),
+    free_delivery_threshold: zone.free_delivery_threshold === null ? '' : String(zone.free_delivery_threshold),
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setMessage(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    startTransition(async () => {
+      try {
+        const result = await updateDeliveryZone(zone.key, {
+          ...formData,
+          match_terms: formData.match_terms
+            .split(',')
+            .map((term) => term.trim())
+            .filter(Boolean),
+          free_delivery_threshold: formData.free_delivery_threshold.trim()
+            ? formData.free_delivery_threshold
+            : null,
+        });
+        if (!result.success) {
+          setError(result.error || 'Failed to save zone.');
+          return;
+        }
+        setMessage('Saved.');
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">{zone.name}</h2>
+        <p className="text-xs text-gray-400">{zone.key}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <Input label="Name" name="name" value={formData.name} onChange={handleChange} required />
+        <Input
+          label="Priority"
+          name="priority"
+          type="number"
+          min="0"
+          value={formData.priority}
+          onChange={handleChange}
+        />
+      </div>
+
+      {zone.key !== 'outside_dhaka' && (
+        <Input
+          label="Matching Places (comma separated)"
+          name="match_terms"
+          placeholder="e.g. savar, gazipur"
+          value={formData.match_terms}
+          onChange={handleChange}
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          label="Base Fee (৳)"
+          name="base_fee"
+          type="number"
+          min="0"
+          value={formData.base_fee}
+          onChange={handleChange}
+          required
+        />
+        <Input
+          label="Free Delivery From (৳)"
+          name="free_delivery_threshold"
+          type="number"
+          min="0"
+          placeholder="Never"
+          value={formData.free_delivery_threshold}
+          onChange={handleChange}
+        />
+        <Input
+          label="Items Included"
+          name="included_items"
+          type="number"
+          min="1"
+          value={formData.included_items}
+          onChange={handleChange}
+        />
+        <Input
+          label="Per Extra Item (৳)"
+          name="per_item_fee"
+          type="number"
+          min="0"
+          value={formData.per_item_fee}
+          onChange={handleChange}
+        />
+        <Input
+          label="Weight Included (g)"
+          name="included_weight_grams"
+          type="number"
+          min="0"
+          value={formData.included_weight_grams}
+          onChange={handleChange}
+        />
+        <Input
+          label="Per Extra kg (৳)"
+          name="per_kg_fee"
+          type="number"
+          min="0"
+          value={formData.per_kg_fee}
+          onChange={handleChange}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="w-full flex items-center justify-center gap-2 bg-gray-900 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Saving…
+          </>
+        ) : (
+          'Save Zone'
+        )}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+/**
+ * BalanceButton — Fetches a courier's current balance and records it.
+ */
+
+import type { CourierProviderName } from '@/lib/courier/types';
+import { getCourierBalance } from '@/server-actions/shipments';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+export function BalanceButton({ provider }: { provider: CourierProviderName }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRefresh = () => {
+    startTransition(async () => {
+      try {
+        const result = await getCourierBalance(provider);
+        if (!result.success) {
+          alert(result.error || 'Balance check failed');
+          return;
+        }
+        router.refresh();
+      } catch (err) {
+        console.error('Balance check failed:', err);
+      }
+    });
+  };
+
+  return (
+    <button
+      onClick={handleRefresh}
+      disabled={isPending}
+      aria-label="Refresh balance"
+      className="p-1.5 text-gray-400 hover:text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+    >
+      {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+    </button>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * Admin Finance Page — /admin/finance
+ * COD collected by couriers: outstanding, settled and disputed amounts,
+ * courier balances against what we are owed, payment statement imports,
+ * and the per-shipment settlement list.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Pagination } from '@/components/ui/pagination';
+import { COURIER_PROVIDER_LABELS } from '@/lib/courier/types';
+import type { CodSettlementStatus } from '@/types/db';
+import { getSettlementOverview, getSettlements } from '@/server-actions/settlements';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { BalanceButton } from './balance-button';
+import { ResolveButton } from './resolve-button';
+import { StatementImportForm } from './statement-import-form';
+
+export const metadata: Metadata = {
+  title: 'Finance | Admin | Niihut',
+};
+
+const STATUS_FILTERS: { value: CodSettlementStatus | ''; label: string }[] = [
+  { value: 'outstanding', label: 'Outstanding' },
+  { value: 'disputed', label: 'Disputed' },
+  { value: 'settled', label: 'Settled' },
+  { value: 'pending', label: 'In Transit' },
+  { value: 'void', label: 'Void' },
+  { value: '', label: 'All' },
+];
+
+const STATUS_VARIANTS: Record<CodSettlementStatus, 'pending' | 'info' | 'success' | 'danger' | 'default'> = {
+  pending: 'pending',
+  outstanding: 'info',
+  settled: 'success',
+  disputed: 'danger',
+  void: 'default',
+};
+
+const PROVIDER_OPTIONS = Object.entries(COURIER_PROVIDER_LABELS).map(([value, label]) => ({
+  value,
+  label,
+}));
+
+const PAGE_SIZE = 25;
+
+const taka = (amount: number) => `৳${amount.toLocaleString()}`;
+
+export default async function AdminFinancePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; provider?: string; page?: string }>;
+}) {
+  const params = await searchParams;
+  const { status = 'outstanding', provider = '' } = params;
+  const page = Number(params.page) || 1;
+
+  const [{ totals, balances, payouts }, { settlements, totalPages }] = await Promise.all([
+    getSettlementOverview(),
+    getSettlements({
+      status: (status || undefined) as CodSettlementStatus | undefined,
+      provider: provider || undefined,
+      page,
+      perPage: PAGE_SIZE,
+    }),
+  ]);
+
+  const summaryCards = [
+    {
+      label: 'Outstanding',
+      value: taka(totals.outstanding.expected),
+      detail: `${totals.outstanding.count} delivered, awaiting payout`,
+    },
+    {
+      label: 'Settled',
+      value: taka(totals.settled.collected),
+      detail: `${totals.settled.count} parcels paid out`,
+    },
+    {
+      label: 'Disputed',
+      value: taka(totals.disputed.expected - totals.disputed.collected),
+      detail: `${totals.disputed.count} parcels short or over`,
+    },
+    {
+      label: 'In Transit',
+      value: taka(totals.pending.expected),
+      detail: `${totals.pending.count} parcels not yet delivered`,
+    },
+  ];
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Finance</h1>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        {summaryCards.map((card) => (
+          <div key={card.label} className="bg-white rounded-xl border p-5">
+            <p className="text-sm font-medium text-gray-500 mb-3">{card.label}</p>
+            <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+            <p className="text-xs text-gray-400 mt-1">{card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Settlements */}
+        <div className="xl:col-span-2 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map((f) => (
+              <Link
+                key={f.value}
+                href={`/admin/finance?${new URLSearchParams({
+                  status: f.value,
+                  ...(provider ? { provider } : {}),
+                }).toString()}`}
+                className={`px-3.5 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                  status === f.value
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {f.label}
+              </Link>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl border overflow-hidden">
+            {settlements.length === 0 ? (
+              <div className="py-16 text-center text-gray-400 text-sm">
+                No settlements found.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-gray-50/50">
+                      <th className="text-left px-5 py-3 font-medium text-gray-500">Order</th>
+                      <th className="text-left px-5 py-3 font-medium text-gray-500">Status</th>
+                      <th className="text-right px-5 py-3 font-medium text-gray-500">Expected</th>
+                      <th className="text-right px-5 py-3 font-medium text-gray-500">Collected</th>
+                      <th className="text-right px-5 py-3 font-medium text-gray-500">Charges</th>
+                      <th className="text-right px-5 py-3 font-medium text-gray-500">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {settlements.map((s: any) => (
+                      <tr
+                        key={s.id}
+                        className="border-b last:border-b-0 hover:bg-gray-50/50 transition-colors"
+                      >
+                        <td className="px-5 py-3">
+                          <p className="font-mono text-xs text-gray-900">#{s.order_id.slice(0, 8)}</p>
+                          <p className="text-xs text-gray-400 mt-0.5">
+                            {COURIER_PROVIDER_LABELS[s.provider as keyof typeof COURIER_PROVIDER_LABELS] ??
+                              s.provider}{' '}
+                            · {s.shipment?.consignment_id ?? '—'}
+                          </p>
+                        </td>
+                        <td className="px-5 py-3">
+                          <Badge variant={STATUS_VARIANTS[s.status as CodSettlementStatus] ?? 'default'}>
+                            {s.status}
+                          </Badge>
+                          {s.dispute_reason && (
+                            <p className="text-xs text-gray-500 mt-1">{s.dispute_reason}</p>
+                          )}
+                          {s.payout?.reference && (
+                            <p className="text-xs text-gray-400 mt-0.5">Payout {s.payout.reference}</p>
+                          )}
+                        </td>
+                        <td className="px-5 py-3 text-right">{taka(Number(s.expected_amount))}</td>
+                        <td className="px-5 py-3 text-right">
+                          {s.collected_amount != null ? taka(Number(s.collected_amount)) : '—'}
+                        </td>
+                        <td className="px-5 py-3 text-right text-gray-500">
+                          {s.charge_amount != null ? taka(Number(s.charge_amount)) : '—'}
+                        </td>
+                        <td className="px-5 py-3 text-right">
+                          {s.status === 'disputed' && <ResolveButton settlementId={s.id} />}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <Pagination
+            currentPage={page}
+            totalPages={totalPages}
+            baseUrl="/admin/finance"
+            searchParams={{ status, provider }}
+          />
+        </div>
+
+        {/* Balances, payouts, import */}
+        <div className="xl:col-span-1 space-y-6">
+          <div className="bg-white rounded-xl border p-6">
+            <h2 className="font-semibold text-gray-900 mb-4">Courier Balances</h2>
+            <div className="space-y-3">
+              {balances.map((b) => (
+                <div key={b.provider} className="flex items-start justify-between gap-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{COURIER_PROVIDER_LABELS[b.provider]}</p>
+                    <p className="text-xs text-gray-500">
+                      Balance {b.snapshot ? taka(Number(b.snapshot.balance)) : '—'} · Owed{' '}
+                      {taka(b.outstanding)}
+                    </p>
+                    {b.snapshot && (
+                      <p className="text-xs text-gray-400">
+                        Checked {new Date(b.snapshot.fetched_at).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  <BalanceButton provider={b.provider} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border p-6">
+            <h2 className="font-semibold text-gray-900 mb-4">Recent Payouts</h2>
+            {payouts.length === 0 ? (
+              <p className="text-sm text-gray-400">No payment statements imported yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {payouts.map((p: any) => (
+                  <div key={p.id} className="flex items-start justify-between gap-2 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{p.reference}</p>
+                      <p className="text-xs text-gray-500">
+                        {COURIER_PROVIDER_LABELS[p.provider as keyof typeof COURIER_PROVIDER_LABELS] ??
+                          p.provider}{' '}
+                        · {new Date(p.paid_at).toLocaleDateString()} · {p.matched_count} matched
+                        {p.unmatched_count > 0 && `, ${p.unmatched_count} unmatched`}
+                      </p>
+                    </div>
+                    <p className="font-medium text-gray-900">{taka(Number(p.net_amount))}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <StatementImportForm providerOptions={PROVIDER_OPTIONS} />
+        </div>
+      </div>
+    </div>
+  );
+}
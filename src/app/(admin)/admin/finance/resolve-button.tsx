@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * ResolveButton — Marks a disputed COD settlement as settled, with a note.
+ */
+
+import { resolveSettlementDispute } from '@/server-actions/settlements';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+export function ResolveButton({ settlementId }: { settlementId: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleResolve = () => {
+    const note = prompt('Resolution note (e.g. partial delivery confirmed):');
+    if (note === null) return;
+
+    startTransition(async () => {
+      try {
+        const result = await resolveSettlementDispute(settlementId, note);
+        if (!result.success) {
+          alert(result.error || 'Failed to resolve dispute');
+          return;
+        }
+        router.refresh();
+      } catch (err) {
+        console.error('Resolve dispute failed:', err);
+      }
+    });
+  };
+
+  if (isPending) {
+    return <Loader2 className="w-4 h-4 animate-spin text-gray-400 ml-auto" />;
+  }
+
+  return (
+    <button
+      onClick={handleResolve}
+      className="px-2.5 py-1 bg-green-50 text-green-700 text-xs font-medium rounded-md hover:bg-green-100 transition-colors"
+    >
+      Resolve
+    </button>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+/**
+ * StatementImportForm — Client component for importing a courier payment
+ * statement (CSV with a header row) against outstanding COD.
+ */
+
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { importCourierStatement } from '@/server-actions/settlements';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+const EMPTY_FORM = {
+  provider: 'steadfast',
+  reference: '',
+  paidAt: '',
+  csv: '',
+};
+
+export function StatementImportForm({
+  providerOptions,
+}: {
+  providerOptions: { value: string; label: string }[];
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [result, setResult] = useState<{
+    settled: number;
+    disputed: number;
+    alreadySettled: number;
+    unmatched: { line: number; consignmentId: string }[];
+    errors: { line: number; error: string }[];
+  } | null>(null);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setResult(null);
+
+    startTransition(async () => {
+      try {
+        const res = await importCourierStatement({
+          provider: formData.provider as any,
+          reference: formData.reference,
+          paidAt: formData.paidAt,
+          csv: formData.csv,
+        });
+        if (!res.success || !('settled' in res)) {
+          setError(res.error || 'Import failed.');
+          return;
+        }
+        setResult(res);
+        setFormData(EMPTY_FORM);
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold text-gray-900 mb-1">Import Payment Statement</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Paste the courier&apos;s CSV export. The header must include{' '}
+        <code>Consignment ID</code> and <code>COD Amount</code>; <code>Invoice</code>,{' '}
+        <code>Delivery Charge</code> and <code>COD Charge</code> are used when present.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+        {result && (
+          <div className="bg-gray-50 border rounded-lg p-3 text-sm text-gray-700 space-y-1">
+            <p>
+              Settled {result.settled} · Disputed {result.disputed}
+              {result.alreadySettled > 0 && ` · Already settled ${result.alreadySettled}`}
+            </p>
+            {result.unmatched.map((row) => (
+              <p key={row.line} className="text-yellow-700">
+                Line {row.line}: no shipment for consignment {row.consignmentId}
+              </p>
+            ))}
+            {result.errors.map((err) => (
+              <p key={err.line} className="text-red-600">
+                Line {err.line}: {err.error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <Select
+          label="Courier"
+          name="provider"
+          value={formData.provider}
+          onChange={handleChange}
+          options={providerOptions}
+        />
+        <Input
+          label="Payment Reference"
+          name="reference"
+          placeholder="e.g. Steadfast payment ID"
+          value={formData.reference}
+          onChange={handleChange}
+          required
+        />
+        <Input
+          label="Paid On"
+          name="paidAt"
+          type="date"
+          value={formData.paidAt}
+          onChange={handleChange}
+          required
+        />
+        <Textarea
+          name="csv"
+          placeholder={'Consignment ID,Invoice,COD Amount,Delivery Charge\n1234567,…,1250,60'}
+          value={formData.csv}
+          onChange={handleChange}
+          rows={8}
+          className="font-mono text-xs"
+        />
+
+        <button
+          type="submit"
+          disabled={isPending || !formData.csv.trim() || !formData.reference || !formData.paidAt}
+          className="w-full flex items-center justify-center gap-2 bg-gray-900 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Importing…
+            </>
+          ) : (
+            'Import Statement'
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
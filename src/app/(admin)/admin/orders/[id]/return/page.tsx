@@ -0,0 +1,135 @@
+/**
+ * Order Return Page — /admin/orders/[id]/return
+ * Records a return or refusal for an order with a reason code, the return
+ * delivery charge and which items go back into stock. Once recorded, shows
+ * the return and lets the remaining items be restocked.
+ */
+
+import { Badge, StatusBadge } from '@/components/ui/badge';
+import { COURIER_PROVIDER_LABELS, type CourierProviderName } from '@/lib/courier/types';
+import { RETURN_REASONS, type ReturnReasonCode } from '@/lib/returns';
+import { getOrderForReturn } from '@/server-actions/returns';
+import { ChevronRight } from 'lucide-react';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { RestockForm } from './restock-form';
+import { ReturnForm } from './return-form';
+
+export const metadata: Metadata = {
+  title: 'Order Return | Admin | Niihut',
+};
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+const taka = (amount: number) => `৳${amount.toLocaleString()}`;
+
+export default async function OrderReturnPage({ params }: Props) {
+  const { id } = await params;
+  const data = await getOrderForReturn(id);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { order, orderReturn, released } = data as { order: any; orderReturn: any; released: any[] };
+  const customer = order.user
+    ? [order.user.first_name, order.user.last_name].filter(Boolean).join(' ') || order.user.email
+    : 'Guest';
+
+  const items = (order.items ?? []).map((item: any) => ({
+    id: item.id,
+    name: [item.product?.name ?? 'Deleted product', item.variant_label].filter(Boolean).join(' — '),
+    quantity: item.quantity,
+    inventory: item.variant?.inventory ?? item.product?.inventory ?? null,
+    restocked:
+      (orderReturn?.items ?? []).find((r: any) => r.order_item_id === item.id)?.quantity ?? 0,
+    released: released
+      .filter((m) => m.product_id === item.product_id && m.variant_id === item.variant_id)
+      .reduce((sum, m) => sum + m.quantity_change, 0),
+  }));
+
+  return (
+    <div className="max-w-3xl">
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-1.5 text-sm text-gray-400 mb-6">
+        <Link href="/admin/orders" className="hover:text-gray-600 transition-colors">
+          Orders
+        </Link>
+        <ChevronRight className="w-3.5 h-3.5" />
+        <span className="font-mono">#{order.id.slice(0, 8)}</span>
+        <ChevronRight className="w-3.5 h-3.5" />
+        <span className="text-gray-700 font-medium">Return</span>
+      </nav>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">
+        {orderReturn ? 'Order Return' : 'Record Return or Refusal'}
+      </h1>
+
+      {/* Order summary */}
+      <div className="bg-white rounded-xl border p-6 mb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-sm space-y-1">
+            <p className="font-medium text-gray-900">{customer}</p>
+            <p className="text-gray-500">{order.phone_number ?? '—'}</p>
+            {order.shipment && (
+              <p className="text-gray-500">
+                {COURIER_PROVIDER_LABELS[order.shipment.provider as CourierProviderName] ??
+                  order.shipment.provider}{' '}
+                · {order.shipment.consignment_id}
+              </p>
+            )}
+            {order.user && (
+              <p className="text-xs text-gray-400">
+                {order.user.refused_orders ?? 0} refused · {order.user.returned_orders ?? 0} returned
+                before
+              </p>
+            )}
+          </div>
+          <div className="text-right">
+            <StatusBadge status={order.status} />
+            <p className="text-lg font-bold text-gray-900 mt-2">{taka(Number(order.total_amount))}</p>
+          </div>
+        </div>
+      </div>
+
+      {orderReturn ? (
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl border p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Badge variant={orderReturn.outcome === 'refused' ? 'danger' : 'warning'}>
+                {orderReturn.outcome}
+              </Badge>
+              <span className="text-sm font-medium text-gray-900">
+                {RETURN_REASONS[orderReturn.reason_code as ReturnReasonCode] ?? orderReturn.reason_code}
+              </span>
+            </div>
+            <dl className="grid grid-cols-2 gap-y-2 text-sm">
+              <dt className="text-gray-500">Recorded</dt>
+              <dd className="text-gray-900">
+                {new Date(orderReturn.created_at).toLocaleString()}
+                {orderReturn.source === 'courier' && ' (courier)'}
+              </dd>
+              <dt className="text-gray-500">Return fee</dt>
+              <dd className="text-gray-900">{taka(Number(orderReturn.return_fee))}</dd>
+              <dt className="text-gray-500">Restocked</dt>
+              <dd className="text-gray-900">{orderReturn.restocked_units} units</dd>
+            </dl>
+            {orderReturn.notes && <p className="text-sm text-gray-600 mt-4">{orderReturn.notes}</p>}
+          </div>
+
+          <RestockForm returnId={orderReturn.id} items={items} />
+        </div>
+      ) : (
+        <ReturnForm
+          orderId={order.id}
+          items={items}
+          defaultFee={Number(order.shipment?.delivery_fee ?? order.delivery_fee ?? 0)}
+          defaultOutcome={order.status === 'refused' ? 'refused' : 'returned'}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * RestockForm — Client component for putting more of a returned order's
+ * items back into stock after the return was recorded.
+ */
+
+import { restockReturn } from '@/server-actions/returns';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+import { restockable, type ReturnLineItem } from './return-form';
+
+export function RestockForm({ returnId, items }: { returnId: string; items: ReturnLineItem[] }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [restock, setRestock] = useState<Record<string, number>>({});
+
+  const hasRemaining = items.some((item) => restockable(item) > 0);
+  const selected = Object.values(restock).reduce((sum, quantity) => sum + quantity, 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      try {
+        const res = await restockReturn(
+          returnId,
+          Object.entries(restock).map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+        );
+        if (!res.success) {
+          setError(res.error || 'Failed to restock items.');
+          return;
+        }
+        setRestock({});
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 space-y-4">
+      <h2 className="font-semibold text-gray-900">Items</h2>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="border rounded-lg divide-y">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-4 px-4 py-2.5 text-sm">
+            <div>
+              <p className="text-gray-900">{item.name}</p>
+              <p className="text-xs text-gray-400">
+                Restocked {item.restocked} of {item.quantity}
+                {item.released > 0 && ` · ${item.released} released on cancel`}
+                {item.inventory !== null && ` · ${item.inventory} in stock`}
+              </p>
+            </div>
+            {restockable(item) > 0 && (
+              <input
+                type="number"
+                min={0}
+                max={restockable(item)}
+                value={restock[item.id] ?? 0}
+                onChange={(e) =>
+                  setRestock((prev) => ({
+                    ...prev,
+                    [item.id]: Math.min(restockable(item), Math.max(0, Number(e.target.value) || 0)),
+                  }))
+                }
+                aria-label={`Units of ${item.name} to restock`}
+                className="w-20 h-9 px-2 border border-gray-300 rounded-lg text-sm text-right"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {hasRemaining && (
+        <button
+          type="submit"
+          disabled={isPending || selected === 0}
+          className="w-full flex items-center justify-center gap-2 bg-gray-900 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Restocking…
+            </>
+          ) : (
+            `Restock ${selected} unit${selected === 1 ? '' : 's'}`
+          )}
+        </button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+/**
+ * ReturnForm — Client component for marking an order returned or refused,
+ * with a reason code, the return delivery charge and per-line restocking.
+ */
+
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { RETURN_REASONS, type ReturnReasonCode } from '@/lib/returns';
+import { recordReturn } from '@/server-actions/returns';
+import type { ReturnOutcome } from '@/types/db';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export interface ReturnLineItem {
+  id: string;
+  name: string;
+  quantity: number;
+  inventory: number | null;
+  restocked: number;
+  /** Units already back in stock from the order's cancellation */
+  released: number;
+}
+
+/** Units that can still go back into stock. */
+export const restockable = (item: ReturnLineItem) =>
+  Math.max(0, item.quantity - item.released - item.restocked);
+
+const OUTCOME_OPTIONS = [
+  { value: 'returned', label: 'Returned to us' },
+  { value: 'refused', label: 'Refused by customer' },
+];
+
+const REASON_OPTIONS = Object.entries(RETURN_REASONS).map(([value, label]) => ({ value, label }));
+
+export function ReturnForm({
+  orderId,
+  items,
+  defaultFee,
+  defaultOutcome,
+}: {
+  orderId: string;
+  items: ReturnLineItem[];
+  defaultFee: number;
+  defaultOutcome: ReturnOutcome;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    outcome: defaultOutcome as string,
+    reasonCode: (defaultOutcome === 'refused' ? 'customer_refused' : 'courier_returned') as string,
+    returnFee: String(defaultFee),
+    notes: '',
+  });
+  // Returned parcels usually come back complete, so every line starts fully restocked
+  const [restock, setRestock] = useState<Record<string, number>>(
+    Object.fromEntries(items.map((item) => [item.id, restockable(item)]))
+  );
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      try {
+        const res = await recordReturn({
+          orderId,
+          outcome: formData.outcome as ReturnOutcome,
+          reasonCode: formData.reasonCode as ReturnReasonCode,
+          notes: formData.notes || undefined,
+          returnFee: Number(formData.returnFee) || 0,
+          restock: Object.entries(restock).map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        });
+        if (!res.success) {
+          setError(res.error || 'Failed to record return.');
+          return;
+        }
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Select
+          label="Outcome"
+          name="outcome"
+          value={formData.outcome}
+          onChange={handleChange}
+          options={OUTCOME_OPTIONS}
+        />
+        <Select
+          label="Reason"
+          name="reasonCode"
+          value={formData.reasonCode}
+          onChange={handleChange}
+          options={REASON_OPTIONS}
+        />
+      </div>
+
+      <Input
+        label="Return Delivery Fee (৳)"
+        name="returnFee"
+        type="number"
+        min="0"
+        step="0.01"
+        value={formData.returnFee}
+        onChange={handleChange}
+      />
+
+      <Textarea
+        name="notes"
+        placeholder="Notes (optional)"
+        value={formData.notes}
+        onChange={handleChange}
+        rows={3}
+      />
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Restock</p>
+        <div className="border rounded-lg divide-y">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center justify-between gap-4 px-4 py-2.5 text-sm">
+              <div>
+                <p className="text-gray-900">{item.name}</p>
+                <p className="text-xs text-gray-400">
+                  Ordered {item.quantity}
+                  {item.released > 0 && ` · ${item.released} released on cancel`}
+                  {item.inventory !== null && ` · ${item.inventory} in stock`}
+                </p>
+              </div>
+              <input
+                type="number"
+                min={0}
+                max={restockable(item)}
+                value={restock[item.id] ?? 0}
+                onChange={(e) =>
+                  setRestock((prev) => ({
+                    ...prev,
+                    [item.id]: Math.min(restockable(item), Math.max(0, Number(e.target.value) || 0)),
+                  }))
+                }
+                aria-label={`Units of ${item.name} to restock`}
+                className="w-20 h-9 px-2 border border-gray-300 rounded-lg text-sm text-right"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-1.5">
+          Set a line to 0 to keep damaged or missing units out of stock.
+        </p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="w-full flex items-center justify-center gap-2 bg-gray-900 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Saving…
+          </>
+        ) : (
+          'Record Return'
+        )}
+      </button>
+    </form>
+  );
+}
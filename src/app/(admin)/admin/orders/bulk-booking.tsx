@@ -0,0 +1,148 @@
+'use client';
+
+/**
+ * BulkBooking — "Book selected" toolbar for /admin/orders.
+ * Row checkboxes are rendered by the server page and attached to this form
+ * via their `form` attribute; submitting books every checked bookable order
+ * (marked `data-bookable`) with the chosen courier through bookParcels and
+ * shows the per-order results.
+ */
+
+import type { BulkBookingSummary } from '@/lib/courier/shipments';
+import { COURIER_PROVIDER_LABELS, type CourierProviderName } from '@/lib/courier/types';
+import { bookParcels } from '@/server-actions/shipments';
+import { Loader2, Truck } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export function BulkBooking({
+  formId,
+  bookableCount,
+}: {
+  formId: string;
+  bookableCount: number;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [courier, setCourier] = useState<CourierProviderName>('steadfast');
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<BulkBookingSummary | null>(null);
+
+  const checkboxes = () =>
+    Array.from(
+      document.querySelectorAll<HTMLInputElement>(
+        `input[type="checkbox"][form="${formId}"][data-bookable]`
+      )
+    );
+
+  const toggleAll = () => {
+    const boxes = checkboxes();
+    const allChecked = boxes.every((box) => box.checked);
+    boxes.forEach((box) => {
+      box.checked = !allChecked;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const orderIds = checkboxes()
+      .filter((box) => box.checked)
+      .map((box) => box.value);
+
+    if (orderIds.length === 0) {
+      setError('Select at least one confirmed order.');
+      return;
+    }
+    const label = COURIER_PROVIDER_LABELS[courier];
+    if (!confirm(`Book ${orderIds.length} parcel(s) with ${label}?`)) return;
+
+    setError(null);
+    setSummary(null);
+    startTransition(async () => {
+      try {
+        const result = await bookParcels(orderIds, courier);
+        if (!result.success || !('results' in result)) {
+          setError(result.error || 'Bulk booking failed.');
+          return;
+        }
+        setSummary(result);
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  const failures = summary?.results.filter((r) => !r.success) ?? [];
+
+  return (
+    <div className="mb-4 space-y-3">
+      <form
+        id={formId}
+        onSubmit={handleSubmit}
+        className="flex flex-wrap items-center gap-2 bg-white rounded-xl border px-4 py-3"
+      >
+        <span className="text-sm text-gray-600 mr-auto">
+          {bookableCount} confirmed order{bookableCount !== 1 ? 's' : ''} ready to book
+        </span>
+        <button
+          type="button"
+          onClick={toggleAll}
+          disabled={isPending}
+          className="h-9 px-3 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          Select All
+        </button>
+        <select
+          value={courier}
+          onChange={(e) => setCourier(e.target.value as CourierProviderName)}
+          aria-label="Courier"
+          className="h-9 px-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white"
+        >
+          {Object.entries(COURIER_PROVIDER_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isPending}
+          className="flex items-center gap-1.5 h-9 px-3.5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-60"
+        >
+          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Truck className="w-4 h-4" />}
+          Book Selected
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {summary && (
+        <div
+          className={`rounded-lg p-3 text-sm border ${
+            failures.length === 0
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}
+        >
+          <p className="font-medium">
+            Booked {summary.booked} · Failed {summary.failed} · Skipped {summary.skipped}
+          </p>
+          {failures.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs">
+              {failures.map((r) => (
+                <li key={r.orderId}>
+                  #{r.orderId.slice(0, 8)}: {r.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
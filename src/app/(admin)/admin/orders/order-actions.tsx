@@ -2,23 +2,31 @@
 
 /**
  * OrderActions — Client component for admin order management actions.
- * Provides Confirm, Ship, Cancel, and Check Status buttons based on order state.
+ * Provides Confirm, Ship (books a parcel with the selected courier), Cancel,
+ * Check Status, Label (print) and Return buttons based on order state.
  */
 
-import { cancelOrder, confirmOrder, updateOrderStatus } from '@/server-actions/admin';
-import { checkParcelStatus } from '@/server-actions/steadfast';
+import { COURIER_PROVIDER_LABELS, type CourierProviderName } from '@/lib/courier/types';
+import { canTransition } from '@/lib/order-state-machine';
+import { cancelOrder, confirmOrder } from '@/server-actions/admin';
+import { bookParcel, checkParcelStatus } from '@/server-actions/shipments';
 import { Loader2 } from 'lucide-react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useTransition } from 'react';
+import { useState, useTransition } from 'react';
 
 export function OrderActions({ order }: { order: any }) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
+  const [courier, setCourier] = useState<CourierProviderName>('steadfast');
 
   const handleAction = (action: () => Promise<any>) => {
     startTransition(async () => {
       try {
-        await action();
+        const result = await action();
+        if (result && result.success === false) {
+          alert(result.error || 'Action failed.');
+        }
         router.refresh();
       } catch (err) {
         console.error('Order action failed:', err);
@@ -37,7 +45,7 @@ export function OrderActions({ order }: { order: any }) {
   return (
     <div className="flex items-center justify-end gap-1.5">
       {/* Confirm */}
-      {(order.status === 'pending' || order.status === 'pending_confirmation') && (
+      {canTransition(order.status, 'confirmed') && (
         <button
           onClick={() => handleAction(() => confirmOrder(order.id))}
           className="px-2.5 py-1 bg-green-50 text-green-700 text-xs font-medium rounded-md hover:bg-green-100 transition-colors"
@@ -46,12 +54,24 @@ export function OrderActions({ order }: { order: any }) {
         </button>
       )}
 
-      {/* Ship (mark as shipped) */}
-      {order.status === 'confirmed' && (
+      {/* Ship (book courier parcel) */}
+      {order.status === 'confirmed' && !order.shipment && (
+        <select
+          value={courier}
+          onChange={(e) => setCourier(e.target.value as CourierProviderName)}
+          aria-label="Courier"
+          className="h-6 px-1.5 border border-gray-200 rounded-md text-xs text-gray-700 bg-white"
+        >
+          {Object.entries(COURIER_PROVIDER_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+      {order.status === 'confirmed' && !order.shipment && (
         <button
-          onClick={() =>
-            handleAction(() => updateOrderStatus(order.id, 'shipped'))
-          }
+          onClick={() => handleAction(() => bookParcel(order.id, courier))}
           className="px-2.5 py-1 bg-blue-50 text-blue-700 text-xs font-medium rounded-md hover:bg-blue-100 transition-colors"
         >
           Ship
@@ -59,7 +79,7 @@ export function OrderActions({ order }: { order: any }) {
       )}
 
       {/* Check Status */}
-      {order.tracking_number && order.status === 'shipped' && (
+      {order.shipment && order.status === 'shipped' && (
         <button
           onClick={() =>
             handleAction(() => checkParcelStatus(order.id))
@@ -70,8 +90,30 @@ export function OrderActions({ order }: { order: any }) {
         </button>
       )}
 
+      {/* Print label */}
+      {order.shipment?.label_url && (
+        <a
+          href={order.shipment.label_url}
+          target="_blank"
+          rel="noopener"
+          className="px-2.5 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+        >
+          Label
+        </a>
+      )}
+
+      {/* Return / refusal */}
+      {['shipped', 'delivered', 'returned', 'refused'].includes(order.status) && (
+        <Link
+          href={`/admin/orders/${order.id}/return`}
+          className="px-2.5 py-1 bg-orange-50 text-orange-700 text-xs font-medium rounded-md hover:bg-orange-100 transition-colors"
+        >
+          {['returned', 'refused'].includes(order.status) ? 'Restock' : 'Return'}
+        </Link>
+      )}
+
       {/* Cancel */}
-      {!['delivered', 'cancelled', 'returned'].includes(order.status) && (
+      {canTransition(order.status, 'cancelled') && (
         <button
           onClick={() => handleAction(() => cancelOrder(order.id))}
           className="px-2.5 py-1 bg-red-50 text-red-700 text-xs font-medium rounded-md hover:bg-red-100 transition-colors"
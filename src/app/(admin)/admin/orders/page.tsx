@@ -1,15 +1,21 @@
 /**
  * Admin Orders Page — /admin/orders
  * Lists all orders with status filtering, pagination, and action buttons.
+ * Selected orders can be booked with a courier in bulk (confirmed ones) or
+ * have their shipping labels and packing slips printed.
  */
 
 import { StatusBadge } from '@/components/ui/badge';
 import { Pagination } from '@/components/ui/pagination';
+import { COURIER_PROVIDER_LABELS, type CourierProviderName } from '@/lib/courier/types';
 import { getAdminOrders } from '@/server-actions/admin';
 import type { OrderStatus } from '@/types/db';
+import { ShieldAlert } from 'lucide-react';
 import { Metadata } from 'next';
 import Link from 'next/link';
+import { BulkBooking } from './bulk-booking';
 import { OrderActions } from './order-actions';
+import { PrintSelected } from './print-selected';
 
 export const metadata: Metadata = {
   title: 'Orders | Admin | Niihut',
@@ -19,13 +25,19 @@ const STATUS_FILTERS = [
   { value: '', label: 'All' },
   { value: 'pending', label: 'Pending' },
   { value: 'pending_confirmation', label: 'Needs Confirmation' },
+  { value: 'flagged_for_review', label: 'Flagged' },
   { value: 'confirmed', label: 'Confirmed' },
   { value: 'shipped', label: 'Shipped' },
   { value: 'delivered', label: 'Delivered' },
   { value: 'cancelled', label: 'Cancelled' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'refused', label: 'Refused' },
 ];
 
 const PAGE_SIZE = 20;
+// The confirmed view lists a whole dispatch run so it can be booked at once
+const DISPATCH_PAGE_SIZE = 200;
+const ORDER_SELECTION_FORM_ID = 'order-selection-form';
 
 export default async function AdminOrdersPage({
   searchParams,
@@ -35,20 +47,32 @@ export default async function AdminOrdersPage({
   const params = await searchParams;
   const { status = '' } = params;
   const page = Number(params.page) || 1;
+  const pageSize = status === 'confirmed' ? DISPATCH_PAGE_SIZE : PAGE_SIZE;
 
   const { orders, total } = await getAdminOrders({
     status: (status || undefined) as OrderStatus | undefined,
     page,
-    perPage: PAGE_SIZE,
+    perPage: pageSize,
   });
 
-  const totalPages = Math.ceil((total ?? 0) / PAGE_SIZE);
+  const totalPages = Math.ceil((total ?? 0) / pageSize);
+  const isBookable = (order: any) => order.status === 'confirmed' && !order.shipment;
+  const bookableCount = (orders ?? []).filter(isBookable).length;
 
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Orders</h1>
-        <span className="text-sm text-gray-500">{total ?? 0} total</span>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-500">{total ?? 0} total</span>
+          <Link
+            href="/admin/orders/review"
+            className="flex items-center gap-1.5 px-3.5 py-2 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            <ShieldAlert className="w-4 h-4" />
+            Review Queue
+          </Link>
+        </div>
       </div>
 
       {/* Status Filters */}
@@ -68,6 +92,13 @@ export default async function AdminOrdersPage({
         ))}
       </div>
 
+      {/* Kept on the confirmed view after a run so its summary stays visible */}
+      {(bookableCount > 0 || status === 'confirmed') && (
+        <BulkBooking formId={ORDER_SELECTION_FORM_ID} bookableCount={bookableCount} />
+      )}
+
+      {(orders ?? []).length > 0 && <PrintSelected formId={ORDER_SELECTION_FORM_ID} />}
+
       {/* Orders Table */}
       <div className="bg-white rounded-xl border overflow-hidden">
         {(orders ?? []).length === 0 ? (
@@ -79,6 +110,7 @@ export default async function AdminOrdersPage({
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b bg-gray-50/50">
+                  <th className="w-10 pl-5 py-3" />
                   <th className="text-left px-5 py-3 font-medium text-gray-500">
                     Order
                   </th>
@@ -108,26 +140,40 @@ export default async function AdminOrdersPage({
                     key={order.id}
                     className="border-b last:border-b-0 hover:bg-gray-50/50 transition-colors"
                   >
+                    <td className="pl-5 py-3">
+                      <input
+                        type="checkbox"
+                        name="orderIds"
+                        value={order.id}
+                        form={ORDER_SELECTION_FORM_ID}
+                        data-bookable={isBookable(order) || undefined}
+                        aria-label={`Select order ${order.id.slice(0, 8)}`}
+                      />
+                    </td>
                     <td className="px-5 py-3">
                       <p className="font-medium text-gray-900">
                         #{order.id.slice(0, 8)}
                       </p>
-                      {order.tracking_number && (
+                      {order.shipment && (
                         <p className="text-xs text-gray-400 mt-0.5">
-                          🚚 {order.tracking_number}
+                          🚚 {COURIER_PROVIDER_LABELS[order.shipment.provider as CourierProviderName] ?? order.shipment.provider}{' '}
+                          {order.shipment.tracking_code || order.shipment.consignment_id}
+                          {order.shipment.status && ` · ${order.shipment.status}`}
                         </p>
                       )}
                     </td>
                     <td className="px-5 py-3">
                       <p className="text-gray-900">
-                        {order.delivery_name || '—'}
+                        {order.shipping_address?.fullName || '—'}
                       </p>
                       <p className="text-xs text-gray-400 truncate max-w-[180px]">
-                        {order.delivery_address || ''}
+                        {[order.shipping_address?.upazila, order.shipping_address?.district]
+                          .filter(Boolean)
+                          .join(', ')}
                       </p>
                     </td>
                     <td className="px-5 py-3 text-gray-600">
-                      {order.delivery_phone || '—'}
+                      {order.phone_number || '—'}
                     </td>
                     <td className="px-5 py-3">
                       <StatusBadge status={order.status} />
@@ -0,0 +1,63 @@
+'use client';
+
+/**
+ * PrintSelected — Opens shipping labels or packing slips for the orders
+ * checked in the orders table (row checkboxes carry the given `form` id).
+ */
+
+import { FileText, Tag } from 'lucide-react';
+
+export function PrintSelected({ formId }: { formId: string }) {
+  const checkboxes = () =>
+    Array.from(
+      document.querySelectorAll<HTMLInputElement>(`input[type="checkbox"][form="${formId}"]`)
+    );
+
+  const toggleAll = () => {
+    const boxes = checkboxes();
+    const allChecked = boxes.every((box) => box.checked);
+    boxes.forEach((box) => {
+      box.checked = !allChecked;
+    });
+  };
+
+  const print = (type: 'labels' | 'slips') => {
+    const ids = checkboxes()
+      .filter((box) => box.checked)
+      .map((box) => box.value);
+
+    if (ids.length === 0) {
+      alert('Select at least one order to print.');
+      return;
+    }
+    window.open(`/admin/orders/print?type=${type}&ids=${ids.join(',')}`, '_blank');
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2 mb-3">
+      <button
+        type="button"
+        onClick={toggleAll}
+        className="h-8 px-3 text-xs font-medium text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+      >
+        Select All
+      </button>
+      <button
+        type="button"
+        onClick={() => print('labels')}
+        className="flex items-center gap-1.5 h-8 px-3 bg-white border border-gray-300 text-gray-700 text-xs font-medium rounded-lg hover:bg-gray-100 transition-colors"
+      >
+        <Tag className="w-3.5 h-3.5" />
+        Print Labels
+      </button>
+      <button
+        type="button"
+        onClick={() => print('slips')}
+        className="flex items-center gap-1.5 h-8 px-3 bg-white border border-gray-300 text-gray-700 text-xs font-medium rounded-lg hover:bg-gray-100 transition-colors"
+      >
+        <FileText className="w-3.5 h-3.5" />
+        Print Packing Slips
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Admin Print Page — /admin/orders/print?type=labels|slips&ids=…
+ * Print-optimised shipping labels (4×6 in, with the tracking code as a
+ * Code 128 barcode) or packing slips (A4) for one or more orders, one per
+ * printed page. The admin sidebar is hidden when printing.
+ */
+
+import { Barcode } from '@/components/admin/barcode';
+import { COURIER_PROVIDER_LABELS } from '@/lib/courier/types';
+import { formatShippingAddress, normalizeShippingAddress } from '@/lib/validations/address';
+import { getPrintableOrders, type PrintableOrder } from '@/server-actions/shipments';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { PrintButton } from './print-button';
+
+export const metadata: Metadata = {
+  title: 'Print | Admin | Niihut',
+};
+
+/** Orders with a booked parcel, which labels need. */
+type LabelOrder = PrintableOrder & { shipment: NonNullable<PrintableOrder['shipment']> };
+
+const hasShipment = (order: PrintableOrder): order is LabelOrder => order.shipment !== null;
+
+const PAGE_STYLES = {
+  labels: '@page { size: 4in 6in; margin: 0; }',
+  slips: '@page { size: A4; margin: 12mm; }',
+};
+
+export default async function AdminPrintPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string; ids?: string }>;
+}) {
+  const params = await searchParams;
+  const type = params.type === 'slips' ? 'slips' : 'labels';
+  const ids = (params.ids ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+
+  const orders = await getPrintableOrders(ids);
+  // Labels need a booked parcel; slips can be printed before booking
+  const labelOrders = orders.filter(hasShipment);
+  const printable = type === 'labels' ? labelOrders : orders;
+  const missing = orders.length - printable.length;
+
+  return (
+    <div>
+      <style>{PAGE_STYLES[type]}</style>
+
+      <div className="flex items-center justify-between mb-6 print:hidden">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {type === 'labels' ? 'Shipping Labels' : 'Packing Slips'}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {printable.length} order{printable.length !== 1 ? 's' : ''}
+            {missing > 0 && ` · ${missing} skipped (no parcel booked)`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link href="/admin/orders" className="text-sm text-gray-500 hover:text-gray-900">
+            ← Orders
+          </Link>
+          {printable.length > 0 && <PrintButton />}
+        </div>
+      </div>
+
+      {printable.length === 0 ? (
+        <div className="bg-white rounded-xl border py-16 text-center text-gray-400 text-sm print:hidden">
+          Nothing to print.
+        </div>
+      ) : (
+        <div className="space-y-6 print:space-y-0">
+          {type === 'labels'
+            ? labelOrders.map((order) => <ShippingLabel key={order.id} order={order} />)
+            : orders.map((order) => <PackingSlip key={order.id} order={order} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ShippingLabel({ order }: { order: LabelOrder }) {
+  const address = normalizeShippingAddress(order.shipping_address, order.phone_number);
+  const shipment = order.shipment;
+  const trackingCode = shipment.tracking_code || shipment.consignment_id;
+  const codAmount = Number(shipment.cod_amount ?? order.total_amount);
+  const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="w-[4in] h-[6in] bg-white border print:border-0 p-4 flex flex-col text-black break-after-page overflow-hidden">
+      <div className="flex items-start justify-between border-b border-black pb-2">
+        <div>
+          <p className="text-lg font-bold">NiiHut</p>
+          <p className="text-xs">{COURIER_PROVIDER_LABELS[shipment.provider] ?? shipment.provider}</p>
+        </div>
+        <div className="text-right text-xs">
+          <p>Invoice</p>
+          <p className="font-mono font-semibold">#{order.id.slice(0, 8).toUpperCase()}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center py-3 border-b border-black">
+        <Barcode value={trackingCode} height={70} className="max-w-full h-auto" />
+        <p className="font-mono text-sm mt-1">{trackingCode}</p>
+        {shipment.tracking_code && shipment.consignment_id !== shipment.tracking_code && (
+          <p className="font-mono text-xs">Consignment {shipment.consignment_id}</p>
+        )}
+      </div>
+
+      <div className="py-3 border-b border-black flex-1">
+        <p className="text-xs uppercase tracking-wide">Deliver to</p>
+        <p className="text-base font-bold mt-1">{address.fullName || 'Customer'}</p>
+        <p className="text-base font-semibold">{order.phone_number ?? address.phone}</p>
+        <p className="text-sm mt-1 leading-snug">{formatShippingAddress(address)}</p>
+        {address.note && <p className="text-xs mt-1">Note: {address.note}</p>}
+      </div>
+
+      <div className="flex items-end justify-between pt-3">
+        <div className="text-xs">
+          <p>{itemCount} item{itemCount !== 1 ? 's' : ''}</p>
+          <p>{new Date(order.created_at).toLocaleDateString()}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs uppercase tracking-wide">Cash on delivery</p>
+          <p className="text-2xl font-bold">৳{codAmount.toLocaleString()}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PackingSlip({ order }: { order: PrintableOrder }) {
+  const address = normalizeShippingAddress(order.shipping_address, order.phone_number);
+  const items = order.items;
+  const subtotal = items.reduce(
+    (sum, item) => sum + Number(item.price_at_purchase) * item.quantity,
+    0
+  );
+
+  return (
+    <div className="bg-white border rounded-xl print:border-0 print:rounded-none p-8 print:p-0 text-black break-after-page">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <p className="text-2xl font-bold">NiiHut</p>
+          <p className="text-sm text-gray-600">Packing Slip</p>
+        </div>
+        <div className="text-right text-sm">
+          <p className="font-mono font-semibold">#{order.id.slice(0, 8).toUpperCase()}</p>
+          <p className="text-gray-600">{new Date(order.created_at).toLocaleDateString()}</p>
+          {order.shipment && (
+            <p className="text-gray-600">
+              {COURIER_PROVIDER_LABELS[order.shipment.provider] ?? order.shipment.provider}{' '}
+              {order.shipment.tracking_code || order.shipment.consignment_id}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-6 text-sm">
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Ship to</p>
+        <p className="font-semibold">{address.fullName || 'Customer'}</p>
+        <p>{order.phone_number ?? address.phone}</p>
+        <p>{formatShippingAddress(address)}</p>
+        {address.note && <p className="text-gray-600 mt-1">Note: {address.note}</p>}
+      </div>
+
+      <table className="w-full text-sm mb-6">
+        <thead>
+          <tr className="border-b border-black">
+            <th className="text-left py-2 font-semibold">Item</th>
+            <th className="text-center py-2 font-semibold w-16">Qty</th>
+            <th className="text-right py-2 font-semibold w-24">Price</th>
+            <th className="text-right py-2 font-semibold w-24">Total</th>
+            <th className="text-center py-2 font-semibold w-16">Packed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index} className="border-b border-gray-300">
+              <td className="py-2">
+                {item.product?.name ?? 'Deleted product'}
+                {item.variant_label && <span className="text-gray-600"> — {item.variant_label}</span>}
+                {item.sku && <span className="block text-xs text-gray-500">SKU {item.sku}</span>}
+              </td>
+              <td className="py-2 text-center">{item.quantity}</td>
+              <td className="py-2 text-right">৳{Number(item.price_at_purchase).toLocaleString()}</td>
+              <td className="py-2 text-right">
+                ৳{(Number(item.price_at_purchase) * item.quantity).toLocaleString()}
+              </td>
+              <td className="py-2 text-center">☐</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="ml-auto w-64 text-sm space-y-1">
+        <div className="flex justify-between">
+          <span>Subtotal</span>
+          <span>৳{subtotal.toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Delivery</span>
+          <span>৳{Number(order.delivery_fee ?? 0).toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between font-bold border-t border-black pt-1">
+          <span>Cash on delivery</span>
+          <span>৳{Number(order.total_amount).toLocaleString()}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
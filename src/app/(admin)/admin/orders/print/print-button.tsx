@@ -0,0 +1,19 @@
+'use client';
+
+/**
+ * PrintButton — Opens the browser print dialog for the current page.
+ */
+
+import { Printer } from 'lucide-react';
+
+export function PrintButton() {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="flex items-center gap-1.5 px-3.5 py-2 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+    >
+      <Printer className="w-4 h-4" />
+      Print
+    </button>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Admin Risk Review Page — /admin/orders/review
+ * Queue of orders held by the risk engine. Each card explains the score
+ * factor by factor and shows the customer's order history plus other orders
+ * sharing the same phone or address, with one-click decisions.
+ */
+
+import { Badge, StatusBadge } from '@/components/ui/badge';
+import { Pagination } from '@/components/ui/pagination';
+import { getReviewQueue } from '@/server-actions/review';
+import { ArrowLeft } from 'lucide-react';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ReviewActions } from './review-actions';
+
+export const metadata: Metadata = {
+  title: 'Risk Review | Admin | Niihut',
+};
+
+const PAGE_SIZE = 10;
+
+const ACTION_VARIANTS: Record<string, 'success' | 'warning' | 'danger'> = {
+  approve: 'success',
+  flag: 'warning',
+  block: 'danger',
+};
+
+function RelatedOrdersTable({ orders, showMatch }: { orders: any[]; showMatch?: boolean }) {
+  if (orders.length === 0) {
+    return <p className="text-xs text-gray-400">None found.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {orders.map((o) => (
+          <tr key={o.id} className="border-b last:border-b-0">
+            <td className="py-1.5 font-medium text-gray-900">#{o.id.slice(0, 8)}</td>
+            <td className="py-1.5">
+              <StatusBadge status={o.status} />
+            </td>
+            {showMatch && (
+              <td className="py-1.5 text-gray-500">
+                {[o.matched_phone && 'phone', o.matched_address && 'address']
+                  .filter(Boolean)
+                  .join(' + ')}
+              </td>
+            )}
+            <td className="py-1.5 text-right text-gray-700">
+              ৳{Number(o.total_amount).toLocaleString()}
+            </td>
+            <td className="py-1.5 text-right text-gray-400">
+              {new Date(o.created_at).toLocaleDateString()}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default async function AdminRiskReviewPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const params = await searchParams;
+  const page = Number(params.page) || 1;
+
+  const { orders, total, totalPages, error } = await getReviewQueue({ page, perPage: PAGE_SIZE });
+
+  return (
+    <div>
+      <Link
+        href="/admin/orders"
+        className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to orders
+      </Link>
+
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Risk Review Queue</h1>
+        <span className="text-sm text-gray-500">{total} awaiting review</span>
+      </div>
+
+      {error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          Could not load the review queue: {error}
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="bg-white rounded-xl border py-16 text-center text-gray-400 text-sm">
+          No orders awaiting review.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {orders.map((order: any) => {
+            const address = order.shipping_address ?? {};
+            const factors: { factor: string; points: number }[] = order.assessment?.factors ?? [];
+
+            return (
+              <div key={order.id} className="bg-white rounded-xl border">
+                {/* Header */}
+                <div className="flex flex-wrap items-start justify-between gap-4 p-5 border-b">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold text-gray-900">#{order.id.slice(0, 8)}</p>
+                      <StatusBadge status={order.status} />
+                      {order.verified_phone && <Badge variant="success">phone verified</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {address.fullName || order.user?.email || 'Guest'}
+                      {order.phone_number && ` · ${order.phone_number}`}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {[address.address, address.upazila, address.district]
+                        .filter(Boolean)
+                        .join(', ')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900">
+                      ৳{Number(order.total_amount).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {new Date(order.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 p-5">
+                  {/* Score breakdown */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h2 className="text-sm font-semibold text-gray-900">Risk Score</h2>
+                      <div className="flex items-center gap-2">
+                        {order.assessment?.action && (
+                          <Badge variant={ACTION_VARIANTS[order.assessment.action] ?? 'default'}>
+                            {order.assessment.action}
+                          </Badge>
+                        )}
+                        <span className="text-lg font-bold text-gray-900">
+                          {order.assessment?.risk_score ?? '—'}
+                        </span>
+                      </div>
+                    </div>
+                    {factors.length === 0 ? (
+                      <p className="text-xs text-gray-400">
+                        {order.assessment ? 'No risk factors.' : 'No assessment recorded.'}
+                      </p>
+                    ) : (
+                      <ul className="space-y-1.5 text-xs">
+                        {factors.map((f, i) => (
+                          <li key={i} className="flex justify-between gap-3">
+                            <span className="text-gray-600">{f.factor}</span>
+                            <span
+                              className={`font-medium ${f.points < 0 ? 'text-green-700' : 'text-red-700'}`}
+                            >
+                              {f.points > 0 ? `+${f.points}` : f.points}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {/* Customer history */}
+                  <div>
+                    <h2 className="text-sm font-semibold text-gray-900 mb-1">Customer History</h2>
+                    {order.user ? (
+                      <p className="text-xs text-gray-500 mb-3">
+                        {order.user.delivered_orders ?? 0} delivered · {order.user.refused_orders ?? 0} refused · {order.user.returned_orders ?? 0} returned
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500 mb-3">Guest checkout</p>
+                    )}
+                    <RelatedOrdersTable orders={order.customerOrders} />
+                  </div>
+
+                  {/* Linked orders */}
+                  <div>
+                    <h2 className="text-sm font-semibold text-gray-900 mb-1">Same Phone / Address</h2>
+                    <p className="text-xs text-gray-500 mb-3">Orders from other accounts</p>
+                    <RelatedOrdersTable orders={order.linkedOrders} showMatch />
+                  </div>
+                </div>
+
+                {/* Items + decisions */}
+                <div className="flex flex-wrap items-center justify-between gap-4 px-5 py-4 border-t bg-gray-50/50 rounded-b-xl">
+                  <p className="text-xs text-gray-500">
+                    {(order.items ?? [])
+                      .map(
+                        (item: any) =>
+                          `${item.product?.name ?? 'Item'}${item.variant_label ? ` (${item.variant_label})` : ''} × ${item.quantity} @ ৳${Number(item.price_at_purchase).toLocaleString()}`
+                      )
+                      .join(', ')}
+                  </p>
+                  <ReviewActions orderId={order.id} hasPhone={!!order.phone_number} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Pagination
+        currentPage={page}
+        totalPages={totalPages}
+        baseUrl="/admin/orders/review"
+      />
+    </div>
+  );
+}
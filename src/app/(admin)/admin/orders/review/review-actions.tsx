@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * ReviewActions — One-click decisions for an order in the risk review queue.
+ * Approve confirms the order, Cancel cancels it, Block Phone hard-blocks the
+ * phone number and cancels the order.
+ */
+
+import {
+  approveFlaggedOrder,
+  blockPhoneAndCancel,
+  cancelFlaggedOrder,
+} from '@/server-actions/review';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export function ReviewActions({
+  orderId,
+  hasPhone,
+}: {
+  orderId: string;
+  hasPhone: boolean;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAction = (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await action();
+        if (!result.success) {
+          setError(result.error || 'Action failed.');
+          return;
+        }
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        {isPending && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        <button
+          disabled={isPending}
+          onClick={() => handleAction(() => approveFlaggedOrder(orderId))}
+          className="px-3 py-1.5 bg-green-50 text-green-700 text-xs font-medium rounded-md hover:bg-green-100 transition-colors disabled:opacity-50"
+        >
+          Approve
+        </button>
+        <button
+          disabled={isPending}
+          onClick={() => handleAction(() => cancelFlaggedOrder(orderId))}
+          className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        {hasPhone && (
+          <button
+            disabled={isPending}
+            onClick={() => {
+              if (confirm('Block this phone number and cancel the order?')) {
+                handleAction(() => blockPhoneAndCancel(orderId));
+              }
+            }}
+            className="px-3 py-1.5 bg-red-50 text-red-700 text-xs font-medium rounded-md hover:bg-red-100 transition-colors disabled:opacity-50"
+          >
+            Block Phone
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 /**
  * Edit Product Page — /admin/products/[id]
- * Server component that fetches the product and categories, then renders the form.
+ * Server component that fetches the product and categories, then renders the
+ * form (with its options and variants) and the product's recent inventory
+ * movements.
  */
 
 import { ProductForm } from '@/components/admin/product-form';
+import { categorySelectOptions } from '@/lib/categories';
 import { createAdminClient } from '@/lib/supabase/server';
-import { getAdminCategories } from '@/server-actions/admin';
+import { getAdminCategories, getInventoryMovements } from '@/server-actions/admin';
 import { ChevronRight } from 'lucide-react';
 import { Metadata } from 'next';
 import Link from 'next/link';
@@ -25,7 +28,9 @@ export default async function EditProductPage({ params }: Props) {
   const supabase = createAdminClient();
   const { data: product } = await supabase
     .from('products')
-    .select('*, images:product_images(id, url, display_order)')
+    .select(
+      '*, images:product_images(id, url, display_order), options:product_options(name, option_values, position), variants:product_variants(id, sku, title, options, price, inventory, image_urls, is_active, position), categories:product_categories(category_id)'
+    )
     .eq('id', id)
     .single();
 
@@ -33,7 +38,11 @@ export default async function EditProductPage({ params }: Props) {
     notFound();
   }
 
-  const categories = await getAdminCategories();
+  const [categories, movements] = await Promise.all([
+    getAdminCategories(),
+    getInventoryMovements(id),
+  ]);
+  const categoryChoices = categorySelectOptions(categories).map((o) => ({ id: o.value, name: o.label }));
 
   return (
     <div>
@@ -52,7 +61,51 @@ export default async function EditProductPage({ params }: Props) {
       </nav>
 
       <h1 className="text-2xl font-bold text-gray-900 mb-6">Edit Product</h1>
-      <ProductForm product={product} categories={categories} />
+      <ProductForm product={product} categories={categoryChoices} />
+
+      {/* Stock history */}
+      <div className="bg-white rounded-xl border mt-8 overflow-hidden">
+        <h2 className="font-semibold text-gray-900 px-5 py-4 border-b">Stock History</h2>
+        {movements.length === 0 ? (
+          <p className="py-10 text-center text-gray-400 text-sm">No stock movements yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50/50">
+                <th className="text-left px-5 py-3 font-medium text-gray-500">Date</th>
+                <th className="text-left px-5 py-3 font-medium text-gray-500">Reason</th>
+                <th className="text-right px-5 py-3 font-medium text-gray-500">Change</th>
+                <th className="text-right px-5 py-3 font-medium text-gray-500">Stock</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((m: any) => (
+                <tr key={m.id} className="border-b last:border-b-0">
+                  <td className="px-5 py-3 text-gray-500">{new Date(m.created_at).toLocaleString()}</td>
+                  <td className="px-5 py-3">
+                    <p className="text-gray-900">
+                      <span className="capitalize">{m.reason}</span>
+                      {m.variant && <span className="text-gray-500"> · {m.variant.title}</span>}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {m.order_id ? `Order #${m.order_id.slice(0, 8)}` : m.note}
+                      {m.user && ` · ${m.user.first_name ?? m.user.email}`}
+                    </p>
+                  </td>
+                  <td
+                    className={`px-5 py-3 text-right font-medium ${
+                      m.quantity_change > 0 ? 'text-green-700' : 'text-red-700'
+                    }`}
+                  >
+                    {m.quantity_change > 0 ? `+${m.quantity_change}` : m.quantity_change}
+                  </td>
+                  <td className="px-5 py-3 text-right text-gray-900">{m.balance_after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
     </div>
   );
 }
@@ -4,6 +4,7 @@
  */
 
 import { ProductForm } from '@/components/admin/product-form';
+import { categorySelectOptions } from '@/lib/categories';
 import { getAdminCategories } from '@/server-actions/admin';
 import { ChevronRight } from 'lucide-react';
 import { Metadata } from 'next';
@@ -15,6 +16,7 @@ export const metadata: Metadata = {
 
 export default async function NewProductPage() {
   const categories = await getAdminCategories();
+  const categoryChoices = categorySelectOptions(categories).map((o) => ({ id: o.value, name: o.label }));
 
   return (
     <div>
@@ -28,7 +30,7 @@ export default async function NewProductPage() {
       </nav>
 
       <h1 className="text-2xl font-bold text-gray-900 mb-6">Add New Product</h1>
-      <ProductForm categories={categories} />
+      <ProductForm categories={categoryChoices} />
     </div>
   );
 }
@@ -0,0 +1,175 @@
+/**
+ * Admin Returns Page — /admin/returns
+ * Orders that came back: returns and refusals with their reason codes,
+ * restocked units and the return delivery charges booked as losses.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Pagination } from '@/components/ui/pagination';
+import { COURIER_PROVIDER_LABELS, type CourierProviderName } from '@/lib/courier/types';
+import { RETURN_REASONS, type ReturnReasonCode } from '@/lib/returns';
+import { getReturns, getReturnsOverview } from '@/server-actions/returns';
+import type { ReturnOutcome } from '@/types/db';
+import { Metadata } from 'next';
+import Link from 'next/link';
+
+export const metadata: Metadata = {
+  title: 'Returns | Admin | Niihut',
+};
+
+const OUTCOME_FILTERS: { value: ReturnOutcome | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'refused', label: 'Refused' },
+];
+
+const PAGE_SIZE = 25;
+
+const taka = (amount: number) => `৳${amount.toLocaleString()}`;
+
+export default async function AdminReturnsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ outcome?: string; reason?: string; page?: string }>;
+}) {
+  const params = await searchParams;
+  const { outcome = '', reason = '' } = params;
+  const page = Number(params.page) || 1;
+
+  const [{ totals, byReason }, { returns, totalPages }] = await Promise.all([
+    getReturnsOverview(),
+    getReturns({
+      outcome: (outcome || undefined) as ReturnOutcome | undefined,
+      reasonCode: reason || undefined,
+      page,
+      perPage: PAGE_SIZE,
+    }),
+  ]);
+
+  const summaryCards = [
+    { label: 'Returned', value: totals.returned.toLocaleString(), detail: 'Parcels back with us' },
+    { label: 'Refused', value: totals.refused.toLocaleString(), detail: 'Refused at delivery' },
+    { label: 'Restocked', value: totals.restockedUnits.toLocaleString(), detail: 'Units back in inventory' },
+    { label: 'Losses', value: taka(totals.losses), detail: 'Return delivery charges' },
+  ];
+
+  const filterHref = (next: { outcome?: string; reason?: string }) =>
+    `/admin/returns?${new URLSearchParams({
+      outcome: next.outcome ?? outcome,
+      reason: next.reason ?? reason,
+    }).toString()}`;
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Returns</h1>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        {summaryCards.map((card) => (
+          <div key={card.label} className="bg-white rounded-xl border p-5">
+            <p className="text-sm font-medium text-gray-500 mb-3">{card.label}</p>
+            <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+            <p className="text-xs text-gray-400 mt-1">{card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {OUTCOME_FILTERS.map((f) => (
+          <Link
+            key={f.value}
+            href={filterHref({ outcome: f.value })}
+            className={`px-3.5 py-1.5 rounded-full text-xs font-medium transition-colors ${
+              outcome === f.value
+                ? 'bg-gray-900 text-white'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {f.label}
+          </Link>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {Object.entries(RETURN_REASONS).map(([code, label]) => (
+          <Link
+            key={code}
+            href={filterHref({ reason: reason === code ? '' : code })}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${
+              reason === code
+                ? 'bg-gray-900 text-white'
+                : 'bg-white border text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {label} ({byReason[code] ?? 0})
+          </Link>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl border overflow-hidden">
+        {returns.length === 0 ? (
+          <div className="py-16 text-center text-gray-400 text-sm">No returns found.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50/50">
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Order</th>
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Outcome</th>
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Reason</th>
+                  <th className="text-right px-5 py-3 font-medium text-gray-500">Restocked</th>
+                  <th className="text-right px-5 py-3 font-medium text-gray-500">Return Fee</th>
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Recorded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {returns.map((r: any) => (
+                  <tr key={r.id} className="border-b last:border-b-0 hover:bg-gray-50/50 transition-colors">
+                    <td className="px-5 py-3">
+                      <Link
+                        href={`/admin/orders/${r.order_id}/return`}
+                        className="font-mono text-xs text-gray-900 hover:underline"
+                      >
+                        #{r.order_id.slice(0, 8)}
+                      </Link>
+                      <p className="text-xs text-gray-400 mt-0.5">
+                        {r.order?.phone_number ?? '—'}
+                        {r.shipment &&
+                          ` · ${
+                            COURIER_PROVIDER_LABELS[r.shipment.provider as CourierProviderName] ??
+                            r.shipment.provider
+                          } ${r.shipment.consignment_id}`}
+                      </p>
+                    </td>
+                    <td className="px-5 py-3">
+                      <Badge variant={r.outcome === 'refused' ? 'danger' : 'warning'}>{r.outcome}</Badge>
+                    </td>
+                    <td className="px-5 py-3">
+                      <p className="text-gray-900">
+                        {RETURN_REASONS[r.reason_code as ReturnReasonCode] ?? r.reason_code}
+                      </p>
+                      {r.notes && <p className="text-xs text-gray-500 mt-0.5">{r.notes}</p>}
+                    </td>
+                    <td className="px-5 py-3 text-right">{r.restocked_units}</td>
+                    <td className="px-5 py-3 text-right">{taka(Number(r.return_fee))}</td>
+                    <td className="px-5 py-3 text-gray-500">
+                      <p>{new Date(r.created_at).toLocaleDateString()}</p>
+                      <p className="text-xs text-gray-400">{r.source === 'courier' ? 'Courier' : 'Admin'}</p>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Pagination
+        currentPage={page}
+        totalPages={totalPages}
+        baseUrl="/admin/returns"
+        searchParams={{ outcome, reason }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Admin Risk Rules Page — /admin/risk-rules
+ * Edit fraud thresholds and point weights used by the risk engine,
+ * with a log of recent changes and who made them.
+ */
+
+import { RISK_RULE_DEFINITIONS, type RiskRuleKey } from '@/lib/risk-rules';
+import { getRiskRuleChanges, getRiskRules } from '@/server-actions/risk';
+import { Metadata } from 'next';
+import { RiskRulesForm } from './risk-rules-form';
+
+export const metadata: Metadata = {
+  title: 'Risk Rules | Admin | Niihut',
+};
+
+export default async function AdminRiskRulesPage() {
+  const [rules, changes] = await Promise.all([getRiskRules(), getRiskRuleChanges()]);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Risk Rules</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Changes apply to new orders within a minute.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Rules Form */}
+        <div className="xl:col-span-2">
+          <RiskRulesForm rules={rules} />
+        </div>
+
+        {/* Change Log */}
+        <div className="xl:col-span-1">
+          <div className="bg-white rounded-xl border">
+            <div className="px-5 py-4 border-b">
+              <h2 className="font-semibold text-gray-900">Recent Changes</h2>
+            </div>
+
+            {changes.length === 0 ? (
+              <div className="py-12 text-center text-gray-400 text-sm">
+                No changes recorded yet.
+              </div>
+            ) : (
+              <div className="divide-y">
+                {changes.map((change: any) => {
+                  const def = RISK_RULE_DEFINITIONS[change.rule_key as RiskRuleKey];
+                  const adminName =
+                    [change.admin?.first_name, change.admin?.last_name].filter(Boolean).join(' ') ||
+                    change.admin?.email ||
+                    'Unknown';
+                  return (
+                    <div key={change.id} className="px-5 py-3 text-sm">
+                      <p className="font-medium text-gray-900">
+                        {def?.label ?? change.rule_key}
+                      </p>
+                      <p className="text-gray-600">
+                        {JSON.stringify(change.old_value)} → {JSON.stringify(change.new_value)}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-0.5">
+                        {adminName} · {new Date(change.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
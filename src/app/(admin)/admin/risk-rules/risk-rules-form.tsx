@@ -0,0 +1,134 @@
+'use client';
+
+/**
+ * RiskRulesForm — Client component for editing fraud thresholds and point weights.
+ * Validates locally with the shared schema, then saves via updateRiskRules.
+ */
+
+import { Input } from '@/components/ui/input';
+import {
+  RISK_RULE_DEFINITIONS,
+  RISK_RULE_KEYS,
+  riskRulesSchema,
+  type RiskRuleKey,
+  type RiskRules,
+} from '@/lib/risk-rules';
+import { updateRiskRules } from '@/server-actions/risk';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+type FieldErrors = Partial<Record<RiskRuleKey, string>>;
+
+export function RiskRulesForm({ rules }: { rules: RiskRules }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formData, setFormData] = useState<Record<RiskRuleKey, string>>(
+    Object.fromEntries(RISK_RULE_KEYS.map((key) => [key, String(rules[key])])) as Record<
+      RiskRuleKey,
+      string
+    >
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setMessage(null);
+    if (fieldErrors[name as RiskRuleKey]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    const parsed = riskRulesSchema.safeParse(formData);
+    if (!parsed.success) {
+      setFieldErrors(
+        Object.fromEntries(
+          parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message])
+        ) as FieldErrors
+      );
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const result = await updateRiskRules(parsed.data);
+        if (!result.success) {
+          setError(result.error || 'Failed to save risk rules.');
+          if ('fieldErrors' in result && result.fieldErrors) {
+            setFieldErrors(result.fieldErrors);
+          }
+          return;
+        }
+        setMessage(
+          result.changed
+            ? `Saved ${result.changed} change${result.changed !== 1 ? 's' : ''}.`
+            : 'No changes to save.'
+        );
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 space-y-5">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-5">
+        {RISK_RULE_KEYS.map((key) => {
+          const def = RISK_RULE_DEFINITIONS[key];
+          return (
+            <div key={key}>
+              <Input
+                label={def.label}
+                name={key}
+                type="number"
+                min={def.min}
+                max={def.max}
+                step={def.kind === 'ratio' ? '0.01' : '1'}
+                value={formData[key]}
+                onChange={handleChange}
+                error={fieldErrors[key]}
+                required
+              />
+              <p className="mt-1 text-xs text-gray-400">{def.description}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="flex items-center gap-2 px-6 py-2.5 bg-gray-900 text-white rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Saving…
+          </>
+        ) : (
+          'Save Rules'
+        )}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+/**
+ * DismissButton — Removes a zero-result search once it has been dealt with.
+ */
+
+import { dismissSearchMiss } from '@/server-actions/search';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+export function DismissButton({ missId }: { missId: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleDismiss = () => {
+    startTransition(async () => {
+      try {
+        const result = await dismissSearchMiss(missId);
+        if (!result.success) {
+          alert(result.error || 'Dismiss failed');
+          return;
+        }
+        router.refresh();
+      } catch (err) {
+        console.error('Dismiss search miss failed:', err);
+      }
+    });
+  };
+
+  if (isPending) {
+    return <Loader2 className="w-4 h-4 animate-spin text-gray-400 ml-auto" />;
+  }
+
+  return (
+    <button
+      onClick={handleDismiss}
+      className="px-2.5 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+    >
+      Dismiss
+    </button>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Admin Search Misses Page — /admin/search
+ * Searches that found no products, most frequent first, with the filters
+ * last used. Dismiss a query once products or wording have been added.
+ */
+
+import { Pagination } from '@/components/ui/pagination';
+import { getSearchMisses } from '@/server-actions/search';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { DismissButton } from './dismiss-button';
+
+export const metadata: Metadata = {
+  title: 'Search Misses | Admin | Niihut',
+};
+
+const PAGE_SIZE = 50;
+
+export default async function AdminSearchMissesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const params = await searchParams;
+  const page = Number(params.page) || 1;
+
+  const { misses, total, totalPages } = await getSearchMisses({ page, perPage: PAGE_SIZE });
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-1">Search Misses</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        {total} search{total !== 1 ? 'es' : ''} that found no products.
+      </p>
+
+      <div className="bg-white rounded-xl border overflow-hidden">
+        {misses.length === 0 ? (
+          <div className="py-16 text-center text-gray-400 text-sm">No zero-result searches.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50/50">
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Query</th>
+                  <th className="text-right px-5 py-3 font-medium text-gray-500">Searches</th>
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Last Filters</th>
+                  <th className="text-left px-5 py-3 font-medium text-gray-500">Last Searched</th>
+                  <th className="px-5 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {misses.map((miss: any) => {
+                  const filters = [
+                    miss.last_filters?.category && `Category: ${miss.last_filters.category}`,
+                    miss.last_filters?.min_price != null && `Min ৳${miss.last_filters.min_price}`,
+                    miss.last_filters?.max_price != null && `Max ৳${miss.last_filters.max_price}`,
+                  ].filter(Boolean);
+
+                  return (
+                    <tr key={miss.id} className="border-b last:border-b-0 hover:bg-gray-50/50 transition-colors">
+                      <td className="px-5 py-3">
+                        <Link
+                          href={`/search?q=${encodeURIComponent(miss.query)}`}
+                          target="_blank"
+                          className="font-medium text-gray-900 hover:underline"
+                        >
+                          {miss.query}
+                        </Link>
+                      </td>
+                      <td className="px-5 py-3 text-right font-medium">{miss.searches}</td>
+                      <td className="px-5 py-3 text-gray-500">{filters.length ? filters.join(' · ') : '—'}</td>
+                      <td className="px-5 py-3 text-gray-500">
+                        <p>{new Date(miss.last_searched_at).toLocaleString()}</p>
+                        <p className="text-xs text-gray-400">
+                          First {new Date(miss.first_searched_at).toLocaleDateString()}
+                        </p>
+                      </td>
+                      <td className="px-5 py-3 text-right">
+                        <DismissButton missId={miss.id} />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Pagination currentPage={page} totalPages={totalPages} baseUrl="/admin/search" />
+    </div>
+  );
+}
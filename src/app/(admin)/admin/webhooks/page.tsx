@@ -0,0 +1,192 @@
+/**
+ * Admin Webhook Events Page — /admin/webhooks
+ * Courier webhook deliveries as received, with the outcome of applying each
+ * one, the raw payload, and a reprocess button.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Pagination } from '@/components/ui/pagination';
+import { COURIER_PROVIDER_LABELS } from '@/lib/courier/types';
+import type { WebhookEventOutcome } from '@/types/db';
+import { getWebhookEvents } from '@/server-actions/webhooks';
+import { Search } from 'lucide-react';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ReprocessButton } from './reprocess-button';
+
+export const metadata: Metadata = {
+  title: 'Webhook Events | Admin | Niihut',
+};
+
+const OUTCOME_FILTERS: { value: WebhookEventOutcome | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'applied', label: 'Applied' },
+  { value: 'unchanged', label: 'Unchanged' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'unknown_shipment', label: 'Unknown Shipment' },
+  { value: 'failed', label: 'Failed' },
+];
+
+const OUTCOME_VARIANTS: Record<WebhookEventOutcome, 'success' | 'default' | 'warning' | 'danger' | 'pending'> = {
+  received: 'pending',
+  applied: 'success',
+  unchanged: 'default',
+  rejected: 'warning',
+  unknown_shipment: 'warning',
+  failed: 'danger',
+};
+
+const PAGE_SIZE = 50;
+
+export default async function AdminWebhooksPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; provider?: string; outcome?: string; page?: string }>;
+}) {
+  const params = await searchParams;
+  const { q = '', provider = '', outcome = '' } = params;
+  const page = Number(params.page) || 1;
+
+  const { events, total, totalPages } = await getWebhookEvents({
+    search: q || undefined,
+    provider: provider || undefined,
+    outcome: (outcome || undefined) as WebhookEventOutcome | undefined,
+    page,
+    perPage: PAGE_SIZE,
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Webhook Events</h1>
+        <span className="text-sm text-gray-500">{total} events</span>
+      </div>
+
+      <div className="space-y-4">
+        {/* Filters */}
+        <form className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              name="q"
+              defaultValue={q}
+              placeholder="Search consignment…"
+              className="h-10 w-full rounded-lg border border-gray-300 bg-white pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+            />
+          </div>
+          <select
+            name="provider"
+            defaultValue={provider}
+            className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm"
+          >
+            <option value="">All couriers</option>
+            {Object.entries(COURIER_PROVIDER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input type="hidden" name="outcome" value={outcome} />
+          <button
+            type="submit"
+            className="h-10 px-4 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {OUTCOME_FILTERS.map((f) => (
+            <Link
+              key={f.value}
+              href={`/admin/webhooks?${new URLSearchParams({
+                ...(q ? { q } : {}),
+                ...(provider ? { provider } : {}),
+                ...(f.value ? { outcome: f.value } : {}),
+              }).toString()}`}
+              className={`px-3.5 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                outcome === f.value
+                  ? 'bg-gray-900 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {f.label}
+            </Link>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl border overflow-hidden">
+          {events.length === 0 ? (
+            <div className="py-16 text-center text-gray-400 text-sm">
+              No webhook events found.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50/50">
+                    <th className="text-left px-5 py-3 font-medium text-gray-500">Received</th>
+                    <th className="text-left px-5 py-3 font-medium text-gray-500">Consignment</th>
+                    <th className="text-left px-5 py-3 font-medium text-gray-500">Status</th>
+                    <th className="text-left px-5 py-3 font-medium text-gray-500">Outcome</th>
+                    <th className="text-left px-5 py-3 font-medium text-gray-500">Payload</th>
+                    <th className="text-right px-5 py-3 font-medium text-gray-500">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event: any) => (
+                    <tr
+                      key={event.id}
+                      className="border-b last:border-b-0 hover:bg-gray-50/50 transition-colors align-top"
+                    >
+                      <td className="px-5 py-3 text-xs text-gray-500 whitespace-nowrap">
+                        {new Date(event.received_at).toLocaleString()}
+                      </td>
+                      <td className="px-5 py-3">
+                        <p className="font-mono text-gray-900">{event.consignment_id || '—'}</p>
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          {COURIER_PROVIDER_LABELS[event.provider as keyof typeof COURIER_PROVIDER_LABELS] ??
+                            event.provider}
+                        </p>
+                      </td>
+                      <td className="px-5 py-3 text-gray-600">{event.status || '—'}</td>
+                      <td className="px-5 py-3">
+                        <Badge variant={OUTCOME_VARIANTS[event.outcome as WebhookEventOutcome] ?? 'default'}>
+                          {event.outcome.replace(/_/g, ' ')}
+                        </Badge>
+                        {event.error_message && (
+                          <p className="text-xs text-gray-500 mt-1">{event.error_message}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          {event.attempts} attempt{event.attempts !== 1 ? 's' : ''}
+                        </p>
+                      </td>
+                      <td className="px-5 py-3 max-w-md">
+                        <details>
+                          <summary className="text-xs text-gray-500 cursor-pointer">View</summary>
+                          <pre className="mt-2 text-xs text-gray-700 bg-gray-50 rounded-lg p-2 overflow-x-auto">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </details>
+                      </td>
+                      <td className="px-5 py-3 text-right">
+                        <ReprocessButton eventId={event.id} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <Pagination
+          currentPage={page}
+          totalPages={totalPages}
+          baseUrl="/admin/webhooks"
+          searchParams={{ q, provider, outcome }}
+        />
+      </div>
+    </div>
+  );
+}
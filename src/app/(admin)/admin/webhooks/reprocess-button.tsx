@@ -0,0 +1,43 @@
+'use client';
+
+/**
+ * ReprocessButton — Applies a stored webhook event again.
+ */
+
+import { reprocessWebhookEvent } from '@/server-actions/webhooks';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+export function ReprocessButton({ eventId }: { eventId: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleReprocess = () => {
+    startTransition(async () => {
+      try {
+        const result = await reprocessWebhookEvent(eventId);
+        if (!result.success) {
+          alert(result.error || 'Reprocessing failed');
+          return;
+        }
+        router.refresh();
+      } catch (err) {
+        console.error('Reprocess webhook event failed:', err);
+      }
+    });
+  };
+
+  if (isPending) {
+    return <Loader2 className="w-4 h-4 animate-spin text-gray-400 ml-auto" />;
+  }
+
+  return (
+    <button
+      onClick={handleReprocess}
+      className="px-2.5 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+    >
+      Reprocess
+    </button>
+  );
+}
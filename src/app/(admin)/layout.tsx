@@ -7,10 +7,17 @@
 import { checkRole } from '@/lib/auth';
 import { currentUser } from '@clerk/nextjs/server';
 import {
+    Ban,
     FolderTree,
     LayoutDashboard,
     Package,
-    ShoppingCart
+    RotateCcw,
+    SearchX,
+    ShieldAlert,
+    ShoppingCart,
+    Truck,
+    Wallet,
+    Webhook
 } from 'lucide-react';
 import Link from 'next/link';
 import { redirect } from 'next/navigation';
@@ -33,12 +40,19 @@ export default async function AdminLayout({
     { href: '/admin/orders', label: 'Orders', icon: <ShoppingCart className="w-4 h-4" /> },
     { href: '/admin/products', label: 'Products', icon: <Package className="w-4 h-4" /> },
     { href: '/admin/categories', label: 'Categories', icon: <FolderTree className="w-4 h-4" /> },
+    { href: '/admin/search', label: 'Search Misses', icon: <SearchX className="w-4 h-4" /> },
+    { href: '/admin/risk-rules', label: 'Risk Rules', icon: <ShieldAlert className="w-4 h-4" /> },
+    { href: '/admin/blocklist', label: 'Blocklist', icon: <Ban className="w-4 h-4" /> },
+    { href: '/admin/delivery', label: 'Delivery', icon: <Truck className="w-4 h-4" /> },
+    { href: '/admin/returns', label: 'Returns', icon: <RotateCcw className="w-4 h-4" /> },
+    { href: '/admin/finance', label: 'Finance', icon: <Wallet className="w-4 h-4" /> },
+    { href: '/admin/webhooks', label: 'Webhooks', icon: <Webhook className="w-4 h-4" /> },
   ];
 
   return (
-    <div className="flex h-screen bg-gray-50">
+    <div className="flex h-screen bg-gray-50 print:block print:h-auto print:bg-white">
       {/* Sidebar */}
-      <aside className="w-64 bg-white border-r flex flex-col flex-shrink-0">
+      <aside className="w-64 bg-white border-r flex flex-col flex-shrink-0 print:hidden">
         {/* Logo */}
         <div className="h-16 flex items-center px-6 border-b">
           <Link
@@ -68,8 +82,8 @@ export default async function AdminLayout({
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 overflow-y-auto">
-        <div className="p-6 md:p-8">{children}</div>
+      <main className="flex-1 overflow-y-auto print:overflow-visible">
+        <div className="p-6 md:p-8 print:p-0">{children}</div>
       </main>
     </div>
   );
@@ -0,0 +1,317 @@
+'use client';
+
+/**
+ * AddressBook — Client component for the saved addresses on /profile.
+ * Lists the customer's addresses with set-default / edit / delete actions and
+ * an inline form (cascading division/district/upazila selects) to add or edit.
+ */
+
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { DIVISIONS, getDistricts, getUpazilas } from '@/lib/bd-locations';
+import { formatShippingAddress } from '@/lib/validations/address';
+import {
+  createAddress,
+  deleteAddress,
+  setDefaultAddress,
+  updateAddress,
+  type SavedAddressInput,
+} from '@/server-actions/addresses';
+import type { Address } from '@/types/db';
+import { CheckCircle2, Loader2, MapPin, Plus } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+interface AddressFields {
+  label: string;
+  fullName: string;
+  phone: string;
+  division: string;
+  district: string;
+  upazila: string;
+  address: string;
+  note: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FIELDS: AddressFields = {
+  label: '',
+  fullName: '',
+  phone: '',
+  division: '',
+  district: '',
+  upazila: '',
+  address: '',
+  note: '',
+  isDefault: false,
+};
+
+const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
+const fieldsFromAddress = (address: Address): AddressFields => ({
+  label: address.label ?? '',
+  fullName: address.full_name,
+  phone: address.phone,
+  division: address.division,
+  district: address.district,
+  upazila: address.upazila,
+  address: address.address,
+  note: address.note ?? '',
+  isDefault: address.is_default,
+});
+
+export function AddressBook({ addresses }: { addresses: Address[] }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  // null = form closed, 'new' = adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [fields, setFields] = useState<AddressFields>(EMPTY_FIELDS);
+
+  const openForm = (address?: Address) => {
+    setError(null);
+    setEditing(address?.id ?? 'new');
+    setFields(address ? fieldsFromAddress(address) : EMPTY_FIELDS);
+  };
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFields((prev) => {
+      const updated = { ...prev, [name]: value };
+      if (name === 'division') {
+        updated.district = '';
+        updated.upazila = '';
+      }
+      if (name === 'district') updated.upazila = '';
+      return updated;
+    });
+  };
+
+  const run = (action: () => Promise<{ success: boolean; error?: string }>, onDone?: () => void) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await action();
+        if (!result.success) {
+          setError(result.error || 'Something went wrong.');
+          return;
+        }
+        onDone?.();
+        router.refresh();
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: SavedAddressInput = {
+      label: fields.label,
+      fullName: fields.fullName,
+      phone: fields.phone,
+      division: fields.division,
+      district: fields.district,
+      upazila: fields.upazila,
+      address: fields.address,
+      note: fields.note || undefined,
+      isDefault: fields.isDefault,
+    };
+    run(
+      () => (editing === 'new' || !editing ? createAddress(input) : updateAddress(editing, input)),
+      () => setEditing(null)
+    );
+  };
+
+  const handleDelete = (address: Address) => {
+    if (!confirm(`Delete the address "${address.label || address.address}"?`)) return;
+    run(() => deleteAddress(address.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {addresses.length === 0 && editing === null && (
+        <p className="text-sm text-gray-500">
+          No saved addresses yet. Save one to check out faster next time.
+        </p>
+      )}
+
+      {addresses.map((address) => (
+        <div key={address.id} className="border rounded-lg p-4 flex flex-wrap items-start justify-between gap-3">
+          <div className="flex items-start gap-3 min-w-0">
+            <MapPin className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+            <div className="text-sm min-w-0">
+              <p className="font-medium text-gray-900">
+                {address.label || address.full_name}
+                {address.is_default && (
+                  <span className="ml-2 text-xs font-normal text-gray-500">Default</span>
+                )}
+              </p>
+              <p className="text-gray-500">{address.full_name}</p>
+              <p className="text-gray-500">
+                {formatShippingAddress(address)}
+              </p>
+              <p className="text-gray-500 flex items-center gap-1">
+                {address.phone}
+                {address.phone_verified_at && (
+                  <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 text-xs font-medium">
+            {!address.is_default && (
+              <button
+                type="button"
+                disabled={isPending}
+                onClick={() => run(() => setDefaultAddress(address.id))}
+                className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                Set Default
+              </button>
+            )}
+            <button
+              type="button"
+              disabled={isPending}
+              onClick={() => openForm(address)}
+              className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              disabled={isPending}
+              onClick={() => handleDelete(address)}
+              className="text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {editing === null ? (
+        <button
+          type="button"
+          onClick={() => openForm()}
+          className="inline-flex items-center gap-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          <Plus className="w-4 h-4" />
+          Add Address
+        </button>
+      ) : (
+        <form onSubmit={handleSubmit} className="border rounded-lg p-4 space-y-4 bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="Label (Optional)"
+              name="label"
+              placeholder="Home, Office…"
+              value={fields.label}
+              onChange={handleChange}
+            />
+            <Input
+              label="Recipient Name"
+              name="fullName"
+              value={fields.fullName}
+              onChange={handleChange}
+              required
+            />
+            <Input
+              label="Phone Number"
+              name="phone"
+              type="tel"
+              placeholder="01712345678"
+              value={fields.phone}
+              onChange={handleChange}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              label="Division"
+              name="division"
+              value={fields.division}
+              onChange={handleChange}
+              options={toOptions(DIVISIONS)}
+              placeholder="Select division"
+              required
+            />
+            <Select
+              label="District"
+              name="district"
+              value={fields.district}
+              onChange={handleChange}
+              options={toOptions(getDistricts(fields.division))}
+              placeholder="Select district"
+              disabled={!fields.division}
+              required
+            />
+            <Select
+              label="Upazila / Thana"
+              name="upazila"
+              value={fields.upazila}
+              onChange={handleChange}
+              options={toOptions(getUpazilas(fields.division, fields.district))}
+              placeholder="Select upazila"
+              disabled={!fields.district}
+              required
+            />
+          </div>
+
+          <Input
+            label="Delivery Address"
+            name="address"
+            placeholder="House, Road, Block / Village"
+            value={fields.address}
+            onChange={handleChange}
+            required
+          />
+
+          <Input
+            label="Delivery Note (Optional)"
+            name="note"
+            value={fields.note}
+            onChange={handleChange}
+          />
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={fields.isDefault}
+              onChange={(e) => setFields((prev) => ({ ...prev, isDefault: e.target.checked }))}
+            />
+            Use as my default address
+          </label>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="submit"
+              disabled={isPending}
+              className="inline-flex items-center gap-2 h-10 px-4 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-60"
+            >
+              {isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editing === 'new' ? 'Save Address' : 'Update Address'}
+            </button>
+            <button
+              type="button"
+              disabled={isPending}
+              onClick={() => setEditing(null)}
+              className="h-10 px-4 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
 /**
  * Profile Page — /profile
- * Displays user account info, order history with tracking info.
+ * Displays user account info, the saved address book, and order history
+ * with tracking info.
  * Server Component.
  */
 
 import { StatusBadge } from '@/components/ui/badge';
 import { EmptyState } from '@/components/ui/empty-state';
 import { getCurrentUser } from '@/lib/auth';
+import { getMyAddresses } from '@/server-actions/addresses';
 import { getUserOrders } from '@/server-actions/order';
 import { Package, ShoppingBag, UserIcon } from 'lucide-react';
+import Link from 'next/link';
 import { redirect } from 'next/navigation';
+import { AddressBook } from './address-book';
 
 export default async function ProfilePage() {
   const user = await getCurrentUser();
@@ -18,7 +22,7 @@ export default async function ProfilePage() {
     redirect('/sign-in');
   }
 
-  const orders = await getUserOrders();
+  const [orders, addresses] = await Promise.all([getUserOrders(), getMyAddresses()]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -41,6 +45,17 @@ export default async function ProfilePage() {
           </div>
         </div>
 
+        {/* Address Book */}
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">My Addresses</h2>
+          <span className="text-sm text-gray-500">
+            {addresses.length} saved
+          </span>
+        </div>
+        <div className="bg-white rounded-xl border p-6 mb-8">
+          <AddressBook addresses={addresses} />
+        </div>
+
         {/* Order History */}
         <div className="mb-4 flex items-center justify-between">
           <h2 className="text-lg font-bold text-gray-900">My Orders</h2>
@@ -112,12 +127,19 @@ export default async function ProfilePage() {
 
                   <div className="flex items-center gap-3">
                     {/* Tracking Number */}
-                    {order.tracking_number && (
+                    {order.shipment?.tracking_code && (
                       <div className="flex items-center gap-1.5 text-xs text-gray-500">
                         <Package className="w-3.5 h-3.5" />
-                        <span>Tracking: {order.tracking_number}</span>
+                        <span>Tracking: {order.shipment.tracking_code}</span>
                       </div>
                     )}
+
+                    <Link
+                      href={`/track/${order.tracking_code}`}
+                      className="text-xs font-medium text-gray-900 hover:underline"
+                    >
+                      Track order →
+                    </Link>
                   </div>
                 </div>
               </div>
@@ -5,6 +5,7 @@
 
 'use client';
 
+import { unitPrice } from '@/lib/variants';
 import { removeFromCart, updateCartItem } from '@/server-actions/cart';
 import { Loader2, Minus, Plus, Trash2 } from 'lucide-react';
 import Image from 'next/image';
@@ -17,8 +18,10 @@ export function CartItemRow({ item }: { item: any }) {
 
   const product = item.product;
   const imageUrl =
-    product?.images?.sort((a: any, b: any) => a.display_order - b.display_order)?.[0]?.url ?? null;
-  const price = Number(product?.price ?? 0);
+    item.variant?.image_urls?.[0] ??
+    product?.images?.sort((a: any, b: any) => a.display_order - b.display_order)?.[0]?.url ??
+    null;
+  const price = unitPrice(item);
 
   const handleQuantityChange = (newQty: number) => {
     if (newQty < 1) return;
@@ -63,6 +66,9 @@ export function CartItemRow({ item }: { item: any }) {
         <h3 className="font-medium text-sm text-gray-900 truncate">
           {product?.name || 'Unknown Product'}
         </h3>
+        {item.variant && (
+          <p className="text-xs text-gray-500 mt-0.5">{item.variant.title}</p>
+        )}
         <p className="text-sm font-bold text-gray-900 mt-1">
           ৳{price.toLocaleString()}
         </p>
@@ -4,23 +4,25 @@
  * Server Component that fetches cart via server action.
  */
 
+import { DeliveryFeeSummary } from '@/components/cart/delivery-fee-summary';
 import { EmptyState } from '@/components/ui/empty-state';
+import { unitPrice } from '@/lib/variants';
 import { getCart } from '@/server-actions/cart';
+import { getDeliveryQuotesByZone } from '@/server-actions/delivery';
 import { ShoppingBag } from 'lucide-react';
 import Link from 'next/link';
 import { CartItemRow } from './cart-item-row';
 
-const DELIVERY_FEE = 80;
-
 export default async function CartPage() {
-  const cart = await getCart();
+  const [cart, deliveryQuotes] = await Promise.all([getCart(), getDeliveryQuotesByZone()]);
   const items = cart?.items ?? [];
 
   const subtotal = items.reduce(
-    (sum: number, item: any) => sum + Number(item.product?.price ?? 0) * item.quantity,
+    (sum: number, item: any) => sum + unitPrice(item) * item.quantity,
     0
   );
-  const total = subtotal + (items.length > 0 ? DELIVERY_FEE : 0);
+  // Cheapest zone; the exact fee is shown at checkout once the address is known
+  const total = subtotal + (deliveryQuotes[0]?.fee ?? 0);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -62,15 +64,15 @@ export default async function CartPage() {
                       ৳{subtotal.toLocaleString()}
                     </span>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-500">Delivery Fee</span>
-                    <span className="font-medium">৳{DELIVERY_FEE}</span>
-                  </div>
+                  <DeliveryFeeSummary quotes={deliveryQuotes} />
                 </div>
 
                 <div className="border-t pt-4 flex justify-between mb-6">
                   <span className="font-semibold text-gray-900">Total</span>
                   <span className="font-bold text-lg text-gray-900">
+                    {deliveryQuotes.length > 1 && (
+                      <span className="text-xs font-normal text-gray-500 mr-1">from</span>
+                    )}
                     ৳{total.toLocaleString()}
                   </span>
                 </div>
@@ -2,45 +2,137 @@
 
 /**
  * CheckoutForm — Client component for COD delivery details.
- * Collects recipient name, phone, address, city, area, and notes.
+ * Collects recipient name, phone, division/district/upazila (cascading
+ * selects), street address and notes, and requires the phone to be verified
+ * by OTP. Quotes the zone-based delivery fee as the location is chosen.
+ * Signed-in customers can pick a saved address (the default is preselected,
+ * and a phone verified on an earlier order skips the OTP step) or save the
+ * new one to their address book.
  * Calls createCodOrder server action with CheckoutFormData shape.
  */
 
 import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { DIVISIONS, getDistricts, getUpazilas } from '@/lib/bd-locations';
+import type { DeliveryQuote } from '@/lib/delivery-pricing';
+import { formatShippingAddress } from '@/lib/validations/address';
+import { getDeliveryQuote } from '@/server-actions/delivery';
 import { createCodOrder } from '@/server-actions/order';
-import { Loader2, MapPin } from 'lucide-react';
+import type { Address } from '@/types/db';
+import { CheckCircle2, Loader2, MapPin } from 'lucide-react';
 import { useRouter } from 'next/navigation';
-import { useState, useTransition } from 'react';
+import { useEffect, useState, useTransition } from 'react';
+import { PhoneVerification } from './phone-verification';
 
 interface FormFields {
   recipientName: string;
   phoneNumber: string;
+  division: string;
+  district: string;
+  upazila: string;
   address: string;
-  city: string;
-  area: string;
   note: string;
 }
 
-export function CheckoutForm() {
+const EMPTY_FIELDS: FormFields = {
+  recipientName: '',
+  phoneNumber: '',
+  division: '',
+  district: '',
+  upazila: '',
+  address: '',
+  note: '',
+};
+
+const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
+const fieldsFromAddress = (address: Address): FormFields => ({
+  recipientName: address.full_name,
+  phoneNumber: address.phone,
+  division: address.division,
+  district: address.district,
+  upazila: address.upazila,
+  address: address.address,
+  note: address.note ?? '',
+});
+
+export function CheckoutForm({
+  subtotal,
+  savedAddresses = [],
+  canSaveAddress = false,
+}: {
+  subtotal: number;
+  savedAddresses?: Address[];
+  canSaveAddress?: boolean;
+}) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof FormFields, string>>>({});
-  const [formData, setFormData] = useState<FormFields>({
-    recipientName: '',
-    phoneNumber: '',
-    address: '',
-    city: '',
-    area: '',
-    note: '',
-  });
+  const initialAddress = savedAddresses.find((a) => a.is_default) ?? savedAddresses[0] ?? null;
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(
+    initialAddress?.id ?? null
+  );
+  const [formData, setFormData] = useState<FormFields>(
+    initialAddress ? fieldsFromAddress(initialAddress) : EMPTY_FIELDS
+  );
+  const [saveAddress, setSaveAddress] = useState(savedAddresses.length === 0);
+  const [phoneVerificationId, setPhoneVerificationId] = useState<string | null>(null);
+  const [quote, setQuote] = useState<DeliveryQuote | null>(null);
+  // One key per checkout attempt, so double submits resolve to the same order
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  // Re-quote delivery when the address location changes (debounced)
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const next = await getDeliveryQuote({
+          district: formData.district,
+          upazila: formData.upazila,
+        });
+        if (!cancelled) setQuote(next);
+      } catch (err) {
+        console.error('Delivery quote failed:', err);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.district, formData.upazila]);
+
+  const selectedAddress = savedAddresses.find((a) => a.id === selectedAddressId) ?? null;
+  // An unchanged saved address whose phone was verified on an earlier order
+  const savedPhoneVerified = !!selectedAddress?.phone_verified_at;
+
+  const selectAddress = (address: Address | null) => {
+    setSelectedAddressId(address?.id ?? null);
+    setFormData(address ? fieldsFromAddress(address) : EMPTY_FIELDS);
+    setPhoneVerificationId(null);
+    setFieldErrors({});
+  };
 
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    setFormData((prev) => {
+      const updated = { ...prev, [name]: value };
+      // Cascading selects: a new division/district invalidates the levels below it
+      if (name === 'division') {
+        updated.district = '';
+        updated.upazila = '';
+      }
+      if (name === 'district') updated.upazila = '';
+      return updated;
+    });
+    // A verification only covers the number it was issued for
+    if (name === 'phoneNumber') setPhoneVerificationId(null);
+    // Editing the delivery details turns a saved address into a new one
+    if (name !== 'note') setSelectedAddressId(null);
     if (fieldErrors[name as keyof FormFields]) {
       setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
     }
@@ -54,9 +146,13 @@ export function CheckoutForm() {
       errors.phoneNumber = 'Phone number is required';
     } else if (!/^01[3-9]\d{8}$/.test(formData.phoneNumber.trim())) {
       errors.phoneNumber = 'Enter a valid Bangladesh phone number (e.g. 01712345678)';
+    } else if (!phoneVerificationId && !savedPhoneVerified) {
+      errors.phoneNumber = 'Please verify your phone number';
     }
-    if (!formData.address.trim()) errors.address = 'Delivery address is required';
-    if (!formData.city.trim()) errors.city = 'City is required';
+    if (!formData.division) errors.division = 'Select a division';
+    if (!formData.district) errors.district = 'Select a district';
+    if (!formData.upazila) errors.upazila = 'Select an upazila / thana';
+    if (formData.address.trim().length < 5) errors.address = 'Delivery address is required';
 
     setFieldErrors(errors);
     return Object.keys(errors).length === 0;
@@ -74,11 +170,16 @@ export function CheckoutForm() {
           phoneNumber: formData.phoneNumber.trim(),
           recipientName: formData.recipientName.trim(),
           shippingAddress: {
+            division: formData.division,
+            district: formData.district,
+            upazila: formData.upazila,
             address: formData.address.trim(),
-            city: formData.city.trim(),
-            area: formData.area.trim(),
             note: formData.note.trim() || undefined,
           },
+          phoneVerificationId: phoneVerificationId ?? undefined,
+          quotedDeliveryFee: quote?.fee,
+          idempotencyKey,
+          saveAddress: canSaveAddress && !selectedAddress && saveAddress,
         });
 
         if (result.success) {
@@ -105,6 +206,62 @@ export function CheckoutForm() {
         </div>
       )}
 
+      {savedAddresses.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Saved Addresses</p>
+          {savedAddresses.map((address) => (
+            <label
+              key={address.id}
+              className={`flex items-start gap-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+                selectedAddressId === address.id
+                  ? 'border-gray-900 bg-gray-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <input
+                type="radio"
+                name="savedAddress"
+                className="mt-1"
+                checked={selectedAddressId === address.id}
+                onChange={() => selectAddress(address)}
+              />
+              <div className="text-sm min-w-0">
+                <p className="font-medium text-gray-900">
+                  {address.label || address.full_name}
+                  {address.is_default && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">Default</span>
+                  )}
+                </p>
+                <p className="text-gray-500 truncate">
+                  {formatShippingAddress(address)}
+                </p>
+                <p className="text-gray-500 flex items-center gap-1">
+                  {address.phone}
+                  {address.phone_verified_at && (
+                    <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+                  )}
+                </p>
+              </div>
+            </label>
+          ))}
+          <label
+            className={`flex items-center gap-3 border rounded-lg p-3 cursor-pointer text-sm transition-colors ${
+              selectedAddressId === null
+                ? 'border-gray-900 bg-gray-50'
+                : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <input
+              type="radio"
+              name="savedAddress"
+              checked={selectedAddressId === null}
+              onChange={() => selectAddress(null)}
+            />
+            <span className="font-medium text-gray-900">Use a different address</span>
+          </label>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Input
           label="Recipient Name"
@@ -127,36 +284,60 @@ export function CheckoutForm() {
         />
       </div>
 
-      <Input
-        label="Delivery Address"
-        name="address"
-        placeholder="House, Road, Area details"
-        value={formData.address}
-        onChange={handleChange}
-        error={fieldErrors.address}
-        required
+      <PhoneVerification
+        phoneNumber={formData.phoneNumber}
+        verified={!!phoneVerificationId || savedPhoneVerified}
+        onVerified={(id) => {
+          setPhoneVerificationId(id);
+          setFieldErrors((prev) => ({ ...prev, phoneNumber: undefined }));
+        }}
       />
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <Input
-          label="City"
-          name="city"
-          placeholder="e.g. Dhaka"
-          value={formData.city}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Select
+          label="Division"
+          name="division"
+          value={formData.division}
           onChange={handleChange}
-          error={fieldErrors.city}
+          options={toOptions(DIVISIONS)}
+          placeholder="Select division"
+          error={fieldErrors.division}
           required
         />
-        <Input
-          label="Area / Thana"
-          name="area"
-          placeholder="e.g. Mirpur"
-          value={formData.area}
+        <Select
+          label="District"
+          name="district"
+          value={formData.district}
+          onChange={handleChange}
+          options={toOptions(getDistricts(formData.division))}
+          placeholder="Select district"
+          error={fieldErrors.district}
+          disabled={!formData.division}
+          required
+        />
+        <Select
+          label="Upazila / Thana"
+          name="upazila"
+          value={formData.upazila}
           onChange={handleChange}
-          error={fieldErrors.area}
+          options={toOptions(getUpazilas(formData.division, formData.district))}
+          placeholder="Select upazila"
+          error={fieldErrors.upazila}
+          disabled={!formData.district}
+          required
         />
       </div>
 
+      <Input
+        label="Delivery Address"
+        name="address"
+        placeholder="House, Road, Block / Village"
+        value={formData.address}
+        onChange={handleChange}
+        error={fieldErrors.address}
+        required
+      />
+
       <Textarea
         label="Order Notes (Optional)"
         name="note"
@@ -166,6 +347,40 @@ export function CheckoutForm() {
         rows={3}
       />
 
+      {canSaveAddress && !selectedAddress && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={saveAddress}
+            onChange={(e) => setSaveAddress(e.target.checked)}
+          />
+          Save this address to my address book
+        </label>
+      )}
+
+      {quote && (
+        <div className="bg-gray-50 border rounded-lg p-4 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-500">Delivery ({quote.zoneName})</span>
+            <span className="font-medium text-gray-900">
+              {quote.freeDelivery ? 'Free' : `৳${quote.fee.toLocaleString()}`}
+            </span>
+          </div>
+          {!quote.freeDelivery && quote.quantitySurcharge + quote.weightSurcharge > 0 && (
+            <p className="text-xs text-gray-400">
+              Includes ৳{(quote.quantitySurcharge + quote.weightSurcharge).toLocaleString()} for
+              extra items/weight
+            </p>
+          )}
+          <div className="border-t pt-2 flex justify-between">
+            <span className="font-semibold text-gray-900">Total</span>
+            <span className="font-bold text-gray-900">
+              ৳{(subtotal + quote.fee).toLocaleString()}
+            </span>
+          </div>
+        </div>
+      )}
+
       <button
         type="submit"
         disabled={isPending}
@@ -4,28 +4,42 @@
  * Server component wrapper + client form for COD checkout.
  * Fixes from original: uses server action for cart, correct ৳ currency,
  * consistent delivery fee, proper form validation and error display.
+ * The exact zone-based delivery fee is quoted by the form from the address.
+ * Signed-in customers get their saved addresses, with the default preselected.
+ * Opening checkout holds the cart's stock for a few minutes.
  */
 
-import { getCart } from '@/server-actions/cart';
+import { DeliveryFeeSummary } from '@/components/cart/delivery-fee-summary';
+import { getCurrentUser } from '@/lib/auth';
+import { inventoryHoldMinutes } from '@/lib/inventory';
+import { getMyAddresses } from '@/server-actions/addresses';
+import { unitPrice } from '@/lib/variants';
+import { getCart, reserveCheckoutStock } from '@/server-actions/cart';
+import { getDeliveryQuotesByZone } from '@/server-actions/delivery';
+import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import { CheckoutForm } from './checkout-form';
 
 export default async function CheckoutPage() {
-  const cart = await getCart();
+  const [cart, deliveryQuotes, user, savedAddresses] = await Promise.all([
+    getCart(),
+    getDeliveryQuotesByZone(),
+    getCurrentUser(),
+    getMyAddresses(),
+  ]);
   const items = cart?.items ?? [];
 
   if (items.length === 0) {
     redirect('/cart');
   }
 
+  const hold = await reserveCheckoutStock();
+
   const subtotal = items.reduce(
-    (sum: number, item: any) => sum + item.price * item.quantity,
+    (sum: number, item: any) => sum + unitPrice(item) * item.quantity,
     0
   );
 
-  const DELIVERY_FEE = 80;
-  const total = subtotal + DELIVERY_FEE;
-
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-6 md:py-10">
@@ -36,7 +50,23 @@ export default async function CheckoutPage() {
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
           {/* Delivery Form */}
           <div className="lg:col-span-3">
-            <CheckoutForm />
+            {hold.success ? (
+              <p className="text-sm text-gray-500 mb-4">
+                Items in your cart are reserved for {inventoryHoldMinutes()} minutes.
+              </p>
+            ) : (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 mb-4">
+                {hold.error}{' '}
+                <Link href="/cart" className="font-medium underline">
+                  Update your cart
+                </Link>
+              </div>
+            )}
+            <CheckoutForm
+              subtotal={subtotal}
+              savedAddresses={savedAddresses}
+              canSaveAddress={!!user}
+            />
           </div>
 
           {/* Order Summary */}
@@ -50,17 +80,18 @@ export default async function CheckoutPage() {
               <div className="space-y-3 mb-6 max-h-60 overflow-y-auto">
                 {items.map((item: any) => (
                   <div
-                    key={item.product_id}
+                    key={item.id}
                     className="flex items-center justify-between text-sm"
                   >
                     <div className="flex-1 min-w-0 mr-4">
                       <p className="font-medium text-gray-900 truncate">
-                        {item.product_name || item.name}
+                        {item.product?.name}
                       </p>
+                      {item.variant && <p className="text-gray-500 truncate">{item.variant.title}</p>}
                       <p className="text-gray-500">Qty: {item.quantity}</p>
                     </div>
                     <p className="font-medium text-gray-900 whitespace-nowrap">
-                      ৳{(item.price * item.quantity).toLocaleString()}
+                      ৳{(unitPrice(item) * item.quantity).toLocaleString()}
                     </p>
                   </div>
                 ))}
@@ -72,16 +103,7 @@ export default async function CheckoutPage() {
                   <span className="text-gray-500">Subtotal</span>
                   <span className="font-medium">৳{subtotal.toLocaleString()}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-500">Delivery Fee</span>
-                  <span className="font-medium">৳{DELIVERY_FEE}</span>
-                </div>
-                <div className="border-t pt-3 flex justify-between">
-                  <span className="font-semibold text-gray-900">Total</span>
-                  <span className="font-bold text-lg text-gray-900">
-                    ৳{total.toLocaleString()}
-                  </span>
-                </div>
+                <DeliveryFeeSummary quotes={deliveryQuotes} />
               </div>
 
               {/* Payment Method Indicator */}
@@ -0,0 +1,121 @@
+'use client';
+
+/**
+ * PhoneVerification — OTP step for the checkout phone number.
+ * Sends a code via requestPhoneOtp, checks it via verifyPhoneOtp and reports
+ * the verification id back to CheckoutForm.
+ */
+
+import { Input } from '@/components/ui/input';
+import { requestPhoneOtp, verifyPhoneOtp } from '@/server-actions/verification';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { useState, useTransition } from 'react';
+
+export function PhoneVerification({
+  phoneNumber,
+  verified,
+  onVerified,
+}: {
+  phoneNumber: string;
+  verified: boolean;
+  onVerified: (verificationId: string) => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const phoneValid = /^01[3-9]\d{8}$/.test(phoneNumber.trim());
+
+  const handleSend = () => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await requestPhoneOtp(phoneNumber.trim());
+        if (!result.success) {
+          setError(result.error || 'Failed to send code.');
+          return;
+        }
+        setCodeSent(true);
+        setCode('');
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  const handleVerify = () => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await verifyPhoneOtp(phoneNumber.trim(), code);
+        if (!result.success || !result.verificationId) {
+          setError(result.error || 'Verification failed.');
+          return;
+        }
+        onVerified(result.verificationId);
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  if (verified) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700">
+        <CheckCircle2 className="w-4 h-4" />
+        Phone number verified
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border rounded-lg p-4 space-y-3">
+      <p className="text-sm text-gray-700">
+        Verify your phone number — we&apos;ll send a 6-digit code by SMS.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        {codeSent && (
+          <div className="w-40">
+            <Input
+              label="Verification Code"
+              name="otp"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            />
+          </div>
+        )}
+        {codeSent && (
+          <button
+            type="button"
+            onClick={handleVerify}
+            disabled={isPending || code.length !== 6}
+            className="h-10 px-4 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Verify
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={isPending || !phoneValid}
+          className="h-10 px-4 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {codeSent ? 'Resend Code' : 'Send Code'}
+        </button>
+        {isPending && <Loader2 className="w-4 h-4 animate-spin text-gray-400 mb-3" />}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 /**
  * Public Shop Layout
- * Shared header with navigation, cart badge, and footer.
- * Used by all public-facing pages: /home, /product, /category
+ * Shared header with navigation, product search, cart badge, and footer.
+ * Used by all public-facing pages: /home, /product, /category, /search, /track
  */
 
+import { SearchBox } from '@/components/search/search-box';
 import { getCartItemCount } from '@/server-actions/cart';
 import { UserButton } from '@clerk/nextjs';
-import { ShoppingCart } from 'lucide-react';
+import { Search, ShoppingCart } from 'lucide-react';
 import Link from 'next/link';
+import { Suspense } from 'react';
 
 export default async function ShopLayout({
   children,
@@ -50,8 +52,21 @@ export default async function ShopLayout({
             </Link>
           </nav>
 
+          {/* Search */}
+          <Suspense>
+            <SearchBox className="hidden md:block flex-1 max-w-sm mx-6" />
+          </Suspense>
+
           {/* Right Actions */}
           <div className="flex items-center gap-4">
+            <Link
+              href="/search"
+              className="md:hidden flex items-center justify-center w-10 h-10 rounded-full hover:bg-gray-100 transition-colors"
+              aria-label="Search"
+            >
+              <Search className="w-5 h-5 text-gray-700" />
+            </Link>
+
             {/* Cart */}
             <Link
               href="/cart"
@@ -117,6 +132,12 @@ export default async function ShopLayout({
                 >
                   My Orders
                 </Link>
+                <Link
+                  href="/track"
+                  className="text-sm text-gray-500 hover:text-gray-900 transition-colors"
+                >
+                  Track Order
+                </Link>
               </nav>
             </div>
             <div>
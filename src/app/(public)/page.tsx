@@ -15,13 +15,14 @@ export const revalidate = 60; // ISR: 1 minute
 export default async function Home() {
   const supabase = await createPublicClient();
 
-  // Fetch new arrivals & categories in parallel
+  // Fetch new arrivals & top-level categories in parallel
   const [products, { data: categories }] = await Promise.all([
     getNewArrivals(),
     supabase
       .from('categories')
       .select('id, name, slug, image_url, description')
       .eq('is_active', true)
+      .is('parent_id', null)
       .order('name')
       .limit(6),
   ]);
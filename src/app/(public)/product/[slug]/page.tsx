@@ -1,11 +1,15 @@
 /**
  * Product Detail Page — /product/[slug]
  * Displays full product details with image gallery, working add-to-cart button,
- * stock status, and related products section.
+ * stock status, and related products section. Products with variants get
+ * option pickers with per-variant price and stock. The breadcrumb follows
+ * the primary category up through its parents.
  * Uses ISR with per-slug caching.
  */
 
 import { AddToCartButton } from '@/components/product/add-to-cart-button';
+import { VariantPicker } from '@/components/product/variant-picker';
+import { categoryPath, getActiveCategories } from '@/lib/categories';
 import { getProductBySlug, getRelatedProducts } from '@/lib/products';
 import { ChevronRight } from 'lucide-react';
 import { Metadata } from 'next';
@@ -51,10 +55,20 @@ export default async function ProductDetailsPage({ params }: Props) {
   // Collect all images (primary + gallery)
   const allImages = product.images?.map((img) => img.url) || [];
 
-  // Fetch related products if category exists
-  const relatedProducts = product.category_id
-    ? await getRelatedProducts(product.category_id, product.id)
-    : [];
+  const variants = product.variants ?? [];
+  const hasVariants = variants.length > 0;
+  const variantPrices = variants.map((v) => Number(v.price ?? product.price));
+
+  // Related products share any of the product's categories
+  const categoryIds = (product.categories ?? []).map((c) => c.category_id);
+  const [relatedProducts, categories] = await Promise.all([
+    getRelatedProducts(categoryIds, product.id),
+    getActiveCategories(),
+  ]);
+
+  // Breadcrumb trail: the primary category (or the first one) and its parents
+  const primaryCategoryId = product.category_id ?? categoryIds[0];
+  const breadcrumbCategories = primaryCategoryId ? categoryPath(categories, primaryCategoryId) : [];
 
   // Structured data for SEO
   const jsonLd = {
@@ -65,8 +79,14 @@ export default async function ProductDetailsPage({ params }: Props) {
     description: product.description,
     sku: product.slug,
     offers: {
-      '@type': 'Offer',
-      price: product.price,
+      ...(hasVariants
+        ? {
+            '@type': 'AggregateOffer',
+            lowPrice: Math.min(...variantPrices),
+            highPrice: Math.max(...variantPrices),
+            offerCount: variants.length,
+          }
+        : { '@type': 'Offer', price: product.price }),
       priceCurrency: 'BDT',
       availability:
         product.inventory > 0
@@ -93,6 +113,17 @@ export default async function ProductDetailsPage({ params }: Props) {
         <Link href="/product" className="hover:text-gray-600 transition-colors">
           Products
         </Link>
+        {breadcrumbCategories.map((category) => (
+          <span key={category.id} className="contents">
+            <ChevronRight className="w-3.5 h-3.5" />
+            <Link
+              href={`/product?category=${category.slug}`}
+              className="hover:text-gray-600 transition-colors truncate max-w-[160px]"
+            >
+              {category.name}
+            </Link>
+          </span>
+        ))}
         <ChevronRight className="w-3.5 h-3.5" />
         <span className="text-gray-700 font-medium truncate max-w-[200px]">
           {product.name}
@@ -160,27 +191,39 @@ export default async function ProductDetailsPage({ params }: Props) {
             {product.name}
           </h1>
 
-          {/* Price */}
-          <div className="flex items-baseline gap-3 mb-6">
-            <p className="text-3xl font-bold text-gray-900">
-              ৳{Number(product.price).toLocaleString()}
-            </p>
-          </div>
-
-          {/* Stock Status */}
-          <div className="mb-6">
-            {inStock ? (
-              <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-green-50 text-green-700 text-sm font-medium">
-                <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
-                In Stock ({product.inventory} available)
+          {hasVariants ? (
+            <VariantPicker
+              productId={product.id}
+              productName={product.name}
+              basePrice={Number(product.price)}
+              options={product.options ?? []}
+              variants={variants}
+            />
+          ) : (
+            <>
+              {/* Price */}
+              <div className="flex items-baseline gap-3 mb-6">
+                <p className="text-3xl font-bold text-gray-900">
+                  ৳{Number(product.price).toLocaleString()}
+                </p>
               </div>
-            ) : (
-              <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-50 text-red-700 text-sm font-medium">
-                <span className="w-2 h-2 rounded-full bg-red-500" />
-                Out of Stock
+
+              {/* Stock Status */}
+              <div className="mb-6">
+                {inStock ? (
+                  <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-green-50 text-green-700 text-sm font-medium">
+                    <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                    In Stock ({product.inventory} available)
+                  </div>
+                ) : (
+                  <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-50 text-red-700 text-sm font-medium">
+                    <span className="w-2 h-2 rounded-full bg-red-500" />
+                    Out of Stock
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </>
+          )}
 
           {/* Description */}
           {product.description && (
@@ -190,12 +233,14 @@ export default async function ProductDetailsPage({ params }: Props) {
           )}
 
           {/* Add to Cart */}
-          <div className="mb-8">
-            <AddToCartButton
-              productId={product.id}
-              disabled={!inStock}
-            />
-          </div>
+          {!hasVariants && (
+            <div className="mb-8">
+              <AddToCartButton
+                productId={product.id}
+                disabled={!inStock}
+              />
+            </div>
+          )}
 
           {/* Delivery Info */}
           <div className="border-t pt-6 space-y-3">
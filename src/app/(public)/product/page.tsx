@@ -1,12 +1,27 @@
 /**
  * Product Listing Page — /product
- * Displays all active products with category filtering, sorting, and pagination.
+ * Displays active products with faceted filtering (categories, price range,
+ * in-stock only, variant attributes with counts), sorting, and pagination.
+ * A category includes its subcategories; the category facet is shown as a
+ * tree.
+ * Every filter is a URL param, so filtered listings can be shared and cached.
  * Server Component using ISR for performance.
  */
 
 import { Pagination } from '@/components/ui/pagination';
-import { createPublicClient } from '@/lib/supabase/server';
-import { SlidersHorizontal } from 'lucide-react';
+import { buildCategoryTree, flattenCategoryTree, getActiveCategories } from '@/lib/categories';
+import {
+  catalogHref,
+  catalogParams,
+  getCatalogPage,
+  parseCatalogParams,
+  SORT_OPTIONS,
+  toggleValue,
+  withAttribute,
+  type CatalogFilters,
+  type FacetValue,
+} from '@/lib/catalog';
+import { SlidersHorizontal, X } from 'lucide-react';
 import { Metadata } from 'next';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -19,79 +34,68 @@ export const metadata: Metadata = {
     'Browse our full collection of products. Fast delivery across Bangladesh.',
 };
 
-const SORT_OPTIONS = [
-  { value: 'newest', label: 'Newest First' },
-  { value: 'price_asc', label: 'Price: Low → High' },
-  { value: 'price_desc', label: 'Price: High → Low' },
-  { value: 'name_asc', label: 'Name: A → Z' },
-];
-
-const ITEMS_PER_PAGE = 16;
-
 export default async function ProductsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ category?: string; sort?: string; page?: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
-  const params = await searchParams;
-  const { category, sort = 'newest' } = params;
-  const page = Number(params.page) || 1;
-
-  const supabase = await createPublicClient();
-
-  // Fetch categories for filter bar
-  const { data: categories } = await supabase
-    .from('categories')
-    .select('id, name, slug')
-    .eq('is_active', true)
-    .order('name');
-
-  // Build product query
-  let query = supabase
-    .from('products')
-    .select('id, name, slug, price, category_id, inventory, images:product_images(url, display_order)', {
-      count: 'exact',
-    })
-    .eq('is_active', true);
-
-  // Category filter
-  if (category) {
-    const { data: cat } = await supabase
-      .from('categories')
-      .select('id')
-      .eq('slug', category)
-      .single();
-
-    if (cat) {
-      query = query.eq('category_id', cat.id);
-    }
-  }
+  const filters = parseCatalogParams(await searchParams);
+  const [{ products, total, totalPages, facets }, categories] = await Promise.all([
+    getCatalogPage(filters),
+    getActiveCategories(),
+  ]);
 
-  // Sorting
-  switch (sort) {
-    case 'price_asc':
-      query = query.order('price', { ascending: true });
-      break;
-    case 'price_desc':
-      query = query.order('price', { ascending: false });
-      break;
-    case 'name_asc':
-      query = query.order('name', { ascending: true });
-      break;
-    default:
-      query = query.order('created_at', { ascending: false });
-  }
+  // Category facet values in tree order, indented by depth
+  const categoryFacets = flattenCategoryTree(buildCategoryTree(categories)).flatMap(({ category, depth }) => {
+    const facet = facets.categories.find((c) => c.value === category.slug);
+    return facet ? [{ facet, depth }] : [];
+  });
 
-  // Pagination
-  const from = (page - 1) * ITEMS_PER_PAGE;
-  const to = from + ITEMS_PER_PAGE - 1;
-  query = query.range(from, to);
+  // Heading: the category name when exactly one is selected
+  const activeCategory =
+    filters.categories.length === 1
+      ? facets.categories.find((c) => c.value === filters.categories[0])
+      : undefined;
 
-  const { data: products, count } = await query;
-  const totalPages = Math.ceil((count ?? 0) / ITEMS_PER_PAGE);
+  // Chips for every active filter, each linking to the listing without it
+  const activeFilters: { label: string; href: string }[] = [
+    ...filters.categories.map((slug) => ({
+      label: facets.categories.find((c) => c.value === slug)?.label ?? slug,
+      href: catalogHref(filters, { categories: toggleValue(filters.categories, slug) }),
+    })),
+    ...(filters.minPrice !== undefined || filters.maxPrice !== undefined
+      ? [
+          {
+            label: `৳${filters.minPrice ?? 0} – ${filters.maxPrice !== undefined ? `৳${filters.maxPrice}` : 'any'}`,
+            href: catalogHref(filters, { minPrice: undefined, maxPrice: undefined }),
+          },
+        ]
+      : []),
+    ...(filters.inStock
+      ? [{ label: 'In stock', href: catalogHref(filters, { inStock: false }) }]
+      : []),
+    ...Object.entries(filters.attributes).flatMap(([name, values]) =>
+      values.map((value) => ({
+        label: `${name}: ${value}`,
+        href: catalogHref(filters, {
+          attributes: withAttribute(filters, name, toggleValue(values, value)),
+        }),
+      }))
+    ),
+  ];
 
-  // Find active category name for heading
-  const activeCategory = categories?.find((c) => c.slug === category);
+  // Selected attribute values stay visible even when nothing else matches
+  const attributeFacets = facets.attributes.map((group) => group.name);
+  for (const name of Object.keys(filters.attributes)) {
+    if (!attributeFacets.includes(name)) attributeFacets.push(name);
+  }
+  const facetValues = (name: string): FacetValue[] => {
+    const values = [...(facets.attributes.find((g) => g.name === name)?.values ?? [])];
+    for (const value of filters.attributes[name] ?? []) {
+      if (!values.some((v) => v.value === value)) values.push({ value, label: value, count: 0 });
+    }
+    return values;
+  };
 
   return (
     <div className="container mx-auto px-4 py-6 md:py-10">
@@ -99,26 +103,23 @@ export default async function ProductsPage({
       <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
         <div>
           <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
-            {activeCategory ? activeCategory.name : 'All Products'}
+            {activeCategory ? activeCategory.label : 'All Products'}
           </h1>
           <p className="text-sm text-gray-500 mt-1">
-            {count ?? 0} product{(count ?? 0) !== 1 ? 's' : ''}
+            {total} product{total !== 1 ? 's' : ''}
           </p>
         </div>
 
         {/* Sort Controls */}
         <div className="flex items-center gap-2">
           <SlidersHorizontal className="w-4 h-4 text-gray-400" />
-          <div className="flex gap-1">
+          <div className="flex flex-wrap gap-1">
             {SORT_OPTIONS.map((opt) => (
               <Link
                 key={opt.value}
-                href={`/product?${new URLSearchParams({
-                  ...(category ? { category } : {}),
-                  sort: opt.value,
-                }).toString()}`}
+                href={catalogHref(filters, { sort: opt.value })}
                 className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
-                  sort === opt.value
+                  filters.sort === opt.value
                     ? 'bg-gray-900 text-white'
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
@@ -130,123 +131,270 @@ export default async function ProductsPage({
         </div>
       </div>
 
-      {/* Category Filters */}
-      <div className="flex flex-wrap gap-2 mb-8">
-        <Link
-          href="/product"
-          className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
-            !category
-              ? 'bg-gray-900 text-white shadow-md'
-              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-          }`}
-        >
-          All
-        </Link>
-        {(categories ?? []).map((cat) => (
-          <Link
-            key={cat.id}
-            href={`/product?category=${cat.slug}${sort !== 'newest' ? `&sort=${sort}` : ''}`}
-            className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
-              category === cat.slug
-                ? 'bg-gray-900 text-white shadow-md'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
-          >
-            {cat.name}
-          </Link>
-        ))}
-      </div>
-
-      {/* Product Grid */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6">
-        {(products ?? []).map((product) => (
-          <Link
-            key={product.id}
-            href={`/product/${product.slug}`}
-            className="group"
-          >
-            <div className="aspect-square relative bg-gray-100 rounded-xl overflow-hidden mb-3">
-              {product.images?.[0]?.url ? (
-                <Image
-                  src={product.images[0].url}
-                  alt={product.name}
-                  fill
-                  className="object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
-                  sizes="(max-width: 768px) 50vw, 25vw"
-                  loading="lazy"
+      <div className="flex flex-col lg:flex-row gap-8">
+        {/* Facets */}
+        <aside className="lg:w-60 flex-shrink-0 space-y-6">
+          {categoryFacets.length > 0 && (
+            <FacetSection title="Category">
+              {categoryFacets.map(({ facet, depth }) => (
+                <FacetLink
+                  key={facet.value}
+                  facet={facet}
+                  depth={depth}
+                  selected={filters.categories.includes(facet.value)}
+                  href={catalogHref(filters, { categories: toggleValue(filters.categories, facet.value) })}
                 />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center text-gray-300">
-                  <svg
-                    className="w-12 h-12"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={1}
-                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+              ))}
+            </FacetSection>
+          )}
+
+          <FacetSection title="Price">
+            <PriceForm filters={filters} />
+          </FacetSection>
+
+          <FacetSection title="Availability">
+            <FacetLink
+              facet={{ value: 'in_stock', label: 'In stock only', count: -1 }}
+              selected={filters.inStock}
+              href={catalogHref(filters, { inStock: !filters.inStock })}
+            />
+          </FacetSection>
+
+          {attributeFacets.map((name) => (
+            <FacetSection key={name} title={name}>
+              {facetValues(name).map((facet) => {
+                const selected = filters.attributes[name] ?? [];
+                return (
+                  <FacetLink
+                    key={facet.value}
+                    facet={facet}
+                    selected={selected.includes(facet.value)}
+                    href={catalogHref(filters, {
+                      attributes: withAttribute(filters, name, toggleValue(selected, facet.value)),
+                    })}
+                  />
+                );
+              })}
+            </FacetSection>
+          ))}
+        </aside>
+
+        <div className="flex-1 min-w-0">
+          {/* Active Filters */}
+          {activeFilters.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              {activeFilters.map((chip) => (
+                <Link
+                  key={chip.href}
+                  href={chip.href}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full bg-gray-900 text-white text-xs font-medium hover:bg-gray-700 transition-colors"
+                >
+                  {chip.label}
+                  <X className="w-3 h-3" />
+                </Link>
+              ))}
+              <Link
+                href={catalogHref(filters, {
+                  categories: [],
+                  minPrice: undefined,
+                  maxPrice: undefined,
+                  inStock: false,
+                  attributes: {},
+                })}
+                className="text-xs font-medium text-gray-500 hover:text-gray-900 underline"
+              >
+                Clear all
+              </Link>
+            </div>
+          )}
+
+          {/* Product Grid */}
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6">
+            {products.map((product) => (
+              <Link
+                key={product.id}
+                href={`/product/${product.slug}`}
+                className="group"
+              >
+                <div className="aspect-square relative bg-gray-100 rounded-xl overflow-hidden mb-3">
+                  {product.image_url ? (
+                    <Image
+                      src={product.image_url}
+                      alt={product.name}
+                      fill
+                      className="object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
+                      sizes="(max-width: 768px) 50vw, (max-width: 1280px) 33vw, 25vw"
+                      loading="lazy"
                     />
-                  </svg>
-                </div>
-              )}
-              {/* Out of stock overlay */}
-              {product.inventory <= 0 && (
-                <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
-                  <span className="bg-gray-900/80 text-white text-xs font-medium px-3 py-1 rounded-full">
-                    Out of Stock
-                  </span>
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-300">
+                      <svg
+                        className="w-12 h-12"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={1}
+                          d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                        />
+                      </svg>
+                    </div>
+                  )}
+                  {/* Out of stock overlay */}
+                  {product.inventory <= 0 && (
+                    <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                      <span className="bg-gray-900/80 text-white text-xs font-medium px-3 py-1 rounded-full">
+                        Out of Stock
+                      </span>
+                    </div>
+                  )}
                 </div>
-              )}
+                <h3 className="font-medium text-sm md:text-base text-gray-900 mb-1 group-hover:text-gray-600 transition-colors line-clamp-2">
+                  {product.name}
+                </h3>
+                <p className="font-bold text-gray-900">৳{product.price}</p>
+              </Link>
+            ))}
+          </div>
+
+          {/* Empty State */}
+          {products.length === 0 && (
+            <div className="text-center py-20">
+              <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-4">
+                <svg
+                  className="w-8 h-8 text-gray-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={1.5}
+                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                  />
+                </svg>
+              </div>
+              <p className="text-gray-500 text-lg mb-2">No products found</p>
+              <p className="text-gray-400 text-sm mb-6">
+                Try adjusting your filters or browse all products.
+              </p>
+              <Link
+                href="/product"
+                className="inline-flex items-center px-5 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                View All Products
+              </Link>
             </div>
-            <h3 className="font-medium text-sm md:text-base text-gray-900 mb-1 group-hover:text-gray-600 transition-colors line-clamp-2">
-              {product.name}
-            </h3>
-            <p className="font-bold text-gray-900">৳{product.price}</p>
-          </Link>
-        ))}
-      </div>
+          )}
 
-      {/* Empty State */}
-      {(products ?? []).length === 0 && (
-        <div className="text-center py-20">
-          <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-4">
-            <svg
-              className="w-8 h-8 text-gray-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={1.5}
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-              />
-            </svg>
-          </div>
-          <p className="text-gray-500 text-lg mb-2">No products found</p>
-          <p className="text-gray-400 text-sm mb-6">
-            Try adjusting your filters or browse all products.
-          </p>
-          <Link
-            href="/product"
-            className="inline-flex items-center px-5 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
-          >
-            View All Products
-          </Link>
+          {/* Pagination */}
+          <Pagination
+            currentPage={filters.page}
+            totalPages={totalPages}
+            baseUrl="/product"
+            searchParams={catalogParams(filters)}
+          />
         </div>
-      )}
-
-      {/* Pagination */}
-      <Pagination
-        currentPage={page}
-        totalPages={totalPages}
-        baseUrl="/product"
-        searchParams={{ category, sort }}
-      />
+      </div>
     </div>
   );
 }
+
+function FacetSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{title}</h2>
+      <div className="space-y-1">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * A facet value as a toggle link. count < 0 hides the count; depth indents
+ * subcategories.
+ */
+function FacetLink({
+  facet,
+  selected,
+  href,
+  depth = 0,
+}: {
+  facet: FacetValue;
+  selected: boolean;
+  href: string;
+  depth?: number;
+}) {
+  return (
+    <Link
+      href={href}
+      aria-current={selected ? 'true' : undefined}
+      style={depth > 0 ? { marginLeft: `${depth * 0.75}rem` } : undefined}
+      className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-colors ${
+        selected ? 'bg-gray-100 font-medium text-gray-900' : 'text-gray-600 hover:bg-gray-50'
+      }`}
+    >
+      <span
+        className={`w-4 h-4 rounded border flex-shrink-0 flex items-center justify-center ${
+          selected ? 'bg-gray-900 border-gray-900' : 'border-gray-300'
+        }`}
+      >
+        {selected && <span className="w-1.5 h-1.5 rounded-sm bg-white" />}
+      </span>
+      <span className="flex-1 min-w-0 truncate">{facet.label}</span>
+      {facet.count >= 0 && <span className="text-xs text-gray-400">{facet.count}</span>}
+    </Link>
+  );
+}
+
+/**
+ * Min/max price as a plain GET form; the other filters ride along as hidden
+ * fields so applying a price keeps them.
+ */
+function PriceForm({ filters }: { filters: CatalogFilters }) {
+  const rest = catalogParams({ ...filters, minPrice: undefined, maxPrice: undefined });
+  return (
+    <form action="/product" className="flex items-end gap-2">
+      {Object.entries(rest).map(([key, value]) => (
+        <input key={key} type="hidden" name={key} value={value} />
+      ))}
+      <div>
+        <label htmlFor="min" className="sr-only">
+          Min price
+        </label>
+        <input
+          id="min"
+          name="min"
+          type="number"
+          min="0"
+          placeholder="Min ৳"
+          defaultValue={filters.minPrice ?? ''}
+          className="h-9 w-20 rounded-lg border border-gray-300 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+        />
+      </div>
+      <div>
+        <label htmlFor="max" className="sr-only">
+          Max price
+        </label>
+        <input
+          id="max"
+          name="max"
+          type="number"
+          min="0"
+          placeholder="Max ৳"
+          defaultValue={filters.maxPrice ?? ''}
+          className="h-9 w-20 rounded-lg border border-gray-300 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+        />
+      </div>
+      <button
+        type="submit"
+        className="h-9 px-3 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+      >
+        Go
+      </button>
+    </form>
+  );
+}
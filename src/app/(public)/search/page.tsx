@@ -0,0 +1,200 @@
+/**
+ * Search Results Page — /search?q=
+ * Ranked, typo-tolerant product search (English and Bangla) with category
+ * and price filters. A first page with no results is logged as a search
+ * miss so merchandising can see what customers could not find.
+ */
+
+import { Pagination } from '@/components/ui/pagination';
+import { buildCategoryTree, flattenCategoryTree, getActiveCategories } from '@/lib/categories';
+import { logSearchMiss, MIN_QUERY_LENGTH, parseSearchParams, searchProducts } from '@/lib/search';
+import { createAdminClient, createPublicClient } from '@/lib/supabase/server';
+import { Search } from 'lucide-react';
+import { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+
+type SearchParams = { q?: string; category?: string; min?: string; max?: string; page?: string };
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}): Promise<Metadata> {
+  const { q } = await searchParams;
+  return {
+    title: q ? `Search: ${q} | Niihut` : 'Search | Niihut',
+    robots: { index: false },
+  };
+}
+
+export default async function SearchPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams;
+  const filters = parseSearchParams(params);
+
+  const supabase = await createPublicClient();
+  const [categories, { products, total, totalPages, error }] = await Promise.all([
+    getActiveCategories(),
+    searchProducts(supabase, filters),
+  ]);
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories));
+
+  if (!error && total === 0 && filters.page === 1) {
+    await logSearchMiss(createAdminClient(), filters);
+  }
+
+  const tooShort = filters.query.length < MIN_QUERY_LENGTH;
+
+  return (
+    <div className="container mx-auto px-4 py-6 md:py-10">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
+          {filters.query ? <>Results for &ldquo;{filters.query}&rdquo;</> : 'Search'}
+        </h1>
+        {!tooShort && (
+          <p className="text-sm text-gray-500 mt-1">
+            {total} product{total !== 1 ? 's' : ''}
+          </p>
+        )}
+      </div>
+
+      {/* Filters */}
+      <form action="/search" className="flex flex-wrap items-end gap-3 mb-8">
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="q" className="block text-xs font-medium text-gray-500 mb-1">
+            Search
+          </label>
+          <input
+            id="q"
+            name="q"
+            defaultValue={filters.query}
+            placeholder="Search products…"
+            className="h-10 w-full rounded-lg border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+          />
+        </div>
+        <div>
+          <label htmlFor="category" className="block text-xs font-medium text-gray-500 mb-1">
+            Category
+          </label>
+          <select
+            id="category"
+            name="category"
+            defaultValue={filters.category ?? ''}
+            className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+          >
+            <option value="">All categories</option>
+            {categoryOptions.map(({ category, depth }) => (
+              <option key={category.id} value={category.slug}>
+                {`${'\u00A0\u00A0'.repeat(depth)}${category.name}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="min" className="block text-xs font-medium text-gray-500 mb-1">
+            Min ৳
+          </label>
+          <input
+            id="min"
+            name="min"
+            type="number"
+            min="0"
+            defaultValue={filters.minPrice ?? ''}
+            className="h-10 w-24 rounded-lg border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+          />
+        </div>
+        <div>
+          <label htmlFor="max" className="block text-xs font-medium text-gray-500 mb-1">
+            Max ৳
+          </label>
+          <input
+            id="max"
+            name="max"
+            type="number"
+            min="0"
+            defaultValue={filters.maxPrice ?? ''}
+            className="h-10 w-24 rounded-lg border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900"
+          />
+        </div>
+        <button
+          type="submit"
+          className="h-10 px-5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          Apply
+        </button>
+      </form>
+
+      {/* Product Grid */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6">
+        {products.map((product) => (
+          <Link key={product.id} href={`/product/${product.slug}`} className="group">
+            <div className="aspect-square relative bg-gray-100 rounded-xl overflow-hidden mb-3">
+              {product.image_url ? (
+                <Image
+                  src={product.image_url}
+                  alt={product.name}
+                  fill
+                  className="object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
+                  sizes="(max-width: 768px) 50vw, 25vw"
+                  loading="lazy"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-300 text-sm">
+                  No Image
+                </div>
+              )}
+              {product.inventory <= 0 && (
+                <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                  <span className="bg-gray-900/80 text-white text-xs font-medium px-3 py-1 rounded-full">
+                    Out of Stock
+                  </span>
+                </div>
+              )}
+            </div>
+            <h3 className="font-medium text-sm md:text-base text-gray-900 mb-1 group-hover:text-gray-600 transition-colors line-clamp-2">
+              {product.name}
+            </h3>
+            <p className="font-bold text-gray-900">৳{product.price}</p>
+          </Link>
+        ))}
+      </div>
+
+      {/* Empty State */}
+      {products.length === 0 && (
+        <div className="text-center py-20">
+          <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-4">
+            <Search className="w-8 h-8 text-gray-400" />
+          </div>
+          <p className="text-gray-500 text-lg mb-2">
+            {tooShort ? 'What are you looking for?' : (error ?? 'No products found')}
+          </p>
+          <p className="text-gray-400 text-sm mb-6">
+            {tooShort
+              ? `Type at least ${MIN_QUERY_LENGTH} characters to search.`
+              : 'Check the spelling, try fewer words, or remove some filters.'}
+          </p>
+          <Link
+            href="/product"
+            className="inline-flex items-center px-5 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            Browse All Products
+          </Link>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <Pagination
+        currentPage={filters.page}
+        totalPages={totalPages}
+        baseUrl="/search"
+        searchParams={{
+          q: filters.query,
+          category: filters.category,
+          min: params.min,
+          max: params.max,
+        }}
+      />
+    </div>
+  );
+}
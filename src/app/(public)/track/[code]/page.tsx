@@ -0,0 +1,118 @@
+/**
+ * Order Tracking Page — /track/[code]
+ * Public status page for one order: current status, the courier's latest
+ * parcel status and the order's status timeline. The code is the order's
+ * tracking code or the courier tracking code.
+ */
+
+import { getOrderTracking } from '@/server-actions/tracking';
+import { CheckCircle2, Circle, Package, Truck } from 'lucide-react';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+export const metadata: Metadata = {
+  title: 'Order Tracking | Niihut',
+  robots: { index: false },
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export default async function TrackOrderPage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  const tracking = await getOrderTracking(decodeURIComponent(code));
+  if (!tracking) notFound();
+
+  const timeline = [...tracking.timeline].reverse();
+
+  return (
+    <div className="container mx-auto px-4 py-10 md:py-16">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <p className="text-sm text-gray-500">Order #{tracking.orderNumber}</p>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mt-1">
+            {tracking.statusLabel}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Placed {new Date(tracking.placedAt).toLocaleDateString('en-US', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </p>
+        </div>
+
+        {/* Courier */}
+        {tracking.courier && (
+          <div className="bg-white rounded-xl border p-5 flex items-start gap-4">
+            <div className="w-10 h-10 rounded-lg bg-blue-50 text-blue-600 flex items-center justify-center flex-shrink-0">
+              <Truck className="w-5 h-5" />
+            </div>
+            <div className="text-sm">
+              <p className="font-medium text-gray-900">{tracking.courier.name}</p>
+              {tracking.courier.trackingCode && (
+                <p className="text-gray-500">Tracking code: {tracking.courier.trackingCode}</p>
+              )}
+              {tracking.courier.status && (
+                <p className="text-gray-700 mt-1 capitalize">
+                  Courier status: {tracking.courier.status}
+                  {tracking.courier.updatedAt && (
+                    <span className="text-gray-400 normal-case">
+                      {' '}· {formatDateTime(tracking.courier.updatedAt)}
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="bg-white rounded-xl border p-6">
+          <h2 className="font-semibold text-gray-900 mb-5 flex items-center gap-2">
+            <Package className="w-4 h-4" />
+            Order History
+          </h2>
+          {timeline.length === 0 ? (
+            <p className="text-sm text-gray-400">No updates yet.</p>
+          ) : (
+            <ol className="space-y-5">
+              {timeline.map((entry, index) => (
+                <li key={`${entry.status}-${entry.at}`} className="flex gap-3">
+                  {index === 0 ? (
+                    <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <Circle className="w-5 h-5 text-gray-300 flex-shrink-0" />
+                  )}
+                  <div>
+                    <p className={`text-sm ${index === 0 ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                      {entry.label}
+                    </p>
+                    <p className="text-xs text-gray-400">{formatDateTime(entry.at)}</p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <p className="text-center text-sm text-gray-500">
+          Looking for another order?{' '}
+          <Link href="/track" className="font-medium text-gray-900 hover:underline">
+            Track a different order
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+/**
+ * LookupForm — Finds an order by order number + phone and opens its
+ * tracking page.
+ */
+
+import { Input } from '@/components/ui/input';
+import { lookupOrderTracking } from '@/server-actions/tracking';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export function LookupForm() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ orderNumber: '', phone: '' });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      try {
+        const result = await lookupOrderTracking(formData);
+        if (!result.success || !result.code) {
+          setError(result.error || 'Order not found.');
+          return;
+        }
+        router.push(`/track/${result.code}`);
+      } catch (err: any) {
+        setError(err.message || 'An unexpected error occurred.');
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <Input
+        label="Order Number"
+        name="orderNumber"
+        placeholder="#1a2b3c4d"
+        value={formData.orderNumber}
+        onChange={handleChange}
+        required
+      />
+      <Input
+        label="Phone Number"
+        name="phone"
+        type="tel"
+        placeholder="01712345678"
+        value={formData.phone}
+        onChange={handleChange}
+        required
+      />
+      <button
+        type="submit"
+        disabled={isPending}
+        className="w-full flex items-center justify-center gap-2 bg-gray-900 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Finding order…
+          </>
+        ) : (
+          'Track Order'
+        )}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Order Tracking Lookup — /track
+ * Customers (including guests) find their order by order number and phone,
+ * then land on /track/[code].
+ */
+
+import { Metadata } from 'next';
+import { LookupForm } from './lookup-form';
+
+export const metadata: Metadata = {
+  title: 'Track Your Order | Niihut',
+  description: 'Follow your Niihut order from confirmation to delivery.',
+  robots: { index: false },
+};
+
+export default function TrackLookupPage() {
+  return (
+    <div className="container mx-auto px-4 py-10 md:py-16">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Track Your Order</h1>
+        <p className="text-sm text-gray-500 mt-1 mb-8">
+          Enter the order number from your confirmation and the phone number you ordered with.
+        </p>
+        <div className="bg-white rounded-xl border p-6">
+          <LookupForm />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { reconcileShipments } from "@/lib/courier/reconciliation";
+import { bearerToken, webhookSecretMatches } from "@/lib/courier/webhooks";
+import { createAdminClient } from "@/lib/supabase/server";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+/**
+ * Courier Reconciliation Job
+ * Called by a scheduler (e.g. Vercel Cron, which sends
+ * `Authorization: Bearer <CRON_SECRET>`) to poll couriers for open shipments,
+ * sync missed status changes to shipments and orders, and report parcels
+ * stuck in one courier status for more than `?stuckDays=` days
+ * (default COURIER_STUCK_AFTER_DAYS, or 7).
+ */
+
+// Polling runs in rate-limited batches and can take a while
+export const maxDuration = 300;
+
+export async function GET(req: Request) {
+    // 1. Verify the cron secret
+    const headerPayload = await headers();
+    if (!webhookSecretMatches(bearerToken(headerPayload.get('Authorization')), process.env.CRON_SECRET)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const stuckDays =
+        Number(new URL(req.url).searchParams.get('stuckDays')) ||
+        Number(process.env.COURIER_STUCK_AFTER_DAYS) ||
+        7;
+
+    // 2. Poll open shipments and apply their courier status
+    try {
+        const report = await reconcileShipments(createAdminClient(), { stuckAfterDays: stuckDays });
+
+        if (report.stuck.length > 0) {
+            console.warn(`Reconciliation: ${report.stuck.length} parcel(s) stuck for over ${stuckDays} days`);
+        }
+
+        return NextResponse.json({ success: true, stuckDays, ...report });
+    } catch (error: any) {
+        console.error('Reconciliation failed:', error);
+        return NextResponse.json({ error: error?.message ?? 'Reconciliation failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+import { logSearchMiss, parseSearchParams, searchProducts, suggestProducts } from "@/lib/search";
+import { createAdminClient, createPublicClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+
+/**
+ * Product Search Endpoint
+ * GET /api/search?q=&category=&min=&max=&page= returns one page of ranked
+ * products; a first page with no results is logged as a search miss
+ * (searches that failed to run are not).
+ * With `suggest=1` it returns autocomplete suggestions for the header
+ * search box instead (never logged — the customer is still typing).
+ */
+
+export async function GET(req: Request) {
+    const params = new URL(req.url).searchParams;
+    const filters = parseSearchParams({
+        q: params.get('q'),
+        category: params.get('category'),
+        min: params.get('min'),
+        max: params.get('max'),
+        page: params.get('page'),
+    });
+
+    const supabase = await createPublicClient();
+
+    if (params.get('suggest') === '1') {
+        const suggestions = await suggestProducts(supabase, filters.query);
+        return NextResponse.json(
+            { query: filters.query, suggestions },
+            { headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300' } }
+        );
+    }
+
+    const results = await searchProducts(supabase, filters);
+    // A failed search or unknown category is not a miss
+    if (!results.error && results.total === 0 && filters.page === 1) {
+        await logSearchMiss(createAdminClient(), filters);
+    }
+
+    return NextResponse.json({ query: filters.query, page: filters.page, ...results });
+}
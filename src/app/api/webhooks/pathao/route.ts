@@ -0,0 +1,64 @@
+import { handleCourierWebhook, webhookSecretMatches } from "@/lib/courier/webhooks";
+import { createAdminClient } from "@/lib/supabase/server";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+/**
+ * Pathao Courier Webhook Handler
+ * Receives order events from Pathao ("order.picked", "order.delivered", …)
+ * and syncs them to the shipment, the order and order_status_history.
+ * Pathao sends the configured webhook secret in X-PATHAO-Signature, and
+ * expects a 202 carrying the integration secret header in return.
+ */
+
+function respond(body: Record<string, unknown>, status: number) {
+    const response = NextResponse.json(body, { status });
+    const integrationSecret = process.env.PATHAO_WEBHOOK_INTEGRATION_SECRET;
+    if (integrationSecret) {
+        response.headers.set('X-Pathao-Merchant-Webhook-Integration-Secret', integrationSecret);
+    }
+    return response;
+}
+
+export async function POST(req: Request) {
+    // 1. Verify the shared secret
+    const headerPayload = await headers();
+    if (!webhookSecretMatches(headerPayload.get('X-PATHAO-Signature'), process.env.PATHAO_WEBHOOK_SECRET)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await req.json().catch(() => null);
+
+    // Pathao's integration check posts a bare event without a consignment
+    if (payload?.event === 'webhook_integration') {
+        return respond({ success: true }, 202);
+    }
+
+    // 2. Record the courier status on the shipment and move the order
+    const result = await handleCourierWebhook(createAdminClient(), 'pathao', payload);
+
+    if (result.outcome === 'invalid') {
+        return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    if (result.outcome === 'failed') {
+        // Let Pathao retry
+        return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
+    }
+
+    if (result.outcome === 'duplicate') {
+        return respond({ message: 'Event already received' }, 202);
+    }
+
+    if (result.outcome === 'unknown_shipment') {
+        // Acknowledge so Pathao does not keep retrying
+        return respond({ message: 'Shipment not found, ignored' }, 202);
+    }
+
+    if (result.outcome === 'rejected') {
+        // Out-of-order update; acknowledged so it is not retried
+        return respond({ message: 'Status is older than the order, ignored' }, 202);
+    }
+
+    return respond({ success: true }, 202);
+}
@@ -0,0 +1,49 @@
+import { handleCourierWebhook, webhookSecretMatches } from "@/lib/courier/webhooks";
+import { createAdminClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+
+/**
+ * RedX Courier Webhook Handler
+ * Receives parcel status updates from RedX and syncs them to the shipment
+ * (looked up by tracking number), the order and order_status_history.
+ * RedX callbacks carry no signature, so the callback URL registered with
+ * RedX includes a secret token: /api/webhooks/redx?token=<REDX_WEBHOOK_SECRET>.
+ */
+
+export async function POST(req: Request) {
+    // 1. Verify the callback token
+    const token = new URL(req.url).searchParams.get('token');
+    if (!webhookSecretMatches(token, process.env.REDX_WEBHOOK_SECRET)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await req.json().catch(() => null);
+
+    // 2. Record the courier status on the shipment and move the order
+    const result = await handleCourierWebhook(createAdminClient(), 'redx', payload);
+
+    if (result.outcome === 'invalid') {
+        return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    if (result.outcome === 'failed') {
+        // Let RedX retry
+        return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
+    }
+
+    if (result.outcome === 'duplicate') {
+        return NextResponse.json({ message: 'Event already received' }, { status: 200 });
+    }
+
+    if (result.outcome === 'unknown_shipment') {
+        // Return 200 to acknowledge receipt and prevent retries
+        return NextResponse.json({ message: 'Shipment not found, ignored' }, { status: 200 });
+    }
+
+    if (result.outcome === 'rejected') {
+        // Out-of-order update; acknowledged so it is not retried
+        return NextResponse.json({ message: 'Status is older than the order, ignored' }, { status: 200 });
+    }
+
+    return NextResponse.json({ success: true });
+}
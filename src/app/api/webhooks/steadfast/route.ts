@@ -1,81 +1,53 @@
-import { createClient } from "@/lib/supabase/server";
-import type { OrderStatus } from "@/types/db";
+import { bearerToken, handleCourierWebhook, webhookSecretMatches } from "@/lib/courier/webhooks";
+import { createAdminClient } from "@/lib/supabase/server";
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 
 /**
  * Steadfast Courier Webhook Handler
- * Receives delivery status updates from Steadfast and syncs them
- * to the orders table and order_status_history.
+ * Receives delivery status updates from Steadfast and syncs them to the
+ * shipment (looked up by consignment_id), the order and order_status_history.
+ * Requests must carry STEADFAST_WEBHOOK_SECRET, either as the auth token
+ * configured in the Steadfast panel (Authorization: Bearer …) or in
+ * X-Steadfast-Key. Retried deliveries are recorded once in webhook_events.
  */
 
-function mapSteadfastStatus(courierStatus: string): OrderStatus | null {
-    const status = courierStatus.toLowerCase();
-    switch (status) {
-        case 'in_review':
-        case 'pending':
-            return 'processing';
-        case 'in_transit':
-        case 'delivered_approval_pending':
-            return 'shipped';
-        case 'delivered':
-        case 'partial_delivered':
-            return 'delivered';
-        case 'cancelled':
-            return 'cancelled';
-        case 'returned_to_merchant':
-            return 'returned';
-        default:
-            return null;
-    }
-}
-
 export async function POST(req: Request) {
-    // 1. Basic verification — accept if API key matches
+    // 1. Verify the shared secret
     const headerPayload = await headers();
-    const apiKey = headerPayload.get('X-Steadfast-Key');
+    const secret =
+        bearerToken(headerPayload.get('Authorization')) ?? headerPayload.get('X-Steadfast-Key');
+
+    if (!webhookSecretMatches(secret, process.env.STEADFAST_WEBHOOK_SECRET)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
-    // Optional: Uncomment for production
-    // if (apiKey !== process.env.STEADFAST_API_KEY) {
-    //     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    // }
+    const payload = await req.json().catch(() => null);
 
-    const payload = await req.json();
-    const { consignment_id, status: courierStatus, tracking_code } = payload;
+    // 2. Store the event, then record the courier status on the shipment and move the order
+    const result = await handleCourierWebhook(createAdminClient(), 'steadfast', payload);
 
-    if (!consignment_id || !courierStatus) {
+    if (result.outcome === 'invalid') {
         return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
 
-    const supabase = await createClient();
+    if (result.outcome === 'failed') {
+        // Let Steadfast retry
+        return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
+    }
 
-    // 2. Find the order by consignment ID stored in admin_notes
-    const { data: order, error } = await supabase
-        .from('orders')
-        .select('id, status')
-        .ilike('admin_notes', `%Consignment: ${consignment_id}%`)
-        .single();
+    if (result.outcome === 'duplicate') {
+        return NextResponse.json({ message: 'Event already received' }, { status: 200 });
+    }
 
-    if (error || !order) {
-        console.error(`Steadfast webhook: Order not found for consignment ${consignment_id}`);
+    if (result.outcome === 'unknown_shipment') {
         // Return 200 to acknowledge receipt and prevent retries
-        return NextResponse.json({ message: 'Order not found, ignored' }, { status: 200 });
+        return NextResponse.json({ message: 'Shipment not found, ignored' }, { status: 200 });
     }
 
-    // 3. Map status and update
-    const newStatus = mapSteadfastStatus(courierStatus);
-
-    if (newStatus && newStatus !== order.status) {
-        await supabase
-            .from('orders')
-            .update({ status: newStatus })
-            .eq('id', order.id);
-
-        await supabase.from('order_status_history').insert({
-            order_id: order.id,
-            status: newStatus,
-            notes: `Steadfast webhook: "${courierStatus}" → ${newStatus}`,
-        });
+    if (result.outcome === 'rejected') {
+        // Out-of-order update; acknowledged so it is not retried
+        return NextResponse.json({ message: 'Status is older than the order, ignored' }, { status: 200 });
     }
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,47 @@
+/**
+ * Barcode — Code 128 barcode rendered as an SVG, for printed labels.
+ */
+
+import { encodeCode128 } from '@/lib/barcode';
+
+/** Blank modules required on each side for scanners to find the code. */
+const QUIET_ZONE = 10;
+
+export function Barcode({
+  value,
+  height = 60,
+  moduleWidth = 2,
+  className,
+}: {
+  value: string;
+  height?: number;
+  moduleWidth?: number;
+  className?: string;
+}) {
+  const { bars, width } = encodeCode128(value);
+  const totalWidth = (width + QUIET_ZONE * 2) * moduleWidth;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={totalWidth}
+      height={height}
+      viewBox={`0 0 ${totalWidth} ${height}`}
+      className={className}
+      role="img"
+      aria-label={value}
+      shapeRendering="crispEdges"
+    >
+      <rect width={totalWidth} height={height} fill="#fff" />
+      {bars.map((bar) => (
+        <rect
+          key={bar.x}
+          x={(bar.x + QUIET_ZONE) * moduleWidth}
+          width={bar.width * moduleWidth}
+          height={height}
+          fill="#000"
+        />
+      ))}
+    </svg>
+  );
+}
@@ -2,9 +2,18 @@
 
 /**
  * ProductForm — Shared form for creating and editing products.
- * Supports multi-image upload via the MultiImageUpload component.
+ * Supports multi-image upload via the MultiImageUpload component,
+ * optional size/colour variants via the VariantEditor, and listing the
+ * product in categories besides its primary one.
  */
 
+import {
+  parseOptions,
+  toVariantInputs,
+  VariantEditor,
+  type EditableOption,
+  type EditableVariant,
+} from '@/components/admin/variant-editor';
 import { Input } from '@/components/ui/input';
 import { MultiImageUpload } from '@/components/ui/multi-image-upload';
 import { Select } from '@/components/ui/select';
@@ -16,6 +25,7 @@ import { useState, useTransition } from 'react';
 
 interface ProductFormProps {
   product?: any;
+  /** In tree order, named by full path ("Men › Shirts") */
   categories: { id: string; name: string }[];
 }
 
@@ -37,12 +47,40 @@ export function ProductForm({ product, categories }: ProductFormProps) {
     description: product?.description ?? '',
     price: product?.price ?? '',
     inventory: product?.inventory ?? 0,
+    weight_grams: product?.weight_grams ?? '',
     category_id: product?.category_id ?? '',
     is_active: product?.is_active ?? true,
   });
 
   const [imageUrls, setImageUrls] = useState<string[]>(existingImages);
 
+  // Categories besides the primary one (product_categories)
+  const [extraCategoryIds, setExtraCategoryIds] = useState<string[]>(
+    (product?.categories ?? [])
+      .map((c: any) => c.category_id)
+      .filter((id: string) => id !== product?.category_id)
+  );
+
+  const [options, setOptions] = useState<EditableOption[]>(
+    [...(product?.options ?? [])]
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((option: any) => ({ name: option.name, values: (option.option_values ?? []).join(', ') }))
+  );
+  const [variants, setVariants] = useState<EditableVariant[]>(
+    (product?.variants ?? [])
+      .filter((variant: any) => variant.is_active)
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((variant: any) => ({
+        id: variant.id,
+        sku: variant.sku,
+        options: variant.options ?? {},
+        price: variant.price === null || variant.price === undefined ? '' : String(variant.price),
+        inventory: String(variant.inventory ?? 0),
+        image_url: variant.image_urls?.[0] ?? '',
+      }))
+  );
+  const hasVariants = variants.length > 0;
+
   const handleChange = (
     e: React.ChangeEvent<
       HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
@@ -78,16 +116,20 @@ export function ProductForm({ product, categories }: ProductFormProps) {
           slug: formData.slug,
           description: formData.description || undefined,
           price: Number(formData.price),
-          inventory: Number(formData.inventory),
+          // Products with variants are stocked per variant
+          inventory: hasVariants ? undefined : Number(formData.inventory),
+          weight_grams: formData.weight_grams === '' ? null : Number(formData.weight_grams),
           category_id: formData.category_id || null,
+          category_ids: extraCategoryIds.filter((id) => id !== formData.category_id),
           is_active: formData.is_active,
         };
+        const variantData = { options: parseOptions(options), variants: toVariantInputs(variants) };
 
         let result;
         if (isEdit) {
-          result = await updateProduct(product.id, data, imageUrls);
+          result = await updateProduct(product.id, data, imageUrls, variantData);
         } else {
-          result = await createProduct({ ...data, image_urls: imageUrls });
+          result = await createProduct({ ...data, image_urls: imageUrls, ...variantData });
         }
 
         if (result.success) {
@@ -102,6 +144,12 @@ export function ProductForm({ product, categories }: ProductFormProps) {
     });
   };
 
+  const toggleExtraCategory = (id: string) => {
+    setExtraCategoryIds((prev) =>
+      prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]
+    );
+  };
+
   const categoryOptions = [
     { value: '', label: 'No Category' },
     ...categories.map((c) => ({ value: c.id, label: c.name })),
@@ -146,7 +194,7 @@ export function ProductForm({ product, categories }: ProductFormProps) {
         rows={4}
       />
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Input
           label="Price (৳)"
           name="price"
@@ -164,7 +212,21 @@ export function ProductForm({ product, categories }: ProductFormProps) {
           type="number"
           placeholder="0"
           min="0"
-          value={formData.inventory}
+          value={
+            hasVariants
+              ? variants.reduce((sum, variant) => sum + (Number(variant.inventory) || 0), 0)
+              : formData.inventory
+          }
+          onChange={handleChange}
+          disabled={hasVariants}
+        />
+        <Input
+          label="Weight (g)"
+          name="weight_grams"
+          type="number"
+          placeholder="Optional"
+          min="0"
+          value={formData.weight_grams}
           onChange={handleChange}
         />
         <Select
@@ -176,9 +238,43 @@ export function ProductForm({ product, categories }: ProductFormProps) {
         />
       </div>
 
+      {/* Additional categories */}
+      {categories.length > 1 && (
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1.5">
+            Also list in
+          </legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1.5 max-h-48 overflow-y-auto rounded-lg border border-gray-200 p-3">
+            {categories
+              .filter((c) => c.id !== formData.category_id)
+              .map((c) => (
+                <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={extraCategoryIds.includes(c.id)}
+                    onChange={() => toggleExtraCategory(c.id)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="truncate">{c.name}</span>
+                </label>
+              ))}
+          </div>
+        </fieldset>
+      )}
+
       {/* Multi-image upload */}
       <MultiImageUpload value={imageUrls} onChange={setImageUrls} />
 
+      <VariantEditor
+        options={options}
+        variants={variants}
+        onOptionsChange={setOptions}
+        onVariantsChange={setVariants}
+        imageUrls={imageUrls}
+        basePrice={String(formData.price)}
+        skuBase={formData.slug}
+      />
+
       <label className="flex items-center gap-2 cursor-pointer">
         <input
           type="checkbox"
@@ -0,0 +1,248 @@
+'use client';
+
+/**
+ * VariantEditor — Options (Size, Colour, …) and the variants generated from
+ * them, with per-variant SKU, price override, stock and image. Controlled by
+ * ProductForm; a product with no options is a simple product.
+ */
+
+import {
+  findVariant,
+  variantCombinations,
+  variantTitle,
+  type VariantInput,
+  type VariantOptionInput,
+  type VariantOptions,
+} from '@/lib/variants';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface EditableOption {
+  name: string;
+  /** Comma-separated values as typed */
+  values: string;
+}
+
+export interface EditableVariant {
+  id?: string;
+  sku: string;
+  options: VariantOptions;
+  price: string;
+  inventory: string;
+  image_url: string;
+}
+
+export function parseOptions(options: EditableOption[]): VariantOptionInput[] {
+  return options
+    .map((option) => ({
+      name: option.name.trim(),
+      values: option.values
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean),
+    }))
+    .filter((option) => option.name || option.values.length > 0);
+}
+
+export function toVariantInputs(variants: EditableVariant[]): VariantInput[] {
+  return variants.map((variant) => ({
+    id: variant.id,
+    sku: variant.sku.trim(),
+    options: variant.options,
+    price: variant.price === '' ? null : Number(variant.price),
+    inventory: Number(variant.inventory),
+    image_urls: variant.image_url ? [variant.image_url] : [],
+  }));
+}
+
+const skuFor = (base: string, values: VariantOptions) =>
+  [base, ...Object.values(values)]
+    .join('-')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+
+const inputClass =
+  'h-9 w-full rounded-lg border border-gray-300 bg-white px-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:border-gray-900';
+
+export function VariantEditor({
+  options,
+  variants,
+  onOptionsChange,
+  onVariantsChange,
+  imageUrls,
+  basePrice,
+  skuBase,
+}: {
+  options: EditableOption[];
+  variants: EditableVariant[];
+  onOptionsChange: (options: EditableOption[]) => void;
+  onVariantsChange: (variants: EditableVariant[]) => void;
+  imageUrls: string[];
+  basePrice: string;
+  skuBase: string;
+}) {
+  const parsedOptions = parseOptions(options);
+
+  const updateOption = (index: number, field: keyof EditableOption, value: string) =>
+    onOptionsChange(options.map((o, i) => (i === index ? { ...o, [field]: value } : o)));
+
+  const updateVariant = (index: number, field: keyof EditableVariant, value: string) =>
+    onVariantsChange(variants.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+
+  // Rebuilds the variant list from the options, keeping rows that still match
+  const generateVariants = () => {
+    onVariantsChange(
+      variantCombinations(parsedOptions).map(
+        (combination) =>
+          findVariant(variants, combination) ?? {
+            sku: skuFor(skuBase, combination),
+            options: combination,
+            price: '',
+            inventory: '0',
+            image_url: '',
+          }
+      )
+    );
+  };
+
+  const imageOptions = [
+    { value: '', label: 'Product images' },
+    ...imageUrls.map((url, i) => ({ value: url, label: `Image ${i + 1}` })),
+  ];
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div>
+        <p className="text-sm font-medium text-gray-700">Variants</p>
+        <p className="text-xs text-gray-400 mt-0.5">
+          Add options like Size or Colour to sell this product in several variants. Leave empty for a
+          simple product.
+        </p>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            className={`${inputClass} max-w-[160px]`}
+            placeholder="Option (e.g. Size)"
+            value={option.name}
+            onChange={(e) => updateOption(index, 'name', e.target.value)}
+          />
+          <input
+            className={inputClass}
+            placeholder="Values, comma separated (e.g. S, M, L)"
+            value={option.values}
+            onChange={(e) => updateOption(index, 'values', e.target.value)}
+          />
+          <button
+            type="button"
+            onClick={() => onOptionsChange(options.filter((_, i) => i !== index))}
+            className="px-2 text-gray-400 hover:text-red-600 transition-colors"
+            aria-label="Remove option"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onOptionsChange([...options, { name: '', values: '' }])}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add option
+        </button>
+        {parsedOptions.length > 0 && (
+          <button
+            type="button"
+            onClick={generateVariants}
+            className="px-3 py-1.5 rounded-lg bg-gray-900 text-white text-xs font-medium hover:bg-gray-800 transition-colors"
+          >
+            Generate variants
+          </button>
+        )}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-gray-500">
+                <th className="text-left py-2 pr-2 font-medium">Variant</th>
+                <th className="text-left py-2 px-2 font-medium">SKU</th>
+                <th className="text-left py-2 px-2 font-medium">Price (৳)</th>
+                <th className="text-left py-2 px-2 font-medium">Stock</th>
+                <th className="text-left py-2 px-2 font-medium">Image</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant, index) => (
+                <tr key={variant.id ?? JSON.stringify(variant.options)} className="border-b last:border-b-0">
+                  <td className="py-2 pr-2 text-gray-900 whitespace-nowrap">
+                    {variantTitle(parsedOptions, variant.options) || '—'}
+                  </td>
+                  <td className="py-2 px-2 min-w-[140px]">
+                    <input
+                      className={inputClass}
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(index, 'sku', e.target.value)}
+                    />
+                  </td>
+                  <td className="py-2 px-2 min-w-[100px]">
+                    <input
+                      className={inputClass}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={basePrice || '0'}
+                      value={variant.price}
+                      onChange={(e) => updateVariant(index, 'price', e.target.value)}
+                    />
+                  </td>
+                  <td className="py-2 px-2 min-w-[80px]">
+                    <input
+                      className={inputClass}
+                      type="number"
+                      min="0"
+                      value={variant.inventory}
+                      onChange={(e) => updateVariant(index, 'inventory', e.target.value)}
+                    />
+                  </td>
+                  <td className="py-2 px-2 min-w-[130px]">
+                    <select
+                      className={inputClass}
+                      value={variant.image_url}
+                      onChange={(e) => updateVariant(index, 'image_url', e.target.value)}
+                    >
+                      {imageOptions.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 pl-2">
+                    <button
+                      type="button"
+                      onClick={() => onVariantsChange(variants.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                      aria-label="Remove variant"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-2">
+            Leave the price empty to use the product price. Product stock is the total across variants.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { DeliveryQuote } from '@/lib/delivery-pricing';
+
+/**
+ * DeliveryFeeSummary — Delivery fee per zone for the current cart, shown in
+ * order summaries before the customer's address is known.
+ */
+export function DeliveryFeeSummary({ quotes }: { quotes: DeliveryQuote[] }) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-sm text-gray-500">Delivery Fee</p>
+      {quotes.map((quote) => (
+        <div key={quote.zone} className="flex justify-between text-xs">
+          <span className="text-gray-500">{quote.zoneName}</span>
+          <span className="font-medium text-gray-700">
+            {quote.freeDelivery ? 'Free' : `৳${quote.fee.toLocaleString()}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
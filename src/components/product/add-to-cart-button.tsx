@@ -3,6 +3,7 @@
 /**
  * AddToCartButton — Client component that calls the addToCart server action.
  * Shows loading state during submission and success feedback after.
+ * Products with variants pass the chosen `variantId`.
  */
 
 import { addToCart } from '@/server-actions/cart';
@@ -11,10 +12,12 @@ import { useState, useTransition } from 'react';
 
 export function AddToCartButton({
   productId,
+  variantId,
   disabled = false,
   className,
 }: {
   productId: string;
+  variantId?: string;
   disabled?: boolean;
   className?: string;
 }) {
@@ -26,10 +29,12 @@ export function AddToCartButton({
     setError(null);
     startTransition(async () => {
       try {
-        const result = await addToCart(productId, 1);
+        const result = await addToCart(productId, 1, variantId);
         if (result.success) {
           setShowSuccess(true);
           setTimeout(() => setShowSuccess(false), 2000);
+        } else {
+          setError(result.error);
         }
       } catch (err: any) {
         setError(err.message || 'Failed to add to cart');
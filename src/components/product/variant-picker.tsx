@@ -0,0 +1,134 @@
+'use client';
+
+/**
+ * VariantPicker — Option pickers (size, colour, …) for products with
+ * variants. Shows the selected variant's price, stock and image, and adds
+ * that variant to the cart. Values with no variant in stock are crossed out.
+ */
+
+import { AddToCartButton } from '@/components/product/add-to-cart-button';
+import { findVariant, type VariantOptions } from '@/lib/variants';
+import Image from 'next/image';
+import { useState } from 'react';
+
+interface PickerVariant {
+  id: string;
+  title: string;
+  options: VariantOptions;
+  price: number | null;
+  inventory: number;
+  image_urls: string[];
+}
+
+export function VariantPicker({
+  productId,
+  productName,
+  basePrice,
+  options,
+  variants,
+}: {
+  productId: string;
+  productName: string;
+  basePrice: number;
+  options: { name: string; values: string[] }[];
+  variants: PickerVariant[];
+}) {
+  const [selection, setSelection] = useState<VariantOptions>(
+    () => ({ ...(variants.find((v) => v.inventory > 0) ?? variants[0])?.options })
+  );
+
+  const selected = findVariant(variants, selection);
+  const price = Number(selected?.price ?? basePrice);
+  const inStock = !!selected && selected.inventory > 0;
+  const imageUrl = selected?.image_urls?.[0];
+
+  // Whether picking `value` for `name` (keeping the other choices) leads to stock
+  const isAvailable = (name: string, value: string) =>
+    variants.some(
+      (variant) =>
+        variant.inventory > 0 &&
+        variant.options[name] === value &&
+        options.every((o) => o.name === name || variant.options[o.name] === selection[o.name])
+    );
+
+  const choose = (name: string, value: string) => {
+    const next = { ...selection, [name]: value };
+    // Fall back to the first variant with this value if the combination doesn't exist
+    const match =
+      findVariant(variants, next) ??
+      variants.find((v) => v.options[name] === value && v.inventory > 0) ??
+      variants.find((v) => v.options[name] === value);
+    setSelection(match ? { ...match.options } : next);
+  };
+
+  return (
+    <div>
+      {/* Price */}
+      <div className="flex items-baseline gap-3 mb-6">
+        <p className="text-3xl font-bold text-gray-900">৳{price.toLocaleString()}</p>
+      </div>
+
+      {/* Stock Status */}
+      <div className="mb-6">
+        {inStock ? (
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-green-50 text-green-700 text-sm font-medium">
+            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+            In Stock ({selected?.inventory} available)
+          </div>
+        ) : (
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-50 text-red-700 text-sm font-medium">
+            <span className="w-2 h-2 rounded-full bg-red-500" />
+            {selected ? 'Out of Stock' : 'Unavailable'}
+          </div>
+        )}
+      </div>
+
+      {/* Options */}
+      <div className="space-y-4 mb-6">
+        {options.map((option) => (
+          <div key={option.name}>
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              {option.name}
+              {selection[option.name] && (
+                <span className="font-normal text-gray-500">: {selection[option.name]}</span>
+              )}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {option.values.map((value) => {
+                const active = selection[option.name] === value;
+                return (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => choose(option.name, value)}
+                    className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                      active
+                        ? 'border-gray-900 bg-gray-900 text-white'
+                        : 'border-gray-300 text-gray-700 hover:border-gray-900'
+                    } ${isAvailable(option.name, value) ? '' : 'line-through opacity-50'}`}
+                  >
+                    {value}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected && imageUrl && (
+        <div className="flex items-center gap-3 mb-6">
+          <div className="relative w-14 h-14 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+            <Image src={imageUrl} alt={`${productName} - ${selected.title}`} fill className="object-cover" sizes="56px" />
+          </div>
+          <p className="text-sm text-gray-500">{selected.title}</p>
+        </div>
+      )}
+
+      {/* Add to Cart */}
+      <div className="mb-8">
+        <AddToCartButton productId={productId} variantId={selected?.id} disabled={!inStock} />
+      </div>
+    </div>
+  );
+}
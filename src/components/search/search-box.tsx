@@ -0,0 +1,142 @@
+'use client';
+
+/**
+ * SearchBox — Header product search with autocomplete suggestions.
+ * Suggestions come from /api/search?suggest=1 as the customer types
+ * (debounced); Enter or "See all results" opens /search?q=.
+ */
+
+import { MIN_QUERY_LENGTH, type SearchSuggestion } from '@/lib/search';
+import { Search } from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useId, useRef, useState } from 'react';
+
+const DEBOUNCE_MS = 200;
+
+export function SearchBox({ className }: { className?: string }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [query, setQuery] = useState(searchParams.get('q') ?? '');
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const containerRef = useRef<HTMLFormElement>(null);
+  const listboxId = useId();
+
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?suggest=1&q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        setSuggestions(data.suggestions ?? []);
+        setHighlighted(-1);
+      } catch {
+        // Aborted or offline — keep the previous suggestions
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed]);
+
+  // Close the dropdown on outside clicks
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, []);
+
+  const visible = open && trimmed.length >= MIN_QUERY_LENGTH && suggestions.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOpen(false);
+    if (visible && highlighted >= 0) {
+      router.push(`/product/${suggestions[highlighted].slug}`);
+    } else if (trimmed) {
+      router.push(`/search?q=${encodeURIComponent(trimmed)}`);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!visible) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((i) => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, -1));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <form ref={containerRef} onSubmit={handleSubmit} role="search" className={`relative ${className ?? ''}`}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search products…"
+        aria-label="Search products"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={visible}
+        aria-controls={listboxId}
+        className="h-10 w-full rounded-full bg-gray-100 pl-9 pr-4 text-sm focus:outline-none focus:ring-2 focus:ring-black/10 focus:bg-white transition-colors"
+      />
+
+      {visible && (
+        <div className="absolute left-0 right-0 top-full mt-2 bg-white border rounded-xl shadow-lg overflow-hidden z-50">
+          <ul id={listboxId} role="listbox">
+            {suggestions.map((suggestion, index) => (
+              <li key={suggestion.id} role="option" aria-selected={index === highlighted}>
+                <Link
+                  href={`/product/${suggestion.slug}`}
+                  onClick={() => setOpen(false)}
+                  className={`flex items-center gap-3 px-3 py-2 text-sm transition-colors ${
+                    index === highlighted ? 'bg-gray-100' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="relative w-9 h-9 bg-gray-100 rounded-md overflow-hidden flex-shrink-0">
+                    {suggestion.image_url && (
+                      <Image src={suggestion.image_url} alt="" fill className="object-cover" sizes="36px" />
+                    )}
+                  </div>
+                  <span className="flex-1 min-w-0 truncate text-gray-900">{suggestion.name}</span>
+                  <span className="text-gray-500 whitespace-nowrap">৳{Number(suggestion.price).toLocaleString()}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+          <Link
+            href={`/search?q=${encodeURIComponent(trimmed)}`}
+            onClick={() => setOpen(false)}
+            className="block px-3 py-2 border-t text-xs font-medium text-gray-600 hover:bg-gray-50"
+          >
+            See all results for &ldquo;{trimmed}&rdquo;
+          </Link>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -29,12 +29,14 @@ const VARIANT_CLASSES: Record<BadgeVariant, string> = {
 const STATUS_VARIANT_MAP: Record<string, BadgeVariant> = {
   pending: "pending",
   pending_confirmation: "danger",
+  flagged_for_review: "danger",
   confirmed: "info",
   processing: "secondary",
   shipped: "purple",
   delivered: "success",
   cancelled: "default",
   returned: "warning",
+  refused: "danger",
 };
 
 export function Badge({
@@ -0,0 +1,94 @@
+import type { Address } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { isSameAddress, type ShippingAddress } from './validations/address';
+
+/**
+ * Saved Addresses
+ * Mapping from the canonical ShippingAddress shape to `addresses` rows, and
+ * the checkout hook that keeps a customer's address book up to date.
+ */
+
+/** Customers can keep this many addresses in their address book. */
+export const MAX_SAVED_ADDRESSES = 10;
+
+/**
+ * Converts a validated shipping address into `addresses` columns.
+ */
+export function toAddressRow(address: ShippingAddress) {
+    return {
+        full_name: address.fullName,
+        phone: address.phone,
+        division: address.division,
+        district: address.district,
+        upazila: address.upazila,
+        address: address.address,
+        note: address.note ?? null,
+    };
+}
+
+/**
+ * Records that an order was placed to an address. A matching saved address
+ * (same place and phone) gets its last-used time bumped, and is marked
+ * phone-verified when the order's phone was verified by OTP. Otherwise the
+ * address is added to the address book when the customer asked to save it;
+ * the first saved address becomes the default.
+ */
+export async function rememberCheckoutAddress(
+    supabase: SupabaseClient,
+    userId: string,
+    address: ShippingAddress,
+    options: { save: boolean; phoneVerified: boolean }
+): Promise<void> {
+    const now = new Date().toISOString();
+    const { data: saved } = await supabase
+        .from('addresses')
+        .select('*')
+        .eq('user_id', userId);
+
+    const rows = (saved ?? []) as Address[];
+    const match = rows.find((row) => row.phone === address.phone && isSameAddress(row, address));
+
+    if (match) {
+        await supabase
+            .from('addresses')
+            .update({
+                last_used_at: now,
+                ...(options.phoneVerified ? { phone_verified_at: now } : {}),
+            })
+            .eq('id', match.id);
+        return;
+    }
+
+    if (!options.save || rows.length >= MAX_SAVED_ADDRESSES) return;
+
+    const { error } = await supabase.from('addresses').insert({
+        user_id: userId,
+        ...toAddressRow(address),
+        is_default: rows.length === 0,
+        phone_verified_at: options.phoneVerified ? now : null,
+        last_used_at: now,
+    });
+
+    if (error) {
+        console.error('Failed to save checkout address:', error.message);
+    }
+}
+
+/**
+ * True when one of the customer's saved addresses has this phone verified
+ * by an earlier OTP, so checkout can skip sending a fresh code.
+ */
+export async function hasVerifiedSavedPhone(
+    supabase: SupabaseClient,
+    userId: string,
+    phone: string
+): Promise<boolean> {
+    const { count } = await supabase
+        .from('addresses')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('phone', phone)
+        .not('phone_verified_at', 'is', null);
+
+    return (count ?? 0) > 0;
+}
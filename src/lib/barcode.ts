@@ -0,0 +1,60 @@
+/**
+ * Barcode
+ * Code 128 (code set B) encoding for shipping labels. Warehouse and courier
+ * scanners read it from a plain SVG, so no image generation is needed.
+ */
+
+/** Bar/space widths (in modules) for code values 0–106; 106 is the stop pattern. */
+const CODE128_PATTERNS = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const STOP = 106;
+
+export interface BarcodeBar {
+    /** Offset from the left edge, in modules. */
+    x: number;
+    width: number;
+}
+
+/**
+ * Encodes printable ASCII as Code 128-B and returns the dark bars plus the
+ * total width in modules (without quiet zones).
+ */
+export function encodeCode128(value: string): { bars: BarcodeBar[]; width: number } {
+    const codes = [START_B];
+    for (const char of value) {
+        const code = char.charCodeAt(0) - 32;
+        if (code < 0 || code > 95) {
+            throw new Error(`Cannot encode "${char}" in Code 128-B`);
+        }
+        codes.push(code);
+    }
+
+    const checksum = codes.reduce((sum, code, i) => sum + code * Math.max(i, 1), 0) % 103;
+    codes.push(checksum, STOP);
+
+    const bars: BarcodeBar[] = [];
+    let x = 0;
+    for (const code of codes) {
+        [...CODE128_PATTERNS[code]].forEach((digit, i) => {
+            const width = Number(digit);
+            // Patterns alternate bar, space, bar, … starting with a bar
+            if (i % 2 === 0) bars.push({ x, width });
+            x += width;
+        });
+    }
+
+    return { bars, width: x };
+}
@@ -0,0 +1,195 @@
+/**
+ * Bangladesh administrative reference data: division → district → upazila.
+ * Metropolitan thanas are listed alongside upazilas for Dhaka, Chattogram,
+ * Khulna and Rajshahi since couriers route city parcels by thana.
+ */
+
+export const BD_LOCATIONS = {
+    Barishal: {
+        Barguna: ['Amtali', 'Bamna', 'Barguna Sadar', 'Betagi', 'Patharghata', 'Taltali'],
+        Barishal: ['Agailjhara', 'Babuganj', 'Bakerganj', 'Banaripara', 'Barishal Sadar', 'Gournadi', 'Hizla', 'Mehendiganj', 'Muladi', 'Wazirpur'],
+        Bhola: ['Bhola Sadar', 'Burhanuddin', 'Char Fasson', 'Daulatkhan', 'Lalmohan', 'Manpura', 'Tazumuddin'],
+        Jhalokati: ['Jhalokati Sadar', 'Kathalia', 'Nalchity', 'Rajapur'],
+        Patuakhali: ['Bauphal', 'Dashmina', 'Dumki', 'Galachipa', 'Kalapara', 'Mirzaganj', 'Patuakhali Sadar', 'Rangabali'],
+        Pirojpur: ['Bhandaria', 'Indurkani', 'Kawkhali', 'Mathbaria', 'Nazirpur', 'Nesarabad', 'Pirojpur Sadar'],
+    },
+    Chattogram: {
+        Bandarban: ['Alikadam', 'Bandarban Sadar', 'Lama', 'Naikhongchhari', 'Rowangchhari', 'Ruma', 'Thanchi'],
+        Brahmanbaria: ['Akhaura', 'Ashuganj', 'Bancharampur', 'Bijoynagar', 'Brahmanbaria Sadar', 'Kasba', 'Nabinagar', 'Nasirnagar', 'Sarail'],
+        Chandpur: ['Chandpur Sadar', 'Faridganj', 'Haimchar', 'Haziganj', 'Kachua', 'Matlab Dakshin', 'Matlab Uttar', 'Shahrasti'],
+        Chattogram: [
+            'Akbar Shah', 'Anwara', 'Bakalia', 'Bandar', 'Banshkhali', 'Bayazid', 'Boalkhali', 'Chandanaish', 'Chandgaon',
+            'Chawkbazar', 'Double Mooring', 'EPZ', 'Fatikchhari', 'Halishahar', 'Hathazari', 'Karnaphuli', 'Khulshi', 'Kotwali',
+            'Lohagara', 'Mirsharai', 'Pahartali', 'Panchlaish', 'Patenga', 'Patiya', 'Rangunia', 'Raozan', 'Sandwip',
+            'Satkania', 'Sitakunda',
+        ],
+        "Cox's Bazar": ['Chakaria', "Cox's Bazar Sadar", 'Eidgaon', 'Kutubdia', 'Maheshkhali', 'Pekua', 'Ramu', 'Teknaf', 'Ukhia'],
+        Cumilla: [
+            'Barura', 'Brahmanpara', 'Burichang', 'Chandina', 'Chauddagram', 'Cumilla Adarsha Sadar', 'Cumilla Sadar Dakshin',
+            'Daudkandi', 'Debidwar', 'Homna', 'Laksam', 'Lalmai', 'Manoharganj', 'Meghna', 'Muradnagar', 'Nangalkot', 'Titas',
+        ],
+        Feni: ['Chhagalnaiya', 'Daganbhuiyan', 'Feni Sadar', 'Fulgazi', 'Parshuram', 'Sonagazi'],
+        Khagrachhari: ['Dighinala', 'Guimara', 'Khagrachhari Sadar', 'Lakshmichhari', 'Mahalchhari', 'Manikchhari', 'Matiranga', 'Panchhari', 'Ramgarh'],
+        Lakshmipur: ['Kamalnagar', 'Lakshmipur Sadar', 'Raipur', 'Ramganj', 'Ramgati'],
+        Noakhali: ['Begumganj', 'Chatkhil', 'Companiganj', 'Hatiya', 'Kabirhat', 'Noakhali Sadar', 'Senbagh', 'Sonaimuri', 'Subarnachar'],
+        Rangamati: ['Baghaichhari', 'Barkal', 'Belaichhari', 'Juraichhari', 'Kaptai', 'Kawkhali', 'Langadu', 'Naniarchar', 'Rajasthali', 'Rangamati Sadar'],
+    },
+    Dhaka: {
+        Dhaka: [
+            'Adabor', 'Badda', 'Banani', 'Bangshal', 'Bhashantek', 'Bimanbandar', 'Cantonment', 'Chawkbazar', 'Dakshinkhan',
+            'Darus Salam', 'Demra', 'Dhamrai', 'Dhanmondi', 'Dohar', 'Gendaria', 'Gulshan', 'Hatirjheel', 'Hazaribagh',
+            'Jatrabari', 'Kadamtali', 'Kafrul', 'Kalabagan', 'Kamrangirchar', 'Keraniganj', 'Khilgaon', 'Khilkhet', 'Kotwali',
+            'Lalbagh', 'Mirpur', 'Mohammadpur', 'Motijheel', 'Mugda', 'Nawabganj', 'New Market', 'Pallabi', 'Paltan', 'Ramna',
+            'Rampura', 'Rupnagar', 'Sabujbagh', 'Savar', 'Shah Ali', 'Shahbagh', 'Sher-e-Bangla Nagar', 'Shyampur', 'Sutrapur',
+            'Tejgaon', 'Tejgaon Industrial Area', 'Turag', 'Uttara East', 'Uttara West', 'Uttarkhan', 'Vatara', 'Wari',
+        ],
+        Faridpur: ['Alfadanga', 'Bhanga', 'Boalmari', 'Charbhadrasan', 'Faridpur Sadar', 'Madhukhali', 'Nagarkanda', 'Sadarpur', 'Saltha'],
+        Gazipur: ['Gazipur Sadar', 'Kaliakair', 'Kaliganj', 'Kapasia', 'Sreepur', 'Tongi'],
+        Gopalganj: ['Gopalganj Sadar', 'Kashiani', 'Kotalipara', 'Muksudpur', 'Tungipara'],
+        Kishoreganj: [
+            'Austagram', 'Bajitpur', 'Bhairab', 'Hossainpur', 'Itna', 'Karimganj', 'Katiadi', 'Kishoreganj Sadar',
+            'Kuliarchar', 'Mithamain', 'Nikli', 'Pakundia', 'Tarail',
+        ],
+        Madaripur: ['Dasar', 'Kalkini', 'Madaripur Sadar', 'Rajoir', 'Shibchar'],
+        Manikganj: ['Daulatpur', 'Ghior', 'Harirampur', 'Manikganj Sadar', 'Saturia', 'Shivalaya', 'Singair'],
+        Munshiganj: ['Gazaria', 'Lohajang', 'Munshiganj Sadar', 'Sirajdikhan', 'Sreenagar', 'Tongibari'],
+        Narayanganj: ['Araihazar', 'Bandar', 'Fatullah', 'Narayanganj Sadar', 'Rupganj', 'Siddhirganj', 'Sonargaon'],
+        Narsingdi: ['Belabo', 'Monohardi', 'Narsingdi Sadar', 'Palash', 'Raipura', 'Shibpur'],
+        Rajbari: ['Baliakandi', 'Goalanda', 'Kalukhali', 'Pangsha', 'Rajbari Sadar'],
+        Shariatpur: ['Bhedarganj', 'Damudya', 'Gosairhat', 'Naria', 'Shakhipur', 'Shariatpur Sadar', 'Zajira'],
+        Tangail: ['Basail', 'Bhuapur', 'Delduar', 'Dhanbari', 'Ghatail', 'Gopalpur', 'Kalihati', 'Madhupur', 'Mirzapur', 'Nagarpur', 'Sakhipur', 'Tangail Sadar'],
+    },
+    Khulna: {
+        Bagerhat: ['Bagerhat Sadar', 'Chitalmari', 'Fakirhat', 'Kachua', 'Mollahat', 'Mongla', 'Morrelganj', 'Rampal', 'Sarankhola'],
+        Chuadanga: ['Alamdanga', 'Chuadanga Sadar', 'Damurhuda', 'Jibannagar'],
+        Jashore: ['Abhaynagar', 'Bagherpara', 'Chaugachha', 'Jashore Sadar', 'Jhikargachha', 'Keshabpur', 'Manirampur', 'Sharsha'],
+        Jhenaidah: ['Harinakunda', 'Jhenaidah Sadar', 'Kaliganj', 'Kotchandpur', 'Maheshpur', 'Shailkupa'],
+        Khulna: [
+            'Batiaghata', 'Dacope', 'Daulatpur', 'Dighalia', 'Dumuria', 'Khalishpur', 'Khulna Sadar', 'Koyra', 'Paikgachha',
+            'Phultala', 'Rupsa', 'Sonadanga', 'Terokhada',
+        ],
+        Kushtia: ['Bheramara', 'Daulatpur', 'Khoksa', 'Kumarkhali', 'Kushtia Sadar', 'Mirpur'],
+        Magura: ['Magura Sadar', 'Mohammadpur', 'Shalikha', 'Sreepur'],
+        Meherpur: ['Gangni', 'Meherpur Sadar', 'Mujibnagar'],
+        Narail: ['Kalia', 'Lohagara', 'Narail Sadar'],
+        Satkhira: ['Assasuni', 'Debhata', 'Kalaroa', 'Kaliganj', 'Satkhira Sadar', 'Shyamnagar', 'Tala'],
+    },
+    Mymensingh: {
+        Jamalpur: ['Bakshiganj', 'Dewanganj', 'Islampur', 'Jamalpur Sadar', 'Madarganj', 'Melandaha', 'Sarishabari'],
+        Mymensingh: [
+            'Bhaluka', 'Dhobaura', 'Fulbaria', 'Gaffargaon', 'Gauripur', 'Haluaghat', 'Ishwarganj', 'Muktagachha',
+            'Mymensingh Sadar', 'Nandail', 'Phulpur', 'Tarakanda', 'Trishal',
+        ],
+        Netrokona: ['Atpara', 'Barhatta', 'Durgapur', 'Kalmakanda', 'Kendua', 'Khaliajuri', 'Madan', 'Mohanganj', 'Netrokona Sadar', 'Purbadhala'],
+        Sherpur: ['Jhenaigati', 'Nakla', 'Nalitabari', 'Sherpur Sadar', 'Sreebardi'],
+    },
+    Rajshahi: {
+        Bogura: [
+            'Adamdighi', 'Bogura Sadar', 'Dhunat', 'Dhupchanchia', 'Gabtali', 'Kahaloo', 'Nandigram', 'Sariakandi',
+            'Shajahanpur', 'Sherpur', 'Shibganj', 'Sonatala',
+        ],
+        'Chapai Nawabganj': ['Bholahat', 'Chapai Nawabganj Sadar', 'Gomastapur', 'Nachole', 'Shibganj'],
+        Joypurhat: ['Akkelpur', 'Joypurhat Sadar', 'Kalai', 'Khetlal', 'Panchbibi'],
+        Naogaon: [
+            'Atrai', 'Badalgachhi', 'Dhamoirhat', 'Mahadebpur', 'Manda', 'Naogaon Sadar', 'Niamatpur', 'Patnitala',
+            'Porsha', 'Raninagar', 'Sapahar',
+        ],
+        Natore: ['Bagatipara', 'Baraigram', 'Gurudaspur', 'Lalpur', 'Naldanga', 'Natore Sadar', 'Singra'],
+        Pabna: ['Atgharia', 'Bera', 'Bhangura', 'Chatmohar', 'Faridpur', 'Ishwardi', 'Pabna Sadar', 'Santhia', 'Sujanagar'],
+        Rajshahi: [
+            'Bagha', 'Bagmara', 'Boalia', 'Charghat', 'Durgapur', 'Godagari', 'Mohanpur', 'Motihar', 'Paba', 'Puthia',
+            'Rajpara', 'Shah Makhdum', 'Tanore',
+        ],
+        Sirajganj: ['Belkuchi', 'Chauhali', 'Kamarkhanda', 'Kazipur', 'Raiganj', 'Shahjadpur', 'Sirajganj Sadar', 'Tarash', 'Ullahpara'],
+    },
+    Rangpur: {
+        Dinajpur: [
+            'Birampur', 'Birganj', 'Biral', 'Bochaganj', 'Chirirbandar', 'Dinajpur Sadar', 'Fulbari', 'Ghoraghat',
+            'Hakimpur', 'Kaharole', 'Khansama', 'Nawabganj', 'Parbatipur',
+        ],
+        Gaibandha: ['Fulchhari', 'Gaibandha Sadar', 'Gobindaganj', 'Palashbari', 'Sadullapur', 'Saghata', 'Sundarganj'],
+        Kurigram: ['Bhurungamari', 'Char Rajibpur', 'Chilmari', 'Kurigram Sadar', 'Nageshwari', 'Phulbari', 'Rajarhat', 'Raumari', 'Ulipur'],
+        Lalmonirhat: ['Aditmari', 'Hatibandha', 'Kaliganj', 'Lalmonirhat Sadar', 'Patgram'],
+        Nilphamari: ['Dimla', 'Domar', 'Jaldhaka', 'Kishoreganj', 'Nilphamari Sadar', 'Saidpur'],
+        Panchagarh: ['Atwari', 'Boda', 'Debiganj', 'Panchagarh Sadar', 'Tetulia'],
+        Rangpur: ['Badarganj', 'Gangachhara', 'Kaunia', 'Mithapukur', 'Pirgachha', 'Pirganj', 'Rangpur Sadar', 'Taraganj'],
+        Thakurgaon: ['Baliadangi', 'Haripur', 'Pirganj', 'Ranisankail', 'Thakurgaon Sadar'],
+    },
+    Sylhet: {
+        Habiganj: ['Ajmiriganj', 'Bahubal', 'Baniachong', 'Chunarughat', 'Habiganj Sadar', 'Lakhai', 'Madhabpur', 'Nabiganj', 'Shaistaganj'],
+        Moulvibazar: ['Barlekha', 'Juri', 'Kamalganj', 'Kulaura', 'Moulvibazar Sadar', 'Rajnagar', 'Sreemangal'],
+        Sunamganj: [
+            'Bishwambharpur', 'Chhatak', 'Derai', 'Dharamapasha', 'Dowarabazar', 'Jagannathpur', 'Jamalganj',
+            'Madhyanagar', 'Shalla', 'Shantiganj', 'Sunamganj Sadar', 'Tahirpur',
+        ],
+        Sylhet: [
+            'Balaganj', 'Beanibazar', 'Bishwanath', 'Companiganj', 'Dakshin Surma', 'Fenchuganj', 'Golapganj',
+            'Gowainghat', 'Jaintiapur', 'Kanaighat', 'Osmani Nagar', 'Sylhet Sadar', 'Zakiganj',
+        ],
+    },
+} satisfies Record<string, Record<string, string[]>>;
+
+export type Division = keyof typeof BD_LOCATIONS;
+
+export const DIVISIONS = Object.keys(BD_LOCATIONS) as Division[];
+
+/** Former/alternate spellings still common in customer input. */
+const ALIASES: Record<string, string> = {
+    barisal: 'Barishal',
+    chittagong: 'Chattogram',
+    comilla: 'Cumilla',
+    jessore: 'Jashore',
+    bogra: 'Bogura',
+    'coxs bazar': "Cox's Bazar",
+    'nawabganj sadar': 'Chapai Nawabganj Sadar',
+    chapainawabganj: 'Chapai Nawabganj',
+};
+
+function key(value: string): string {
+    return value.toLowerCase().replace(/['’.]/g, '').replace(/[\s_-]+/g, ' ').trim();
+}
+
+function canonical(value: string | undefined | null, options: string[]): string | null {
+    if (!value) return null;
+    const k = key(ALIASES[key(value)] ?? value);
+    return options.find((option) => key(option) === k) ?? null;
+}
+
+export function getDistricts(division: string): string[] {
+    const d = canonical(division, DIVISIONS) as Division | null;
+    return d ? Object.keys(BD_LOCATIONS[d]) : [];
+}
+
+export function getUpazilas(division: string, district: string): string[] {
+    const d = canonical(division, DIVISIONS) as Division | null;
+    if (!d) return [];
+    const districts = BD_LOCATIONS[d] as Record<string, string[]>;
+    const name = canonical(district, Object.keys(districts));
+    return name ? districts[name] : [];
+}
+
+/** Canonical division name, or null if unknown. */
+export function findDivision(value: string | undefined | null): Division | null {
+    return canonical(value, DIVISIONS) as Division | null;
+}
+
+/** Canonical district name within a division, or null if unknown. */
+export function findDistrict(division: string, value: string | undefined | null): string | null {
+    return canonical(value, getDistricts(division));
+}
+
+/** Canonical upazila/thana name within a district, or null if unknown. */
+export function findUpazila(division: string, district: string, value: string | undefined | null): string | null {
+    return canonical(value, getUpazilas(division, district));
+}
+
+/**
+ * Looks up the division for a district name (districts are unique nationwide).
+ */
+export function findDivisionForDistrict(value: string | undefined | null): { division: Division; district: string } | null {
+    for (const division of DIVISIONS) {
+        const district = findDistrict(division, value);
+        if (district) return { division, district };
+    }
+    return null;
+}
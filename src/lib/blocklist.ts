@@ -0,0 +1,142 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Blocklist
+ * Single lookup over `blocked_entries` for phones, accounts, IPs and address
+ * keywords. Expired entries are ignored. `hard_block` entries reject the order;
+ * `flag_only` entries are scored as risk points by the RiskEngine.
+ */
+
+export const BLOCKED_ENTRY_TYPES = ['phone', 'user_id', 'address_keyword', 'ip'] as const;
+export const BLOCK_SEVERITIES = ['hard_block', 'flag_only'] as const;
+
+export type BlockedEntryType = (typeof BLOCKED_ENTRY_TYPES)[number];
+export type BlockSeverity = (typeof BLOCK_SEVERITIES)[number];
+
+export interface BlocklistSubject {
+    phone?: string | null;
+    userId?: string | null;
+    ip?: string | null;
+    address?: unknown;
+}
+
+export interface BlocklistMatch {
+    id: string;
+    type: BlockedEntryType;
+    value: string;
+    reason: string | null;
+    severity: BlockSeverity;
+}
+
+/**
+ * Normalises a Bangladeshi mobile number to its 11-digit local form
+ * (01XXXXXXXXX) so "+8801712345678" and "01712345678" match the same entry.
+ */
+export function normalizePhone(phone: string): string {
+    const digits = phone.replace(/\D/g, '');
+    return digits.startsWith('880') ? digits.slice(2) : digits;
+}
+
+/**
+ * Normalises an entry value for storage and comparison.
+ */
+export function normalizeBlockedValue(type: BlockedEntryType, value: string): string {
+    const trimmed = value.trim();
+    switch (type) {
+        case 'phone':
+            return normalizePhone(trimmed);
+        case 'address_keyword':
+            return trimmed.toLowerCase();
+        default:
+            return trimmed;
+    }
+}
+
+/**
+ * Flattens a shipping address (string or JSON object) into lowercase text
+ * for keyword matching.
+ */
+function addressText(address: unknown): string {
+    if (!address) return '';
+    if (typeof address === 'string') return address.toLowerCase();
+    if (typeof address === 'object') {
+        return Object.values(address as Record<string, unknown>)
+            .filter((v) => typeof v === 'string')
+            .join(' ')
+            .toLowerCase();
+    }
+    return '';
+}
+
+/**
+ * Filter for entries that have not expired yet.
+ */
+export function activeEntriesFilter() {
+    return `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+}
+
+/**
+ * Returns every active blocklist entry matching the given subject.
+ */
+export async function checkBlocklist(
+    supabase: SupabaseClient,
+    subject: BlocklistSubject
+): Promise<BlocklistMatch[]> {
+    const exact: { type: BlockedEntryType; value: string }[] = [];
+    if (subject.phone) exact.push({ type: 'phone', value: normalizePhone(subject.phone) });
+    if (subject.userId) exact.push({ type: 'user_id', value: subject.userId });
+    if (subject.ip) exact.push({ type: 'ip', value: subject.ip.trim() });
+
+    const text = addressText(subject.address);
+    const matches: BlocklistMatch[] = [];
+
+    if (exact.length > 0) {
+        const { data, error } = await supabase
+            .from('blocked_entries')
+            .select('id, type, value, reason, severity')
+            .in('type', exact.map((e) => e.type))
+            .in('value', exact.map((e) => e.value))
+            .or(activeEntriesFilter());
+
+        if (error) {
+            console.error('Blocklist lookup failed:', error.message);
+        }
+
+        // type and value are filtered independently above; keep only exact pairs
+        for (const entry of (data ?? []) as BlocklistMatch[]) {
+            if (exact.some((e) => e.type === entry.type && e.value === entry.value)) {
+                matches.push(entry);
+            }
+        }
+    }
+
+    if (text) {
+        const { data: keywords } = await supabase
+            .from('blocked_entries')
+            .select('id, type, value, reason, severity')
+            .eq('type', 'address_keyword')
+            .or(activeEntriesFilter());
+
+        for (const entry of (keywords ?? []) as BlocklistMatch[]) {
+            if (entry.value && text.includes(entry.value.toLowerCase())) {
+                matches.push(entry);
+            }
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Human-readable label for a match, used in risk factors and rejection messages.
+ */
+export function describeBlocklistMatch(match: BlocklistMatch): string {
+    const labels: Record<BlockedEntryType, string> = {
+        phone: 'Phone Number',
+        user_id: 'Account',
+        address_keyword: 'Address Keyword',
+        ip: 'IP Address',
+    };
+    const reason = match.reason ? `: ${match.reason}` : '';
+    return `${labels[match.type]} ${match.severity === 'hard_block' ? 'Blocked' : 'Flagged'}${reason}`;
+}
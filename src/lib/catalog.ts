@@ -0,0 +1,229 @@
+import { parsePrice } from '@/lib/search';
+import { createPublicClient } from '@/lib/supabase/server';
+import { unstable_cache } from 'next/cache';
+
+/**
+ * Product Catalog Filters
+ * Faceted filtering for /product: categories (any of several, through
+ * product_categories, each including its subcategories), price range,
+ * in-stock only, and variant attributes such as Size or Colour, with a
+ * product count per facet value (filter_products / product_facets RPCs).
+ *
+ * Filters live entirely in the URL so listings can be shared and cached:
+ *   /product?category=bags,shoes&min=500&max=2000&in_stock=1&attr_Size=L,M&sort=price_asc
+ * catalogParams() writes them back in one canonical order, so the same
+ * filters always produce the same URL.
+ */
+
+export const CATALOG_PAGE_SIZE = 16;
+
+export const SORT_OPTIONS = [
+    { value: 'newest', label: 'Newest First' },
+    { value: 'price_asc', label: 'Price: Low → High' },
+    { value: 'price_desc', label: 'Price: High → Low' },
+    { value: 'name_asc', label: 'Name: A → Z' },
+] as const;
+
+export type CatalogSort = (typeof SORT_OPTIONS)[number]['value'];
+
+/** URL params for attribute facets are `attr_<option name>`. */
+const ATTRIBUTE_PREFIX = 'attr_';
+const MAX_VALUES_PER_FACET = 20;
+const MAX_ATTRIBUTE_FACETS = 10;
+
+export interface CatalogFilters {
+    /** Category slugs; a product in any of them matches */
+    categories: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    inStock: boolean;
+    /** Option name → accepted values; every option must match */
+    attributes: Record<string, string[]>;
+    sort: CatalogSort;
+    page: number;
+}
+
+export interface CatalogProduct {
+    id: string;
+    name: string;
+    slug: string;
+    price: number;
+    inventory: number;
+    category_id: string | null;
+    image_url: string | null;
+}
+
+export interface FacetValue {
+    value: string;
+    label: string;
+    count: number;
+}
+
+export interface CatalogFacets {
+    categories: FacetValue[];
+    attributes: { name: string; values: FacetValue[] }[];
+}
+
+/**
+ * Comma-separated list param → unique, sorted values.
+ */
+function parseList(value?: string | string[]): string[] {
+    const raw = Array.isArray(value) ? value.join(',') : (value ?? '');
+    const values = raw
+        .split(',')
+        .map((v) => v.trim())
+        .filter(Boolean);
+    return [...new Set(values)].sort().slice(0, MAX_VALUES_PER_FACET);
+}
+
+/**
+ * Reads catalog filters from URL params.
+ */
+export function parseCatalogParams(params: Record<string, string | string[] | undefined>): CatalogFilters {
+    const first = (value?: string | string[]) => (Array.isArray(value) ? value[0] : value);
+
+    const attributes: Record<string, string[]> = {};
+    for (const key of Object.keys(params).sort()) {
+        if (!key.startsWith(ATTRIBUTE_PREFIX)) continue;
+        const name = key.slice(ATTRIBUTE_PREFIX.length).trim();
+        const values = parseList(params[key]);
+        if (name && values.length > 0 && Object.keys(attributes).length < MAX_ATTRIBUTE_FACETS) {
+            attributes[name] = values;
+        }
+    }
+
+    const sort = first(params.sort);
+    return {
+        categories: parseList(params.category),
+        minPrice: parsePrice(first(params.min)),
+        maxPrice: parsePrice(first(params.max)),
+        inStock: first(params.in_stock) === '1',
+        attributes,
+        sort: SORT_OPTIONS.some((opt) => opt.value === sort) ? (sort as CatalogSort) : 'newest',
+        page: Math.max(1, Number(first(params.page)) || 1),
+    };
+}
+
+/**
+ * Filters as URL params in canonical order (page excluded; defaults left
+ * out). Suitable for <Pagination searchParams>.
+ */
+export function catalogParams(filters: CatalogFilters): Record<string, string | undefined> {
+    const params: Record<string, string | undefined> = {};
+    if (filters.categories.length > 0) params.category = [...filters.categories].sort().join(',');
+    if (filters.minPrice !== undefined) params.min = String(filters.minPrice);
+    if (filters.maxPrice !== undefined) params.max = String(filters.maxPrice);
+    if (filters.inStock) params.in_stock = '1';
+    for (const name of Object.keys(filters.attributes).sort()) {
+        const values = filters.attributes[name];
+        if (values.length > 0) params[ATTRIBUTE_PREFIX + name] = [...values].sort().join(',');
+    }
+    if (filters.sort !== 'newest') params.sort = filters.sort;
+    return params;
+}
+
+/**
+ * /product URL for the given filters with some changed. Any change other
+ * than the page goes back to page 1.
+ */
+export function catalogHref(filters: CatalogFilters, changes: Partial<CatalogFilters> = {}): string {
+    const next = { ...filters, page: 1, ...changes };
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(catalogParams(next))) {
+        if (value) params.set(key, value);
+    }
+    if (next.page > 1) params.set('page', String(next.page));
+    const query = params.toString();
+    return query ? `/product?${query}` : '/product';
+}
+
+/**
+ * Adds the value if missing, removes it if present.
+ */
+export function toggleValue(values: string[], value: string): string[] {
+    return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Attribute filters with one option's selection replaced (or removed when
+ * `values` is empty).
+ */
+export function withAttribute(filters: CatalogFilters, name: string, values: string[]): Record<string, string[]> {
+    const attributes = { ...filters.attributes };
+    if (values.length > 0) attributes[name] = values;
+    else delete attributes[name];
+    return attributes;
+}
+
+/**
+ * One page of filtered products plus facet counts. Cached per filter set
+ * alongside the rest of the product data.
+ */
+export const getCatalogPage = unstable_cache(
+    async (
+        filters: CatalogFilters
+    ): Promise<{ products: CatalogProduct[]; total: number; totalPages: number; facets: CatalogFacets }> => {
+        const supabase = await createPublicClient();
+        const args = {
+            p_category_slugs: filters.categories.length > 0 ? filters.categories : null,
+            p_min_price: filters.minPrice ?? null,
+            p_max_price: filters.maxPrice ?? null,
+            p_in_stock: filters.inStock,
+            p_attributes: filters.attributes,
+        };
+
+        const [listing, facetRows] = await Promise.all([
+            supabase.rpc('filter_products', {
+                ...args,
+                p_sort: filters.sort,
+                p_limit: CATALOG_PAGE_SIZE,
+                p_offset: (filters.page - 1) * CATALOG_PAGE_SIZE,
+            }),
+            supabase.rpc('product_facets', args),
+        ]);
+
+        if (listing.error) console.error('Product listing failed:', listing.error);
+        if (facetRows.error) console.error('Product facets failed:', facetRows.error);
+
+        const rows = (listing.data ?? []) as (CatalogProduct & { total_count: number })[];
+        const total = Number(rows[0]?.total_count ?? 0);
+
+        const facets: CatalogFacets = { categories: [], attributes: [] };
+        for (const row of (facetRows.data ?? []) as {
+            facet: 'category' | 'attribute';
+            name: string;
+            value: string;
+            label: string;
+            product_count: number;
+        }[]) {
+            const value = { value: row.value, label: row.label, count: Number(row.product_count) };
+            if (row.facet === 'category') {
+                facets.categories.push(value);
+                continue;
+            }
+            let group = facets.attributes.find((g) => g.name === row.name);
+            if (!group) {
+                group = { name: row.name, values: [] };
+                facets.attributes.push(group);
+            }
+            group.values.push(value);
+        }
+
+        return {
+            products: rows.map((row) => ({
+                id: row.id,
+                name: row.name,
+                slug: row.slug,
+                price: Number(row.price),
+                inventory: row.inventory,
+                category_id: row.category_id,
+                image_url: row.image_url,
+            })),
+            total,
+            totalPages: Math.ceil(total / CATALOG_PAGE_SIZE),
+            facets,
+        };
+    },
+    ['catalog-page'],
+    { revalidate: 60, tags: ['products'] }
+);
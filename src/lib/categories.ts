@@ -0,0 +1,150 @@
+import { createPublicClient } from '@/lib/supabase/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { unstable_cache } from 'next/cache';
+
+/**
+ * Category Hierarchy
+ * Categories nest through categories.parent_id. These helpers turn the flat
+ * rows into a tree for navigation and walk it for breadcrumbs. Listing
+ * queries expand a category to its descendants in the database
+ * (category_descendants), so a parent shows everything beneath it.
+ */
+
+export type CategoryRow = {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+  description?: string | null;
+  image_url?: string | null;
+};
+
+export type CategoryTreeNode<T extends CategoryRow = CategoryRow> = T & {
+  children: CategoryTreeNode<T>[];
+};
+
+/**
+ * All active categories, flat and sorted by name.
+ */
+export const getActiveCategories = unstable_cache(
+  async (): Promise<CategoryRow[]> => {
+    const supabase = await createPublicClient();
+    const { data } = await supabase
+      .from('categories')
+      .select('id, name, slug, parent_id, description, image_url')
+      .eq('is_active', true)
+      .order('name');
+
+    return data ?? [];
+  },
+  ['active-categories'],
+  { revalidate: 300, tags: ['categories'] }
+);
+
+/**
+ * Nests categories under their parents, keeping the input order among
+ * siblings. Categories whose parent is not in the list (e.g. inactive) are
+ * left out along with their children.
+ */
+export function buildCategoryTree<T extends CategoryRow>(categories: T[]): CategoryTreeNode<T>[] {
+  const nodes = new Map<string, CategoryTreeNode<T>>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+
+  const roots: CategoryTreeNode<T>[] = [];
+  for (const node of nodes.values()) {
+    if (!node.parent_id) roots.push(node);
+    else nodes.get(node.parent_id)?.children.push(node);
+  }
+  return roots;
+}
+
+/**
+ * The tree in display order (parents before their children) with depths.
+ */
+export function flattenCategoryTree<T extends CategoryRow>(
+  roots: CategoryTreeNode<T>[],
+  depth = 0
+): { category: CategoryTreeNode<T>; depth: number }[] {
+  return roots.flatMap((category) => [
+    { category, depth },
+    ...flattenCategoryTree(category.children, depth + 1),
+  ]);
+}
+
+/**
+ * A category and its ancestors, root first — for breadcrumbs. Empty when
+ * the category is not in the list.
+ */
+export function categoryPath<T extends CategoryRow>(categories: T[], categoryId: string): T[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: T[] = [];
+
+  let current = byId.get(categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+/**
+ * IDs of a category and everything beneath it.
+ */
+export function descendantIds<T extends CategoryRow>(categories: T[], categoryId: string): string[] {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parent_id === ids[i] && !ids.includes(category.id)) ids.push(category.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Select options in tree order, labelled with the full path
+ * ("Men › Shirts"). `exclude` drops categories by ID.
+ */
+export function categorySelectOptions<T extends CategoryRow>(
+  categories: T[],
+  exclude: string[] = []
+): { value: string; label: string }[] {
+  return flattenCategoryTree(buildCategoryTree(categories))
+    .filter(({ category }) => !exclude.includes(category.id))
+    .map(({ category }) => ({
+      value: category.id,
+      label: categoryPath(categories, category.id)
+        .map((c) => c.name)
+        .join(' › '),
+    }));
+}
+
+/**
+ * Replaces the categories a product is in (product_categories). Include
+ * the primary category (products.category_id) — it is kept in sync by a
+ * trigger, but anything not listed here is removed.
+ */
+export async function saveProductCategories(
+  supabase: SupabaseClient,
+  productId: string,
+  categoryIds: string[]
+): Promise<{ success: true } | { success: false; error: string }> {
+  const ids = [...new Set(categoryIds.filter(Boolean))];
+
+  let removal = supabase.from('product_categories').delete().eq('product_id', productId);
+  if (ids.length > 0) removal = removal.not('category_id', 'in', `(${ids.join(',')})`);
+  const { error: deleteError } = await removal;
+  if (deleteError) return { success: false, error: deleteError.message };
+
+  if (ids.length > 0) {
+    const { error } = await supabase
+      .from('product_categories')
+      .upsert(
+        ids.map((categoryId) => ({ product_id: productId, category_id: categoryId })),
+        { onConflict: 'product_id,category_id', ignoreDuplicates: true }
+      );
+    if (error) return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,61 @@
+import { PathaoProvider } from './pathao';
+import { RedxProvider } from './redx';
+import { SteadfastProvider } from './steadfast';
+import { CourierProvider, CourierProviderName } from './types';
+
+export const COURIER_PROVIDERS: CourierProviderName[] = ['steadfast', 'pathao', 'redx'];
+
+const providers = new Map<CourierProviderName, CourierProvider>();
+
+function createProvider(name: CourierProviderName): CourierProvider {
+    switch (name) {
+        case 'steadfast':
+            return new SteadfastProvider({
+                apiKey: process.env.STEADFAST_API_KEY || '',
+                secretKey: process.env.STEADFAST_SECRET_KEY || '',
+                baseUrl: process.env.STEADFAST_BASE_URL,
+            });
+        case 'pathao':
+            return new PathaoProvider({
+                clientId: process.env.PATHAO_CLIENT_ID || '',
+                clientSecret: process.env.PATHAO_CLIENT_SECRET || '',
+                username: process.env.PATHAO_USERNAME || '',
+                password: process.env.PATHAO_PASSWORD || '',
+                storeId: process.env.PATHAO_STORE_ID || '',
+                baseUrl: process.env.PATHAO_BASE_URL,
+            });
+        case 'redx':
+            return new RedxProvider({
+                apiToken: process.env.REDX_API_TOKEN || '',
+                pickupStoreId: process.env.REDX_PICKUP_STORE_ID,
+                baseUrl: process.env.REDX_BASE_URL,
+            });
+        default:
+            throw new Error(`Unknown courier provider "${name}"`);
+    }
+}
+
+/**
+ * Returns the client for a courier (default "steadfast"), configured from env.
+ * Each courier's *_BASE_URL can point at a sandbox or a local mock server.
+ */
+export function getCourierProvider(name: CourierProviderName = 'steadfast'): CourierProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = createProvider(name);
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+/**
+ * Overrides a courier client, e.g. with a test double. Pass null to reset.
+ */
+export function setCourierProvider(name: CourierProviderName, next: CourierProvider | null) {
+    if (next) providers.set(name, next);
+    else providers.delete(name);
+}
+
+export function isCourierProvider(name: string): name is CourierProviderName {
+    return COURIER_PROVIDERS.includes(name as CourierProviderName);
+}
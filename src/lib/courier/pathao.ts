@@ -0,0 +1,187 @@
+import type { OrderStatus } from '@/types/db';
+import {
+    CourierBalance,
+    CourierError,
+    CourierProvider,
+    CourierWebhookEvent,
+    CreatedParcel,
+    CreateParcelInput,
+    ParcelStatus,
+} from './types';
+
+/**
+ * Pathao Courier
+ * Client for the Pathao merchant API (Aladdin). Requests use an OAuth password
+ * grant token, cached until shortly before it expires. City/zone ids are not
+ * sent; Pathao resolves them from the recipient address.
+ */
+
+const DEFAULT_BASE_URL = 'https://api-hermes.pathao.com';
+
+export interface PathaoConfig {
+    clientId: string;
+    clientSecret: string;
+    username: string;
+    password: string;
+    storeId: string;
+    baseUrl?: string;
+    /** Swappable for tests; defaults to the global fetch. */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Pathao order statuses / webhook events (without the "order." prefix) →
+ * order statuses. Creation, update and payment events do not move the order.
+ */
+const PATHAO_STATUS_MAP: Record<string, OrderStatus> = {
+    'pending': 'shipped',
+    'pickup-requested': 'shipped',
+    'assigned-for-pickup': 'shipped',
+    'picked': 'shipped',
+    'pickup-failed': 'shipped',
+    'at-the-sorting-hub': 'shipped',
+    'in-transit': 'shipped',
+    'received-at-last-mile-hub': 'shipped',
+    'assigned-for-delivery': 'shipped',
+    'on-hold': 'shipped',
+    'delivery-failed': 'shipped',
+    'delivered': 'delivered',
+    'partial-delivery': 'delivered',
+    'returned': 'returned',
+    'paid-return': 'returned',
+    'pickup-cancelled': 'cancelled',
+};
+
+/** "order.pickup-requested", "Pickup_Requested" → "pickup-requested" */
+function normalizeStatus(status: string): string {
+    return status.trim().toLowerCase().replace(/^order\./, '').replace(/[\s_]+/g, '-');
+}
+
+export class PathaoProvider implements CourierProvider {
+    readonly name = 'pathao' as const;
+
+    private baseUrl: string;
+    private fetchImpl: typeof fetch;
+    private token: { value: string; expiresAt: number } | null = null;
+
+    constructor(private config: PathaoConfig) {
+        if (!config.clientId || !config.clientSecret || !config.storeId) {
+            console.warn('Pathao API credentials are missing. Courier integration will fail.');
+        }
+        this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+        this.fetchImpl = config.fetch ?? fetch;
+    }
+
+    private async send(method: 'GET' | 'POST', path: string, body?: unknown, token?: string) {
+        const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                Accept: 'application/json',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || (typeof data?.code === 'number' && data.code >= 400)) {
+            const fieldErrors = data?.errors ? Object.values(data.errors).flat().join(', ') : '';
+            throw new CourierError(
+                fieldErrors || data?.message || `Pathao API error: ${response.status}`,
+                response.ok ? data.code : response.status,
+                data
+            );
+        }
+
+        return data;
+    }
+
+    private async accessToken(): Promise<string> {
+        if (this.token && this.token.expiresAt > Date.now()) return this.token.value;
+
+        const data = await this.send('POST', '/aladdin/api/v1/issue-token', {
+            client_id: this.config.clientId,
+            client_secret: this.config.clientSecret,
+            username: this.config.username,
+            password: this.config.password,
+            grant_type: 'password',
+        });
+
+        if (!data?.access_token) {
+            throw new CourierError('Pathao did not return an access token', 200, data);
+        }
+
+        // Refresh a minute early so a token never expires mid-request
+        const ttlSeconds = Number(data.expires_in ?? 3600);
+        this.token = { value: data.access_token, expiresAt: Date.now() + (ttlSeconds - 60) * 1000 };
+        return this.token.value;
+    }
+
+    private async request(method: 'GET' | 'POST', path: string, body?: unknown) {
+        return this.send(method, path, body, await this.accessToken());
+    }
+
+    async createParcel(input: CreateParcelInput): Promise<CreatedParcel> {
+        const data = await this.request('POST', '/aladdin/api/v1/orders', {
+            store_id: Number(this.config.storeId),
+            merchant_order_id: input.invoice,
+            recipient_name: input.recipientName,
+            recipient_phone: input.recipientPhone,
+            recipient_address: input.recipientAddress,
+            delivery_type: 48, // normal delivery
+            item_type: 2, // parcel
+            special_instruction: input.note ?? '',
+            item_quantity: input.itemQuantity ?? 1,
+            // Pathao bills in kg, minimum 0.5
+            item_weight: Math.max(0.5, (input.weightGrams ?? 0) / 1000),
+            amount_to_collect: Math.round(input.codAmount),
+        });
+
+        const order = data?.data;
+        if (!order?.consignment_id) {
+            throw new CourierError('Pathao did not return a consignment', 200, data);
+        }
+
+        return {
+            consignmentId: String(order.consignment_id),
+            // Pathao tracks parcels by their consignment id
+            trackingCode: String(order.consignment_id),
+            status: normalizeStatus(String(order.order_status ?? 'pending')),
+            codAmount: input.codAmount,
+            deliveryFee: order.delivery_fee != null ? Number(order.delivery_fee) : null,
+            raw: data,
+        };
+    }
+
+    async getStatus(consignmentId: string): Promise<ParcelStatus> {
+        const data = await this.request(
+            'GET',
+            `/aladdin/api/v1/orders/${encodeURIComponent(consignmentId)}/info`
+        );
+        const status = data?.data?.order_status_slug ?? data?.data?.order_status ?? 'unknown';
+        return { consignmentId, status: normalizeStatus(String(status)), raw: data };
+    }
+
+    async cancelParcel(): Promise<void> {
+        throw new CourierError('Pathao parcels can only be cancelled from the Pathao merchant panel');
+    }
+
+    async getBalance(): Promise<CourierBalance> {
+        throw new CourierError('Pathao does not provide a balance API');
+    }
+
+    toOrderStatus(courierStatus: string): OrderStatus | null {
+        return PATHAO_STATUS_MAP[normalizeStatus(courierStatus)] ?? null;
+    }
+
+    parseWebhook(payload: any): CourierWebhookEvent | null {
+        const status = payload?.event ?? payload?.order_status;
+        if (!payload?.consignment_id || !status) return null;
+        return {
+            consignmentId: String(payload.consignment_id),
+            status: normalizeStatus(String(status)),
+            raw: payload,
+        };
+    }
+}
@@ -0,0 +1,120 @@
+import type { OrderStatus } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { refreshShipmentStatus } from './shipments';
+import { CourierProviderName } from './types';
+
+/**
+ * Shipment Reconciliation
+ * Webhooks can be missed, so a scheduled job polls the courier for every
+ * open shipment (least recently checked first) and applies the result the
+ * same way a webhook would. Couriers rate-limit their APIs, so parcels are
+ * polled in small concurrent batches with a pause in between.
+ */
+
+/** Orders whose parcel is still with the courier. */
+const OPEN_ORDER_STATUSES: OrderStatus[] = ['confirmed', 'processing', 'shipped'];
+
+export interface ReconciliationOptions {
+    /** Parcels polled concurrently. */
+    batchSize?: number;
+    /** Pause between batches. */
+    batchDelayMs?: number;
+    /** Parcels polled per run, to stay within the route's time limit. */
+    maxShipments?: number;
+    /** A parcel whose courier status has not changed for this long is reported as stuck. */
+    stuckAfterDays?: number;
+}
+
+export interface StuckShipment {
+    shipmentId: string;
+    orderId: string;
+    provider: CourierProviderName;
+    consignmentId: string;
+    status: string | null;
+    statusChangedAt: string;
+    days: number;
+}
+
+export interface ReconciliationReport {
+    checked: number;
+    updated: number;
+    rejected: number;
+    failed: { orderId: string; error: string }[];
+    stuck: StuckShipment[];
+}
+
+/**
+ * Polls open shipments, updates shipments and orders, and lists stuck parcels.
+ */
+export async function reconcileShipments(
+    supabase: SupabaseClient,
+    options: ReconciliationOptions = {}
+): Promise<ReconciliationReport> {
+    const {
+        batchSize = 10,
+        batchDelayMs = 1000,
+        maxShipments = 300,
+        stuckAfterDays = 7,
+    } = options;
+
+    const report: ReconciliationReport = { checked: 0, updated: 0, rejected: 0, failed: [], stuck: [] };
+
+    const { data: shipments, error } = await supabase
+        .from('shipments')
+        .select('*, order:orders!inner(status)')
+        .in('order.status', OPEN_ORDER_STATUSES)
+        .order('last_checked_at', { ascending: true, nullsFirst: true })
+        .limit(maxShipments);
+
+    if (error) throw new Error(`Failed to load open shipments: ${error.message}`);
+
+    const open = shipments ?? [];
+    for (let i = 0; i < open.length; i += batchSize) {
+        if (i > 0) await new Promise((resolve) => setTimeout(resolve, batchDelayMs));
+
+        const batch = open.slice(i, i + batchSize);
+        const results = await Promise.all(
+            batch.map((shipment) => refreshShipmentStatus(supabase, shipment, 'Reconciliation'))
+        );
+
+        results.forEach((result, index) => {
+            report.checked++;
+            if (!result.success) {
+                report.failed.push({ orderId: batch[index].order_id, error: result.error });
+            } else if (result.rejected) {
+                report.rejected++;
+            } else if (result.changed) {
+                report.updated++;
+            }
+        });
+    }
+
+    report.stuck = await findStuckShipments(supabase, stuckAfterDays);
+    return report;
+}
+
+/**
+ * Open shipments whose courier status has not changed for `days` days.
+ */
+export async function findStuckShipments(supabase: SupabaseClient, days: number): Promise<StuckShipment[]> {
+    const now = Date.now();
+    const cutoff = new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data } = await supabase
+        .from('shipments')
+        .select('id, order_id, provider, consignment_id, status, status_changed_at, order:orders!inner(status)')
+        .in('order.status', OPEN_ORDER_STATUSES)
+        .lt('status_changed_at', cutoff)
+        .order('status_changed_at', { ascending: true })
+        .limit(500);
+
+    return (data ?? []).map((shipment) => ({
+        shipmentId: shipment.id,
+        orderId: shipment.order_id,
+        provider: shipment.provider,
+        consignmentId: shipment.consignment_id,
+        status: shipment.status,
+        statusChangedAt: shipment.status_changed_at,
+        days: Math.floor((now - new Date(shipment.status_changed_at).getTime()) / (24 * 60 * 60 * 1000)),
+    }));
+}
@@ -0,0 +1,175 @@
+import type { OrderStatus } from '@/types/db';
+import {
+    CourierBalance,
+    CourierError,
+    CourierProvider,
+    CourierWebhookEvent,
+    CreatedParcel,
+    CreateParcelInput,
+    ParcelStatus,
+} from './types';
+
+/**
+ * RedX Courier
+ * Client for the RedX open API. Parcels are routed by RedX delivery area,
+ * looked up from the recipient's district and matched on the upazila.
+ */
+
+const DEFAULT_BASE_URL = 'https://openapi.redx.com.bd/v1.0.0-beta';
+
+export interface RedxConfig {
+    apiToken: string;
+    pickupStoreId?: string;
+    baseUrl?: string;
+    /** Swappable for tests; defaults to the global fetch. */
+    fetch?: typeof fetch;
+}
+
+/**
+ * RedX parcel statuses → order statuses. "agent-returning" is still on its
+ * way back to us; the order only becomes returned once RedX hands it over.
+ */
+const REDX_STATUS_MAP: Record<string, OrderStatus> = {
+    'pickup-pending': 'shipped',
+    'pickup-processing': 'shipped',
+    'ready-for-delivery': 'shipped',
+    'delivery-in-progress': 'shipped',
+    'agent-hold': 'shipped',
+    'agent-area-change': 'shipped',
+    'agent-returning': 'shipped',
+    'delivered': 'delivered',
+    'returned': 'returned',
+    'cancelled': 'cancelled',
+};
+
+function normalizeStatus(status: string): string {
+    return status.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+export class RedxProvider implements CourierProvider {
+    readonly name = 'redx' as const;
+
+    private baseUrl: string;
+    private fetchImpl: typeof fetch;
+
+    constructor(private config: RedxConfig) {
+        if (!config.apiToken) {
+            console.warn('RedX API token is missing. Courier integration will fail.');
+        }
+        this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+        this.fetchImpl = config.fetch ?? fetch;
+    }
+
+    private async request(method: 'GET' | 'POST' | 'PATCH', path: string, body?: unknown) {
+        const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'API-ACCESS-TOKEN': `Bearer ${this.config.apiToken}`,
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok) {
+            throw new CourierError(
+                data?.message || data?.validation_errors?.[0]?.message || `RedX API error: ${response.status}`,
+                response.status,
+                data
+            );
+        }
+
+        return data;
+    }
+
+    /**
+     * RedX area for an address: the district's area whose name matches the
+     * upazila, otherwise the district's first area.
+     */
+    private async resolveArea(district?: string, upazila?: string) {
+        if (!district) throw new CourierError('RedX requires the recipient district');
+
+        const data = await this.request('GET', `/areas?district_name=${encodeURIComponent(district)}`);
+        const areas: { id: number; name: string }[] = data?.areas ?? [];
+        const target = upazila?.toLowerCase();
+
+        const area =
+            (target && areas.find((a) => a.name.toLowerCase() === target)) ||
+            (target && areas.find((a) => a.name.toLowerCase().includes(target))) ||
+            areas[0];
+
+        if (!area) throw new CourierError(`No RedX delivery area found for ${district}`, 404, data);
+        return area;
+    }
+
+    async createParcel(input: CreateParcelInput): Promise<CreatedParcel> {
+        const area = await this.resolveArea(input.district, input.upazila);
+
+        const data = await this.request('POST', '/parcel', {
+            customer_name: input.recipientName,
+            customer_phone: input.recipientPhone,
+            delivery_area: area.name,
+            delivery_area_id: area.id,
+            customer_address: input.recipientAddress,
+            merchant_invoice_id: input.invoice,
+            cash_collection_amount: String(Math.round(input.codAmount)),
+            parcel_weight: Math.max(1, input.weightGrams ?? 500),
+            instruction: input.note ?? '',
+            value: String(Math.round(input.codAmount)),
+            ...(this.config.pickupStoreId ? { pickup_store_id: Number(this.config.pickupStoreId) } : {}),
+        });
+
+        if (!data?.tracking_id) {
+            throw new CourierError('RedX did not return a tracking id', 200, data);
+        }
+
+        return {
+            // RedX identifies parcels by tracking id only
+            consignmentId: String(data.tracking_id),
+            trackingCode: String(data.tracking_id),
+            status: 'pickup-pending',
+            codAmount: input.codAmount,
+            deliveryFee: null,
+            raw: data,
+        };
+    }
+
+    async getStatus(consignmentId: string): Promise<ParcelStatus> {
+        const data = await this.request('GET', `/parcel/info/${encodeURIComponent(consignmentId)}`);
+        return {
+            consignmentId,
+            status: normalizeStatus(String(data?.parcel?.status ?? 'unknown')),
+            raw: data,
+        };
+    }
+
+    async cancelParcel(consignmentId: string, reason?: string): Promise<void> {
+        await this.request('PATCH', '/parcels', {
+            entity_type: 'parcel-tracking-id',
+            entity_id: consignmentId,
+            update_details: {
+                property_name: 'status',
+                new_value: 'cancelled',
+                reason: reason ?? 'Cancelled by merchant',
+            },
+        });
+    }
+
+    async getBalance(): Promise<CourierBalance> {
+        throw new CourierError('RedX does not provide a balance API');
+    }
+
+    toOrderStatus(courierStatus: string): OrderStatus | null {
+        return REDX_STATUS_MAP[normalizeStatus(courierStatus)] ?? null;
+    }
+
+    parseWebhook(payload: any): CourierWebhookEvent | null {
+        if (!payload?.tracking_number || !payload?.status) return null;
+        return {
+            consignmentId: String(payload.tracking_number),
+            status: normalizeStatus(String(payload.status)),
+            raw: payload,
+        };
+    }
+}
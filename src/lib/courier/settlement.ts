@@ -0,0 +1,280 @@
+import type { CodSettlement } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CourierProviderName } from './types';
+
+/**
+ * COD Settlement
+ * Couriers collect cash on delivery and pay it out in batches, minus their
+ * delivery and COD charges. `cod_settlements` holds the expected COD per
+ * shipment (created and moved to "outstanding" by database triggers); this
+ * module matches courier payment statements against it and records the
+ * collected cash in `payments`.
+ */
+
+/** Collected amounts within this many taka of the expected COD count as settled. */
+const SETTLEMENT_TOLERANCE = 1;
+
+/** Consignment ids per `in` filter, to keep request URLs short. */
+const LOOKUP_CHUNK_SIZE = 200;
+
+export interface StatementRow {
+    line: number;
+    consignmentId: string;
+    invoice?: string;
+    collectedAmount: number;
+    chargeAmount: number;
+}
+
+export interface StatementImportResult {
+    payoutId: string;
+    settled: number;
+    disputed: number;
+    alreadySettled: number;
+    unmatched: { line: number; consignmentId: string }[];
+}
+
+/** Accepted header names (lower-cased, spaces as underscores) per column. */
+const STATEMENT_COLUMNS = {
+    consignmentId: ['consignment_id', 'consignment', 'cid', 'tracking_code', 'tracking_number'],
+    invoice: ['invoice', 'invoice_id', 'merchant_invoice'],
+    collectedAmount: ['collected_amount', 'cod_amount', 'collected', 'cash_collection', 'amount'],
+    chargeAmount: ['delivery_charge', 'total_charge', 'charge', 'delivery_fee'],
+    codCharge: ['cod_charge', 'cod_fee'],
+};
+
+/**
+ * Splits one CSV line, honouring double-quoted fields ("a, b" and "").
+ */
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+function toAmount(value: string | undefined): number {
+    const amount = Number((value ?? '').replace(/[^\d.-]/g, ''));
+    return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Parses a courier payment statement exported as CSV. The first row must be
+ * a header naming at least the consignment id and collected amount columns
+ * (e.g. Steadfast's "Consignment ID, Invoice, COD Amount, Delivery Charge").
+ */
+export function parsePaymentStatement(csv: string): {
+    rows: StatementRow[];
+    errors: { line: number; error: string }[];
+} {
+    const lines = csv.split(/\r?\n/);
+    const headerIndex = lines.findIndex((line) => line.trim() && !line.trim().startsWith('#'));
+    if (headerIndex === -1) return { rows: [], errors: [{ line: 1, error: 'Statement is empty' }] };
+
+    const header = splitCsvLine(lines[headerIndex]).map((h) => h.toLowerCase().replace(/\s+/g, '_'));
+    const column = (names: string[]) => header.findIndex((h) => names.includes(h));
+    const columns = {
+        consignmentId: column(STATEMENT_COLUMNS.consignmentId),
+        invoice: column(STATEMENT_COLUMNS.invoice),
+        collectedAmount: column(STATEMENT_COLUMNS.collectedAmount),
+        chargeAmount: column(STATEMENT_COLUMNS.chargeAmount),
+        codCharge: column(STATEMENT_COLUMNS.codCharge),
+    };
+
+    if (columns.consignmentId === -1 || columns.collectedAmount === -1) {
+        return {
+            rows: [],
+            errors: [{ line: headerIndex + 1, error: 'Header must include consignment id and collected amount columns' }],
+        };
+    }
+
+    const rows: StatementRow[] = [];
+    const errors: { line: number; error: string }[] = [];
+
+    lines.slice(headerIndex + 1).forEach((raw, index) => {
+        const line = headerIndex + index + 2;
+        if (!raw.trim() || raw.trim().startsWith('#')) return;
+
+        const cells = splitCsvLine(raw);
+        const consignmentId = cells[columns.consignmentId];
+        if (!consignmentId) {
+            errors.push({ line, error: 'Missing consignment id' });
+            return;
+        }
+
+        rows.push({
+            line,
+            consignmentId,
+            invoice: columns.invoice === -1 ? undefined : cells[columns.invoice] || undefined,
+            collectedAmount: toAmount(cells[columns.collectedAmount]),
+            chargeAmount:
+                (columns.chargeAmount === -1 ? 0 : toAmount(cells[columns.chargeAmount])) +
+                (columns.codCharge === -1 ? 0 : toAmount(cells[columns.codCharge])),
+        });
+    });
+
+    return { rows, errors };
+}
+
+/**
+ * Settlements for the statement's consignments, falling back to the invoice
+ * for parcels booked under a different consignment. Invoices are order
+ * tracking codes; parcels booked before that carry the order id.
+ */
+async function findSettlements(
+    supabase: SupabaseClient,
+    provider: CourierProviderName,
+    rows: StatementRow[]
+): Promise<{ byConsignment: Map<string, CodSettlement>; byInvoice: Map<string, CodSettlement> }> {
+    const byConsignment = new Map<string, CodSettlement>();
+    const byInvoice = new Map<string, CodSettlement>();
+    const consignmentIds = [...new Set(rows.map((row) => row.consignmentId))];
+
+    for (let i = 0; i < consignmentIds.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data } = await supabase
+            .from('shipments')
+            .select('consignment_id, settlement:cod_settlements(*)')
+            .eq('provider', provider)
+            .in('consignment_id', consignmentIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+        for (const shipment of data ?? []) {
+            const settlement = shipment.settlement as unknown as CodSettlement | null;
+            if (settlement) byConsignment.set(shipment.consignment_id, settlement);
+        }
+    }
+
+    const invoices = [
+        ...new Set(
+            rows
+                .filter((row) => !byConsignment.has(row.consignmentId) && row.invoice)
+                .map((row) => row.invoice!)
+        ),
+    ];
+
+    // Invoice → order id
+    const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const orderIds = new Map<string, string>();
+    const codes = invoices.filter((invoice) => !uuid.test(invoice)).map((invoice) => invoice.toUpperCase());
+    const byCode = new Map<string, string>();
+
+    for (let i = 0; i < codes.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data } = await supabase
+            .from('orders')
+            .select('id, tracking_code')
+            .in('tracking_code', codes.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+        for (const order of data ?? []) byCode.set(order.tracking_code, order.id);
+    }
+
+    for (const invoice of invoices) {
+        const orderId = uuid.test(invoice) ? invoice.toLowerCase() : byCode.get(invoice.toUpperCase());
+        if (orderId) orderIds.set(invoice, orderId);
+    }
+
+    const byOrder = new Map<string, CodSettlement>();
+    const ids = [...new Set(orderIds.values())];
+
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data } = await supabase
+            .from('cod_settlements')
+            .select('*')
+            .eq('provider', provider)
+            .in('order_id', ids.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+        for (const settlement of data ?? []) byOrder.set(settlement.order_id, settlement);
+    }
+
+    for (const [invoice, orderId] of orderIds) {
+        const settlement = byOrder.get(orderId);
+        if (settlement) byInvoice.set(invoice, settlement);
+    }
+
+    return { byConsignment, byInvoice };
+}
+
+/**
+ * Records a courier payout and settles the shipments it covers. A collected
+ * amount that differs from the expected COD marks the settlement disputed.
+ * The import runs in one transaction (import_courier_payout RPC), so it is
+ * all or nothing. Each statement (provider + reference) can be imported once.
+ */
+export async function importPaymentStatement(
+    supabase: SupabaseClient,
+    statement: {
+        provider: CourierProviderName;
+        reference: string;
+        paidAt: string;
+        rows: StatementRow[];
+        importedBy: string | null;
+    }
+): Promise<{ success: true; result: StatementImportResult } | { success: false; error: string }> {
+    const { provider, reference, paidAt, rows } = statement;
+    const { byConsignment, byInvoice } = await findSettlements(supabase, provider, rows);
+
+    const matches = rows.map((row) => ({
+        row,
+        settlement:
+            byConsignment.get(row.consignmentId) ?? (row.invoice ? byInvoice.get(row.invoice) : undefined),
+    }));
+
+    const sum = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100;
+    const unmatched = matches.filter((m) => !m.settlement);
+
+    const { data, error } = await supabase.rpc('import_courier_payout', {
+        p_provider: provider,
+        p_reference: reference,
+        p_paid_at: paidAt,
+        p_collected_amount: sum(rows.map((row) => row.collectedAmount)),
+        p_charge_amount: sum(rows.map((row) => row.chargeAmount)),
+        p_unmatched_count: unmatched.length,
+        p_imported_by: statement.importedBy,
+        p_lines: matches
+            .filter((m) => m.settlement)
+            .map((m) => ({
+                settlement_id: m.settlement!.id,
+                collected_amount: m.row.collectedAmount,
+                charge_amount: m.row.chargeAmount,
+            })),
+        p_tolerance: SETTLEMENT_TOLERANCE,
+    });
+
+    if (error?.code === '23505') {
+        return { success: false, error: `Statement "${reference}" has already been imported` };
+    }
+    if (error || !data) {
+        return { success: false, error: error?.message ?? 'Failed to import statement' };
+    }
+
+    const imported = data as { payout_id: string; settled: number; disputed: number; already_settled: number };
+    return {
+        success: true,
+        result: {
+            payoutId: imported.payout_id,
+            settled: imported.settled,
+            disputed: imported.disputed,
+            alreadySettled: imported.already_settled,
+            unmatched: unmatched.map((m) => ({ line: m.row.line, consignmentId: m.row.consignmentId })),
+        },
+    };
+}
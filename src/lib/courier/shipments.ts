@@ -0,0 +1,525 @@
+import { canTransition, transitionOrder } from '@/lib/order-state-machine';
+import { recordOrderReturn } from '@/lib/returns';
+import { formatShippingAddress, normalizeShippingAddress } from '@/lib/validations/address';
+import type { OrderStatus, Shipment } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getCourierProvider } from './client';
+import {
+    BulkParcelOutcome,
+    CourierError,
+    CourierProvider,
+    CourierProviderName,
+    CreatedParcel,
+    CreateParcelInput,
+} from './types';
+
+/**
+ * Shipments
+ * `shipments` is the source of truth for parcel state: one row per order with
+ * the courier, consignment id, tracking code and latest courier status. Every
+ * courier API call is recorded in `courier_logs`. Booking, status checks,
+ * webhooks and cancellations all go through here.
+ */
+
+/** Orders that can be handed to a courier. */
+export const BOOKABLE_STATUSES: OrderStatus[] = ['pending', 'confirmed'];
+
+const MAX_BOOKING_ATTEMPTS = 3;
+
+/**
+ * Printable shipping label for an order's parcel, stored as `shipments.label_url`.
+ */
+export function shipmentLabelPath(orderId: string): string {
+    return `/admin/orders/print?type=labels&ids=${orderId}`;
+}
+
+type ShipmentResult =
+    | { success: true; shipment: Shipment }
+    | { success: false; error: string };
+
+async function logCourierCall(
+    supabase: SupabaseClient,
+    entry: {
+        order_id: string;
+        shipment_id?: string | null;
+        action: string;
+        request_payload?: unknown;
+        response_payload?: unknown;
+        status_code?: number | null;
+        error_message?: string | null;
+    }
+) {
+    const { error } = await supabase.from('courier_logs').insert(entry);
+    if (error) console.error('Failed to write courier log:', error.message);
+}
+
+/**
+ * Retries network failures and courier 5xx responses with a linear backoff;
+ * validation errors (4xx) are returned immediately.
+ */
+async function withRetry<T>(call: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            const clientError =
+                error instanceof CourierError && !!error.statusCode && error.statusCode < 500;
+            if (clientError || attempt >= MAX_BOOKING_ATTEMPTS) throw error;
+            console.error(`Courier attempt ${attempt} failed:`, (error as Error).message);
+            await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+        }
+    }
+}
+
+/**
+ * Shipment for a courier consignment id (as sent in webhooks).
+ */
+export async function findShipmentByConsignment(
+    supabase: SupabaseClient,
+    provider: CourierProviderName,
+    consignmentId: string
+): Promise<Shipment | null> {
+    const { data } = await supabase
+        .from('shipments')
+        .select('*')
+        .eq('provider', provider)
+        .eq('consignment_id', consignmentId)
+        .maybeSingle();
+
+    return (data as Shipment | null) ?? null;
+}
+
+const ORDER_BOOKING_FIELDS =
+    'id, status, total_amount, phone_number, shipping_address, tracking_code, items:order_items(quantity, product:products(weight_grams))';
+
+/**
+ * Why an order cannot be booked, or null when it can.
+ */
+function bookingBlocker(order: any, existing?: { consignment_id: string } | null): string | null {
+    if (!BOOKABLE_STATUSES.includes(order.status)) {
+        return `Cannot create parcel for order with status "${order.status}". Order must be "confirmed" or "pending".`;
+    }
+    if (existing) {
+        return `Parcel already booked for this order (consignment ${existing.consignment_id})`;
+    }
+    return null;
+}
+
+function buildParcelInput(order: any): CreateParcelInput {
+    // shipping_address is JSONB; older orders may still use a legacy shape
+    const address = normalizeShippingAddress(order.shipping_address, order.phone_number);
+    const items: { quantity: number; product: { weight_grams: number | null } | null }[] =
+        order.items ?? [];
+
+    return {
+        // The 12-character tracking code fits every courier's invoice limit
+        // (Steadfast truncates long ones); settlement imports resolve it back
+        invoice: order.tracking_code,
+        recipientName: address.fullName || 'Customer',
+        recipientPhone: order.phone_number ?? address.phone,
+        recipientAddress: formatShippingAddress(address),
+        codAmount: Number(order.total_amount),
+        note: address.note,
+        district: address.district,
+        upazila: address.upazila,
+        itemQuantity: items.reduce((sum, item) => sum + item.quantity, 0) || 1,
+        weightGrams: items.reduce(
+            (sum, item) => sum + (item.product?.weight_grams ?? 0) * item.quantity,
+            0
+        ),
+    };
+}
+
+async function recordBookingFailure(
+    supabase: SupabaseClient,
+    order: { id: string; status: string },
+    provider: CourierProvider,
+    input: CreateParcelInput,
+    error: any,
+    changedBy: string | null
+) {
+    await logCourierCall(supabase, {
+        order_id: order.id,
+        action: 'create_parcel',
+        request_payload: { provider: provider.name, ...input },
+        response_payload: error instanceof CourierError ? error.response : null,
+        status_code: error instanceof CourierError ? error.statusCode ?? null : null,
+        error_message: error?.message ?? 'Unknown error',
+    });
+    await supabase.from('order_status_history').insert({
+        order_id: order.id,
+        status: order.status,
+        changed_by: changedBy,
+        notes: `Parcel creation with ${provider.name} failed: ${error?.message}`,
+    });
+}
+
+/**
+ * Saves a parcel the courier accepted as the order's shipment and moves the
+ * order to "shipped".
+ */
+async function recordBookedParcel(
+    supabase: SupabaseClient,
+    orderId: string,
+    provider: CourierProvider,
+    input: CreateParcelInput,
+    parcel: CreatedParcel,
+    changedBy: string | null
+): Promise<ShipmentResult> {
+    const { data: shipment, error: shipmentError } = await supabase
+        .from('shipments')
+        .insert({
+            order_id: orderId,
+            provider: provider.name,
+            consignment_id: parcel.consignmentId,
+            tracking_code: parcel.trackingCode,
+            status: parcel.status,
+            cod_amount: parcel.codAmount,
+            delivery_fee: parcel.deliveryFee,
+            label_url: shipmentLabelPath(orderId),
+            metadata: parcel.raw,
+        })
+        .select()
+        .single();
+
+    await logCourierCall(supabase, {
+        order_id: orderId,
+        shipment_id: shipment?.id ?? null,
+        action: 'create_parcel',
+        request_payload: { provider: provider.name, ...input },
+        response_payload: parcel.raw,
+        status_code: 200,
+        error_message: shipmentError ? `Shipment insert failed: ${shipmentError.message}` : null,
+    });
+
+    if (shipmentError || !shipment) {
+        // The courier has the parcel but we do not; the log above keeps the consignment id
+        console.error('CRITICAL: Parcel created at courier but shipment insert failed', shipmentError);
+        return {
+            success: false,
+            error: `Parcel ${parcel.consignmentId} was created but could not be saved. Check courier logs.`,
+        };
+    }
+
+    await transitionOrder(supabase, orderId, 'shipped', {
+        changedBy,
+        notes: `Parcel booked with ${provider.name} — Consignment ID: ${parcel.consignmentId}${
+            parcel.trackingCode ? `, Tracking: ${parcel.trackingCode}` : ''
+        }`,
+    });
+
+    return { success: true, shipment: shipment as Shipment };
+}
+
+/**
+ * Books a parcel with the courier for an order and records the shipment.
+ * The order moves to "shipped" once the courier has accepted the parcel.
+ */
+export async function bookShipment(
+    supabase: SupabaseClient,
+    orderId: string,
+    options: { provider?: CourierProviderName; changedBy?: string | null } = {}
+): Promise<ShipmentResult> {
+    const provider = getCourierProvider(options.provider);
+    const changedBy = options.changedBy ?? null;
+
+    const { data: order } = await supabase
+        .from('orders')
+        .select(ORDER_BOOKING_FIELDS)
+        .eq('id', orderId)
+        .single();
+
+    if (!order) return { success: false, error: 'Order not found' };
+
+    const { data: existing } = await supabase
+        .from('shipments')
+        .select('id, consignment_id')
+        .eq('order_id', orderId)
+        .maybeSingle();
+
+    const blocker = bookingBlocker(order, existing);
+    if (blocker) return { success: false, error: blocker };
+
+    const input = buildParcelInput(order);
+
+    let parcel: CreatedParcel;
+    try {
+        parcel = await withRetry(() => provider.createParcel(input));
+    } catch (error: any) {
+        await recordBookingFailure(supabase, order, provider, input, error, changedBy);
+        return { success: false, error: `Courier API failed: ${error?.message}` };
+    }
+
+    return recordBookedParcel(supabase, orderId, provider, input, parcel, changedBy);
+}
+
+export interface BulkBookingResult {
+    orderId: string;
+    success: boolean;
+    skipped?: boolean;
+    consignmentId?: string;
+    trackingCode?: string | null;
+    error?: string;
+}
+
+export interface BulkBookingSummary {
+    booked: number;
+    failed: number;
+    skipped: number;
+    results: BulkBookingResult[];
+}
+
+/**
+ * Books parcels for many orders at once. Couriers with a bulk endpoint get
+ * one request per batch; others are booked one by one. Orders that are not
+ * bookable are skipped, and every attempt is recorded in courier_logs.
+ */
+export async function bookShipments(
+    supabase: SupabaseClient,
+    orderIds: string[],
+    options: { provider?: CourierProviderName; changedBy?: string | null } = {}
+): Promise<BulkBookingSummary> {
+    const provider = getCourierProvider(options.provider);
+    const changedBy = options.changedBy ?? null;
+    const ids = [...new Set(orderIds)];
+
+    const [{ data: orders }, { data: existing }] = await Promise.all([
+        supabase.from('orders').select(ORDER_BOOKING_FIELDS).in('id', ids),
+        supabase.from('shipments').select('order_id, consignment_id').in('order_id', ids),
+    ]);
+
+    const results: BulkBookingResult[] = [];
+    const bookable: { order: any; input: CreateParcelInput }[] = [];
+
+    for (const id of ids) {
+        const order = (orders ?? []).find((o: any) => o.id === id);
+        if (!order) {
+            results.push({ orderId: id, success: false, skipped: true, error: 'Order not found' });
+            continue;
+        }
+        const blocker = bookingBlocker(order, (existing ?? []).find((s: any) => s.order_id === id));
+        if (blocker) {
+            results.push({ orderId: id, success: false, skipped: true, error: blocker });
+            continue;
+        }
+        bookable.push({ order, input: buildParcelInput(order) });
+    }
+
+    const record = async (
+        { order, input }: { order: any; input: CreateParcelInput },
+        outcome: { parcel: CreatedParcel } | { error: any }
+    ) => {
+        if ('error' in outcome) {
+            await recordBookingFailure(supabase, order, provider, input, outcome.error, changedBy);
+            results.push({ orderId: order.id, success: false, error: outcome.error?.message ?? 'Unknown error' });
+            return;
+        }
+        const saved = await recordBookedParcel(supabase, order.id, provider, input, outcome.parcel, changedBy);
+        results.push(
+            saved.success
+                ? {
+                      orderId: order.id,
+                      success: true,
+                      consignmentId: saved.shipment.consignment_id,
+                      trackingCode: saved.shipment.tracking_code ?? null,
+                  }
+                : { orderId: order.id, success: false, error: saved.error }
+        );
+    };
+
+    if (provider.createParcels) {
+        const batchSize = provider.maxBatchSize ?? Math.max(1, bookable.length);
+        for (let i = 0; i < bookable.length; i += batchSize) {
+            const batch = bookable.slice(i, i + batchSize);
+            let outcomes: BulkParcelOutcome[];
+            try {
+                // Not retried: a batch that timed out may still have been created
+                outcomes = await provider.createParcels(batch.map((b) => b.input));
+            } catch (error: any) {
+                for (const entry of batch) await record(entry, { error });
+                continue;
+            }
+            for (const entry of batch) {
+                const outcome = outcomes.find((o) => o.invoice === entry.input.invoice);
+                await record(
+                    entry,
+                    outcome?.parcel
+                        ? { parcel: outcome.parcel }
+                        : { error: new CourierError(outcome?.error ?? 'Missing from bulk response') }
+                );
+            }
+        }
+    } else {
+        for (const entry of bookable) {
+            let outcome: { parcel: CreatedParcel } | { error: any };
+            try {
+                outcome = { parcel: await withRetry(() => provider.createParcel(entry.input)) };
+            } catch (error: any) {
+                outcome = { error };
+            }
+            await record(entry, outcome);
+        }
+    }
+
+    return {
+        booked: results.filter((r) => r.success).length,
+        failed: results.filter((r) => !r.success && !r.skipped).length,
+        skipped: results.filter((r) => r.skipped).length,
+        results,
+    };
+}
+
+export type AppliedCourierStatus = {
+    orderStatus: OrderStatus | null;
+    changed: boolean;
+    /** The order cannot move to the mapped status (e.g. delivered → shipped), so it was ignored. */
+    rejected: boolean;
+};
+
+/**
+ * Records a courier status on a shipment and moves the order to the mapped
+ * status through the order state machine when it changed. Returned parcels
+ * are recorded as order returns. Statuses the order cannot move to are
+ * rejected without touching the shipment or the order.
+ */
+export async function applyCourierStatus(
+    supabase: SupabaseClient,
+    shipment: Shipment,
+    courierStatus: string,
+    source: string
+): Promise<AppliedCourierStatus> {
+    const provider = getCourierProvider(shipment.provider);
+
+    const { data: order } = await supabase
+        .from('orders')
+        .select('id, status, user_id')
+        .eq('id', shipment.order_id)
+        .single();
+
+    // Couriers can deliver events late or out of order; a status the order
+    // cannot move to (e.g. delivered → shipped) is ignored
+    const newStatus = provider.toOrderStatus(courierStatus);
+    if (order && newStatus && newStatus !== order.status && !canTransition(order.status, newStatus)) {
+        console.error(
+            `${source}: ignoring ${provider.name} status "${courierStatus}" for order ${order.id} (already ${order.status})`
+        );
+        return { orderStatus: order.status, changed: false, rejected: true };
+    }
+
+    if (courierStatus !== shipment.status) {
+        await supabase
+            .from('shipments')
+            .update({ status: courierStatus, status_changed_at: new Date().toISOString() })
+            .eq('id', shipment.id);
+    }
+
+    if (!order) return { orderStatus: null, changed: false, rejected: false };
+
+    if (!newStatus || newStatus === order.status) {
+        return { orderStatus: order.status, changed: false, rejected: false };
+    }
+
+    const note = `${source}: ${provider.name} status "${courierStatus}" → ${newStatus}`;
+
+    // Parcels back with the merchant get a return record and the return charge as a loss;
+    // restocking waits until an admin has checked the items
+    if (newStatus === 'returned') {
+        const recorded = await recordOrderReturn(supabase, {
+            orderId: order.id,
+            outcome: 'returned',
+            reasonCode: 'courier_returned',
+            source: 'courier',
+            returnFee: Number(shipment.delivery_fee ?? 0),
+            historyNote: note,
+        });
+        if (!recorded.success) {
+            console.error(`${source}: could not record return for order ${order.id}: ${recorded.error}`);
+            return { orderStatus: order.status, changed: false, rejected: false };
+        }
+        return { orderStatus: newStatus, changed: true, rejected: false };
+    }
+
+    const transition = await transitionOrder(supabase, order.id, newStatus, { notes: note });
+    if (!transition.success) {
+        console.error(`${source}: could not move order ${order.id} to ${newStatus}: ${transition.error}`);
+        return { orderStatus: transition.from ?? order.status, changed: false, rejected: false };
+    }
+
+    return { orderStatus: newStatus, changed: transition.changed, rejected: false };
+}
+
+/**
+ * Polls the courier for a shipment's current status and applies it.
+ * `last_checked_at` is set even when the courier call fails, so the
+ * reconciliation job moves on to other parcels.
+ */
+export async function refreshShipmentStatus(
+    supabase: SupabaseClient,
+    shipment: Shipment,
+    source = 'Status sync'
+) {
+    const provider = getCourierProvider(shipment.provider);
+    await supabase
+        .from('shipments')
+        .update({ last_checked_at: new Date().toISOString() })
+        .eq('id', shipment.id);
+
+    try {
+        const result = await provider.getStatus(shipment.consignment_id);
+        await logCourierCall(supabase, {
+            order_id: shipment.order_id,
+            shipment_id: shipment.id,
+            action: 'check_status',
+            response_payload: result.raw,
+            status_code: 200,
+        });
+
+        const applied = await applyCourierStatus(supabase, shipment, result.status, source);
+        return { success: true as const, courierStatus: result.status, ...applied };
+    } catch (error: any) {
+        await logCourierCall(supabase, {
+            order_id: shipment.order_id,
+            shipment_id: shipment.id,
+            action: 'check_status',
+            response_payload: error instanceof CourierError ? error.response : null,
+            status_code: error instanceof CourierError ? error.statusCode ?? null : null,
+            error_message: error?.message ?? 'Unknown error',
+        });
+        return { success: false as const, error: `Status check failed: ${error?.message}` };
+    }
+}
+
+/**
+ * Asks the courier to cancel a booked parcel and records the request.
+ */
+export async function cancelShipment(
+    supabase: SupabaseClient,
+    shipment: Shipment,
+    reason?: string
+): Promise<{ success: boolean; error?: string }> {
+    const provider = getCourierProvider(shipment.provider);
+
+    try {
+        await provider.cancelParcel(shipment.consignment_id, reason);
+    } catch (error: any) {
+        await logCourierCall(supabase, {
+            order_id: shipment.order_id,
+            shipment_id: shipment.id,
+            action: 'cancel_parcel',
+            request_payload: { reason },
+            response_payload: error instanceof CourierError ? error.response : null,
+            status_code: error instanceof CourierError ? error.statusCode ?? null : null,
+            error_message: error?.message ?? 'Unknown error',
+        });
+        return { success: false, error: `Cancellation failed: ${error?.message}` };
+    }
+
+    await logCourierCall(supabase, {
+        order_id: shipment.order_id,
+        shipment_id: shipment.id,
+        action: 'cancel_parcel',
+        request_payload: { reason },
+        status_code: 200,
+    });
+    return { success: true };
+}
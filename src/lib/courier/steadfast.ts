@@ -0,0 +1,177 @@
+import type { OrderStatus } from '@/types/db';
+import {
+    BulkParcelOutcome,
+    CourierBalance,
+    CourierError,
+    CourierProvider,
+    CourierWebhookEvent,
+    CreatedParcel,
+    CreateParcelInput,
+    ParcelStatus,
+} from './types';
+
+/**
+ * Steadfast Courier
+ * Client for the Steadfast merchant API (portal.steadfast.com.bd/api/v1).
+ * Authenticated with the Api-Key / Secret-Key headers.
+ */
+
+const DEFAULT_BASE_URL = 'https://portal.steadfast.com.bd/api/v1';
+
+export interface SteadfastConfig {
+    apiKey: string;
+    secretKey: string;
+    baseUrl?: string;
+    /** Swappable for tests; defaults to the global fetch. */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Steadfast delivery statuses → order statuses. The *_approval_pending states
+ * are awaiting Steadfast's own confirmation, so the parcel is still in transit.
+ */
+const STEADFAST_STATUS_MAP: Record<string, OrderStatus> = {
+    in_review: 'shipped',
+    pending: 'shipped',
+    hold: 'shipped',
+    in_transit: 'shipped',
+    delivered_approval_pending: 'shipped',
+    partial_delivered_approval_pending: 'shipped',
+    cancelled_approval_pending: 'shipped',
+    unknown_approval_pending: 'shipped',
+    delivered: 'delivered',
+    partial_delivered: 'delivered',
+    cancelled: 'cancelled',
+    returned_to_merchant: 'returned',
+};
+
+export class SteadfastProvider implements CourierProvider {
+    readonly name = 'steadfast' as const;
+    readonly maxBatchSize = 500;
+
+    private baseUrl: string;
+    private fetchImpl: typeof fetch;
+
+    constructor(private config: SteadfastConfig) {
+        if (!config.apiKey || !config.secretKey) {
+            console.warn('Steadfast API keys are missing. Courier integration will fail.');
+        }
+        this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+        this.fetchImpl = config.fetch ?? fetch;
+    }
+
+    private async request<T = any>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+        const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Api-Key': this.config.apiKey,
+                'Secret-Key': this.config.secretKey,
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        const data = await response.json().catch(() => null);
+
+        // Steadfast also reports failures as HTTP 200 with a non-200 `status` field
+        const apiStatus = typeof data?.status === 'number' ? data.status : response.status;
+        if (!response.ok || apiStatus >= 400) {
+            const fieldErrors = data?.errors ? Object.values(data.errors).flat().join(', ') : '';
+            throw new CourierError(
+                fieldErrors || data?.message || `Steadfast API error: ${response.status}`,
+                response.ok ? apiStatus : response.status,
+                data
+            );
+        }
+
+        return data as T;
+    }
+
+    private toPayload(input: CreateParcelInput) {
+        return {
+            invoice: input.invoice,
+            recipient_name: input.recipientName,
+            recipient_phone: input.recipientPhone,
+            recipient_address: input.recipientAddress,
+            cod_amount: input.codAmount,
+            note: input.note ?? '',
+        };
+    }
+
+    private toParcel(consignment: any, input: CreateParcelInput, raw: unknown): CreatedParcel {
+        return {
+            consignmentId: String(consignment.consignment_id),
+            trackingCode: consignment.tracking_code ?? null,
+            status: consignment.status && consignment.status !== 'success' ? consignment.status : 'in_review',
+            codAmount: Number(consignment.cod_amount ?? input.codAmount),
+            deliveryFee: consignment.delivery_fee != null ? Number(consignment.delivery_fee) : null,
+            raw,
+        };
+    }
+
+    async createParcel(input: CreateParcelInput): Promise<CreatedParcel> {
+        const data = await this.request('POST', '/create_order', this.toPayload(input));
+
+        const consignment = data?.consignment;
+        if (!consignment?.consignment_id) {
+            throw new CourierError('Steadfast did not return a consignment', 200, data);
+        }
+
+        return this.toParcel(consignment, input, data);
+    }
+
+    /**
+     * Bulk create (up to 500 parcels). Steadfast answers with one entry per
+     * parcel, each marked "success" or "error".
+     */
+    async createParcels(inputs: CreateParcelInput[]): Promise<BulkParcelOutcome[]> {
+        const data = await this.request('POST', '/create_order/bulk-order', {
+            data: inputs.map((input) => this.toPayload(input)),
+        });
+
+        const entries: any[] = Array.isArray(data) ? data : data?.data ?? [];
+
+        return inputs.map((input) => {
+            const entry = entries.find((e) => String(e?.invoice) === input.invoice);
+            if (!entry) return { invoice: input.invoice, error: 'Missing from Steadfast bulk response' };
+            if (entry.status === 'error' || !entry.consignment_id) {
+                return { invoice: input.invoice, error: String(entry.error ?? entry.message ?? 'Rejected by Steadfast') };
+            }
+            return { invoice: input.invoice, parcel: this.toParcel(entry, input, entry) };
+        });
+    }
+
+    async getStatus(consignmentId: string): Promise<ParcelStatus> {
+        const data = await this.request('GET', `/status_by_cid/${encodeURIComponent(consignmentId)}`);
+        return { consignmentId, status: String(data?.delivery_status ?? 'unknown'), raw: data };
+    }
+
+    /**
+     * Steadfast has no cancel endpoint; a parcel is called back with a
+     * return request, which Steadfast reviews before cancelling.
+     */
+    async cancelParcel(consignmentId: string, reason?: string): Promise<void> {
+        await this.request('POST', '/create_return_request', {
+            consignment_id: Number(consignmentId),
+            reason: reason ?? 'Cancelled by merchant',
+        });
+    }
+
+    async getBalance(): Promise<CourierBalance> {
+        const data = await this.request('GET', '/get_balance');
+        return { currentBalance: Number(data?.current_balance ?? 0), raw: data };
+    }
+
+    toOrderStatus(courierStatus: string): OrderStatus | null {
+        return STEADFAST_STATUS_MAP[courierStatus.toLowerCase()] ?? null;
+    }
+
+    parseWebhook(payload: any): CourierWebhookEvent | null {
+        if (!payload?.consignment_id || !payload?.status) return null;
+        return {
+            consignmentId: String(payload.consignment_id),
+            status: String(payload.status).toLowerCase(),
+            raw: payload,
+        };
+    }
+}
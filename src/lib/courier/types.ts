@@ -0,0 +1,95 @@
+import type { CourierProviderName, OrderStatus } from '@/types/db';
+
+export type { CourierProviderName };
+
+export const COURIER_PROVIDER_LABELS: Record<CourierProviderName, string> = {
+    steadfast: 'Steadfast',
+    pathao: 'Pathao',
+    redx: 'RedX',
+};
+
+export interface CreateParcelInput {
+    /** Merchant reference shown on the courier portal (the order's tracking code). */
+    invoice: string;
+    recipientName: string;
+    recipientPhone: string;
+    recipientAddress: string;
+    codAmount: number;
+    note?: string;
+    /** Structured location, for couriers that route by area. */
+    district?: string;
+    upazila?: string;
+    itemQuantity?: number;
+    weightGrams?: number;
+}
+
+export interface CreatedParcel {
+    consignmentId: string;
+    trackingCode: string | null;
+    /** Courier-specific status, e.g. "in_review". */
+    status: string;
+    codAmount: number;
+    deliveryFee: number | null;
+    raw: unknown;
+}
+
+export interface ParcelStatus {
+    consignmentId: string;
+    status: string;
+    raw: unknown;
+}
+
+/** Per-parcel result of a bulk booking, matched back by invoice. */
+export interface BulkParcelOutcome {
+    invoice: string;
+    parcel?: CreatedParcel;
+    error?: string;
+}
+
+/** A status update received on a courier webhook. */
+export interface CourierWebhookEvent {
+    consignmentId: string;
+    status: string;
+    raw: unknown;
+}
+
+export interface CourierBalance {
+    currentBalance: number;
+    raw: unknown;
+}
+
+/**
+ * Error from a courier API call. `statusCode` is the HTTP status when the
+ * courier answered, and `response` its parsed body, for courier_logs.
+ */
+export class CourierError extends Error {
+    constructor(
+        message: string,
+        readonly statusCode?: number,
+        readonly response?: unknown
+    ) {
+        super(message);
+        this.name = 'CourierError';
+    }
+}
+
+/**
+ * A courier that can book and track COD parcels. Each implementation maps
+ * its own status vocabulary onto order statuses. Operations a courier's API
+ * does not offer throw a CourierError.
+ */
+export interface CourierProvider {
+    readonly name: CourierProviderName;
+    createParcel(input: CreateParcelInput): Promise<CreatedParcel>;
+    /** Books many parcels in one request, for couriers with a bulk endpoint. */
+    createParcels?(inputs: CreateParcelInput[]): Promise<BulkParcelOutcome[]>;
+    /** Largest batch createParcels accepts. */
+    readonly maxBatchSize?: number;
+    getStatus(consignmentId: string): Promise<ParcelStatus>;
+    cancelParcel(consignmentId: string, reason?: string): Promise<void>;
+    getBalance(): Promise<CourierBalance>;
+    /** Order status for a courier status, or null when it should not move the order. */
+    toOrderStatus(courierStatus: string): OrderStatus | null;
+    /** Extracts the status update from a webhook body, or null if it carries none. */
+    parseWebhook(payload: any): CourierWebhookEvent | null;
+}
@@ -0,0 +1,176 @@
+import type { WebhookEvent, WebhookEventOutcome } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getCourierProvider } from './client';
+import { applyCourierStatus, findShipmentByConsignment } from './shipments';
+import { COURIER_PROVIDER_LABELS, CourierProviderName } from './types';
+
+/**
+ * Courier Webhooks
+ * Shared handling for the /api/webhooks/<courier> routes: each route checks
+ * its courier's credentials, then hands the body to handleCourierWebhook.
+ * Every accepted body is stored in `webhook_events` before it is applied, so
+ * courier retries of the same event are processed once and admins can
+ * inspect or reprocess events later.
+ */
+
+export type CourierWebhookResult =
+    | { outcome: 'invalid' }
+    | { outcome: 'duplicate'; eventId: string }
+    | { outcome: 'failed'; error: string }
+    | { outcome: 'unknown_shipment'; consignmentId: string }
+    | { outcome: 'rejected'; consignmentId: string; status: string }
+    | { outcome: 'applied'; consignmentId: string; status: string; changed: boolean };
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * How long a stored event may sit unprocessed before a retry takes it over.
+ * Shorter than a courier's retry interval, longer than processing takes.
+ */
+const STALE_EVENT_MS = 2 * 60 * 1000;
+
+/**
+ * Constant-time comparison of a received webhook secret against the
+ * configured one. An unset secret never matches.
+ */
+export function webhookSecretMatches(received: string | null | undefined, expected: string | undefined): boolean {
+    if (!received || !expected) return false;
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Token from an `Authorization: Bearer <token>` header.
+ */
+export function bearerToken(authorization: string | null): string | null {
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
+
+/**
+ * Retries of an event carry the same body, so the payload hash identifies it.
+ */
+function webhookDedupeKey(payload: unknown): string {
+    return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+/**
+ * Applies a stored webhook event to the matching shipment and order and
+ * records the outcome on the event. Used for new events and for admin
+ * reprocessing.
+ */
+export async function processWebhookEvent(
+    supabase: SupabaseClient,
+    event: WebhookEvent
+): Promise<CourierWebhookResult> {
+    const label = COURIER_PROVIDER_LABELS[event.provider];
+    let result: CourierWebhookResult;
+    let outcome: WebhookEventOutcome;
+    let errorMessage: string | null = null;
+
+    try {
+        const parsed = getCourierProvider(event.provider).parseWebhook(event.payload);
+        if (!parsed) throw new Error('Payload has no consignment or status');
+
+        const shipment = await findShipmentByConsignment(supabase, event.provider, parsed.consignmentId);
+        if (!shipment) {
+            console.error(`${label} webhook: Shipment not found for consignment ${parsed.consignmentId}`);
+            result = { outcome: 'unknown_shipment', consignmentId: parsed.consignmentId };
+            outcome = 'unknown_shipment';
+        } else {
+            const applied = await applyCourierStatus(supabase, shipment, parsed.status, `${label} webhook`);
+            if (applied.rejected) {
+                result = { outcome: 'rejected', consignmentId: parsed.consignmentId, status: parsed.status };
+                outcome = 'rejected';
+                errorMessage = `Order is already ${applied.orderStatus}`;
+            } else {
+                result = {
+                    outcome: 'applied',
+                    consignmentId: parsed.consignmentId,
+                    status: parsed.status,
+                    changed: applied.changed,
+                };
+                outcome = applied.changed ? 'applied' : 'unchanged';
+            }
+        }
+    } catch (error: any) {
+        console.error(`${label} webhook: Failed to process event ${event.id}:`, error);
+        const message: string = error?.message ?? 'Unknown error';
+        errorMessage = message;
+        result = { outcome: 'failed', error: message };
+        outcome = 'failed';
+    }
+
+    await supabase
+        .from('webhook_events')
+        .update({
+            outcome,
+            error_message: errorMessage,
+            attempts: event.attempts + 1,
+            processed_at: new Date().toISOString(),
+        })
+        .eq('id', event.id);
+
+    return result;
+}
+
+/**
+ * Whether a repeat of a stored event should process it again: its earlier
+ * processing failed, or never recorded an outcome (e.g. the process died)
+ * and has been left for longer than STALE_EVENT_MS.
+ */
+function needsRetry(event: WebhookEvent): boolean {
+    if (event.outcome === 'failed') return true;
+    if (event.outcome !== 'received') return false;
+    return Date.now() - new Date(event.received_at).getTime() > STALE_EVENT_MS;
+}
+
+/**
+ * Stores a courier webhook body and applies it, unless the same event was
+ * already received. Events whose earlier processing failed or never
+ * finished are retried.
+ */
+export async function handleCourierWebhook(
+    supabase: SupabaseClient,
+    providerName: CourierProviderName,
+    payload: unknown
+): Promise<CourierWebhookResult> {
+    const parsed = getCourierProvider(providerName).parseWebhook(payload);
+    if (!parsed) return { outcome: 'invalid' };
+
+    const dedupeKey = webhookDedupeKey(payload);
+    const { data: event, error } = await supabase
+        .from('webhook_events')
+        .insert({
+            provider: providerName,
+            dedupe_key: dedupeKey,
+            consignment_id: parsed.consignmentId,
+            status: parsed.status,
+            payload,
+        })
+        .select('*')
+        .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+        const { data: existing } = await supabase
+            .from('webhook_events')
+            .select('*')
+            .eq('provider', providerName)
+            .eq('dedupe_key', dedupeKey)
+            .single();
+
+        if (existing && needsRetry(existing)) return processWebhookEvent(supabase, existing);
+        return { outcome: 'duplicate', eventId: existing?.id ?? '' };
+    }
+
+    if (error || !event) {
+        // Not recorded, so not applied either: let the courier retry
+        console.error(`${COURIER_PROVIDER_LABELS[providerName]} webhook: Failed to store event:`, error?.message);
+        return { outcome: 'failed', error: error?.message ?? 'Failed to store event' };
+    }
+
+    return processWebhookEvent(supabase, event);
+}
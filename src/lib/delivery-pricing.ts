@@ -0,0 +1,262 @@
+import { unitPrice } from '@/lib/variants';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+/**
+ * Delivery fee calculation.
+ * Fees are configured per zone (inside Dhaka, sub-Dhaka, outside Dhaka) in
+ * the `delivery_zones` table and managed from /admin/delivery. The same
+ * calculation is used for the cart summary, the checkout quote and the fee
+ * stored on the order, so the customer is charged exactly what they were shown.
+ */
+
+export const DELIVERY_ZONE_KEYS = ['inside_dhaka', 'sub_dhaka', 'outside_dhaka'] as const;
+
+export type DeliveryZoneKey = (typeof DELIVERY_ZONE_KEYS)[number];
+
+export interface DeliveryZone {
+    key: DeliveryZoneKey;
+    name: string;
+    /** Lower runs first when matching an address. */
+    priority: number;
+    /** Lowercase city/district/area names that place an address in this zone. */
+    match_terms: string[];
+    base_fee: number;
+    /** Items covered by the base fee; each extra item adds per_item_fee. */
+    included_items: number;
+    per_item_fee: number;
+    /** Weight covered by the base fee; each started extra kg adds per_kg_fee. */
+    included_weight_grams: number;
+    per_kg_fee: number;
+    /** Subtotal at or above which delivery is free (null = never). */
+    free_delivery_threshold: number | null;
+}
+
+export interface DeliveryAddress {
+    district?: string;
+    upazila?: string;
+    /** Legacy free-text fields */
+    city?: string;
+    area?: string;
+}
+
+export interface DeliveryLineItem {
+    quantity: number;
+    price: number;
+    weight_grams?: number | null;
+}
+
+/** A cart item with its joined product price/weight and variant price. */
+export interface DeliveryCartItem {
+    quantity: number;
+    product: { price: number; weight_grams?: number | null };
+    variant?: { price?: number | null } | null;
+}
+
+export interface DeliveryQuote {
+    zone: DeliveryZoneKey;
+    zoneName: string;
+    baseFee: number;
+    quantitySurcharge: number;
+    weightSurcharge: number;
+    freeDelivery: boolean;
+    fee: number;
+}
+
+/** Fallback configuration used when the table cannot be read. */
+export const DEFAULT_DELIVERY_ZONES: DeliveryZone[] = [
+    {
+        key: 'sub_dhaka',
+        name: 'Sub-Dhaka',
+        priority: 10,
+        match_terms: ['savar', 'ashulia', 'keraniganj', 'gazipur', 'tongi', 'narayanganj'],
+        base_fee: 100,
+        included_items: 3,
+        per_item_fee: 10,
+        included_weight_grams: 1000,
+        per_kg_fee: 20,
+        free_delivery_threshold: null,
+    },
+    {
+        key: 'inside_dhaka',
+        name: 'Inside Dhaka',
+        priority: 20,
+        match_terms: ['dhaka'],
+        base_fee: 60,
+        included_items: 3,
+        per_item_fee: 10,
+        included_weight_grams: 1000,
+        per_kg_fee: 15,
+        free_delivery_threshold: null,
+    },
+    {
+        key: 'outside_dhaka',
+        name: 'Outside Dhaka',
+        priority: 100,
+        match_terms: [],
+        base_fee: 120,
+        included_items: 3,
+        per_item_fee: 15,
+        included_weight_grams: 1000,
+        per_kg_fee: 25,
+        free_delivery_threshold: null,
+    },
+];
+
+export const deliveryZoneSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required'),
+    priority: z.coerce.number().int().min(0).max(1000),
+    match_terms: z.array(z.string().trim().toLowerCase().min(1)),
+    base_fee: z.coerce.number().min(0, 'Fee cannot be negative').max(10000),
+    included_items: z.coerce.number().int().min(1, 'At least one item must be included').max(1000),
+    per_item_fee: z.coerce.number().min(0).max(10000),
+    included_weight_grams: z.coerce.number().int().min(0).max(1000000),
+    per_kg_fee: z.coerce.number().min(0).max(10000),
+    free_delivery_threshold: z.coerce.number().min(0).nullable(),
+});
+
+export type DeliveryZoneInput = z.input<typeof deliveryZoneSchema>;
+
+/** Lowercase words of a place name, split on anything but letters and digits. */
+function placeWords(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** Whether `term` appears in `words` as whole, consecutive words. */
+function hasWords(words: string[], term: string[]): boolean {
+    if (term.length === 0) return false;
+    for (let i = 0; i + term.length <= words.length; i++) {
+        if (term.every((word, j) => words[i + j] === word)) return true;
+    }
+    return false;
+}
+
+/**
+ * Picks the zone for an address: the first zone (by priority) with a term
+ * naming the upazila or district (whole words only, so "tongi" does not
+ * match Tongibari); outside Dhaka otherwise. The division is deliberately
+ * ignored — Dhaka division covers far more than Dhaka city.
+ */
+export function resolveDeliveryZone(zones: DeliveryZone[], address?: DeliveryAddress | null): DeliveryZone {
+    const fallback = zones.find((z) => z.key === 'outside_dhaka') ?? DEFAULT_DELIVERY_ZONES[2];
+    if (!address) return fallback;
+
+    const places = [address.upazila, address.area, address.district, address.city]
+        .filter((place): place is string => Boolean(place))
+        .map(placeWords)
+        .filter((words) => words.length > 0);
+    if (places.length === 0) return fallback;
+
+    const sorted = [...zones].sort((a, b) => a.priority - b.priority);
+    return (
+        sorted.find((zone) =>
+            zone.match_terms.some((term) => {
+                const termWords = placeWords(term);
+                return places.some((words) => hasWords(words, termWords));
+            })
+        ) ?? fallback
+    );
+}
+
+/**
+ * Calculates the delivery fee for a set of items in a zone.
+ */
+export function calculateDeliveryFee(zone: DeliveryZone, items: DeliveryLineItem[]): DeliveryQuote {
+    const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const quantity = items.reduce((sum, item) => sum + item.quantity, 0);
+    const weight = items.reduce((sum, item) => sum + (item.weight_grams ?? 0) * item.quantity, 0);
+
+    const quantitySurcharge = Math.max(0, quantity - zone.included_items) * zone.per_item_fee;
+    const extraKg = Math.ceil(Math.max(0, weight - zone.included_weight_grams) / 1000);
+    const weightSurcharge = extraKg * zone.per_kg_fee;
+
+    const freeDelivery =
+        zone.free_delivery_threshold !== null && subtotal >= zone.free_delivery_threshold;
+
+    return {
+        zone: zone.key,
+        zoneName: zone.name,
+        baseFee: zone.base_fee,
+        quantitySurcharge,
+        weightSurcharge,
+        freeDelivery,
+        fee: freeDelivery ? 0 : zone.base_fee + quantitySurcharge + weightSurcharge,
+    };
+}
+
+/**
+ * Parses raw `delivery_zones` rows, falling back to defaults for missing zones.
+ */
+export function parseDeliveryZones(rows: any[]): DeliveryZone[] {
+    return DEFAULT_DELIVERY_ZONES.map((fallback) => {
+        const row = rows.find((r) => r.key === fallback.key);
+        if (!row) return fallback;
+
+        const parsed = deliveryZoneSchema.safeParse({
+            ...row,
+            match_terms: row.match_terms ?? [],
+        });
+        if (!parsed.success) {
+            console.warn(`Invalid delivery zone "${fallback.key}", using default`, row);
+            return fallback;
+        }
+        return { key: fallback.key, ...parsed.data };
+    });
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────
+
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: { zones: DeliveryZone[]; expiresAt: number } | null = null;
+
+/**
+ * Loads the zone configuration, served from an in-process cache for up to a minute.
+ */
+export async function loadDeliveryZones(supabase: SupabaseClient): Promise<DeliveryZone[]> {
+    if (cache && cache.expiresAt > Date.now()) {
+        return cache.zones;
+    }
+
+    const { data, error } = await supabase.from('delivery_zones').select('*');
+
+    if (error || !data) {
+        console.error('Failed to load delivery zones, using defaults:', error?.message);
+        return DEFAULT_DELIVERY_ZONES;
+    }
+
+    const zones = parseDeliveryZones(data);
+    cache = { zones, expiresAt: Date.now() + CACHE_TTL_MS };
+    return zones;
+}
+
+/**
+ * Drops the cached zones so the next quote reads fresh values.
+ */
+export function invalidateDeliveryZonesCache() {
+    cache = null;
+}
+
+/**
+ * Cart items as priced line items, at the variant price where there is one.
+ */
+export function deliveryLineItems(cartItems: DeliveryCartItem[]): DeliveryLineItem[] {
+    return cartItems.map((item) => ({
+        quantity: item.quantity,
+        price: unitPrice(item),
+        weight_grams: item.product.weight_grams,
+    }));
+}
+
+/**
+ * Quotes delivery for cart items to an address.
+ */
+export async function quoteDelivery(
+    supabase: SupabaseClient,
+    cartItems: DeliveryCartItem[],
+    address?: DeliveryAddress | null
+): Promise<DeliveryQuote> {
+    const zones = await loadDeliveryZones(supabase);
+    const zone = resolveDeliveryZone(zones, address);
+    return calculateDeliveryFee(zone, deliveryLineItems(cartItems));
+}
@@ -0,0 +1,98 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Inventory
+ * Stock only changes through `inventory_movements`; a database trigger keeps
+ * `products.inventory` in step and rejects anything that would take it below
+ * zero. Variant stock moves the same way and the product's stock is the total
+ * across its variants. Checkout holds the cart's stock in `inventory_reservations` for a few
+ * minutes so another customer cannot buy the same units mid-checkout;
+ * place_cod_order turns the holds into sale movements.
+ */
+
+/** How long checkout holds a cart's stock. */
+export const DEFAULT_HOLD_MINUTES = 15;
+
+export function inventoryHoldMinutes(): number {
+    return Number(process.env.INVENTORY_HOLD_MINUTES) || DEFAULT_HOLD_MINUTES;
+}
+
+/**
+ * Maps inventory RPC exceptions to user-facing messages.
+ */
+export function inventoryErrorMessage(message?: string): string {
+    if (!message) return 'Failed to update stock';
+
+    const stock = message.match(/(?:INSUFFICIENT_INVENTORY|PRODUCT_UNAVAILABLE): (.+)/);
+    if (stock) return `"${stock[1]}" is no longer available in the requested quantity.`;
+
+    const variant = message.match(/VARIANT_REQUIRED: (.+)/);
+    if (variant) return `Please choose an option for "${variant[1]}" in your cart.`;
+
+    if (message.includes('PRODUCT_NOT_FOUND')) return 'Product not found';
+    if (message.includes('VARIANT_NOT_FOUND')) return 'Variant not found';
+    if (message.includes('PRODUCT_HAS_VARIANTS')) return 'Stock for this product is counted per variant';
+    if (message.includes('INVALID_QUANTITY')) return 'Stock cannot be negative';
+    return message;
+}
+
+/**
+ * Holds the cart's stock until the returned expiry, replacing any earlier
+ * hold for the same cart. Fails when another cart holds or bought the stock.
+ */
+export async function reserveCartInventory(
+    supabase: SupabaseClient,
+    cartId: string,
+    minutes = inventoryHoldMinutes()
+): Promise<{ success: true; expiresAt: string } | { success: false; error: string }> {
+    const { data, error } = await supabase.rpc('reserve_cart_inventory', {
+        p_cart_id: cartId,
+        p_minutes: minutes,
+    });
+
+    if (error || !data) return { success: false, error: inventoryErrorMessage(error?.message) };
+    return { success: true, expiresAt: data as string };
+}
+
+/**
+ * Sets a product's stock to a counted quantity, recording the difference as
+ * an adjustment (or import) movement.
+ */
+export async function setProductInventory(
+    supabase: SupabaseClient,
+    productId: string,
+    quantity: number,
+    options: { reason?: 'adjustment' | 'import'; note?: string; createdBy?: string | null } = {}
+): Promise<{ success: true } | { success: false; error: string }> {
+    const { error } = await supabase.rpc('set_product_inventory', {
+        p_product_id: productId,
+        p_quantity: quantity,
+        p_reason: options.reason ?? 'adjustment',
+        p_note: options.note ?? null,
+        p_created_by: options.createdBy ?? null,
+    });
+
+    if (error) return { success: false, error: inventoryErrorMessage(error.message) };
+    return { success: true };
+}
+
+/**
+ * Sets a variant's stock to a counted quantity; the product's total follows.
+ */
+export async function setVariantInventory(
+    supabase: SupabaseClient,
+    variantId: string,
+    quantity: number,
+    options: { reason?: 'adjustment' | 'import'; note?: string; createdBy?: string | null } = {}
+): Promise<{ success: true } | { success: false; error: string }> {
+    const { error } = await supabase.rpc('set_variant_inventory', {
+        p_variant_id: variantId,
+        p_quantity: quantity,
+        p_reason: options.reason ?? 'adjustment',
+        p_note: options.note ?? null,
+        p_created_by: options.createdBy ?? null,
+    });
+
+    if (error) return { success: false, error: inventoryErrorMessage(error.message) };
+    return { success: true };
+}
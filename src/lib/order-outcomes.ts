@@ -0,0 +1,77 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Order Outcomes
+ * Keeps the per-customer delivery counters on `users` (delivered_orders,
+ * refused_orders, returned_orders) in step with order status changes, and
+ * summarises delivery history for the risk engine.
+ */
+
+export const DELIVERY_OUTCOME_STATUSES = ['delivered', 'refused', 'returned'] as const;
+
+export type DeliveryOutcome = (typeof DELIVERY_OUTCOME_STATUSES)[number];
+
+export interface DeliveryHistory {
+    delivered: number;
+    refused: number;
+    returned: number;
+}
+
+function isOutcome(status: string | null | undefined): status is DeliveryOutcome {
+    return DELIVERY_OUTCOME_STATUSES.includes(status as DeliveryOutcome);
+}
+
+/**
+ * Adjusts the owning customer's counters after an order moves from
+ * `previousStatus` to `newStatus`. Moving out of an outcome status (e.g.
+ * delivered → returned) decrements the old counter as well.
+ * Guest orders and transitions between non-outcome statuses are no-ops.
+ */
+export async function recordOrderOutcome(
+    supabase: SupabaseClient,
+    userId: string | null | undefined,
+    previousStatus: string | null | undefined,
+    newStatus: string
+) {
+    if (!userId || previousStatus === newStatus) return;
+    if (!isOutcome(previousStatus) && !isOutcome(newStatus)) return;
+
+    const { error } = await supabase.rpc('record_order_outcome', {
+        p_user_id: userId,
+        p_old_status: previousStatus ?? null,
+        p_new_status: newStatus,
+    });
+
+    if (error) {
+        console.error('Failed to update delivery counters for user', userId, error);
+    }
+}
+
+/**
+ * Ratio of refused + returned orders to all completed orders.
+ */
+export function refusalRate(history: DeliveryHistory): number {
+    const completed = history.delivered + history.refused + history.returned;
+    return completed === 0 ? 0 : (history.refused + history.returned) / completed;
+}
+
+/**
+ * Delivery history for every order placed with a phone number, across
+ * all accounts and guest checkouts.
+ */
+export async function getPhoneDeliveryHistory(
+    supabase: SupabaseClient,
+    phone: string
+): Promise<DeliveryHistory> {
+    const { data } = await supabase
+        .from('orders')
+        .select('status')
+        .eq('phone_number', phone)
+        .in('status', [...DELIVERY_OUTCOME_STATUSES]);
+
+    const history: DeliveryHistory = { delivered: 0, refused: 0, returned: 0 };
+    for (const order of data ?? []) {
+        if (isOutcome(order.status)) history[order.status]++;
+    }
+    return history;
+}
@@ -0,0 +1,133 @@
+import { recordOrderOutcome } from '@/lib/order-outcomes';
+import type { OrderStatus } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Order State Machine
+ * The legal order status transitions and the side-effects attached to them.
+ * Admin actions, courier webhooks, reconciliation and parcel booking all
+ * move orders through `transitionOrder`, so an order can never go backwards
+ * (e.g. delivered → pending). Returns and refusals are recorded through
+ * @/lib/returns, whose RPC accepts the same source statuses.
+ */
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['pending_confirmation', 'flagged_for_review', 'confirmed', 'processing', 'shipped', 'cancelled'],
+    pending_confirmation: ['flagged_for_review', 'confirmed', 'cancelled'],
+    flagged_for_review: ['pending_confirmation', 'confirmed', 'cancelled'],
+    confirmed: ['processing', 'shipped', 'cancelled'],
+    processing: ['shipped', 'delivered', 'returned', 'refused', 'cancelled'],
+    shipped: ['delivered', 'returned', 'refused', 'cancelled'],
+    // Delivered and cancelled parcels can still come back to us
+    delivered: ['returned', 'refused'],
+    cancelled: ['returned', 'refused'],
+    returned: [],
+    refused: [],
+};
+
+/** Statuses whose items are still reserved in our warehouse (not yet with a courier). */
+const STOCK_RESERVED_STATUSES: OrderStatus[] = [
+    'pending',
+    'pending_confirmation',
+    'flagged_for_review',
+    'confirmed',
+    'processing',
+];
+
+export function isOrderStatus(status: string): status is OrderStatus {
+    return status in ORDER_TRANSITIONS;
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Why an order cannot move from `from` to `to`, or null when it can.
+ */
+export function transitionError(from: OrderStatus, to: OrderStatus): string | null {
+    if (canTransition(from, to)) return null;
+
+    const allowed = ORDER_TRANSITIONS[from] ?? [];
+    return allowed.length === 0
+        ? `Order is ${from.replace(/_/g, ' ')} and can no longer change status`
+        : `Cannot change order status from "${from}" to "${to}". Allowed: ${allowed.join(', ')}`;
+}
+
+export type OrderTransitionResult =
+    | { success: true; from: OrderStatus; to: OrderStatus; changed: boolean }
+    | { success: false; error: string; from?: OrderStatus };
+
+/**
+ * Side-effects of a transition that has been written: delivery counters for
+ * outcome statuses, and releasing reserved stock when an order is cancelled
+ * before it reached the courier. release_order_inventory skips orders with a
+ * booked shipment; those items come back through a return instead.
+ */
+async function applyTransitionEffects(
+    supabase: SupabaseClient,
+    order: { id: string; user_id?: string | null },
+    from: OrderStatus,
+    to: OrderStatus
+) {
+    await recordOrderOutcome(supabase, order.user_id, from, to);
+
+    if (to === 'cancelled' && STOCK_RESERVED_STATUSES.includes(from)) {
+        const { error } = await supabase.rpc('release_order_inventory', { p_order_id: order.id });
+        if (error) console.error('Failed to restock cancelled order', order.id, error);
+    }
+}
+
+/**
+ * Moves an order to `to` if the state machine allows it, records the
+ * change in order_status_history and runs the transition's side-effects.
+ * Moving to the current status is a no-op. The update only applies while
+ * the order is still in the status it was read in, so concurrent updates
+ * cannot skip the check.
+ */
+export async function transitionOrder(
+    supabase: SupabaseClient,
+    orderId: string,
+    to: OrderStatus,
+    options: { changedBy?: string | null; notes?: string; adminNotes?: string } = {}
+): Promise<OrderTransitionResult> {
+    const { data: order } = await supabase
+        .from('orders')
+        .select('id, status, user_id')
+        .eq('id', orderId)
+        .maybeSingle();
+
+    if (!order) return { success: false, error: 'Order not found' };
+
+    const from = order.status as OrderStatus;
+    if (from === to) return { success: true, from, to, changed: false };
+
+    const error = transitionError(from, to);
+    if (error) return { success: false, error, from };
+
+    const { data: updated, error: updateError } = await supabase
+        .from('orders')
+        .update({
+            status: to,
+            ...(options.adminNotes !== undefined ? { admin_notes: options.adminNotes } : {}),
+        })
+        .eq('id', orderId)
+        .eq('status', from)
+        .select('id');
+
+    if (updateError) return { success: false, error: updateError.message, from };
+    if (!updated?.length) {
+        return { success: false, error: 'Order status changed while updating. Please try again.', from };
+    }
+
+    await supabase.from('order_status_history').insert({
+        order_id: orderId,
+        status: to,
+        changed_by: options.changedBy ?? null,
+        notes: options.notes ?? `Status updated to ${to}`,
+    });
+
+    await applyTransitionEffects(supabase, order, from, to);
+
+    return { success: true, from, to, changed: true };
+}
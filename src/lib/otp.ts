@@ -0,0 +1,86 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+
+/**
+ * Phone OTP helpers for COD checkout.
+ * Codes are stored hashed and bound to a phone number and a cart fingerprint,
+ * so a verification cannot be reused for a different number or a changed cart.
+ */
+
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MINUTES = 5;
+export const OTP_MAX_ATTEMPTS = 5;
+
+/** A verified code must be used for an order within this window. */
+export const OTP_VERIFIED_WINDOW_MINUTES = 30;
+
+/** Send limits, counted over the trailing window. */
+export const OTP_RATE_LIMITS = {
+    perPhone: { max: 3, windowMinutes: 15 },
+    perIp: { max: 10, windowMinutes: 60 },
+};
+
+/**
+ * HMAC key for codes and cart fingerprints. There is no fallback: without
+ * OTP_SECRET nothing can be issued or verified.
+ */
+function otpSecret(): string {
+    const secret = process.env.OTP_SECRET;
+    if (!secret) throw new Error('OTP_SECRET is not set');
+    return secret;
+}
+
+export function generateOtpCode(): string {
+    return randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+}
+
+/**
+ * Hashes a code together with the phone it was issued for.
+ */
+export function hashOtpCode(phone: string, code: string): string {
+    return createHmac('sha256', otpSecret()).update(`${phone}:${code}`).digest('hex');
+}
+
+export function otpCodeMatches(phone: string, code: string, expectedHash: string): boolean {
+    const actual = Buffer.from(hashOtpCode(phone, code), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Stable fingerprint of a cart's contents (cart id + product/variant/quantity lines).
+ */
+export function cartFingerprint(cart: {
+    id: string;
+    items?: { product_id: string; variant_id?: string | null; quantity: number }[];
+}): string {
+    const items = (cart.items ?? [])
+        .map((item) => `${item.product_id}${item.variant_id ? `:${item.variant_id}` : ''}x${item.quantity}`)
+        .sort()
+        .join(',');
+    return createHmac('sha256', otpSecret()).update(`${cart.id}|${items}`).digest('hex');
+}
+
+/**
+ * Returns true if the verification was completed for this phone and cart,
+ * recently enough, and has not already been used for another order.
+ */
+export async function isPhoneVerificationValid(
+    supabase: SupabaseClient,
+    verificationId: string,
+    phone: string,
+    cartHash: string
+): Promise<boolean> {
+    const since = new Date(Date.now() - OTP_VERIFIED_WINDOW_MINUTES * 60 * 1000).toISOString();
+    const { data } = await supabase
+        .from('phone_verifications')
+        .select('id')
+        .eq('id', verificationId)
+        .eq('phone', phone)
+        .eq('cart_hash', cartHash)
+        .is('order_id', null)
+        .gte('verified_at', since)
+        .maybeSingle();
+
+    return !!data;
+}
@@ -9,8 +9,21 @@ export type Product = {
   price: number;
   inventory: number;
   category_id?: string;
+  /** Every category the product is in (product_categories), primary included */
+  categories?: { category_id: string }[];
   images?: { url: string }[];
   is_active: boolean;
+  options?: { name: string; values: string[]; position: number }[];
+  variants?: {
+    id: string;
+    sku: string;
+    title: string;
+    options: Record<string, string>;
+    price: number | null;
+    inventory: number;
+    image_urls: string[];
+    position: number;
+  }[];
 };
 
 export const getProductBySlug = unstable_cache(
@@ -18,7 +31,9 @@ export const getProductBySlug = unstable_cache(
     const supabase = await createPublicClient();
     const { data: product, error } = await supabase
       .from('products')
-      .select('*, images:product_images(url, display_order)')
+      .select(
+        '*, images:product_images(url, display_order), options:product_options(name, values:option_values, position), variants:product_variants(id, sku, title, options, price, inventory, image_urls, is_active, position), categories:product_categories(category_id)'
+      )
       .eq('slug', slug)
       .eq('is_active', true)
       .single();
@@ -34,6 +49,12 @@ export const getProductBySlug = unstable_cache(
       );
     }
 
+    // Options and active variants in display order
+    product.options?.sort((a: any, b: any) => a.position - b.position);
+    product.variants = (product.variants ?? [])
+      .filter((variant: any) => variant.is_active)
+      .sort((a: any, b: any) => a.position - b.position);
+
     return product as Product;
   },
   ['product-by-slug'],
@@ -41,12 +62,14 @@ export const getProductBySlug = unstable_cache(
 );
 
 export const getRelatedProducts = unstable_cache(
-  async (categoryId: string, currentProductId: string) => {
+  async (categoryIds: string[], currentProductId: string) => {
+    if (categoryIds.length === 0) return [];
+
     const supabase = await createPublicClient();
     const { data } = await supabase
       .from('products')
-      .select('id, name, slug, price, images:product_images(url, display_order)')
-      .eq('category_id', categoryId)
+      .select('id, name, slug, price, images:product_images(url, display_order), in_category:product_categories!inner(category_id)')
+      .in('in_category.category_id', categoryIds)
       .eq('is_active', true)
       .neq('id', currentProductId)
       .limit(4);
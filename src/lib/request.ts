@@ -0,0 +1,12 @@
+import { headers } from 'next/headers';
+
+/**
+ * Best-effort client IP from proxy headers, used for IP blocklist matching
+ * and rate limiting.
+ */
+export async function getClientIp(): Promise<string | null> {
+    const headerList = await headers();
+    const forwarded = headerList.get('x-forwarded-for');
+    if (forwarded) return forwarded.split(',')[0].trim();
+    return headerList.get('x-real-ip');
+}
@@ -0,0 +1,117 @@
+import type { ReturnOutcome } from '@/types/db';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Returns
+ * Orders that come back from the courier — returned to the merchant or
+ * refused at the door — are recorded in `order_returns` with a reason code.
+ * The `record_order_return` RPC moves the order, updates the customer's
+ * refusal counters, books the return delivery charge to `loss_ledger` and
+ * optionally puts items back into stock, all in one transaction. The RPC
+ * accepts the source statuses @/lib/order-state-machine allows.
+ */
+
+export const RETURN_REASONS = {
+    customer_refused: 'Customer refused at delivery',
+    customer_unreachable: 'Customer unreachable',
+    wrong_address: 'Wrong or incomplete address',
+    changed_mind: 'Customer changed mind',
+    damaged: 'Damaged in transit',
+    wrong_item: 'Wrong item sent',
+    courier_returned: 'Returned by courier',
+    other: 'Other',
+} as const;
+
+export type ReturnReasonCode = keyof typeof RETURN_REASONS;
+
+export const RETURN_REASON_CODES = Object.keys(RETURN_REASONS) as ReturnReasonCode[];
+
+export const RETURN_OUTCOMES: ReturnOutcome[] = ['returned', 'refused'];
+
+export interface RestockLine {
+    orderItemId: string;
+    quantity: number;
+}
+
+export interface OrderReturnInput {
+    orderId: string;
+    outcome: ReturnOutcome;
+    reasonCode: ReturnReasonCode;
+    notes?: string | null;
+    source: 'admin' | 'courier';
+    /** Return delivery charge booked to the loss ledger. */
+    returnFee: number;
+    /** Lines to put back into stock; omitted lines stay out of stock. */
+    restock?: RestockLine[];
+    recordedBy?: string | null;
+    historyNote?: string;
+}
+
+function restockPayload(lines: RestockLine[] = []) {
+    return lines
+        .filter((line) => line.quantity > 0)
+        .map((line) => ({ order_item_id: line.orderItemId, quantity: Math.floor(line.quantity) }));
+}
+
+/**
+ * Maps return RPC exceptions to admin-facing messages.
+ */
+function returnErrorMessage(message?: string): string {
+    if (!message) return 'Failed to record return';
+    if (message.includes('ORDER_NOT_FOUND')) return 'Order not found';
+    if (message.includes('RETURN_NOT_FOUND')) return 'Return not found';
+    if (message.includes('RETURN_EXISTS')) return 'A return has already been recorded for this order';
+
+    const status = message.match(/INVALID_ORDER_STATUS: (\S+)/);
+    if (status) return `Cannot record a return for an order that is "${status[1]}"`;
+
+    return 'Failed to record return: ' + message;
+}
+
+/**
+ * Records a return or refusal for an order. Each order can have one return;
+ * further items can be restocked later with `restockReturnItems`.
+ */
+export async function recordOrderReturn(
+    supabase: SupabaseClient,
+    input: OrderReturnInput
+): Promise<{ success: true; returnId: string } | { success: false; error: string }> {
+    const reason = RETURN_REASONS[input.reasonCode];
+
+    const { data, error } = await supabase.rpc('record_order_return', {
+        p_order_id: input.orderId,
+        p_outcome: input.outcome,
+        p_reason_code: input.reasonCode,
+        p_notes: input.notes || null,
+        p_source: input.source,
+        p_return_fee: Math.max(0, input.returnFee),
+        p_restock: restockPayload(input.restock),
+        p_recorded_by: input.recordedBy ?? null,
+        p_history_note:
+            input.historyNote ??
+            `Order ${input.outcome}: ${reason}${input.notes ? ` — ${input.notes}` : ''}`,
+    });
+
+    if (error || !data) {
+        return { success: false, error: returnErrorMessage(error?.message) };
+    }
+    return { success: true, returnId: data as string };
+}
+
+/**
+ * Puts returned units back into stock. Quantities are capped at what was
+ * ordered minus what has already been restocked for each line.
+ */
+export async function restockReturnItems(
+    supabase: SupabaseClient,
+    returnId: string,
+    lines: RestockLine[]
+): Promise<{ success: true; restocked: number } | { success: false; error: string }> {
+    const { data, error } = await supabase.rpc('restock_return_items', {
+        p_return_id: returnId,
+        p_items: restockPayload(lines),
+    });
+
+    if (error) return { success: false, error: returnErrorMessage(error.message) };
+    return { success: true, restocked: Number(data ?? 0) };
+}
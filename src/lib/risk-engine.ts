@@ -1,4 +1,8 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import { checkBlocklist, describeBlocklistMatch } from './blocklist';
+import { getPhoneDeliveryHistory, refusalRate, type DeliveryHistory } from './order-outcomes';
+import { loadRiskRules, type RiskRules } from './risk-rules';
+import { isSameAddress, normalizeShippingAddress } from './validations/address';
 
 // Define the structure of the risk analysis result
 export interface RiskAnalysisResult {
@@ -9,6 +13,13 @@ export interface RiskAnalysisResult {
     action: 'approve' | 'flag' | 'block';
 }
 
+/**
+ * Order statuses that mean "held for manual risk review".
+ * createCodOrder holds orders as pending_confirmation; flagged_for_review
+ * comes from the retired checkout-session flow and may exist on older orders.
+ */
+export const REVIEW_STATUSES = ['pending_confirmation', 'flagged_for_review'];
+
 interface RiskFactor {
     factor: string;
     points: number;
@@ -28,22 +39,22 @@ export class RiskEngine {
         userId: string | null,
         phone: string,
         totalAmount: number,
-        shippingAddress: any
+        shippingAddress: any,
+        ip?: string | null,
+        phoneVerified: boolean = false
     ): Promise<RiskAnalysisResult> {
         let score = 0;
         const factors: RiskFactor[] = [];
 
-        // Constants (Hardcoded for now as risk_rules table is missing in observed schema)
-        const THRESHOLD_FLAG = 30;
-        const THRESHOLD_BLOCK = 70;
-        const HIGH_VALUE_LIMIT = 5000;
-        
+        // Thresholds and point weights are tuned by ops via the risk_rules table
+        const rules = await loadRiskRules(this.supabase);
+
         // 1. Fetch User Stats (if user exists)
         let user: any = null;
         if (userId) {
              const { data } = await this.supabase
             .from('users')
-            .select('created_at') // Add other stats if available in schema, simplified for now
+            .select('created_at, delivered_orders, refused_orders, returned_orders')
             .eq('id', userId)
             .single();
             user = data;
@@ -52,17 +63,17 @@ export class RiskEngine {
         // 2. New User Check
         if (user) {
             const hrsSinceCreation = (Date.now() - new Date(user.created_at).getTime()) / (1000 * 60 * 60);
-            if (hrsSinceCreation < 24) {
-                const points = 10;
+            if (hrsSinceCreation < rules.new_user_window_hours && rules.new_user_penalty > 0) {
+                const points = rules.new_user_penalty;
                 score += points;
-                factors.push({ factor: 'New Account (<24h)', points });
+                factors.push({ factor: `New Account (<${rules.new_user_window_hours}h)`, points });
             }
         }
 
         // 3. High Value Order
-        if (totalAmount > HIGH_VALUE_LIMIT) {
-             score += 20;
-             factors.push({ factor: 'High Value Order', points: 20 });
+        if (totalAmount > rules.high_value_threshold && rules.high_value_penalty > 0) {
+             score += rules.high_value_penalty;
+             factors.push({ factor: 'High Value Order', points: rules.high_value_penalty });
         }
 
         // 4. Order Velocity (Hoarding Check)
@@ -77,27 +88,56 @@ export class RiskEngine {
             .neq('status', 'delivered'); // Only count pending/processing
 
         if (recentOrders && recentOrders >= 2) {
-             const points = recentOrders >= 3 ? 40 : 10;
+             const points = recentOrders >= 3 ? rules.velocity_penalty_high : rules.velocity_penalty_low;
              score += points;
              factors.push({ factor: `High Order Velocity (${recentOrders} active)`, points });
         }
 
-        // 5. Blocked Phone Check
-        const { data: blockedPhone } = await this.supabase
-            .from('blocked_phones')
-            .select('*')
-            .eq('phone_number', phone)
-            .single();
+        // 5. Blocklist Check (phone, account, IP, address keywords)
+        const blocklistMatches = await checkBlocklist(this.supabase, {
+            phone,
+            userId,
+            ip,
+            address: shippingAddress,
+        });
+        let hardBlocked = false;
+
+        for (const match of blocklistMatches) {
+            const points = match.severity === 'hard_block'
+                ? rules.blocked_phone_penalty
+                : rules.blocklist_flag_penalty;
+            hardBlocked = hardBlocked || match.severity === 'hard_block';
+            score += points;
+            factors.push({ factor: describeBlocklistMatch(match), points });
+        }
+
+        // 6. Delivery History (refusals are the largest COD loss)
+        const historyFactor = await this.evaluateDeliveryHistory(user, phone, rules);
+        if (historyFactor) {
+            score += historyFactor.points;
+            factors.push(historyFactor);
+        }
+
+        // 7. Verified Phone (OTP proved the customer controls the number)
+        if (phoneVerified && rules.verified_phone_credit > 0) {
+            score -= rules.verified_phone_credit;
+            factors.push({ factor: 'Phone Verified by OTP', points: -rules.verified_phone_credit });
+        }
 
-        if (blockedPhone) {
-            score += 100; // Immediate block
-            factors.push({ factor: `Phone Number Blocked: ${blockedPhone.reason}`, points: 100 });
+        // 8. New Address (returning customer shipping somewhere they never have before)
+        const addressFactor = await this.evaluateAddressHistory(userId, shippingAddress, rules);
+        if (addressFactor) {
+            score += addressFactor.points;
+            factors.push(addressFactor);
         }
 
+        // Trusted-buyer and verified-phone credits can take the score below zero; floor it
+        score = Math.max(0, score);
+
         // Final Decision
         let action: 'approve' | 'flag' | 'block' = 'approve';
-        if (score >= THRESHOLD_BLOCK) action = 'block';
-        else if (score >= THRESHOLD_FLAG) action = 'flag';
+        if (hardBlocked || score >= rules.risk_threshold_block) action = 'block';
+        else if (score >= rules.risk_threshold_flag) action = 'flag';
 
         return {
             score,
@@ -107,4 +147,102 @@ export class RiskEngine {
             action
         };
     }
+
+    /**
+     * Scores the refusal/return ratio of both the account and the phone number.
+     * The worse of the two histories is penalised; if neither is over the
+     * threshold, a buyer with enough deliveries earns a negative-point credit.
+     */
+    private async evaluateDeliveryHistory(
+        user: any,
+        phone: string,
+        rules: RiskRules
+    ): Promise<RiskFactor | null> {
+        const histories: { source: string; history: DeliveryHistory }[] = [
+            { source: 'phone', history: await getPhoneDeliveryHistory(this.supabase, phone) },
+        ];
+        if (user) {
+            histories.push({
+                source: 'customer',
+                history: {
+                    delivered: user.delivered_orders ?? 0,
+                    refused: user.refused_orders ?? 0,
+                    returned: user.returned_orders ?? 0,
+                },
+            });
+        }
+
+        const scored = histories.filter(({ history }) =>
+            history.delivered + history.refused + history.returned >= rules.delivery_history_min_orders
+        );
+
+        const worst = scored
+            .map((entry) => ({ ...entry, rate: refusalRate(entry.history) }))
+            .sort((a, b) => b.rate - a.rate)[0];
+
+        if (worst && worst.rate > rules.cancellation_rate_threshold) {
+            if (rules.refusal_rate_penalty <= 0) return null;
+            const failed = worst.history.refused + worst.history.returned;
+            const completed = failed + worst.history.delivered;
+            return {
+                factor: `High Refusal Rate (${worst.source}: ${failed}/${completed})`,
+                points: rules.refusal_rate_penalty,
+            };
+        }
+
+        const trusted = histories.find(({ history }) =>
+            history.delivered >= rules.trusted_buyer_min_delivered &&
+            refusalRate(history) <= rules.cancellation_rate_threshold
+        );
+
+        if (trusted && rules.trusted_buyer_credit > 0) {
+            return {
+                factor: `Trusted Buyer (${trusted.history.delivered} delivered)`,
+                points: -rules.trusted_buyer_credit,
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Compares the delivery address against the customer's saved addresses and
+     * the addresses of their previous orders. Customers without any known
+     * address are skipped; the new account check already covers them.
+     */
+    private async evaluateAddressHistory(
+        userId: string | null,
+        shippingAddress: any,
+        rules: RiskRules
+    ): Promise<RiskFactor | null> {
+        if (!userId || !shippingAddress || rules.new_address_penalty <= 0) return null;
+
+        const [{ data: saved }, { data: orders }] = await Promise.all([
+            this.supabase
+                .from('addresses')
+                .select('district, upazila, address')
+                .eq('user_id', userId),
+            this.supabase
+                .from('orders')
+                .select('shipping_address')
+                .eq('user_id', userId)
+                .neq('status', 'cancelled')
+                .order('created_at', { ascending: false })
+                .limit(50),
+        ]);
+
+        const known = [
+            ...(saved ?? []),
+            ...(orders ?? []).map((order) => normalizeShippingAddress(order.shipping_address)),
+        ];
+        if (known.length === 0) return null;
+
+        const target = normalizeShippingAddress(shippingAddress);
+        if (known.some((address) => isSameAddress(address, target))) return null;
+
+        return {
+            factor: 'New Delivery Address',
+            points: rules.new_address_penalty,
+        };
+    }
 }
@@ -0,0 +1,259 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+/**
+ * Risk Rules
+ * Typed view over the `risk_rules` table. Each row stores a JSONB value keyed by
+ * rule name; this module owns the list of known keys, their defaults and bounds,
+ * and a short-lived in-process cache so checkout does not hit the table per order.
+ */
+
+export type RiskRuleKind = 'points' | 'amount' | 'count' | 'hours' | 'ratio';
+
+export interface RiskRuleDefinition {
+    label: string;
+    description: string;
+    kind: RiskRuleKind;
+    defaultValue: number;
+    min: number;
+    max: number;
+}
+
+export const RISK_RULE_DEFINITIONS = {
+    risk_threshold_flag: {
+        label: 'Flag Threshold',
+        description: 'Score at or above which an order is held for manual review',
+        kind: 'points',
+        defaultValue: 30,
+        min: 1,
+        max: 1000,
+    },
+    risk_threshold_block: {
+        label: 'Block Threshold',
+        description: 'Score at or above which an order is rejected outright',
+        kind: 'points',
+        defaultValue: 70,
+        min: 1,
+        max: 1000,
+    },
+    high_value_threshold: {
+        label: 'High Value Limit (৳)',
+        description: 'Order total above which the high value penalty applies',
+        kind: 'amount',
+        defaultValue: 5000,
+        min: 0,
+        max: 10_000_000,
+    },
+    high_value_penalty: {
+        label: 'High Value Penalty',
+        description: 'Points added for orders above the high value limit',
+        kind: 'points',
+        defaultValue: 20,
+        min: 0,
+        max: 1000,
+    },
+    new_user_window_hours: {
+        label: 'New Account Window (hours)',
+        description: 'Accounts younger than this are treated as new',
+        kind: 'hours',
+        defaultValue: 24,
+        min: 0,
+        max: 24 * 365,
+    },
+    new_user_penalty: {
+        label: 'New Account Penalty',
+        description: 'Points added for accounts inside the new account window',
+        kind: 'points',
+        defaultValue: 10,
+        min: 0,
+        max: 1000,
+    },
+    velocity_penalty_low: {
+        label: 'Velocity Penalty (2 active)',
+        description: 'Points added when a phone has 2 active orders in the last 24h',
+        kind: 'points',
+        defaultValue: 10,
+        min: 0,
+        max: 1000,
+    },
+    velocity_penalty_high: {
+        label: 'Velocity Penalty (3+ active)',
+        description: 'Points added when a phone has 3 or more active orders in the last 24h',
+        kind: 'points',
+        defaultValue: 40,
+        min: 0,
+        max: 1000,
+    },
+    blocked_phone_penalty: {
+        label: 'Hard Block Penalty',
+        description: 'Points recorded for a hard_block blocklist match (the order is rejected regardless)',
+        kind: 'points',
+        defaultValue: 100,
+        min: 0,
+        max: 1000,
+    },
+    blocklist_flag_penalty: {
+        label: 'Flag-Only Blocklist Penalty',
+        description: 'Points added for each flag_only blocklist match',
+        kind: 'points',
+        defaultValue: 30,
+        min: 0,
+        max: 1000,
+    },
+    max_daily_orders: {
+        label: 'Max Daily Orders',
+        description: 'Orders a customer may place per calendar day',
+        kind: 'count',
+        defaultValue: 3,
+        min: 1,
+        max: 100,
+    },
+    cancellation_rate_threshold: {
+        label: 'Cancellation Rate Threshold',
+        description: 'Ratio of refused/returned orders that triggers a penalty',
+        kind: 'ratio',
+        defaultValue: 0.2,
+        min: 0,
+        max: 1,
+    },
+    delivery_history_min_orders: {
+        label: 'Min Completed Orders for Rate',
+        description: 'Completed (delivered/refused/returned) orders needed before the refusal rate is scored',
+        kind: 'count',
+        defaultValue: 2,
+        min: 1,
+        max: 100,
+    },
+    refusal_rate_penalty: {
+        label: 'Refusal Rate Penalty',
+        description: 'Points added when the customer or phone refusal rate exceeds the threshold',
+        kind: 'points',
+        defaultValue: 30,
+        min: 0,
+        max: 1000,
+    },
+    trusted_buyer_min_delivered: {
+        label: 'Trusted Buyer Deliveries',
+        description: 'Delivered orders needed (with a rate under the threshold) to count as a trusted buyer',
+        kind: 'count',
+        defaultValue: 3,
+        min: 1,
+        max: 100,
+    },
+    trusted_buyer_credit: {
+        label: 'Trusted Buyer Credit',
+        description: 'Points subtracted for trusted repeat buyers',
+        kind: 'points',
+        defaultValue: 15,
+        min: 0,
+        max: 1000,
+    },
+    verified_phone_credit: {
+        label: 'Verified Phone Credit',
+        description: 'Points subtracted when the phone number was verified by OTP at checkout',
+        kind: 'points',
+        defaultValue: 10,
+        min: 0,
+        max: 1000,
+    },
+    new_address_penalty: {
+        label: 'New Address Penalty',
+        description: 'Points added when a returning customer orders to an address not in their address book or order history',
+        kind: 'points',
+        defaultValue: 10,
+        min: 0,
+        max: 1000,
+    },
+} satisfies Record<string, RiskRuleDefinition>;
+
+export type RiskRuleKey = keyof typeof RISK_RULE_DEFINITIONS;
+
+export type RiskRules = Record<RiskRuleKey, number>;
+
+export const RISK_RULE_KEYS = Object.keys(RISK_RULE_DEFINITIONS) as RiskRuleKey[];
+
+export const DEFAULT_RISK_RULES = Object.fromEntries(
+    RISK_RULE_KEYS.map((key) => [key, RISK_RULE_DEFINITIONS[key].defaultValue])
+) as RiskRules;
+
+/**
+ * Builds the zod schema for a single rule value. JSONB values may have been
+ * stored as numbers or numeric strings, so both are accepted.
+ */
+function ruleValueSchema(def: RiskRuleDefinition) {
+    const base = z.coerce.number().min(def.min).max(def.max);
+    return def.kind === 'ratio' ? base : base.int();
+}
+
+/**
+ * Schema for a complete rule set, including cross-rule constraints.
+ */
+export const riskRulesSchema = z
+    .object(
+        Object.fromEntries(
+            RISK_RULE_KEYS.map((key) => [key, ruleValueSchema(RISK_RULE_DEFINITIONS[key])])
+        ) as Record<RiskRuleKey, ReturnType<typeof ruleValueSchema>>
+    )
+    .refine((rules) => rules.risk_threshold_flag < rules.risk_threshold_block, {
+        message: 'Flag threshold must be lower than the block threshold',
+        path: ['risk_threshold_flag'],
+    })
+    .refine((rules) => rules.velocity_penalty_low <= rules.velocity_penalty_high, {
+        message: 'Velocity penalty for 2 orders cannot exceed the penalty for 3+ orders',
+        path: ['velocity_penalty_low'],
+    });
+
+/**
+ * Parses raw `risk_rules` rows into a typed rule set. Unknown keys are ignored
+ * and invalid or missing values fall back to their defaults.
+ */
+export function parseRiskRules(rows: { key: string; value: unknown }[]): RiskRules {
+    const rules: RiskRules = { ...DEFAULT_RISK_RULES };
+
+    for (const row of rows) {
+        if (!(row.key in RISK_RULE_DEFINITIONS)) continue;
+        const key = row.key as RiskRuleKey;
+        const parsed = ruleValueSchema(RISK_RULE_DEFINITIONS[key]).safeParse(row.value);
+        if (parsed.success) {
+            rules[key] = parsed.data;
+        } else {
+            console.warn(`Invalid value for risk rule "${key}", using default`, row.value);
+        }
+    }
+
+    return rules;
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────
+
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: { rules: RiskRules; expiresAt: number } | null = null;
+
+/**
+ * Loads the current rule set, served from an in-process cache for up to a minute.
+ * Falls back to defaults if the table cannot be read (e.g. RLS on a non-admin client).
+ */
+export async function loadRiskRules(supabase: SupabaseClient): Promise<RiskRules> {
+    if (cache && cache.expiresAt > Date.now()) {
+        return cache.rules;
+    }
+
+    const { data, error } = await supabase.from('risk_rules').select('key, value');
+
+    if (error || !data) {
+        console.error('Failed to load risk rules, using defaults:', error?.message);
+        return { ...DEFAULT_RISK_RULES };
+    }
+
+    const rules = parseRiskRules(data);
+    cache = { rules, expiresAt: Date.now() + CACHE_TTL_MS };
+    return rules;
+}
+
+/**
+ * Drops the cached rule set so the next evaluation reads fresh values.
+ */
+export function invalidateRiskRulesCache() {
+    cache = null;
+}
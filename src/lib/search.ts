@@ -0,0 +1,172 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Product Search
+ * Ranked, typo-tolerant search over active products (search_products RPC:
+ * trigram similarity on the name plus English/Bangla full-text on name and
+ * description), with category and price filters. Used by /search, the
+ * /api/search endpoint and the header autocomplete. Searches that find
+ * nothing are logged to search_misses for merchandising.
+ */
+
+export const SEARCH_PAGE_SIZE = 16;
+export const SUGGESTION_LIMIT = 6;
+
+/** Shorter queries are too vague to rank (and to log). */
+export const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+
+export interface SearchFilters {
+    query: string;
+    category?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    page: number;
+}
+
+export interface SearchResult {
+    id: string;
+    name: string;
+    slug: string;
+    price: number;
+    inventory: number;
+    category_id: string | null;
+    image_url: string | null;
+}
+
+export interface SearchResults {
+    products: SearchResult[];
+    total: number;
+    totalPages: number;
+    /** Set when the search did not run (unknown category, RPC failure); not a miss. */
+    error: string | null;
+}
+
+export interface SearchSuggestion {
+    id: string;
+    name: string;
+    slug: string;
+    price: number;
+    image_url: string | null;
+}
+
+/**
+ * Trims, collapses whitespace and caps the length of a search query.
+ */
+export function normalizeSearchQuery(query?: string | null): string {
+    return (query ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * A non-negative price from a URL param, or undefined.
+ */
+export function parsePrice(value?: string | null): number | undefined {
+    if (!value) return undefined;
+    const price = Number(value);
+    return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+/**
+ * Reads search filters from URL params (?q=&category=&min=&max=&page=).
+ */
+export function parseSearchParams(params: {
+    q?: string | null;
+    category?: string | null;
+    min?: string | null;
+    max?: string | null;
+    page?: string | null;
+}): SearchFilters {
+    return {
+        query: normalizeSearchQuery(params.q),
+        category: params.category || undefined,
+        minPrice: parsePrice(params.min),
+        maxPrice: parsePrice(params.max),
+        page: Math.max(1, Number(params.page) || 1),
+    };
+}
+
+/**
+ * One page of ranked results plus the total match count.
+ */
+export async function searchProducts(supabase: SupabaseClient, filters: SearchFilters): Promise<SearchResults> {
+    const empty = (error: string | null): SearchResults => ({ products: [], total: 0, totalPages: 0, error });
+    if (filters.query.length < MIN_QUERY_LENGTH) return empty(null);
+
+    let categoryId: string | null = null;
+    if (filters.category) {
+        const { data: category } = await supabase
+            .from('categories')
+            .select('id')
+            .eq('slug', filters.category)
+            .maybeSingle();
+        if (!category) return empty('Unknown category');
+        categoryId = category.id;
+    }
+
+    const { data, error } = await supabase.rpc('search_products', {
+        p_query: filters.query,
+        p_category_id: categoryId,
+        p_min_price: filters.minPrice ?? null,
+        p_max_price: filters.maxPrice ?? null,
+        p_limit: SEARCH_PAGE_SIZE,
+        p_offset: (filters.page - 1) * SEARCH_PAGE_SIZE,
+    });
+
+    if (error) {
+        console.error('Product search failed:', error);
+        return empty('Search is unavailable right now');
+    }
+
+    const rows = (data ?? []) as (SearchResult & { total_count: number })[];
+    const total = Number(rows[0]?.total_count ?? 0);
+    return {
+        products: rows.map((row) => ({
+            id: row.id,
+            name: row.name,
+            slug: row.slug,
+            price: Number(row.price),
+            inventory: row.inventory,
+            category_id: row.category_id,
+            image_url: row.image_url,
+        })),
+        total,
+        totalPages: Math.ceil(total / SEARCH_PAGE_SIZE),
+        error: null,
+    };
+}
+
+/**
+ * Autocomplete suggestions for a partially typed query.
+ */
+export async function suggestProducts(supabase: SupabaseClient, query: string): Promise<SearchSuggestion[]> {
+    if (query.length < MIN_QUERY_LENGTH) return [];
+
+    const { data, error } = await supabase.rpc('suggest_products', {
+        p_query: query,
+        p_limit: SUGGESTION_LIMIT,
+    });
+
+    if (error) {
+        console.error('Search suggestions failed:', error);
+        return [];
+    }
+    return (data ?? []) as SearchSuggestion[];
+}
+
+/**
+ * Counts a search that ran and found nothing (service-role client). The
+ * query is lower-cased so "Saree" and "saree" are one entry.
+ */
+export async function logSearchMiss(supabase: SupabaseClient, filters: SearchFilters) {
+    if (filters.query.length < MIN_QUERY_LENGTH) return;
+
+    const { error } = await supabase.rpc('log_search_miss', {
+        p_query: filters.query.toLowerCase(),
+        p_filters: {
+            category: filters.category ?? null,
+            min_price: filters.minPrice ?? null,
+            max_price: filters.maxPrice ?? null,
+        },
+    });
+    if (error) console.error('Failed to log search miss:', error);
+}
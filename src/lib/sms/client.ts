@@ -0,0 +1,55 @@
+import { appendFile } from 'fs/promises';
+import { SmsMessage, SmsProvider, SmsSendResult } from './types';
+
+/**
+ * Local stub: logs messages to the server console and, when SMS_OUTBOX_FILE
+ * is set, appends them as JSON lines so OTP codes can be read in development.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+    readonly name = 'console';
+
+    constructor(private outboxFile: string | undefined = process.env.SMS_OUTBOX_FILE) {}
+
+    async send(message: SmsMessage): Promise<SmsSendResult> {
+        const messageId = crypto.randomUUID();
+        console.info(`[sms:${this.name}] to ${message.to}: ${message.body}`);
+
+        if (this.outboxFile) {
+            try {
+                const line = JSON.stringify({ id: messageId, ...message, sent_at: new Date().toISOString() });
+                await appendFile(this.outboxFile, line + '\n');
+            } catch (error: any) {
+                return { success: false, error: `Failed to write SMS outbox: ${error.message}` };
+            }
+        }
+
+        return { success: true, messageId };
+    }
+}
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Returns the configured SMS provider (SMS_PROVIDER, default "console").
+ */
+export function getSmsProvider(): SmsProvider {
+    if (provider) return provider;
+
+    const name = process.env.SMS_PROVIDER || 'console';
+    switch (name) {
+        case 'console':
+            provider = new ConsoleSmsProvider();
+            break;
+        default:
+            throw new Error(`Unknown SMS provider "${name}"`);
+    }
+
+    return provider;
+}
+
+/**
+ * Overrides the provider, e.g. to plug in a gateway or a test double.
+ */
+export function setSmsProvider(next: SmsProvider | null) {
+    provider = next;
+}
@@ -0,0 +1,19 @@
+export interface SmsMessage {
+    to: string;
+    body: string;
+}
+
+export interface SmsSendResult {
+    success: boolean;
+    messageId?: string;
+    error?: string;
+}
+
+/**
+ * Anything that can deliver a text message to a Bangladesh mobile number.
+ * Real gateways implement this; local development uses the console stub.
+ */
+export interface SmsProvider {
+    readonly name: string;
+    send(message: SmsMessage): Promise<SmsSendResult>;
+}
@@ -0,0 +1,107 @@
+import {
+  findDistrict,
+  findDivision,
+  findDivisionForDistrict,
+  findUpazila,
+} from "@/lib/bd-locations";
+import { z } from "zod";
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+/**
+ * Canonical shipping address stored in `orders.shipping_address`.
+ * Division/district/upazila are validated against the bundled reference
+ * data and rewritten to their canonical spelling.
+ */
+export const shippingAddressSchema = z
+  .object({
+    fullName: z.string().transform(collapse).pipe(z.string().min(1, "Recipient name is required")),
+    phone: z.string().transform((v) => v.replace(/\D/g, "").replace(/^880/, "0")).pipe(
+      z.string().regex(/^01[3-9]\d{8}$/, "Enter a valid Bangladesh phone number (e.g. 01712345678)")
+    ),
+    division: z.string().transform(collapse),
+    district: z.string().transform(collapse),
+    upazila: z.string().transform(collapse),
+    address: z.string().transform(collapse).pipe(z.string().min(5, "Delivery address is required")),
+    note: z.string().transform(collapse).optional(),
+  })
+  .transform((value, ctx) => {
+    const division = findDivision(value.division);
+    if (!division) {
+      ctx.addIssue({ code: "custom", message: "Select a division", path: ["division"] });
+      return z.NEVER;
+    }
+    const district = findDistrict(division, value.district);
+    if (!district) {
+      ctx.addIssue({ code: "custom", message: "Select a district", path: ["district"] });
+      return z.NEVER;
+    }
+    const upazila = findUpazila(division, district, value.upazila);
+    if (!upazila) {
+      ctx.addIssue({ code: "custom", message: "Select an upazila / thana", path: ["upazila"] });
+      return z.NEVER;
+    }
+    return { ...value, division: division as string, district, upazila, note: value.note || undefined };
+  });
+
+export type ShippingAddressInput = z.input<typeof shippingAddressSchema>;
+export type ShippingAddress = z.output<typeof shippingAddressSchema>;
+
+/**
+ * Best-effort conversion of any stored shipping_address JSON (including the
+ * legacy `{ address, city, area }` and `{ name, ... }` shapes) into the
+ * canonical shape. Unknown locations are kept as entered rather than dropped.
+ */
+export function normalizeShippingAddress(raw: any, fallbackPhone?: string | null): ShippingAddress {
+  const source = raw && typeof raw === "object" ? raw : {};
+  const text = (v: unknown) => (typeof v === "string" ? collapse(v) : "");
+
+  const districtInput = text(source.district) || text(source.city);
+  const division =
+    findDivision(source.division) ?? findDivisionForDistrict(districtInput)?.division ?? null;
+  const district = division ? findDistrict(division, districtInput) : null;
+  const upazilaInput = text(source.upazila) || text(source.area);
+  const upazila = division && district ? findUpazila(division, district, upazilaInput) : null;
+
+  return {
+    fullName: text(source.fullName) || text(source.recipientName) || text(source.name),
+    phone: text(source.phone) || fallbackPhone || "",
+    division: division ?? text(source.division),
+    district: district ?? districtInput,
+    upazila: upazila ?? upazilaInput,
+    address: text(source.address),
+    note: text(source.note) || undefined,
+  };
+}
+
+/**
+ * Single-line address for courier payloads: "address, upazila, district".
+ */
+export function formatShippingAddress(
+  address: Pick<ShippingAddress, "address" | "upazila" | "district">
+): string {
+  const parts = [address.address, address.upazila, address.district];
+  // Avoid "Mirpur, Mirpur" when the customer already typed the area
+  return parts
+    .filter(Boolean)
+    .filter((part, i, all) => all.findIndex((p) => p.toLowerCase() === part.toLowerCase()) === i)
+    .join(", ");
+}
+
+const comparable = (value?: string | null) =>
+  (value ?? "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+/**
+ * Whether two addresses point at the same place: same district and upazila,
+ * and the same street address ignoring case, spacing and punctuation.
+ */
+export function isSameAddress(
+  a: Pick<ShippingAddress, "district" | "upazila" | "address">,
+  b: Pick<ShippingAddress, "district" | "upazila" | "address">
+): boolean {
+  return (
+    comparable(a.district) === comparable(b.district) &&
+    comparable(a.upazila) === comparable(b.upazila) &&
+    comparable(a.address) === comparable(b.address)
+  );
+}
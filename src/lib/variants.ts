@@ -0,0 +1,214 @@
+import { setProductInventory, setVariantInventory } from '@/lib/inventory';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Product Variants
+ * A product's options (Size, Colour, …) and the variants that combine their
+ * values. Each variant has its own SKU, optional price override, stock and
+ * images; a product without variants is sold exactly as before. Used by the
+ * product page picker, the admin variant editor and the product actions.
+ */
+
+/** Option name → chosen value, e.g. { Size: 'M', Colour: 'Red' }. */
+export type VariantOptions = Record<string, string>;
+
+export interface VariantOptionInput {
+    name: string;
+    values: string[];
+}
+
+export interface VariantInput {
+    id?: string;
+    sku: string;
+    options: VariantOptions;
+    price: number | null;
+    inventory: number;
+    image_urls: string[];
+}
+
+/**
+ * Display label in option order, e.g. "Red / M".
+ */
+export function variantTitle(options: { name: string }[], values: VariantOptions): string {
+    return options
+        .map((option) => values[option.name])
+        .filter(Boolean)
+        .join(' / ');
+}
+
+/**
+ * Every combination of option values, in option order.
+ */
+export function variantCombinations(options: VariantOptionInput[]): VariantOptions[] {
+    return options.reduce<VariantOptions[]>(
+        (combinations, option) =>
+            combinations.flatMap((combination) =>
+                option.values.map((value) => ({ ...combination, [option.name]: value }))
+            ),
+        [{}]
+    );
+}
+
+export function sameOptions(a: VariantOptions, b: VariantOptions): boolean {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * The variant matching a complete selection of option values.
+ */
+export function findVariant<T extends { options: VariantOptions }>(
+    variants: T[],
+    selection: VariantOptions
+): T | undefined {
+    return variants.find((variant) => sameOptions(variant.options, selection));
+}
+
+/**
+ * Unit price of a cart line: the variant's price override, else the product price.
+ */
+export function unitPrice(item: {
+    product?: { price: number } | null;
+    variant?: { price?: number | null } | null;
+}): number {
+    return Number(item.variant?.price ?? item.product?.price ?? 0);
+}
+
+/**
+ * Why a set of options and variants cannot be saved, or null when it can.
+ */
+function validateVariants(options: VariantOptionInput[], variants: VariantInput[]): string | null {
+    const names = new Set<string>();
+    for (const option of options) {
+        if (!option.name) return 'Every option needs a name';
+        if (names.has(option.name.toLowerCase())) return `Option "${option.name}" is listed twice`;
+        names.add(option.name.toLowerCase());
+
+        if (option.values.length === 0) return `Option "${option.name}" needs at least one value`;
+        if (new Set(option.values).size !== option.values.length) {
+            return `Option "${option.name}" has a repeated value`;
+        }
+    }
+
+    if (options.length > 0 && variants.length === 0) return 'Generate the variants for these options';
+    if (options.length === 0 && variants.length > 0) return 'Variants need at least one option';
+
+    const skus = new Set<string>();
+    for (const [index, variant] of variants.entries()) {
+        const label = variantTitle(options, variant.options) || `Variant ${index + 1}`;
+
+        if (!variant.sku) return `${label} needs a SKU`;
+        if (skus.has(variant.sku)) return `SKU "${variant.sku}" is used by more than one variant`;
+        skus.add(variant.sku);
+
+        const complete =
+            Object.keys(variant.options).length === options.length &&
+            options.every((option) => option.values.includes(variant.options[option.name]));
+        if (!complete) return `${label} must have one value for every option`;
+
+        if (variants.slice(0, index).some((other) => sameOptions(other.options, variant.options))) {
+            return `${label} is listed twice`;
+        }
+        if (variant.price !== null && !(variant.price >= 0)) return `${label} has an invalid price`;
+        if (!Number.isInteger(variant.inventory) || variant.inventory < 0) {
+            return `${label} has an invalid stock count`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Replaces a product's options and variants with the given ones. Variants
+ * keep their id (and order history) while listed; removed ones are stocked
+ * out and deactivated. Stock counts are recorded in the inventory ledger,
+ * and a simple product's own stock is cleared when it gains variants.
+ */
+export async function saveProductVariants(
+    supabase: SupabaseClient,
+    productId: string,
+    input: { options: VariantOptionInput[]; variants: VariantInput[] },
+    createdBy: string | null = null
+): Promise<{ success: true } | { success: false; error: string }> {
+    const invalid = validateVariants(input.options, input.variants);
+    if (invalid) return { success: false, error: invalid };
+
+    const { data: existing } = await supabase
+        .from('product_variants')
+        .select('id, is_active')
+        .eq('product_id', productId);
+
+    const active = (existing ?? []).filter((variant) => variant.is_active);
+    const activeIds = new Set(active.map((variant) => variant.id as string));
+    const removed = active.filter((variant) => !input.variants.some((v) => v.id === variant.id));
+
+    // 1. Removed variants leave the stock count, then the catalogue
+    for (const variant of removed) {
+        const stocked = await setVariantInventory(supabase, variant.id, 0, { note: 'Variant removed', createdBy });
+        if (!stocked.success) return stocked;
+    }
+    if (removed.length > 0) {
+        await supabase
+            .from('product_variants')
+            .update({ is_active: false })
+            .in('id', removed.map((variant) => variant.id));
+    }
+
+    // 2. Options
+    await supabase.from('product_options').delete().eq('product_id', productId);
+    if (input.options.length > 0) {
+        const { error } = await supabase.from('product_options').insert(
+            input.options.map((option, position) => ({
+                product_id: productId,
+                name: option.name,
+                option_values: option.values,
+                position,
+            }))
+        );
+        if (error) return { success: false, error: error.message };
+    }
+
+    if (input.variants.length === 0) return { success: true };
+
+    // 3. Stock is counted per variant from now on
+    if (active.length === 0) {
+        const cleared = await setProductInventory(supabase, productId, 0, { note: 'Stock moved to variants', createdBy });
+        if (!cleared.success) return cleared;
+    }
+
+    // 4. Variants, then their stock counts
+    for (const [position, variant] of input.variants.entries()) {
+        const row = {
+            product_id: productId,
+            sku: variant.sku,
+            title: variantTitle(input.options, variant.options),
+            options: variant.options,
+            price: variant.price,
+            image_urls: variant.image_urls,
+            position,
+            is_active: true,
+        };
+
+        const isExisting = !!variant.id && activeIds.has(variant.id);
+        const { data: saved, error } = isExisting
+            ? await supabase.from('product_variants').update(row).eq('id', variant.id).select('id').single()
+            : await supabase.from('product_variants').insert(row).select('id').single();
+
+        if (error || !saved) {
+            return {
+                success: false,
+                error: error?.message.includes('sku')
+                    ? `SKU "${variant.sku}" is already in use`
+                    : error?.message ?? 'Failed to save variant',
+            };
+        }
+
+        const stocked = await setVariantInventory(supabase, saved.id, variant.inventory, {
+            note: isExisting ? 'Stock count updated by admin' : 'Initial stock',
+            createdBy,
+        });
+        if (!stocked.success) return stocked;
+    }
+
+    return { success: true };
+}
@@ -0,0 +1,235 @@
+'use server';
+
+/**
+ * Address Book Server Actions
+ * Lets signed-in customers save delivery addresses, pick a default and reuse
+ * them at checkout. Addresses are validated with the same schema as checkout.
+ */
+
+import { MAX_SAVED_ADDRESSES, toAddressRow } from '@/lib/addresses';
+import { createAdminClient } from '@/lib/supabase/server';
+import { shippingAddressSchema, type ShippingAddressInput } from '@/lib/validations/address';
+import type { Address } from '@/types/db';
+import { auth } from '@clerk/nextjs/server';
+import { revalidatePath } from 'next/cache';
+
+export type SavedAddressInput = ShippingAddressInput & {
+  label?: string;
+  isDefault?: boolean;
+};
+
+/**
+ * Resolves the internal Supabase user UUID from the Clerk auth ID.
+ */
+async function resolveUserId(supabase: any): Promise<string | null> {
+  const { userId: clerkId } = await auth();
+  if (!clerkId) return null;
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id')
+    .eq('clerk_id', clerkId)
+    .single();
+
+  return user?.id ?? null;
+}
+
+function parseAddressInput(input: SavedAddressInput) {
+  const parsed = shippingAddressSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Invalid address' } as const;
+  }
+
+  const label = input.label?.replace(/\s+/g, ' ').trim().slice(0, 40) || null;
+  return { row: { label, ...toAddressRow(parsed.data) } } as const;
+}
+
+/**
+ * Clears the current default so another address can take it
+ * (one default per customer is enforced by a unique index).
+ */
+async function clearDefaultAddress(supabase: any, userId: string) {
+  await supabase
+    .from('addresses')
+    .update({ is_default: false })
+    .eq('user_id', userId)
+    .eq('is_default', true);
+}
+
+function revalidateAddressBook() {
+  revalidatePath('/profile');
+  revalidatePath('/checkout');
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────
+
+/**
+ * Get the current customer's saved addresses, default first, then most
+ * recently used.
+ */
+export async function getMyAddresses(): Promise<Address[]> {
+  const supabase = createAdminClient();
+  const userId = await resolveUserId(supabase);
+  if (!userId) return [];
+
+  const { data } = await supabase
+    .from('addresses')
+    .select('*')
+    .eq('user_id', userId)
+    .order('is_default', { ascending: false })
+    .order('last_used_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+
+  return (data ?? []) as Address[];
+}
+
+// ─── Mutations ───────────────────────────────────────────────────────
+
+/**
+ * Save a new address. The first address saved becomes the default.
+ */
+export async function createAddress(input: SavedAddressInput) {
+  const supabase = createAdminClient();
+  const userId = await resolveUserId(supabase);
+  if (!userId) return { success: false, error: 'Please sign in to save addresses' };
+
+  const parsed = parseAddressInput(input);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  const { count } = await supabase
+    .from('addresses')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if ((count ?? 0) >= MAX_SAVED_ADDRESSES) {
+    return {
+      success: false,
+      error: `You can save up to ${MAX_SAVED_ADDRESSES} addresses. Remove one to add another.`,
+    };
+  }
+
+  const isDefault = !!input.isDefault || (count ?? 0) === 0;
+  if (isDefault) await clearDefaultAddress(supabase, userId);
+
+  const { data, error } = await supabase
+    .from('addresses')
+    .insert({ user_id: userId, ...parsed.row, is_default: isDefault })
+    .select()
+    .single();
+
+  if (error) return { success: false, error: error.message };
+
+  revalidateAddressBook();
+  return { success: true, address: data as Address };
+}
+
+/**
+ * Update a saved address. Changing the phone number drops its verified mark.
+ */
+export async function updateAddress(addressId: string, input: SavedAddressInput) {
+  const supabase = createAdminClient();
+  const userId = await resolveUserId(supabase);
+  if (!userId) return { success: false, error: 'Please sign in to manage addresses' };
+
+  const parsed = parseAddressInput(input);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  const { data: existing } = await supabase
+    .from('addresses')
+    .select('phone, is_default')
+    .eq('id', addressId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!existing) return { success: false, error: 'Address not found' };
+
+  if (input.isDefault && !existing.is_default) await clearDefaultAddress(supabase, userId);
+
+  const { data, error } = await supabase
+    .from('addresses')
+    .update({
+      ...parsed.row,
+      ...(input.isDefault ? { is_default: true } : {}),
+      ...(existing.phone !== parsed.row.phone ? { phone_verified_at: null } : {}),
+    })
+    .eq('id', addressId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) return { success: false, error: error.message };
+
+  revalidateAddressBook();
+  return { success: true, address: data as Address };
+}
+
+/**
+ * Delete a saved address. If it was the default, the most recently used
+ * remaining address takes over.
+ */
+export async function deleteAddress(addressId: string) {
+  const supabase = createAdminClient();
+  const userId = await resolveUserId(supabase);
+  if (!userId) return { success: false, error: 'Please sign in to manage addresses' };
+
+  const { data: deleted, error } = await supabase
+    .from('addresses')
+    .delete()
+    .eq('id', addressId)
+    .eq('user_id', userId)
+    .select('is_default')
+    .maybeSingle();
+
+  if (error) return { success: false, error: error.message };
+  if (!deleted) return { success: false, error: 'Address not found' };
+
+  if (deleted.is_default) {
+    const { data: next } = await supabase
+      .from('addresses')
+      .select('id')
+      .eq('user_id', userId)
+      .order('last_used_at', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (next) {
+      await supabase.from('addresses').update({ is_default: true }).eq('id', next.id);
+    }
+  }
+
+  revalidateAddressBook();
+  return { success: true };
+}
+
+/**
+ * Make a saved address the default used to prefill checkout.
+ */
+export async function setDefaultAddress(addressId: string) {
+  const supabase = createAdminClient();
+  const userId = await resolveUserId(supabase);
+  if (!userId) return { success: false, error: 'Please sign in to manage addresses' };
+
+  const { data: existing } = await supabase
+    .from('addresses')
+    .select('id, is_default')
+    .eq('id', addressId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!existing) return { success: false, error: 'Address not found' };
+  if (existing.is_default) return { success: true };
+
+  await clearDefaultAddress(supabase, userId);
+
+  const { error } = await supabase
+    .from('addresses')
+    .update({ is_default: true })
+    .eq('id', addressId)
+    .eq('user_id', userId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidateAddressBook();
+  return { success: true };
+}
@@ -3,11 +3,17 @@
 /**
  * Admin Server Actions
  * Handles admin-only operations: order management, product/category CRUD,
- * order status updates, flagged order review, and blocked phone management.
+ * order status updates, and flagged order review.
+ * Blocklist management lives in ./blocklist.
  */
 
-import { requireRole } from '@/lib/auth';
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import { saveProductCategories } from '@/lib/categories';
+import { setProductInventory } from '@/lib/inventory';
+import { transitionOrder } from '@/lib/order-state-machine';
+import { REVIEW_STATUSES } from '@/lib/risk-engine';
 import { createAdminClient } from '@/lib/supabase/server';
+import { saveProductVariants, type VariantInput, type VariantOptionInput } from '@/lib/variants';
 import type { OrderStatus } from '@/types/db';
 import { revalidatePath } from 'next/cache';
 
@@ -32,7 +38,7 @@ export async function getAdminOrders(params?: {
 
   let query = supabase
     .from('orders')
-    .select('*, user:users(id, email, first_name, last_name), items:order_items(*, product:products(id, name, slug, price))', { count: 'exact' })
+    .select('*, user:users(id, email, first_name, last_name), items:order_items(*, product:products(id, name, slug, price)), shipment:shipments(provider, consignment_id, tracking_code, status, label_url)', { count: 'exact' })
     .order('created_at', { ascending: false })
     .range(from, to);
 
@@ -41,7 +47,7 @@ export async function getAdminOrders(params?: {
   }
 
   if (params?.flaggedOnly) {
-    query = query.eq('status', 'pending_confirmation');
+    query = query.in('status', REVIEW_STATUSES);
   }
 
   const { data: orders, count, error } = await query;
@@ -57,7 +63,9 @@ export async function getAdminOrders(params?: {
 
 /**
  * Update an order's status (admin only).
- * Records status change in order_status_history.
+ * The order state machine rejects illegal transitions (e.g. delivered →
+ * pending) and records the change in order_status_history. Returns and
+ * refusals go through the return form (@/server-actions/returns).
  */
 export async function updateOrderStatus(
   orderId: string,
@@ -67,32 +75,25 @@ export async function updateOrderStatus(
   await requireRole('admin');
   const supabase = createAdminClient();
 
-  // Get admin user id for history tracking
-  const { data: adminUser } = await supabase
-    .from('users')
-    .select('id')
-    .eq('role', 'admin')
-    .single();
-
-  // Update order status
-  const { error: updateError } = await supabase
-    .from('orders')
-    .update({ status: newStatus, admin_notes: notes })
-    .eq('id', orderId);
-
-  if (updateError) {
-    return { success: false, error: updateError.message };
+  if (newStatus === 'returned' || newStatus === 'refused') {
+    return { success: false, error: 'Record returns and refusals from the order\'s return page' };
   }
 
-  // Record in history
-  await supabase.from('order_status_history').insert({
-    order_id: orderId,
-    status: newStatus,
-    changed_by: adminUser?.id ?? null,
+  // Get admin user id for history tracking
+  const adminUser = await getCurrentUser();
+
+  const result = await transitionOrder(supabase, orderId, newStatus, {
+    changedBy: adminUser?.id ?? null,
     notes: notes ?? `Status updated to ${newStatus}`,
+    adminNotes: notes,
   });
 
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
   revalidatePath('/dashboard/orders');
+  revalidatePath('/admin/orders');
   return { success: true };
 }
 
@@ -140,22 +141,26 @@ export async function getAdminProducts(params?: { page?: number; perPage?: numbe
 }
 
 /**
- * Create a new product with images (admin only).
+ * Create a new product with images and optional variants (admin only).
  */
 export async function createProduct(productData: {
   name: string;
   slug: string;
   description?: string;
   price: number;
-  inventory: number;
+  inventory?: number;
+  weight_grams?: number | null;
   category_id?: string | null;
+  category_ids?: string[];
   is_active?: boolean;
   image_urls?: string[];
+  options?: VariantOptionInput[];
+  variants?: VariantInput[];
 }) {
   await requireRole('admin');
   const supabase = createAdminClient();
 
-  const { image_urls, ...product } = productData;
+  const { image_urls, inventory, options, variants, category_ids, ...product } = productData;
 
   const { data, error } = await supabase
     .from('products')
@@ -169,6 +174,33 @@ export async function createProduct(productData: {
 
   if (error) return { success: false, error: error.message };
 
+  // Additional categories alongside the primary one
+  if (category_ids?.length) {
+    const categorised = await saveProductCategories(supabase, data.id, [
+      ...(product.category_id ? [product.category_id] : []),
+      ...category_ids,
+    ]);
+    if (!categorised.success) return { success: false, error: categorised.error };
+  }
+
+  // Opening stock goes through the inventory ledger, per variant if it has any
+  const admin = await getCurrentUser();
+  if (variants?.length || options?.length) {
+    const saved = await saveProductVariants(
+      supabase,
+      data.id,
+      { options: options ?? [], variants: variants ?? [] },
+      admin?.id ?? null
+    );
+    if (!saved.success) return { success: false, error: saved.error };
+  } else if (inventory && inventory > 0) {
+    const stocked = await setProductInventory(supabase, data.id, inventory, {
+      note: 'Initial stock',
+      createdBy: admin?.id ?? null,
+    });
+    if (!stocked.success) return { success: false, error: stocked.error };
+  }
+
   // Insert images if provided
   if (image_urls && image_urls.length > 0) {
     const imageRows = image_urls.map((url: string, index: number) => ({
@@ -185,7 +217,9 @@ export async function createProduct(productData: {
 }
 
 /**
- * Update an existing product with images (admin only).
+ * Update an existing product with images and variants (admin only).
+ * Passing `variantData` replaces the product's options and variants;
+ * passing `category_ids` replaces its additional categories.
  */
 export async function updateProduct(
   productId: string,
@@ -195,21 +229,51 @@ export async function updateProduct(
     description: string;
     price: number;
     inventory: number;
+    weight_grams: number | null;
     category_id: string | null;
+    category_ids: string[];
     is_active: boolean;
   }>,
-  image_urls?: string[]
+  image_urls?: string[],
+  variantData?: { options: VariantOptionInput[]; variants: VariantInput[] }
 ) {
   await requireRole('admin');
   const supabase = createAdminClient();
 
-  const { error } = await supabase
+  const { inventory, category_ids, ...fields } = updates;
+
+  const { data: updated, error } = await supabase
     .from('products')
-    .update(updates)
-    .eq('id', productId);
+    .update(fields)
+    .eq('id', productId)
+    .select('category_id')
+    .single();
 
   if (error) return { success: false, error: error.message };
 
+  if (category_ids !== undefined) {
+    const categorised = await saveProductCategories(supabase, productId, [
+      ...(updated.category_id ? [updated.category_id] : []),
+      ...category_ids,
+    ]);
+    if (!categorised.success) return { success: false, error: categorised.error };
+  }
+
+  const admin = await getCurrentUser();
+  if (variantData) {
+    const saved = await saveProductVariants(supabase, productId, variantData, admin?.id ?? null);
+    if (!saved.success) return { success: false, error: saved.error };
+  }
+
+  // A changed stock count is recorded as an adjustment in the inventory ledger
+  if (inventory !== undefined) {
+    const stocked = await setProductInventory(supabase, productId, inventory, {
+      note: 'Stock count updated by admin',
+      createdBy: admin?.id ?? null,
+    });
+    if (!stocked.success) return { success: false, error: stocked.error };
+  }
+
   // Sync images if provided
   if (image_urls !== undefined) {
     // Delete existing images
@@ -234,6 +298,23 @@ export async function updateProduct(
   return { success: true };
 }
 
+/**
+ * Latest inventory movements for a product (admin only).
+ */
+export async function getInventoryMovements(productId: string, limit = 50) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from('inventory_movements')
+    .select('*, user:users(first_name, last_name, email), variant:product_variants(title)')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  return data ?? [];
+}
+
 /**
  * Delete a product (admin only). Soft-deletes by setting is_active to false.
  */
@@ -277,28 +358,38 @@ export async function createCategory(categoryData: {
   slug: string;
   description?: string;
   image_url?: string;
+  parent_id?: string | null;
 }) {
   await requireRole('admin');
   const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('categories')
-    .insert({ ...categoryData, is_active: true })
+    .insert({ ...categoryData, parent_id: categoryData.parent_id || null, is_active: true })
     .select('id')
     .single();
 
   if (error) return { success: false, error: error.message };
 
   revalidatePath('/dashboard/categories');
+  revalidatePath('/category');
   return { success: true, categoryId: data.id };
 }
 
 /**
- * Update a category (admin only).
+ * Update a category (admin only). A category cannot be moved under itself
+ * or one of its subcategories.
  */
 export async function updateCategory(
   categoryId: string,
-  updates: Partial<{ name: string; slug: string; description: string; image_url: string; is_active: boolean }>
+  updates: Partial<{
+    name: string;
+    slug: string;
+    description: string;
+    image_url: string;
+    parent_id: string | null;
+    is_active: boolean;
+  }>
 ) {
   await requireRole('admin');
   const supabase = createAdminClient();
@@ -308,68 +399,18 @@ export async function updateCategory(
     .update(updates)
     .eq('id', categoryId);
 
-  if (error) return { success: false, error: error.message };
+  if (error) {
+    if (error.message.includes('CATEGORY_CYCLE')) {
+      return { success: false, error: 'A category cannot be placed under itself or one of its subcategories.' };
+    }
+    return { success: false, error: error.message };
+  }
 
   revalidatePath('/dashboard/categories');
+  revalidatePath('/category');
   return { success: true };
 }
 
-// ─── Blocked Phones ──────────────────────────────────────────────────
-
-/**
- * Block a phone number from placing COD orders (admin only).
- */
-export async function blockPhone(phoneNumber: string, reason: string) {
-  await requireRole('admin');
-  const supabase = createAdminClient();
-
-  const { data: admin } = await supabase
-    .from('users')
-    .select('id')
-    .eq('role', 'admin')
-    .single();
-
-  const { error } = await supabase.from('blocked_phones').insert({
-    phone_number: phoneNumber,
-    reason,
-    blocked_by: admin?.id ?? null,
-  });
-
-  if (error) return { success: false, error: error.message };
-  return { success: true };
-}
-
-/**
- * Unblock a phone number (admin only).
- */
-export async function unblockPhone(phoneNumber: string) {
-  await requireRole('admin');
-  const supabase = createAdminClient();
-
-  const { error } = await supabase
-    .from('blocked_phones')
-    .delete()
-    .eq('phone_number', phoneNumber);
-
-  if (error) return { success: false, error: error.message };
-  return { success: true };
-}
-
-/**
- * Get all blocked phone numbers (admin only).
- */
-export async function getBlockedPhones() {
-  await requireRole('admin');
-  const supabase = createAdminClient();
-
-  const { data } = await supabase
-    .from('blocked_phones')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  return data ?? [];
-}
-
 // ─── Dashboard Stats ─────────────────────────────────────────────────
 
 /**
@@ -387,7 +428,7 @@ export async function getDashboardStats() {
   ] = await Promise.all([
     supabase.from('orders').select('*', { count: 'exact', head: true }),
     supabase.from('orders').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
-    supabase.from('orders').select('*', { count: 'exact', head: true }).eq('status', 'pending_confirmation'),
+    supabase.from('orders').select('*', { count: 'exact', head: true }).in('status', REVIEW_STATUSES),
     supabase.from('products').select('*', { count: 'exact', head: true }).eq('is_active', true),
   ]);
 
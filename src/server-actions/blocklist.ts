@@ -0,0 +1,226 @@
+'use server';
+
+/**
+ * Blocklist Server Actions
+ * Admin-only management of `blocked_entries`: listing/searching, creating,
+ * expiring, bulk CSV import, and the phone shortcuts used by order review.
+ */
+
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import {
+  activeEntriesFilter,
+  BLOCK_SEVERITIES,
+  BLOCKED_ENTRY_TYPES,
+  normalizeBlockedValue,
+  type BlockedEntryType,
+  type BlockSeverity,
+} from '@/lib/blocklist';
+import { createAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+const blockedEntrySchema = z
+  .object({
+    type: z.enum(BLOCKED_ENTRY_TYPES),
+    value: z.string().trim().min(1, 'Value is required'),
+    reason: z.string().trim().optional(),
+    severity: z.enum(BLOCK_SEVERITIES).default('hard_block'),
+    expires_at: z
+      .string()
+      .trim()
+      .optional()
+      .refine((v) => !v || !Number.isNaN(Date.parse(v)), 'Invalid expiry date'),
+  })
+  .refine(
+    (entry) => entry.type !== 'phone' || /^01[3-9]\d{8}$/.test(normalizeBlockedValue('phone', entry.value)),
+    { message: 'Invalid Bangladesh phone number', path: ['value'] }
+  );
+
+export type BlockedEntryInput = z.input<typeof blockedEntrySchema>;
+
+function toRow(entry: z.output<typeof blockedEntrySchema>, createdBy: string | null) {
+  return {
+    type: entry.type,
+    value: normalizeBlockedValue(entry.type, entry.value),
+    reason: entry.reason || null,
+    severity: entry.severity,
+    expires_at: entry.expires_at ? new Date(entry.expires_at).toISOString() : null,
+    created_by: createdBy,
+  };
+}
+
+// ─── Entries ─────────────────────────────────────────────────────────
+
+/**
+ * Get blocklist entries with search, filtering and pagination (admin only).
+ */
+export async function getBlockedEntries(params?: {
+  search?: string;
+  type?: BlockedEntryType;
+  status?: 'active' | 'expired' | 'all';
+  page?: number;
+  perPage?: number;
+}) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const page = params?.page ?? 1;
+  const perPage = params?.perPage ?? 25;
+  const from = (page - 1) * perPage;
+  const to = from + perPage - 1;
+  const status = params?.status ?? 'active';
+
+  let query = supabase
+    .from('blocked_entries')
+    .select('*, creator:users(id, email, first_name, last_name)', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (params?.type) {
+    query = query.eq('type', params.type);
+  }
+
+  if (params?.search?.trim()) {
+    query = query.ilike('value', `%${params.search.trim()}%`);
+  }
+
+  if (status === 'active') {
+    query = query.or(activeEntriesFilter());
+  } else if (status === 'expired') {
+    query = query.lte('expires_at', new Date().toISOString());
+  }
+
+  const { data, count } = await query;
+  const now = Date.now();
+
+  return {
+    entries: (data ?? []).map((entry) => ({
+      ...entry,
+      is_expired: !!entry.expires_at && new Date(entry.expires_at).getTime() <= now,
+    })),
+    total: count ?? 0,
+    page,
+    perPage,
+    totalPages: Math.ceil((count ?? 0) / perPage),
+  };
+}
+
+/**
+ * Add a blocklist entry (admin only).
+ */
+export async function createBlockedEntry(input: BlockedEntryInput) {
+  await requireRole('admin');
+
+  const parsed = blockedEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid entry' };
+  }
+
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const { data, error } = await supabase
+    .from('blocked_entries')
+    .insert(toRow(parsed.data, admin?.id ?? null))
+    .select('id')
+    .single();
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath('/admin/blocklist');
+  return { success: true, entryId: data.id };
+}
+
+/**
+ * Expire a blocklist entry immediately (admin only).
+ * Entries are kept for history rather than deleted.
+ */
+export async function expireBlockedEntry(entryId: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('blocked_entries')
+    .update({ expires_at: new Date().toISOString() })
+    .eq('id', entryId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath('/admin/blocklist');
+  return { success: true };
+}
+
+/**
+ * Bulk-import entries from CSV text (admin only).
+ * Columns: type,value,reason,severity,expires_at — a header row and lines
+ * starting with "#" are skipped. Valid rows are imported even if others fail.
+ */
+export async function importBlockedEntries(csv: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const rows: ReturnType<typeof toRow>[] = [];
+  const errors: { line: number; error: string }[] = [];
+
+  csv.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || /^type\s*,/i.test(line)) return;
+
+    const [type, value, reason, severity, expires_at] = line.split(',').map((c) => c.trim());
+    const parsed = blockedEntrySchema.safeParse({
+      type,
+      value,
+      reason: reason || undefined,
+      severity: severity || undefined,
+      expires_at: expires_at || undefined,
+    });
+
+    if (parsed.success) {
+      rows.push(toRow(parsed.data, admin?.id ?? null));
+    } else {
+      errors.push({ line: index + 1, error: parsed.error.issues[0]?.message ?? 'Invalid row' });
+    }
+  });
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('blocked_entries').insert(rows);
+    if (error) return { success: false, error: error.message, imported: 0, errors };
+  }
+
+  revalidatePath('/admin/blocklist');
+  return { success: true, imported: rows.length, errors };
+}
+
+// ─── Phone Shortcuts ─────────────────────────────────────────────────
+
+/**
+ * Block a phone number from placing COD orders (admin only).
+ */
+export async function blockPhone(
+  phoneNumber: string,
+  reason: string,
+  severity: BlockSeverity = 'hard_block'
+) {
+  return createBlockedEntry({ type: 'phone', value: phoneNumber, reason, severity });
+}
+
+/**
+ * Unblock a phone number by expiring its active entries (admin only).
+ */
+export async function unblockPhone(phoneNumber: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('blocked_entries')
+    .update({ expires_at: new Date().toISOString() })
+    .eq('type', 'phone')
+    .eq('value', normalizeBlockedValue('phone', phoneNumber))
+    .or(activeEntriesFilter());
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath('/admin/blocklist');
+  return { success: true };
+}
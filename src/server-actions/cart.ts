@@ -7,6 +7,7 @@
  * guest sessions (via a cookie-based session ID).
  */
 
+import { reserveCartInventory } from '@/lib/inventory';
 import { createAdminClient } from '@/lib/supabase/server';
 import { auth } from '@clerk/nextjs/server';
 import { revalidatePath } from 'next/cache';
@@ -60,7 +61,7 @@ export async function getCart() {
   const sessionId = await getCartSessionId();
 
 
-  const selectQuery = '*, items:cart_items(*, product:products(id, name, slug, price, inventory, images:product_images(url, display_order)))';
+  const selectQuery = '*, items:cart_items(*, product:products(id, name, slug, price, inventory, weight_grams, images:product_images(url, display_order)), variant:product_variants(id, sku, title, price, inventory, image_urls))';
 
   // Try by user_id first, then session_id
   if (internalUserId) {
@@ -95,26 +96,34 @@ export async function getCart() {
   return sessionCart;
 }
 
+/**
+ * Looks up a cart's line for a product and variant (null for simple products).
+ */
+function findCartItem(supabase: any, cartId: string, productId: string, variantId: string | null) {
+  const query = supabase
+    .from('cart_items')
+    .select('id, quantity')
+    .eq('cart_id', cartId)
+    .eq('product_id', productId);
+
+  return (variantId ? query.eq('variant_id', variantId) : query.is('variant_id', null)).maybeSingle();
+}
+
 /**
  * Merges items from a guest session cart into the authenticated user's cart.
  */
 async function mergeSessionCart(supabase: any, userCartId: string, sessionId: string) {
   const { data: sessionCart } = await supabase
     .from('carts')
-    .select('id, items:cart_items(product_id, quantity)')
+    .select('id, items:cart_items(product_id, variant_id, quantity)')
     .eq('session_id', sessionId)
     .single();
 
   if (!sessionCart || sessionCart.id === userCartId) return;
 
-  // Merge each item
+  // Merge each item (same product and variant)
   for (const item of sessionCart.items || []) {
-    const { data: existing } = await supabase
-      .from('cart_items')
-      .select('id, quantity')
-      .eq('cart_id', userCartId)
-      .eq('product_id', item.product_id)
-      .single();
+    const { data: existing } = await findCartItem(supabase, userCartId, item.product_id, item.variant_id);
 
     if (existing) {
       await supabase
@@ -125,6 +134,7 @@ async function mergeSessionCart(supabase: any, userCartId: string, sessionId: st
       await supabase.from('cart_items').insert({
         cart_id: userCartId,
         product_id: item.product_id,
+        variant_id: item.variant_id,
         quantity: item.quantity,
       });
     }
@@ -136,12 +146,27 @@ async function mergeSessionCart(supabase: any, userCartId: string, sessionId: st
 
 /**
  * Adds a product to the cart. Creates a cart if none exists.
+ * Products with variants must be added as one of their active variants.
  */
-export async function addToCart(productId: string, quantity: number = 1) {
+export async function addToCart(productId: string, quantity: number = 1, variantId?: string) {
   const supabase = createAdminClient();
   const internalUserId = await resolveUserId(supabase);
   const sessionId = await getCartSessionId();
 
+  // 0. The variant must belong to the product, and is required if it has any
+  const { data: variants } = await supabase
+    .from('product_variants')
+    .select('id')
+    .eq('product_id', productId)
+    .eq('is_active', true);
+
+  if (variantId && !variants?.some((v) => v.id === variantId)) {
+    return { success: false as const, error: 'This option is no longer available' };
+  }
+  if (!variantId && variants?.length) {
+    return { success: false as const, error: 'Please choose an option first' };
+  }
+
   // 1. Find or create the cart
   let cartQuery = supabase.from('carts').select('id');
   if (internalUserId) {
@@ -169,12 +194,7 @@ export async function addToCart(productId: string, quantity: number = 1) {
   }
 
   // 2. Upsert the item
-  const { data: existingItem } = await supabase
-    .from('cart_items')
-    .select('id, quantity')
-    .eq('cart_id', cartId)
-    .eq('product_id', productId)
-    .single();
+  const { data: existingItem } = await findCartItem(supabase, cartId, productId, variantId ?? null);
 
   if (existingItem) {
     await supabase
@@ -185,12 +205,13 @@ export async function addToCart(productId: string, quantity: number = 1) {
     await supabase.from('cart_items').insert({
       cart_id: cartId,
       product_id: productId,
+      variant_id: variantId ?? null,
       quantity,
     });
   }
 
   revalidatePath('/cart');
-  return { success: true };
+  return { success: true as const };
 }
 
 /**
@@ -228,3 +249,17 @@ export async function getCartItemCount(): Promise<number> {
   if (!cart || !cart.items) return 0;
   return cart.items.reduce((sum: number, item: any) => sum + item.quantity, 0);
 }
+
+/**
+ * Holds the cart's stock while the customer checks out. The hold lapses
+ * after a few minutes if no order is placed; returns the expiry, or the
+ * item that is no longer available.
+ */
+export async function reserveCheckoutStock() {
+  const cart = await getCart();
+  if (!cart || !cart.items || cart.items.length === 0) {
+    return { success: false as const, error: 'Cart is empty' };
+  }
+
+  return reserveCartInventory(createAdminClient(), cart.id);
+}
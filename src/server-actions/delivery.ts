@@ -0,0 +1,99 @@
+'use server';
+
+/**
+ * Delivery Server Actions
+ * Delivery fee quotes for the cart and checkout, and admin management of
+ * the delivery zones those quotes are calculated from.
+ */
+
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import {
+  calculateDeliveryFee,
+  DELIVERY_ZONE_KEYS,
+  deliveryLineItems,
+  deliveryZoneSchema,
+  invalidateDeliveryZonesCache,
+  loadDeliveryZones,
+  parseDeliveryZones,
+  quoteDelivery,
+  type DeliveryAddress,
+  type DeliveryZoneInput,
+  type DeliveryZoneKey,
+} from '@/lib/delivery-pricing';
+import { createAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { getCart } from './cart';
+
+// ─── Quotes ──────────────────────────────────────────────────────────
+
+/**
+ * Quote the delivery fee for the current cart to an address.
+ * Returns null when the cart is empty.
+ */
+export async function getDeliveryQuote(address?: DeliveryAddress) {
+  const cart = await getCart();
+  if (!cart || !cart.items || cart.items.length === 0) return null;
+
+  return quoteDelivery(createAdminClient(), cart.items, address);
+}
+
+/**
+ * Quote the current cart for every zone, for summaries shown before the
+ * customer has entered an address.
+ */
+export async function getDeliveryQuotesByZone() {
+  const cart = await getCart();
+  if (!cart || !cart.items || cart.items.length === 0) return [];
+
+  const zones = await loadDeliveryZones(createAdminClient());
+  const items = deliveryLineItems(cart.items);
+
+  return zones
+    .map((zone) => calculateDeliveryFee(zone, items))
+    .sort((a, b) => a.fee - b.fee);
+}
+
+// ─── Zones ───────────────────────────────────────────────────────────
+
+/**
+ * Get all delivery zones, bypassing the pricing cache (admin only).
+ */
+export async function getDeliveryZones() {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data } = await supabase.from('delivery_zones').select('*');
+
+  return parseDeliveryZones(data ?? []);
+}
+
+/**
+ * Update a delivery zone's pricing (admin only).
+ */
+export async function updateDeliveryZone(key: DeliveryZoneKey, input: DeliveryZoneInput) {
+  await requireRole('admin');
+
+  if (!DELIVERY_ZONE_KEYS.includes(key)) {
+    return { success: false, error: 'Unknown delivery zone' };
+  }
+
+  const parsed = deliveryZoneSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid delivery zone' };
+  }
+
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const { error } = await supabase
+    .from('delivery_zones')
+    .upsert({ key, ...parsed.data, updated_by: admin?.id ?? null }, { onConflict: 'key' });
+
+  if (error) return { success: false, error: error.message };
+
+  invalidateDeliveryZonesCache();
+  revalidatePath('/admin/delivery');
+  revalidatePath('/cart');
+  revalidatePath('/checkout');
+  return { success: true };
+}
@@ -3,11 +3,18 @@
 /**
  * Order Server Actions
  * Handles the full COD order lifecycle:
- * Cart → Risk Check → Order Creation → Admin Confirmation → Steadfast → Delivery
+ * Cart → Risk Check → Order Creation → Admin Confirmation → Courier → Delivery
  */
 
+import { hasVerifiedSavedPhone, rememberCheckoutAddress } from '@/lib/addresses';
+import { quoteDelivery } from '@/lib/delivery-pricing';
+import { cartFingerprint, isPhoneVerificationValid } from '@/lib/otp';
+import { getClientIp } from '@/lib/request';
 import { RiskEngine } from '@/lib/risk-engine';
+import { loadRiskRules } from '@/lib/risk-rules';
 import { createAdminClient, createClient } from '@/lib/supabase/server';
+import { shippingAddressSchema, type ShippingAddressInput } from '@/lib/validations/address';
+import { unitPrice } from '@/lib/variants';
 import type { OrderStatus } from '@/types/db';
 import { auth } from '@clerk/nextjs/server';
 import { revalidatePath } from 'next/cache';
@@ -16,14 +23,22 @@ import { getCart } from './cart';
 export interface CheckoutFormData {
   phoneNumber: string;
   recipientName: string;
-  shippingAddress: {
-    address: string;
-    city: string;
-    area: string;
-    note?: string;
-  };
+  shippingAddress: Omit<ShippingAddressInput, 'fullName' | 'phone'>;
+  /**
+   * Id returned by verifyPhoneOtp. Required unless the phone belongs to one
+   * of the customer's saved addresses verified on an earlier order.
+   */
+  phoneVerificationId?: string;
+  /** Fee shown to the customer; the order is rejected if pricing changed since. */
+  quotedDeliveryFee?: number;
+  /** Generated once per checkout attempt; repeat submissions return the original order. */
+  idempotencyKey?: string;
+  /** Add the address to the customer's address book (signed-in customers only). */
+  saveAddress?: boolean;
 }
 
+const IDEMPOTENCY_KEY_REGEX = /^[\w-]{8,100}$/;
+
 /**
  * Resolves the internal Supabase user UUID from the Clerk auth ID.
  */
@@ -40,49 +55,188 @@ async function resolveUserId(supabase: any): Promise<string | null> {
   return user?.id ?? null;
 }
 
+/**
+ * Maps place_cod_order exceptions to customer-facing messages.
+ */
+function placeOrderErrorMessage(message?: string): string {
+  if (!message) return 'Failed to place order. Please try again.';
+  if (message.includes('CART_EMPTY')) return 'Cart is empty';
+
+  const stock = message.match(/(?:INSUFFICIENT_INVENTORY|PRODUCT_UNAVAILABLE): (.+)/);
+  if (stock) return `"${stock[1]}" is no longer available in the requested quantity.`;
+
+  const variant = message.match(/VARIANT_REQUIRED: (.+)/);
+  if (variant) return `Please choose an option for "${variant[1]}" in your cart.`;
+
+  if (message.includes('PHONE_VERIFICATION_USED')) {
+    return 'Phone verification was already used. Please verify again.';
+  }
+  return 'Failed to place order: ' + message;
+}
+
 /**
  * Creates a Cash on Delivery order:
- * 1. Validates the cart
- * 2. Checks inventory
- * 3. Runs fraud/risk analysis
- * 4. Creates the order + order_items atomically
- * 5. Clears the cart
+ * 1. Validates and normalises the structured address, then the cart
+ * 2. Checks inventory and the daily order limit
+ * 3. Prices delivery by zone and checks it against the quoted fee
+ * 4. Requires a verified phone — a fresh OTP for this phone and cart, or
+ *    the phone of a saved address verified on an earlier order — then runs
+ *    fraud/risk analysis (blocklist, velocity, history, new address, OTP
+ *    credit)
+ * 5. Places the order via place_cod_order — order, items, stock sale
+ *    movements (other carts' checkout holds count as taken), risk
+ *    assessment, status history and cart clearing happen in one
+ *    transaction, so an order is either fully placed or not at all
+ * 6. Remembers the address in the customer's address book
+ *
+ * Submissions sharing an idempotency key resolve to the same order.
  */
 export async function createCodOrder(formData: CheckoutFormData) {
   const supabase = createAdminClient();
+
+  // 0. Repeat submission (double click / retried action): return the original order
+  const idempotencyKey = formData.idempotencyKey?.trim() || null;
+  if (idempotencyKey) {
+    if (!IDEMPOTENCY_KEY_REGEX.test(idempotencyKey)) {
+      return { success: false, error: 'Invalid idempotency key' };
+    }
+
+    const existingId = await findOrderByIdempotencyKey(supabase, idempotencyKey);
+    if (existingId) return { success: true, orderId: existingId };
+  }
+
+  const result = await placeCodOrder(supabase, formData, idempotencyKey);
+
+  // A repeat that raced the original past the check above finds the cart
+  // already cleared (or its verification used) — return the original order
+  if (!result.success && idempotencyKey) {
+    const existingId = await findOrderByIdempotencyKey(supabase, idempotencyKey);
+    if (existingId) return { success: true, orderId: existingId };
+  }
+
+  return result;
+}
+
+/**
+ * The order already placed with this idempotency key, if any.
+ */
+async function findOrderByIdempotencyKey(supabase: any, idempotencyKey: string): Promise<string | null> {
+  const { data: existing } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  return existing?.id ?? null;
+}
+
+/**
+ * Steps 1–8 of createCodOrder for a submission not yet seen.
+ */
+async function placeCodOrder(
+  supabase: any,
+  formData: CheckoutFormData,
+  idempotencyKey: string | null
+): Promise<{ success: true; orderId: string } | { success: false; error: string }> {
   const internalUserId = await resolveUserId(supabase);
 
-  // 1. Get Cart
+  // 1. Validate + normalise the address, then the cart
+  const parsedAddress = shippingAddressSchema.safeParse({
+    ...formData.shippingAddress,
+    fullName: formData.recipientName,
+    phone: formData.phoneNumber,
+  });
+  if (!parsedAddress.success) {
+    return { success: false, error: parsedAddress.error.issues[0]?.message ?? 'Invalid address' };
+  }
+  const shippingAddress = parsedAddress.data;
+  const phoneNumber = shippingAddress.phone;
+
   const cart = await getCart();
   if (!cart || !cart.items || cart.items.length === 0) {
     return { success: false, error: 'Cart is empty' };
   }
 
-  // 2. Validate inventory for each item
+  // 2. Validate inventory for each item (re-checked under lock when placing)
   for (const item of cart.items) {
-    if (item.product.inventory < item.quantity) {
+    const stock = item.variant ? item.variant.inventory : item.product.inventory;
+    if (stock < item.quantity) {
+      const name = item.variant ? `${item.product.name} (${item.variant.title})` : item.product.name;
       return {
         success: false,
-        error: `"${item.product.name}" only has ${item.product.inventory} units in stock.`,
+        error: `"${name}" only has ${stock} units in stock.`,
       };
     }
   }
 
-  // 3. Calculate totals
+  // 3. Daily order limit (per account, or per phone for guests)
+  const rules = await loadRiskRules(supabase);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  let dailyQuery = supabase
+    .from('orders')
+    .select('*', { count: 'exact', head: true })
+    .gte('created_at', today.toISOString())
+    .neq('status', 'cancelled');
+  dailyQuery = internalUserId
+    ? dailyQuery.eq('user_id', internalUserId)
+    : dailyQuery.eq('phone_number', phoneNumber);
+
+  const { count: dailyOrders } = await dailyQuery;
+  if ((dailyOrders ?? 0) >= rules.max_daily_orders) {
+    return {
+      success: false,
+      error: `Daily order limit reached (${rules.max_daily_orders}). Please try again tomorrow.`,
+    };
+  }
+
+  // 4. Calculate totals (delivery fee from the zone pricing shown at checkout)
   let subtotal = 0;
   for (const item of cart.items) {
-    subtotal += item.product.price * item.quantity;
+    subtotal += unitPrice(item) * item.quantity;
+  }
+  const { fee: deliveryFee } = await quoteDelivery(supabase, cart.items, shippingAddress);
+  if (formData.quotedDeliveryFee !== undefined && formData.quotedDeliveryFee !== deliveryFee) {
+    return {
+      success: false,
+      error: `Delivery fee has changed to ৳${deliveryFee}. Please review your order and try again.`,
+    };
   }
-  const deliveryFee = 80; // BDT flat rate — can be made dynamic later
   const totalAmount = subtotal + deliveryFee;
 
-  // 4. Risk Analysis
+  // 5. Phone verification is required, then risk analysis (a fresh OTP earns a risk credit)
+  const phoneVerified = formData.phoneVerificationId
+    ? await isPhoneVerificationValid(
+        supabase,
+        formData.phoneVerificationId,
+        phoneNumber,
+        cartFingerprint(cart)
+      )
+    : false;
+
+  if (formData.phoneVerificationId && !phoneVerified) {
+    return {
+      success: false,
+      error: 'Phone verification expired or does not match this order. Please verify again.',
+    };
+  }
+
+  if (
+    !phoneVerified &&
+    !(internalUserId && (await hasVerifiedSavedPhone(supabase, internalUserId, phoneNumber)))
+  ) {
+    return { success: false, error: 'Please verify your phone number before placing the order.' };
+  }
+
   const riskEngine = new RiskEngine(supabase);
   const riskResult = await riskEngine.evaluateOrder(
     internalUserId,
-    formData.phoneNumber,
+    phoneNumber,
     totalAmount,
-    formData.shippingAddress
+    shippingAddress,
+    await getClientIp(),
+    phoneVerified
   );
 
   if (riskResult.blocked) {
@@ -92,72 +246,45 @@ export async function createCodOrder(formData: CheckoutFormData) {
     };
   }
 
-  // 5. Determine initial status based on risk
+  // 6. Determine initial status based on risk
   const initialStatus: OrderStatus = riskResult.flagged
     ? 'pending_confirmation'
     : 'pending';
 
-  // 6. Create Order
-  const { data: order, error: orderError } = await supabase
-    .from('orders')
-    .insert({
-      user_id: internalUserId,
-      total_amount: totalAmount,
-      delivery_fee: deliveryFee,
-      status: initialStatus,
-      shipping_address: formData.shippingAddress,
-      phone_number: formData.phoneNumber,
-      admin_notes: riskResult.flagged
-        ? `⚠️ Flagged (score: ${riskResult.score}): ${riskResult.factors.map((f) => f.factor).join(', ')}`
-        : null,
-    })
-    .select('id')
-    .single();
-
-  if (orderError || !order) {
-    return { success: false, error: 'Failed to create order: ' + (orderError?.message ?? 'Unknown') };
-  }
+  // 7. Place the order atomically
+  const { data: orderId, error: placeError } = await supabase.rpc('place_cod_order', {
+    p_cart_id: cart.id,
+    p_user_id: internalUserId,
+    p_status: initialStatus,
+    p_phone: phoneNumber,
+    p_shipping_address: shippingAddress,
+    p_delivery_fee: deliveryFee,
+    p_admin_notes: riskResult.flagged
+      ? `⚠️ Flagged (score: ${riskResult.score}): ${riskResult.factors.map((f) => f.factor).join(', ')}`
+      : null,
+    p_history_note: riskResult.flagged ? 'Auto-flagged by risk engine' : 'Order placed via COD',
+    p_risk_score: riskResult.score,
+    p_risk_factors: riskResult.factors,
+    p_risk_action: riskResult.action,
+    p_phone_verification_id: phoneVerified ? formData.phoneVerificationId : null,
+    p_idempotency_key: idempotencyKey,
+  });
 
-  // 7. Create Order Items + Decrement Inventory
-  const orderItems = cart.items.map((item: any) => ({
-    order_id: order.id,
-    product_id: item.product.id,
-    quantity: item.quantity,
-    price_at_purchase: item.product.price,
-  }));
-
-  const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-  if (itemsError) {
-    // Rollback: delete the order
-    await supabase.from('orders').delete().eq('id', order.id);
-    return { success: false, error: 'Failed to save order items' };
+  if (placeError || !orderId) {
+    return { success: false, error: placeOrderErrorMessage(placeError?.message) };
   }
 
-  // Decrement inventory
-  for (const item of cart.items) {
-    await supabase.rpc('decrement_inventory', {
-      p_product_id: item.product.id,
-      p_quantity: item.quantity,
-    }).then(({ error }: any) => {
-      if (error) {
-        console.error('Inventory decrement failed for', item.product.id, error);
-      }
+  // 8. Address book: mark a reused address as used, or save a new one
+  if (internalUserId) {
+    await rememberCheckoutAddress(supabase, internalUserId, shippingAddress, {
+      save: !!formData.saveAddress,
+      phoneVerified,
     });
   }
 
-  // 8. Record initial status history
-  await supabase.from('order_status_history').insert({
-    order_id: order.id,
-    status: initialStatus,
-    notes: riskResult.flagged ? 'Auto-flagged by risk engine' : 'Order placed via COD',
-  });
-
-  // 9. Clear Cart
-  await supabase.from('cart_items').delete().eq('cart_id', cart.id);
-
   revalidatePath('/cart');
   revalidatePath('/profile');
-  return { success: true, orderId: order.id };
+  return { success: true, orderId: orderId as string };
 }
 
 /**
@@ -178,7 +305,7 @@ export async function getUserOrders() {
 
   const { data: orders } = await supabase
     .from('orders')
-    .select('*, items:order_items(*, product:products(id, name, slug, price, image_url))')
+    .select('*, items:order_items(*, product:products(id, name, slug, price, image_url)), shipment:shipments(provider, tracking_code, status)')
     .eq('user_id', user.id)
     .order('created_at', { ascending: false });
 
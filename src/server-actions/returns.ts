@@ -0,0 +1,201 @@
+'use server';
+
+/**
+ * Return Server Actions
+ * Admin handling of orders that came back: recording a return or refusal
+ * with a reason code, restocking returned items, and the returns / loss
+ * ledger overview. The transactional work lives in @/lib/returns.
+ */
+
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import {
+  RETURN_OUTCOMES,
+  RETURN_REASON_CODES,
+  recordOrderReturn,
+  restockReturnItems,
+} from '@/lib/returns';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { ReturnOutcome } from '@/types/db';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+const restockSchema = z.array(
+  z.object({
+    orderItemId: z.string().uuid(),
+    quantity: z.number().int().min(0),
+  })
+);
+
+const returnSchema = z.object({
+  orderId: z.string().uuid('Invalid order'),
+  outcome: z.enum(RETURN_OUTCOMES),
+  reasonCode: z.enum(RETURN_REASON_CODES),
+  notes: z.string().trim().max(500).optional(),
+  returnFee: z.number().min(0, 'Return fee cannot be negative'),
+  restock: restockSchema.default([]),
+});
+
+export type OrderReturnFormInput = z.input<typeof returnSchema>;
+
+function revalidateReturns() {
+  revalidatePath('/admin/orders');
+  revalidatePath('/admin/returns');
+  revalidatePath('/admin/products');
+}
+
+// ─── Recording ───────────────────────────────────────────────────────
+
+/**
+ * Order, items, shipment and any existing return for the return form
+ * (admin only).
+ */
+export async function getOrderForReturn(orderId: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select(
+      'id, status, total_amount, delivery_fee, phone_number, created_at, user:users(first_name, last_name, email, refused_orders, returned_orders), items:order_items(id, product_id, variant_id, quantity, price_at_purchase, variant_label, product:products(id, name, inventory), variant:product_variants(inventory)), shipment:shipments(id, provider, consignment_id, delivery_fee)'
+    )
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (!order) return null;
+
+  const { data: orderReturn } = await supabase
+    .from('order_returns')
+    .select('*, items:order_return_items(order_item_id, quantity)')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  // Stock already put back by a cancellation cannot be restocked again
+  const { data: released } = await supabase
+    .from('inventory_movements')
+    .select('product_id, variant_id, quantity_change')
+    .eq('order_id', orderId)
+    .eq('reason', 'cancel');
+
+  return { order, orderReturn, released: released ?? [] };
+}
+
+/**
+ * Marks an order returned or refused with a reason code (admin only),
+ * optionally restocking items and booking the return fee as a loss.
+ */
+export async function recordReturn(input: OrderReturnFormInput) {
+  await requireRole('admin');
+
+  const validated = returnSchema.safeParse(input);
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message ?? 'Invalid return' };
+  }
+
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const result = await recordOrderReturn(supabase, {
+    ...validated.data,
+    source: 'admin',
+    recordedBy: admin?.id ?? null,
+  });
+  if (!result.success) return result;
+
+  revalidateReturns();
+  return { success: true, returnId: result.returnId };
+}
+
+/**
+ * Puts more of a returned order's items back into stock (admin only).
+ */
+export async function restockReturn(returnId: string, lines: z.input<typeof restockSchema>) {
+  await requireRole('admin');
+
+  const validated = restockSchema.safeParse(lines);
+  if (!validated.success) {
+    return { success: false, error: 'Invalid restock quantities' };
+  }
+
+  const supabase = createAdminClient();
+  const result = await restockReturnItems(supabase, returnId, validated.data);
+  if (!result.success) return result;
+
+  revalidateReturns();
+  return { success: true, restocked: result.restocked };
+}
+
+// ─── Overview ────────────────────────────────────────────────────────
+
+/**
+ * Return and refusal counts, restocked units and losses for the returns
+ * page (admin only).
+ */
+export async function getReturnsOverview() {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const [{ data: returns }, { data: losses }] = await Promise.all([
+    supabase.from('order_returns').select('outcome, reason_code, restocked_units'),
+    supabase.from('loss_ledger').select('category, amount'),
+  ]);
+
+  const totals = { returned: 0, refused: 0, restockedUnits: 0, losses: 0 };
+  const byReason: Record<string, number> = {};
+
+  for (const r of returns ?? []) {
+    if (r.outcome === 'refused') totals.refused++;
+    else totals.returned++;
+    totals.restockedUnits += r.restocked_units ?? 0;
+    byReason[r.reason_code] = (byReason[r.reason_code] ?? 0) + 1;
+  }
+  for (const entry of losses ?? []) {
+    totals.losses += Number(entry.amount);
+  }
+
+  return { totals, byReason };
+}
+
+/**
+ * Lists recorded returns with their order and loss amount (admin only).
+ */
+export async function getReturns(params?: {
+  outcome?: ReturnOutcome;
+  reasonCode?: string;
+  page?: number;
+  perPage?: number;
+}) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const page = params?.page ?? 1;
+  const perPage = params?.perPage ?? 25;
+  const from = (page - 1) * perPage;
+  const to = from + perPage - 1;
+
+  let query = supabase
+    .from('order_returns')
+    .select(
+      '*, order:orders(id, total_amount, phone_number, user:users(first_name, last_name, email)), shipment:shipments(provider, consignment_id)',
+      { count: 'exact' }
+    )
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (params?.outcome) {
+    query = query.eq('outcome', params.outcome);
+  }
+
+  if (params?.reasonCode) {
+    query = query.eq('reason_code', params.reasonCode);
+  }
+
+  const { data, count } = await query;
+
+  return {
+    returns: data ?? [],
+    total: count ?? 0,
+    page,
+    perPage,
+    totalPages: Math.ceil((count ?? 0) / perPage),
+  };
+}
@@ -0,0 +1,164 @@
+'use server';
+
+/**
+ * Risk Review Server Actions
+ * Admin queue of orders held by the risk engine, with the context needed to
+ * decide on them (assessment factors, customer history, linked orders) and
+ * the one-click approve / cancel / block decisions.
+ */
+
+import { requireRole } from '@/lib/auth';
+import { REVIEW_STATUSES } from '@/lib/risk-engine';
+import { createAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { updateOrderStatus } from './admin';
+import { blockPhone } from './blocklist';
+
+const RELATED_ORDERS_LIMIT = 10;
+
+const RELATED_ORDER_COLUMNS = 'id, status, total_amount, phone_number, created_at';
+
+// ─── Queue ───────────────────────────────────────────────────────────
+
+/**
+ * Get orders awaiting risk review, oldest first, each with its stored risk
+ * assessment, the customer's past orders and other orders sharing the same
+ * phone number or shipping address (admin only).
+ */
+export async function getReviewQueue(params?: { page?: number; perPage?: number }) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const page = params?.page ?? 1;
+  const perPage = params?.perPage ?? 10;
+  const from = (page - 1) * perPage;
+  const to = from + perPage - 1;
+
+  const { data: orders, count, error } = await supabase
+    .from('orders')
+    .select(
+      '*, user:users(id, email, first_name, last_name, total_orders, delivered_orders, refused_orders, returned_orders), assessment:order_risk_assessments(*), items:order_items(quantity, price_at_purchase, variant_label, product:products(id, name))',
+      { count: 'exact' }
+    )
+    .in('status', REVIEW_STATUSES)
+    .order('created_at', { ascending: true })
+    .range(from, to);
+
+  if (error) {
+    console.error('Failed to load review queue:', error);
+    return { orders: [], total: 0, page, perPage, totalPages: 0, error: error.message };
+  }
+
+  const entries = await Promise.all(
+    (orders ?? []).map(async (order) => {
+      const address = order.shipping_address?.address as string | undefined;
+
+      const [customerOrders, phoneOrders, addressOrders] = await Promise.all([
+        order.user_id
+          ? supabase
+              .from('orders')
+              .select(RELATED_ORDER_COLUMNS)
+              .eq('user_id', order.user_id)
+              .neq('id', order.id)
+              .order('created_at', { ascending: false })
+              .limit(RELATED_ORDERS_LIMIT)
+          : Promise.resolve({ data: [] }),
+        order.phone_number
+          ? supabase
+              .from('orders')
+              .select(RELATED_ORDER_COLUMNS)
+              .eq('phone_number', order.phone_number)
+              .neq('id', order.id)
+              .order('created_at', { ascending: false })
+              .limit(RELATED_ORDERS_LIMIT)
+          : Promise.resolve({ data: [] }),
+        address
+          ? supabase
+              .from('orders')
+              .select(RELATED_ORDER_COLUMNS)
+              .contains('shipping_address', { address })
+              .neq('id', order.id)
+              .order('created_at', { ascending: false })
+              .limit(RELATED_ORDERS_LIMIT)
+          : Promise.resolve({ data: [] }),
+      ]);
+
+      // Orders by the same customer are shown separately, so only keep
+      // phone/address matches that came from other accounts or guests.
+      const ownIds = new Set((customerOrders.data ?? []).map((o: any) => o.id));
+      const addressIds = new Set((addressOrders.data ?? []).map((o: any) => o.id));
+      const linked = new Map<string, any>();
+      for (const o of [...(phoneOrders.data ?? []), ...(addressOrders.data ?? [])]) {
+        if (ownIds.has(o.id) || linked.has(o.id)) continue;
+        linked.set(o.id, {
+          ...o,
+          matched_phone: o.phone_number === order.phone_number,
+          matched_address: addressIds.has(o.id),
+        });
+      }
+
+      return {
+        ...order,
+        assessment: Array.isArray(order.assessment) ? order.assessment[0] ?? null : order.assessment,
+        customerOrders: customerOrders.data ?? [],
+        linkedOrders: Array.from(linked.values()),
+      };
+    })
+  );
+
+  return {
+    orders: entries,
+    total: count ?? 0,
+    page,
+    perPage,
+    totalPages: Math.ceil((count ?? 0) / perPage),
+    error: null,
+  };
+}
+
+// ─── Decisions ───────────────────────────────────────────────────────
+
+/**
+ * Approve a held order (moves it to confirmed).
+ */
+export async function approveFlaggedOrder(orderId: string) {
+  const result = await updateOrderStatus(orderId, 'confirmed', 'Approved after risk review');
+  if (result.success) revalidatePath('/admin/orders/review');
+  return result;
+}
+
+/**
+ * Cancel a held order.
+ */
+export async function cancelFlaggedOrder(orderId: string, reason?: string) {
+  const result = await updateOrderStatus(
+    orderId,
+    'cancelled',
+    reason ?? 'Cancelled after risk review'
+  );
+  if (result.success) revalidatePath('/admin/orders/review');
+  return result;
+}
+
+/**
+ * Block the order's phone number (hard block) and cancel the order.
+ */
+export async function blockPhoneAndCancel(orderId: string, reason?: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, phone_number')
+    .eq('id', orderId)
+    .single();
+
+  if (!order) return { success: false, error: 'Order not found' };
+  if (!order.phone_number) return { success: false, error: 'Order has no phone number' };
+
+  const blockReason = reason ?? `Blocked from risk review of order #${orderId.slice(0, 8)}`;
+  const blocked = await blockPhone(order.phone_number, blockReason);
+  if (!blocked.success) return blocked;
+
+  return cancelFlaggedOrder(orderId, `Phone blocked — ${blockReason}`);
+}
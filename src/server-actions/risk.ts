@@ -0,0 +1,98 @@
+'use server';
+
+/**
+ * Risk Server Actions
+ * Admin-only management of the fraud rules read by RiskEngine:
+ * viewing current thresholds/weights, editing them, and the change audit log.
+ */
+
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import {
+  DEFAULT_RISK_RULES,
+  invalidateRiskRulesCache,
+  parseRiskRules,
+  RISK_RULE_KEYS,
+  riskRulesSchema,
+  type RiskRules,
+} from '@/lib/risk-rules';
+import { createAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+
+// ─── Risk Rules ──────────────────────────────────────────────────────
+
+/**
+ * Get the current risk rule set, bypassing the engine cache (admin only).
+ */
+export async function getRiskRules(): Promise<RiskRules> {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data } = await supabase.from('risk_rules').select('key, value');
+
+  return data ? parseRiskRules(data) : { ...DEFAULT_RISK_RULES };
+}
+
+/**
+ * Update risk rules (admin only).
+ * Validates the full rule set, writes only the changed keys, and records
+ * each change in risk_rule_changes.
+ */
+export async function updateRiskRules(values: RiskRules) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const parsed = riskRulesSchema.safeParse(values);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues[0]?.message ?? 'Invalid risk rules',
+      fieldErrors: Object.fromEntries(
+        parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message])
+      ) as Partial<Record<keyof RiskRules, string>>,
+    };
+  }
+
+  const admin = await getCurrentUser();
+  const current = await getRiskRules();
+
+  const changedKeys = RISK_RULE_KEYS.filter((key) => current[key] !== parsed.data[key]);
+  if (changedKeys.length === 0) {
+    return { success: true, changed: 0 };
+  }
+
+  const { error } = await supabase.from('risk_rules').upsert(
+    changedKeys.map((key) => ({ key, value: parsed.data[key] })),
+    { onConflict: 'key' }
+  );
+
+  if (error) return { success: false, error: error.message };
+
+  await supabase.from('risk_rule_changes').insert(
+    changedKeys.map((key) => ({
+      rule_key: key,
+      old_value: current[key],
+      new_value: parsed.data[key],
+      changed_by: admin?.id ?? null,
+    }))
+  );
+
+  invalidateRiskRulesCache();
+  revalidatePath('/admin/risk-rules');
+  return { success: true, changed: changedKeys.length };
+}
+
+/**
+ * Get the most recent risk rule changes with the admin who made them (admin only).
+ */
+export async function getRiskRuleChanges(limit: number = 50) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from('risk_rule_changes')
+    .select('*, admin:users(id, email, first_name, last_name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  return data ?? [];
+}
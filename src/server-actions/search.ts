@@ -0,0 +1,52 @@
+'use server';
+
+/**
+ * Search Server Actions
+ * Admin view of searches that found no products (search_misses), most
+ * frequent first, so merchandising can add products, synonyms or wording
+ * customers are looking for. Searching itself lives in @/lib/search.
+ */
+
+import { requireRole } from '@/lib/auth';
+import { createAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Zero-result searches, most searched first (admin only).
+ */
+export async function getSearchMisses(params?: { page?: number; perPage?: number }) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const page = params?.page ?? 1;
+  const perPage = params?.perPage ?? 50;
+  const from = (page - 1) * perPage;
+
+  const { data, count } = await supabase
+    .from('search_misses')
+    .select('*', { count: 'exact' })
+    .order('searches', { ascending: false })
+    .order('last_searched_at', { ascending: false })
+    .range(from, from + perPage - 1);
+
+  return {
+    misses: data ?? [],
+    total: count ?? 0,
+    totalPages: Math.ceil((count ?? 0) / perPage),
+  };
+}
+
+/**
+ * Removes a miss once it has been dealt with (admin only). It comes back
+ * if customers keep finding nothing.
+ */
+export async function dismissSearchMiss(id: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { error } = await supabase.from('search_misses').delete().eq('id', id);
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath('/admin/search');
+  return { success: true };
+}
@@ -0,0 +1,187 @@
+'use server';
+
+/**
+ * Settlement Server Actions
+ * Admin finance view of COD collected by couriers: expected vs settled
+ * amounts per shipment, payment statement imports, dispute resolution.
+ * Matching logic lives in @/lib/courier/settlement.
+ */
+
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import { COURIER_PROVIDERS, isCourierProvider } from '@/lib/courier/client';
+import { importPaymentStatement, parsePaymentStatement } from '@/lib/courier/settlement';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { CodSettlementStatus } from '@/types/db';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+const SETTLEMENT_STATUSES: CodSettlementStatus[] = ['pending', 'outstanding', 'settled', 'disputed', 'void'];
+
+const statementSchema = z.object({
+  provider: z.enum(COURIER_PROVIDERS),
+  reference: z.string().trim().min(1, 'Payment reference is required'),
+  paidAt: z
+    .string()
+    .trim()
+    .refine((v) => !Number.isNaN(Date.parse(v)), 'Invalid payment date'),
+  csv: z.string().trim().min(1, 'Paste the statement CSV'),
+});
+
+export type PaymentStatementInput = z.input<typeof statementSchema>;
+
+// ─── Overview ────────────────────────────────────────────────────────
+
+/**
+ * Totals per settlement status, latest courier balances and recent
+ * payouts for the finance page (admin only).
+ */
+export async function getSettlementOverview() {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const [{ data: settlements }, { data: balances }, { data: payouts }] = await Promise.all([
+    supabase.from('cod_settlements').select('provider, status, expected_amount, collected_amount, payout_amount'),
+    supabase.from('courier_balances').select('*').order('fetched_at', { ascending: false }).limit(50),
+    supabase.from('courier_payouts').select('*').order('paid_at', { ascending: false }).limit(10),
+  ]);
+
+  const totals = Object.fromEntries(
+    SETTLEMENT_STATUSES.map((status) => [status, { count: 0, expected: 0, collected: 0 }])
+  ) as Record<CodSettlementStatus, { count: number; expected: number; collected: number }>;
+  const outstandingByProvider: Record<string, number> = {};
+
+  for (const s of settlements ?? []) {
+    const total = totals[s.status as CodSettlementStatus];
+    if (!total) continue;
+    total.count++;
+    total.expected += Number(s.expected_amount);
+    total.collected += Number(s.collected_amount ?? 0);
+    if (s.status === 'outstanding') {
+      outstandingByProvider[s.provider] = (outstandingByProvider[s.provider] ?? 0) + Number(s.expected_amount);
+    }
+  }
+
+  // Latest snapshot per courier
+  const latestBalances = COURIER_PROVIDERS.map((provider) => ({
+    provider,
+    snapshot: (balances ?? []).find((b) => b.provider === provider) ?? null,
+    outstanding: outstandingByProvider[provider] ?? 0,
+  }));
+
+  return { totals, balances: latestBalances, payouts: payouts ?? [] };
+}
+
+/**
+ * Lists settlements with their order and consignment (admin only).
+ */
+export async function getSettlements(params?: {
+  status?: CodSettlementStatus;
+  provider?: string;
+  page?: number;
+  perPage?: number;
+}) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const page = params?.page ?? 1;
+  const perPage = params?.perPage ?? 25;
+  const from = (page - 1) * perPage;
+  const to = from + perPage - 1;
+
+  let query = supabase
+    .from('cod_settlements')
+    .select(
+      '*, order:orders(id, status, phone_number), shipment:shipments(consignment_id), payout:courier_payouts(reference)',
+      { count: 'exact' }
+    )
+    .order('updated_at', { ascending: false })
+    .range(from, to);
+
+  if (params?.status) {
+    query = query.eq('status', params.status);
+  }
+
+  if (params?.provider && isCourierProvider(params.provider)) {
+    query = query.eq('provider', params.provider);
+  }
+
+  const { data, count } = await query;
+
+  return {
+    settlements: data ?? [],
+    total: count ?? 0,
+    page,
+    perPage,
+    totalPages: Math.ceil((count ?? 0) / perPage),
+  };
+}
+
+// ─── Payouts ─────────────────────────────────────────────────────────
+
+/**
+ * Imports a courier payment statement (admin only) and settles the
+ * shipments it covers. Unmatched rows are reported back.
+ */
+export async function importCourierStatement(input: PaymentStatementInput) {
+  await requireRole('admin');
+
+  const validated = statementSchema.safeParse(input);
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message ?? 'Invalid statement' };
+  }
+
+  const { rows, errors } = parsePaymentStatement(validated.data.csv);
+  if (rows.length === 0) {
+    return { success: false, error: errors[0]?.error ?? 'No payment rows found' };
+  }
+
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const imported = await importPaymentStatement(supabase, {
+    provider: validated.data.provider,
+    reference: validated.data.reference,
+    paidAt: new Date(validated.data.paidAt).toISOString(),
+    rows,
+    importedBy: admin?.id ?? null,
+  });
+
+  if (!imported.success) return imported;
+
+  revalidatePath('/admin/finance');
+  return { success: true, ...imported.result, errors };
+}
+
+/**
+ * Marks a disputed settlement as settled after review (admin only).
+ */
+export async function resolveSettlementDispute(settlementId: string, note?: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data: settlement } = await supabase
+    .from('cod_settlements')
+    .select('status, dispute_reason')
+    .eq('id', settlementId)
+    .single();
+
+  if (!settlement) return { success: false, error: 'Settlement not found' };
+  if (settlement.status !== 'disputed') {
+    return { success: false, error: 'Only disputed settlements can be resolved' };
+  }
+
+  const { error } = await supabase
+    .from('cod_settlements')
+    .update({
+      status: 'settled',
+      dispute_reason: [settlement.dispute_reason, note?.trim() && `Resolved: ${note.trim()}`]
+        .filter(Boolean)
+        .join(' — '),
+    })
+    .eq('id', settlementId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath('/admin/finance');
+  return { success: true };
+}
@@ -0,0 +1,222 @@
+'use server';
+
+/**
+ * Shipment Server Actions
+ * Admin parcel operations: booking an order with a courier after
+ * confirmation, on-demand status checks, cancellation and courier balance.
+ * Parcel state lives in `shipments`; see @/lib/courier/shipments.
+ */
+
+import { getCurrentUser, requireRole } from '@/lib/auth';
+import { getCourierProvider, isCourierProvider } from '@/lib/courier/client';
+import {
+  bookShipment,
+  bookShipments,
+  cancelShipment,
+  refreshShipmentStatus,
+} from '@/lib/courier/shipments';
+import type { CourierProviderName } from '@/lib/courier/types';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { Order, OrderItem, Product, Shipment } from '@/types/db';
+import { revalidatePath } from 'next/cache';
+
+/** Orders accepted by one bulk booking request. */
+const MAX_BULK_ORDERS = 500;
+
+/** Labels or packing slips rendered on one print page. */
+const MAX_PRINT_ORDERS = 200;
+
+/** An order as selected by getPrintableOrders. */
+export type PrintableOrder = Pick<
+  Order,
+  'id' | 'status' | 'total_amount' | 'delivery_fee' | 'phone_number' | 'shipping_address' | 'created_at'
+> & {
+  items: (Pick<OrderItem, 'quantity' | 'price_at_purchase' | 'variant_label' | 'sku'> & {
+    product: Pick<Product, 'name' | 'weight_grams'> | null;
+  })[];
+  shipment: Pick<Shipment, 'provider' | 'consignment_id' | 'tracking_code' | 'cod_amount'> | null;
+};
+
+async function getOrderShipment(supabase: any, orderId: string): Promise<Shipment | null> {
+  const { data } = await supabase
+    .from('shipments')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  return data ?? null;
+}
+
+// ─── Parcel Booking ──────────────────────────────────────────────────
+
+/**
+ * Books a parcel with the chosen courier for a confirmed order (admin only).
+ * This should be called after admin confirms the order.
+ */
+export async function bookParcel(orderId: string, provider: CourierProviderName = 'steadfast') {
+  await requireRole('admin');
+  if (!isCourierProvider(provider)) {
+    return { success: false, error: `Unknown courier "${provider}"` };
+  }
+
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const result = await bookShipment(supabase, orderId, {
+    provider,
+    changedBy: admin?.id ?? null,
+  });
+
+  if (!result.success) return result;
+
+  revalidatePath('/admin/orders');
+  return {
+    success: true,
+    consignmentId: result.shipment.consignment_id,
+    trackingCode: result.shipment.tracking_code ?? null,
+  };
+}
+
+/**
+ * Books parcels for many confirmed orders in one go (admin only), e.g. the
+ * evening dispatch run. Returns per-order results and counts.
+ */
+export async function bookParcels(orderIds: string[], provider: CourierProviderName = 'steadfast') {
+  await requireRole('admin');
+  if (!isCourierProvider(provider)) {
+    return { success: false, error: `Unknown courier "${provider}"` };
+  }
+  if (orderIds.length === 0) {
+    return { success: false, error: 'Select at least one order' };
+  }
+  if (orderIds.length > MAX_BULK_ORDERS) {
+    return { success: false, error: `At most ${MAX_BULK_ORDERS} orders can be booked at once` };
+  }
+
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const summary = await bookShipments(supabase, orderIds, {
+    provider,
+    changedBy: admin?.id ?? null,
+  });
+
+  revalidatePath('/admin/orders');
+  return { success: true, ...summary };
+}
+
+// ─── Labels & Packing Slips ──────────────────────────────────────────
+
+/**
+ * Orders with their items and shipment, for printing shipping labels and
+ * packing slips (admin only). Returned in the requested order.
+ */
+export async function getPrintableOrders(orderIds: string[]): Promise<PrintableOrder[]> {
+  await requireRole('admin');
+  const ids = [...new Set(orderIds)].slice(0, MAX_PRINT_ORDERS);
+  if (ids.length === 0) return [];
+
+  const supabase = createAdminClient();
+  const { data } = await supabase
+    .from('orders')
+    .select(
+      'id, status, total_amount, delivery_fee, phone_number, shipping_address, created_at, items:order_items(quantity, price_at_purchase, variant_label, sku, product:products(name, weight_grams)), shipment:shipments(provider, consignment_id, tracking_code, cod_amount)'
+    )
+    .in('id', ids);
+
+  // Embeds are many-to-one (product) and one-to-one (shipment), not arrays
+  const orders = (data ?? []) as unknown as PrintableOrder[];
+  const byId = new Map(orders.map((order) => [order.id, order]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+// ─── Status Tracking ─────────────────────────────────────────────────
+
+/**
+ * Checks the courier status of an order's parcel (admin only) and updates
+ * the shipment and order accordingly.
+ */
+export async function checkParcelStatus(orderId: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const shipment = await getOrderShipment(supabase, orderId);
+  if (!shipment) {
+    return { success: false, error: 'No parcel has been booked for this order' };
+  }
+
+  const result = await refreshShipmentStatus(supabase, shipment);
+  if (!result.success) return result;
+
+  revalidatePath('/admin/orders');
+  return {
+    success: true,
+    courierStatus: result.courierStatus,
+    internalStatus: result.orderStatus,
+  };
+}
+
+// ─── Cancellation ────────────────────────────────────────────────────
+
+/**
+ * Asks the courier to cancel an order's parcel (admin only).
+ */
+export async function cancelParcel(orderId: string, reason?: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+  const admin = await getCurrentUser();
+
+  const shipment = await getOrderShipment(supabase, orderId);
+  if (!shipment) {
+    return { success: false, error: 'No parcel has been booked for this order' };
+  }
+
+  const result = await cancelShipment(supabase, shipment, reason);
+  if (!result.success) return result;
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('status')
+    .eq('id', orderId)
+    .single();
+
+  await supabase.from('order_status_history').insert({
+    order_id: orderId,
+    status: order?.status ?? 'shipped',
+    changed_by: admin?.id ?? null,
+    notes: `Parcel cancellation requested with ${shipment.provider}${reason ? `: ${reason}` : ''}`,
+  });
+
+  revalidatePath('/admin/orders');
+  return { success: true };
+}
+
+// ─── Balance ─────────────────────────────────────────────────────────
+
+/**
+ * Current merchant balance held by a courier (admin only). Each check is
+ * kept in `courier_balances` for the finance page.
+ */
+export async function getCourierBalance(provider: CourierProviderName = 'steadfast') {
+  await requireRole('admin');
+  if (!isCourierProvider(provider)) {
+    return { success: false, error: `Unknown courier "${provider}"` };
+  }
+
+  let balance;
+  try {
+    balance = await getCourierProvider(provider).getBalance();
+  } catch (error: any) {
+    return { success: false, error: `Balance check failed: ${error?.message}` };
+  }
+
+  const supabase = createAdminClient();
+  await supabase.from('courier_balances').insert({
+    provider,
+    balance: balance.currentBalance,
+    raw: balance.raw,
+  });
+
+  revalidatePath('/admin/finance');
+  return { success: true, balance: balance.currentBalance };
+}
@@ -0,0 +1,165 @@
+'use server';
+
+/**
+ * Order Tracking Server Actions
+ * Public order tracking for /track: by the order's tracking code (or the
+ * courier's), or by order number + phone. Only status information is
+ * returned — never names, addresses, phone numbers or internal notes.
+ */
+
+import { normalizePhone } from '@/lib/blocklist';
+import { COURIER_PROVIDER_LABELS } from '@/lib/courier/types';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { Order, OrderStatusHistory, Shipment } from '@/types/db';
+import { z } from 'zod';
+
+/** Customer-facing wording; review states are not revealed. */
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Order placed',
+  pending_confirmation: 'Awaiting confirmation',
+  flagged_for_review: 'Awaiting confirmation',
+  confirmed: 'Order confirmed',
+  processing: 'Being packed',
+  shipped: 'Handed to courier',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refused: 'Delivery refused',
+  returned: 'Returned',
+};
+
+const lookupSchema = z.object({
+  orderNumber: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((v) => v.replace(/^#/, ''))
+    .refine(
+      (v) => /^[0-9a-f]{8}$/.test(v) || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(v),
+      'Enter the order number shown in your confirmation (e.g. #1a2b3c4d)'
+    ),
+  phone: z
+    .string()
+    .transform(normalizePhone)
+    .refine((v) => /^01[3-9]\d{8}$/.test(v), 'Enter the phone number used for the order'),
+});
+
+export type OrderLookupInput = z.input<typeof lookupSchema>;
+
+export interface OrderTracking {
+  code: string;
+  orderNumber: string;
+  status: string;
+  statusLabel: string;
+  placedAt: string;
+  courier: {
+    name: string;
+    trackingCode: string | null;
+    status: string | null;
+    updatedAt: string | null;
+  } | null;
+  timeline: { status: string; label: string; at: string }[];
+}
+
+/** An order as selected by getOrderTracking. */
+type TrackedOrder = Pick<Order, 'id' | 'status' | 'tracking_code' | 'created_at'> & {
+  shipment: Pick<Shipment, 'provider' | 'tracking_code' | 'status' | 'status_changed_at'> | null;
+  history: Pick<OrderStatusHistory, 'status' | 'created_at'>[] | null;
+};
+
+/**
+ * Tracking details for an order's tracking code, or a courier tracking
+ * code. Returns null when nothing matches.
+ */
+export async function getOrderTracking(code: string): Promise<OrderTracking | null> {
+  const trimmed = code.trim();
+  if (!trimmed || trimmed.length > 64) return null;
+
+  const supabase = createAdminClient();
+  const fields =
+    'id, status, tracking_code, created_at, shipment:shipments(provider, tracking_code, status, status_changed_at), history:order_status_history(status, created_at)';
+
+  let { data: order } = await supabase
+    .from('orders')
+    .select(fields)
+    .eq('tracking_code', trimmed.toUpperCase())
+    .maybeSingle();
+
+  if (!order) {
+    const { data: shipment } = await supabase
+      .from('shipments')
+      .select('order_id')
+      .eq('tracking_code', trimmed)
+      .limit(1)
+      .maybeSingle();
+
+    if (shipment) {
+      ({ data: order } = await supabase.from('orders').select(fields).eq('id', shipment.order_id).maybeSingle());
+    }
+  }
+
+  if (!order) return null;
+
+  // The shipment embed is one-to-one, not an array
+  const tracked = order as unknown as TrackedOrder;
+  const shipment = tracked.shipment;
+  const history = [...(tracked.history ?? [])].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  // One entry per step: repeated statuses (e.g. courier re-syncs) are collapsed
+  const timeline: OrderTracking['timeline'] = [];
+  for (const entry of history) {
+    const label = STATUS_LABELS[entry.status] ?? entry.status;
+    if (timeline[timeline.length - 1]?.label === label) continue;
+    timeline.push({ status: entry.status, label, at: entry.created_at });
+  }
+
+  return {
+    code: tracked.tracking_code,
+    orderNumber: tracked.id.slice(0, 8),
+    status: tracked.status,
+    statusLabel: STATUS_LABELS[tracked.status] ?? tracked.status,
+    placedAt: tracked.created_at,
+    courier: shipment
+      ? {
+          name: COURIER_PROVIDER_LABELS[shipment.provider] ?? shipment.provider,
+          trackingCode: shipment.tracking_code ?? null,
+          status: shipment.status ? shipment.status.replace(/[_-]+/g, ' ') : null,
+          updatedAt: shipment.status_changed_at ?? null,
+        }
+      : null,
+    timeline,
+  };
+}
+
+/**
+ * Finds an order by its number (full id or the 8-character prefix shown to
+ * customers) and the phone number it was placed with, and returns its
+ * tracking code.
+ */
+export async function lookupOrderTracking(input: OrderLookupInput) {
+  const validated = lookupSchema.safeParse(input);
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message ?? 'Invalid details' };
+  }
+
+  const { orderNumber, phone } = validated.data;
+  const supabase = createAdminClient();
+
+  let query = supabase.from('orders').select('tracking_code').eq('phone_number', phone);
+  query =
+    orderNumber.length === 8
+      ? // The prefix is the first uuid group, so it bounds a uuid range
+        query
+          .gte('id', `${orderNumber}-0000-0000-0000-000000000000`)
+          .lte('id', `${orderNumber}-ffff-ffff-ffff-ffffffffffff`)
+      : query.eq('id', orderNumber);
+
+  const { data: orders } = await query.limit(2);
+
+  if (!orders || orders.length !== 1) {
+    return { success: false, error: 'No order found with that number and phone' };
+  }
+
+  return { success: true, code: orders[0].tracking_code as string };
+}
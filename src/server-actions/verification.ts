@@ -0,0 +1,159 @@
+'use server';
+
+/**
+ * Phone Verification Server Actions
+ * Issues and checks one-time codes that prove the customer controls the
+ * phone number used for a COD order. Codes are bound to the phone and the
+ * current cart, and sending is rate-limited per phone and per IP.
+ */
+
+import { normalizePhone } from '@/lib/blocklist';
+import {
+  cartFingerprint,
+  generateOtpCode,
+  hashOtpCode,
+  OTP_MAX_ATTEMPTS,
+  OTP_RATE_LIMITS,
+  OTP_TTL_MINUTES,
+  otpCodeMatches,
+} from '@/lib/otp';
+import { getClientIp } from '@/lib/request';
+import { getSmsProvider } from '@/lib/sms/client';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getCart } from './cart';
+
+const PHONE_REGEX = /^01[3-9]\d{8}$/;
+
+function minutesAgo(minutes: number) {
+  return new Date(Date.now() - minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Sends a verification code to the given phone number for the current cart.
+ */
+export async function requestPhoneOtp(phoneNumber: string) {
+  const phone = normalizePhone(phoneNumber);
+  if (!PHONE_REGEX.test(phone)) {
+    return { success: false, error: 'Enter a valid Bangladesh phone number (e.g. 01712345678)' };
+  }
+
+  const cart = await getCart();
+  if (!cart || !cart.items || cart.items.length === 0) {
+    return { success: false, error: 'Cart is empty' };
+  }
+
+  const supabase = createAdminClient();
+  const ip = await getClientIp();
+
+  // Rate limits
+  const { count: phoneCount } = await supabase
+    .from('phone_verifications')
+    .select('*', { count: 'exact', head: true })
+    .eq('phone', phone)
+    .gte('created_at', minutesAgo(OTP_RATE_LIMITS.perPhone.windowMinutes));
+
+  if ((phoneCount ?? 0) >= OTP_RATE_LIMITS.perPhone.max) {
+    return {
+      success: false,
+      error: `Too many codes sent to this number. Try again in ${OTP_RATE_LIMITS.perPhone.windowMinutes} minutes.`,
+    };
+  }
+
+  if (ip) {
+    const { count: ipCount } = await supabase
+      .from('phone_verifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('ip', ip)
+      .gte('created_at', minutesAgo(OTP_RATE_LIMITS.perIp.windowMinutes));
+
+    if ((ipCount ?? 0) >= OTP_RATE_LIMITS.perIp.max) {
+      return { success: false, error: 'Too many verification requests. Please try again later.' };
+    }
+  }
+
+  const code = generateOtpCode();
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000).toISOString();
+
+  const { data: verification, error } = await supabase
+    .from('phone_verifications')
+    .insert({
+      phone,
+      ip,
+      cart_hash: cartFingerprint(cart),
+      code_hash: hashOtpCode(phone, code),
+      expires_at: expiresAt,
+    })
+    .select('id')
+    .single();
+
+  if (error || !verification) {
+    return { success: false, error: 'Failed to create verification code' };
+  }
+
+  const sent = await getSmsProvider().send({
+    to: phone,
+    body: `Your Niihut verification code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes.`,
+  });
+
+  if (!sent.success) {
+    await supabase.from('phone_verifications').delete().eq('id', verification.id);
+    return { success: false, error: 'Failed to send verification code. Please try again.' };
+  }
+
+  return { success: true, expiresAt };
+}
+
+/**
+ * Checks a code for the given phone and current cart. On success returns the
+ * verification id to submit with the order.
+ */
+export async function verifyPhoneOtp(phoneNumber: string, code: string) {
+  const phone = normalizePhone(phoneNumber);
+  const cart = await getCart();
+  if (!cart) {
+    return { success: false, error: 'Cart is empty' };
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: verification } = await supabase
+    .from('phone_verifications')
+    .select('id, code_hash, attempts')
+    .eq('phone', phone)
+    .eq('cart_hash', cartFingerprint(cart))
+    .is('verified_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!verification) {
+    return { success: false, error: 'Code expired or not found. Please request a new code.' };
+  }
+
+  if (verification.attempts >= OTP_MAX_ATTEMPTS) {
+    return { success: false, error: 'Too many incorrect attempts. Please request a new code.' };
+  }
+
+  if (!otpCodeMatches(phone, code.trim(), verification.code_hash)) {
+    await supabase
+      .from('phone_verifications')
+      .update({ attempts: verification.attempts + 1 })
+      .eq('id', verification.id);
+
+    const remaining = OTP_MAX_ATTEMPTS - verification.attempts - 1;
+    return {
+      success: false,
+      error: remaining > 0
+        ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+        : 'Too many incorrect attempts. Please request a new code.',
+    };
+  }
+
+  await supabase
+    .from('phone_verifications')
+    .update({ verified_at: new Date().toISOString() })
+    .eq('id', verification.id);
+
+  return { success: true, verificationId: verification.id as string };
+}
@@ -0,0 +1,86 @@
+'use server';
+
+/**
+ * Webhook Event Server Actions
+ * Admin view of courier webhook deliveries stored in `webhook_events`, and
+ * reprocessing of events that failed or arrived before their shipment.
+ */
+
+import { requireRole } from '@/lib/auth';
+import { isCourierProvider } from '@/lib/courier/client';
+import { processWebhookEvent } from '@/lib/courier/webhooks';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { WebhookEventOutcome } from '@/types/db';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Lists received webhook events, newest first (admin only).
+ */
+export async function getWebhookEvents(params?: {
+  provider?: string;
+  outcome?: WebhookEventOutcome;
+  search?: string;
+  page?: number;
+  perPage?: number;
+}) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const page = params?.page ?? 1;
+  const perPage = params?.perPage ?? 50;
+  const from = (page - 1) * perPage;
+  const to = from + perPage - 1;
+
+  let query = supabase
+    .from('webhook_events')
+    .select('*', { count: 'exact' })
+    .order('received_at', { ascending: false })
+    .range(from, to);
+
+  if (params?.provider && isCourierProvider(params.provider)) {
+    query = query.eq('provider', params.provider);
+  }
+
+  if (params?.outcome) {
+    query = query.eq('outcome', params.outcome);
+  }
+
+  if (params?.search?.trim()) {
+    query = query.ilike('consignment_id', `%${params.search.trim()}%`);
+  }
+
+  const { data, count } = await query;
+
+  return {
+    events: data ?? [],
+    total: count ?? 0,
+    page,
+    perPage,
+    totalPages: Math.ceil((count ?? 0) / perPage),
+  };
+}
+
+/**
+ * Applies a stored webhook event again (admin only), e.g. once the missing
+ * shipment exists or after a processing failure.
+ */
+export async function reprocessWebhookEvent(eventId: string) {
+  await requireRole('admin');
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('webhook_events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) {
+    return { success: false, error: 'Webhook event not found' };
+  }
+
+  const result = await processWebhookEvent(supabase, event);
+
+  revalidatePath('/admin/webhooks');
+  revalidatePath('/admin/orders');
+  return { success: true, outcome: result.outcome };
+}
@@ -9,12 +9,16 @@ export type Json =
 export type OrderStatus = 
   | 'pending' 
   | 'pending_confirmation' 
+  | 'flagged_for_review' 
   | 'confirmed' 
   | 'processing' 
   | 'shipped' 
   | 'delivered' 
   | 'cancelled' 
-  | 'returned';
+  | 'returned' 
+  | 'refused';
+
+export type CourierProviderName = 'steadfast' | 'pathao' | 'redx';
 
 export type UserRole = 'admin' | 'customer';
 
@@ -25,6 +29,10 @@ export interface User {
   first_name?: string | null;
   last_name?: string | null;
   role: UserRole;
+  total_orders?: number | null;
+  delivered_orders?: number | null;
+  refused_orders?: number | null;
+  returned_orders?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -35,6 +43,7 @@ export interface Category {
   slug: string;
   description?: string | null;
   image_url?: string | null;
+  parent_id?: string | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -47,12 +56,72 @@ export interface Product {
   description?: string | null;
   price: number;
   inventory: number;
+  weight_grams?: number | null;
   is_active: boolean;
   category_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface ProductOption {
+  id: string;
+  product_id: string;
+  name: string;
+  option_values: string[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  sku: string;
+  title: string;
+  options: Record<string, string>;
+  price?: number | null;
+  inventory: number;
+  image_urls: string[];
+  is_active: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type InventoryMovementReason = 'sale' | 'cancel' | 'return' | 'adjustment' | 'import';
+
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string | null;
+  quantity_change: number;
+  balance_after: number;
+  reason: InventoryMovementReason;
+  order_id?: string | null;
+  note?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface InventoryReservation {
+  id: string;
+  cart_id: string;
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface SearchMiss {
+  id: string;
+  query: string;
+  searches: number;
+  last_filters?: Json | null;
+  first_searched_at: string;
+  last_searched_at: string;
+}
+
 export interface ProductImage {
   id: string;
   product_id: string;
@@ -78,6 +147,7 @@ export interface CartItem {
   id: string;
   cart_id: string;
   product_id: string;
+  variant_id?: string | null;
   quantity: number;
   created_at: string;
   updated_at: string;
@@ -93,14 +163,59 @@ export interface Order {
   phone_number?: string | null;
   delivery_fee?: number | null;
   admin_notes?: string | null;
+  verified_phone?: boolean;
+  idempotency_key?: string | null;
+  tracking_code: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface Address {
+  id: string;
+  user_id: string;
+  label?: string | null;
+  full_name: string;
+  phone: string;
+  division: string;
+  district: string;
+  upazila: string;
+  address: string;
+  note?: string | null;
+  is_default: boolean;
+  phone_verified_at?: string | null;
+  last_used_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PhoneVerification {
+  id: string;
+  phone: string;
+  ip?: string | null;
+  cart_hash: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+  verified_at?: string | null;
+  order_id?: string | null;
+  created_at: string;
+}
+
+export interface OrderRiskAssessment {
+  order_id: string;
+  risk_score: number;
+  factors: { factor: string; points: number }[] | null;
+  action: 'approve' | 'flag' | 'block' | null;
+  assessed_at: string;
+}
+
 export interface OrderItem {
   id: string;
   order_id: string;
   product_id?: string | null;
+  variant_id?: string | null;
+  variant_label?: string | null;
+  sku?: string | null;
   quantity: number;
   price_at_purchase: number;
   created_at: string;
@@ -116,6 +231,137 @@ export interface Payment {
   created_at: string;
 }
 
+export interface Shipment {
+  id: string;
+  order_id: string;
+  provider: CourierProviderName;
+  consignment_id: string;
+  tracking_code?: string | null;
+  status?: string | null;
+  cod_amount?: number | null;
+  delivery_fee?: number | null;
+  label_url?: string | null;
+  metadata?: Json | null;
+  status_changed_at?: string | null;
+  last_checked_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CourierLog {
+  id: string;
+  order_id?: string | null;
+  shipment_id?: string | null;
+  action: string;
+  request_payload?: Json | null;
+  response_payload?: Json | null;
+  status_code?: number | null;
+  error_message?: string | null;
+  created_at: string;
+}
+
+export type CodSettlementStatus = 'pending' | 'outstanding' | 'settled' | 'disputed' | 'void';
+
+export interface CodSettlement {
+  id: string;
+  shipment_id: string;
+  order_id: string;
+  provider: CourierProviderName;
+  expected_amount: number;
+  collected_amount?: number | null;
+  charge_amount?: number | null;
+  payout_amount?: number | null;
+  status: CodSettlementStatus;
+  payout_id?: string | null;
+  dispute_reason?: string | null;
+  settled_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CourierPayout {
+  id: string;
+  provider: CourierProviderName;
+  reference: string;
+  paid_at: string;
+  collected_amount: number;
+  charge_amount: number;
+  net_amount: number;
+  matched_count: number;
+  unmatched_count: number;
+  imported_by?: string | null;
+  created_at: string;
+}
+
+export interface CourierBalanceSnapshot {
+  id: string;
+  provider: CourierProviderName;
+  balance: number;
+  raw?: Json | null;
+  fetched_at: string;
+}
+
+export type WebhookEventOutcome =
+  | 'received'
+  | 'applied'
+  | 'unchanged'
+  | 'rejected'
+  | 'unknown_shipment'
+  | 'failed';
+
+export interface WebhookEvent {
+  id: string;
+  provider: CourierProviderName;
+  dedupe_key: string;
+  consignment_id?: string | null;
+  status?: string | null;
+  payload: Json;
+  outcome: WebhookEventOutcome;
+  error_message?: string | null;
+  attempts: number;
+  received_at: string;
+  processed_at?: string | null;
+}
+
+export type ReturnOutcome = 'returned' | 'refused';
+
+export interface OrderReturn {
+  id: string;
+  order_id: string;
+  shipment_id?: string | null;
+  outcome: ReturnOutcome;
+  reason_code: string;
+  notes?: string | null;
+  source: 'admin' | 'courier';
+  return_fee: number;
+  restocked_units: number;
+  recorded_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderReturnItem {
+  id: string;
+  return_id: string;
+  order_item_id: string;
+  product_id?: string | null;
+  quantity: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LossLedgerEntry {
+  id: string;
+  order_id?: string | null;
+  shipment_id?: string | null;
+  return_id?: string | null;
+  category: 'return_fee' | 'damaged_goods' | 'other';
+  amount: number;
+  description?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
 export interface OrderStatusHistory {
   id: string;
   order_id: string;
@@ -125,9 +371,29 @@ export interface OrderStatusHistory {
   created_at: string;
 }
 
-export interface BlockedPhone {
-  phone_number: string;
+export interface BlockedEntry {
+  id: string;
+  type: 'phone' | 'user_id' | 'address_keyword' | 'ip';
+  value: string;
   reason?: string | null;
+  severity: 'hard_block' | 'flag_only';
+  expires_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface RiskRule {
+  key: string;
+  value: Json;
+  description?: string | null;
+  updated_at: string;
+}
+
+export interface RiskRuleChange {
+  id: string;
+  rule_key: string;
+  old_value?: Json | null;
+  new_value: Json;
+  changed_by?: string | null;
   created_at: string;
-  blocked_by?: string | null;
 }
@@ -9,35 +9,6 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      blocked_phones: {
-        Row: {
-          blocked_by: string | null
-          created_at: string | null
-          phone_number: string
-          reason: string | null
-        }
-        Insert: {
-          blocked_by?: string | null
-          created_at?: string | null
-          phone_number: string
-          reason?: string | null
-        }
-        Update: {
-          blocked_by?: string | null
-          created_at?: string | null
-          phone_number?: string
-          reason?: string | null
-        }
-        Relationships: [
-          {
-            foreignKeyName: "blocked_phones_blocked_by_fkey"
-            columns: ["blocked_by"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
-        ]
-      }
       cart_items: {
         Row: {
           cart_id: string | null
@@ -0,0 +1,32 @@
+-- Configurable Risk Rules Migration
+-- Seeds the point weights that were previously hardcoded in RiskEngine and
+-- adds an audit trail for admin edits to risk_rules.
+
+-- 1. Seed additional rule keys (existing values are left untouched)
+INSERT INTO risk_rules (key, value, description) VALUES
+('high_value_penalty', '20', 'Risk points for orders above high_value_threshold'),
+('new_user_window_hours', '24', 'Accounts younger than this many hours receive new_user_penalty'),
+('velocity_penalty_low', '10', 'Risk points when a phone has 2 active orders in 24h'),
+('velocity_penalty_high', '40', 'Risk points when a phone has 3+ active orders in 24h'),
+('blocked_phone_penalty', '100', 'Risk points when the phone number is blocklisted')
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. RISK RULE CHANGES Table (Audit Log)
+CREATE TABLE IF NOT EXISTS risk_rule_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rule_key TEXT NOT NULL REFERENCES risk_rules(key) ON DELETE CASCADE,
+    old_value JSONB,
+    new_value JSONB NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_rule_changes_created_at ON risk_rule_changes(created_at DESC);
+
+-- 3. RLS
+ALTER TABLE risk_rule_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins view risk rule changes" ON risk_rule_changes
+    FOR SELECT USING (
+        is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text))
+    );
@@ -0,0 +1,55 @@
+-- Customer Delivery History Migration
+-- Maintains users.delivered_orders / refused_orders / returned_orders and
+-- seeds the rules used by the RiskEngine delivery-history factor.
+
+-- 1. Atomic counter update for a single order status transition
+CREATE OR REPLACE FUNCTION record_order_outcome(p_user_id UUID, p_old_status TEXT, p_new_status TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_user_id IS NULL OR p_old_status IS NOT DISTINCT FROM p_new_status THEN
+        RETURN;
+    END IF;
+
+    UPDATE users SET
+        delivered_orders = GREATEST(0, COALESCE(delivered_orders, 0)
+            + (CASE WHEN p_new_status = 'delivered' THEN 1 ELSE 0 END)
+            - (CASE WHEN p_old_status = 'delivered' THEN 1 ELSE 0 END)),
+        refused_orders = GREATEST(0, COALESCE(refused_orders, 0)
+            + (CASE WHEN p_new_status = 'refused' THEN 1 ELSE 0 END)
+            - (CASE WHEN p_old_status = 'refused' THEN 1 ELSE 0 END)),
+        returned_orders = GREATEST(0, COALESCE(returned_orders, 0)
+            + (CASE WHEN p_new_status = 'returned' THEN 1 ELSE 0 END)
+            - (CASE WHEN p_old_status = 'returned' THEN 1 ELSE 0 END))
+    WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_order_outcome(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 2. Backfill counters from existing orders
+UPDATE users u SET
+    delivered_orders = s.delivered,
+    refused_orders = s.refused,
+    returned_orders = s.returned
+FROM (
+    SELECT
+        user_id,
+        COUNT(*) FILTER (WHERE status = 'delivered') AS delivered,
+        COUNT(*) FILTER (WHERE status = 'refused') AS refused,
+        COUNT(*) FILTER (WHERE status = 'returned') AS returned
+    FROM orders
+    WHERE user_id IS NOT NULL
+    GROUP BY user_id
+) s
+WHERE u.id = s.user_id;
+
+-- 3. Phone-level history lookups
+CREATE INDEX IF NOT EXISTS idx_orders_phone_status ON orders(phone_number, status);
+
+-- 4. Seed delivery-history rules
+INSERT INTO risk_rules (key, value, description) VALUES
+('delivery_history_min_orders', '2', 'Completed orders needed before the refusal rate is scored'),
+('refusal_rate_penalty', '30', 'Risk points when refusal/return ratio exceeds cancellation_rate_threshold'),
+('trusted_buyer_min_delivered', '3', 'Delivered orders needed to qualify as a trusted buyer'),
+('trusted_buyer_credit', '15', 'Risk points subtracted for trusted repeat buyers')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,31 @@
+-- Unified Blocklist Migration
+-- Moves blocked_phones into blocked_entries so there is a single blocklist,
+-- and seeds the risk weight for flag_only entries.
+
+-- 1. Copy existing phone blocks (normalised to 01XXXXXXXXX, skipping duplicates)
+INSERT INTO blocked_entries (type, value, reason, severity, created_by, created_at)
+SELECT
+    'phone',
+    regexp_replace(regexp_replace(bp.phone_number, '\D', '', 'g'), '^880', '0'),
+    bp.reason,
+    'hard_block',
+    bp.blocked_by,
+    bp.created_at
+FROM blocked_phones bp
+WHERE NOT EXISTS (
+    SELECT 1 FROM blocked_entries be
+    WHERE be.type = 'phone'
+    AND be.value = regexp_replace(regexp_replace(bp.phone_number, '\D', '', 'g'), '^880', '0')
+);
+
+-- 2. Retire the old table
+DROP TABLE IF EXISTS blocked_phones;
+
+-- 3. Indexes for lookups by (type, value) and active entries
+CREATE INDEX IF NOT EXISTS idx_blocked_entries_type_value ON blocked_entries(type, value);
+CREATE INDEX IF NOT EXISTS idx_blocked_entries_expires_at ON blocked_entries(expires_at);
+
+-- 4. Seed flag_only weight
+INSERT INTO risk_rules (key, value, description) VALUES
+('blocklist_flag_penalty', '30', 'Risk points for each flag_only blocklist match')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,20 @@
+-- Risk Review Queue Migration
+-- Stores the engine's decision alongside the score/factors so every order
+-- has an explainable assessment, and indexes the lookups used by the review queue.
+
+-- 1. Persist the engine action with each assessment
+ALTER TABLE order_risk_assessments ADD COLUMN IF NOT EXISTS action TEXT
+    CHECK (action IN ('approve', 'flag', 'block'));
+
+-- 2. Backfill action for existing assessments from their order status
+UPDATE order_risk_assessments ora
+SET action = CASE
+    WHEN o.status IN ('pending_confirmation', 'flagged_for_review') THEN 'flag'
+    ELSE 'approve'
+END
+FROM orders o
+WHERE o.id = ora.order_id AND ora.action IS NULL;
+
+-- 3. Indexes for related-order lookups (same customer / same shipping address)
+CREATE INDEX IF NOT EXISTS idx_orders_user_created ON orders(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_shipping_address ON orders USING GIN (shipping_address jsonb_path_ops);
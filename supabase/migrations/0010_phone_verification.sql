@@ -0,0 +1,33 @@
+-- Phone Verification Migration
+-- OTP codes that prove a customer controls the phone used for a COD order.
+-- Codes are stored hashed and bound to the phone and a cart fingerprint.
+
+-- 1. PHONE VERIFICATIONS Table
+CREATE TABLE IF NOT EXISTS phone_verifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    phone TEXT NOT NULL,
+    ip TEXT,
+    cart_hash TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Rate limiting counts recent rows per phone and per IP
+CREATE INDEX IF NOT EXISTS idx_phone_verifications_phone ON phone_verifications(phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_phone_verifications_ip ON phone_verifications(ip, created_at DESC);
+
+-- 2. ORDERS: verified phone marker
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS verified_phone BOOLEAN DEFAULT FALSE;
+
+-- 3. Risk credit for verified phones
+INSERT INTO risk_rules (key, value, description) VALUES
+    ('verified_phone_credit', 10, 'Points subtracted when the phone number was verified by OTP at checkout')
+ON CONFLICT (key) DO NOTHING;
+
+-- 4. RLS (server-side access only, via the service role)
+ALTER TABLE phone_verifications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins view phone verifications" ON phone_verifications USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
@@ -0,0 +1,108 @@
+-- Atomic COD Order Placement Migration
+-- place_cod_order() turns a cart into an order in a single transaction:
+-- order row, items, inventory reservation, risk assessment, status history,
+-- phone verification consumption, customer counters and cart clearing.
+-- Any failure raises and rolls the whole placement back.
+
+CREATE OR REPLACE FUNCTION place_cod_order(
+    p_cart_id UUID,
+    p_user_id UUID,
+    p_status TEXT,
+    p_phone TEXT,
+    p_shipping_address JSONB,
+    p_delivery_fee NUMERIC,
+    p_admin_notes TEXT,
+    p_history_note TEXT,
+    p_risk_score INTEGER,
+    p_risk_factors JSONB,
+    p_risk_action TEXT,
+    p_phone_verification_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_order_id UUID;
+    v_subtotal NUMERIC := 0;
+    v_item RECORD;
+    v_item_count INTEGER := 0;
+BEGIN
+    -- 1. Lock the cart's products (in a stable order to avoid deadlocks) and
+    --    validate stock against the locked rows
+    FOR v_item IN
+        SELECT ci.product_id, ci.quantity, p.name, p.price, p.inventory, p.is_active
+        FROM cart_items ci
+        JOIN products p ON p.id = ci.product_id
+        WHERE ci.cart_id = p_cart_id
+        ORDER BY ci.product_id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT COALESCE(v_item.is_active, false) THEN
+            RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+        END IF;
+        IF v_item.inventory < v_item.quantity THEN
+            RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_item.name;
+        END IF;
+
+        v_subtotal := v_subtotal + v_item.price * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION 'CART_EMPTY';
+    END IF;
+
+    -- 2. Order
+    INSERT INTO orders (
+        user_id, total_amount, delivery_fee, status, shipping_address,
+        phone_number, verified_phone, admin_notes
+    ) VALUES (
+        p_user_id, v_subtotal + p_delivery_fee, p_delivery_fee, p_status, p_shipping_address,
+        p_phone, p_phone_verification_id IS NOT NULL, p_admin_notes
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 3. Items at the locked prices
+    INSERT INTO order_items (order_id, product_id, quantity, price_at_purchase)
+    SELECT v_order_id, ci.product_id, ci.quantity, p.price
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    WHERE ci.cart_id = p_cart_id;
+
+    -- 4. Inventory reservation
+    UPDATE products p
+    SET inventory = p.inventory - ci.quantity
+    FROM cart_items ci
+    WHERE ci.cart_id = p_cart_id AND ci.product_id = p.id;
+
+    -- 5. Risk assessment
+    INSERT INTO order_risk_assessments (order_id, risk_score, factors, action)
+    VALUES (v_order_id, p_risk_score, p_risk_factors, p_risk_action);
+
+    -- 6. Status history
+    INSERT INTO order_status_history (order_id, status, changed_by, notes)
+    VALUES (v_order_id, p_status, p_user_id, p_history_note);
+
+    -- 7. Phone verification can back exactly one order
+    IF p_phone_verification_id IS NOT NULL THEN
+        UPDATE phone_verifications
+        SET order_id = v_order_id
+        WHERE id = p_phone_verification_id AND order_id IS NULL;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'PHONE_VERIFICATION_USED';
+        END IF;
+    END IF;
+
+    -- 8. Customer counters
+    IF p_user_id IS NOT NULL THEN
+        UPDATE users SET total_orders = COALESCE(total_orders, 0) + 1 WHERE id = p_user_id;
+    END IF;
+
+    -- 9. Clear the cart
+    DELETE FROM cart_items WHERE cart_id = p_cart_id;
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may place orders
+REVOKE EXECUTE ON FUNCTION place_cod_order(UUID, UUID, TEXT, TEXT, JSONB, NUMERIC, TEXT, TEXT, INTEGER, JSONB, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,36 @@
+-- Delivery Zones Migration
+-- Zone-based delivery pricing (inside Dhaka / sub-Dhaka / outside Dhaka)
+-- with quantity and weight surcharges and free-delivery thresholds.
+
+-- 1. DELIVERY ZONES Table
+CREATE TABLE IF NOT EXISTS delivery_zones (
+    key TEXT PRIMARY KEY CHECK (key IN ('inside_dhaka', 'sub_dhaka', 'outside_dhaka')),
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    match_terms TEXT[] NOT NULL DEFAULT '{}',
+    base_fee DECIMAL(10, 2) NOT NULL,
+    included_items INTEGER NOT NULL DEFAULT 3,
+    per_item_fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    included_weight_grams INTEGER NOT NULL DEFAULT 1000,
+    per_kg_fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    free_delivery_threshold DECIMAL(10, 2),
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO delivery_zones (key, name, priority, match_terms, base_fee, included_items, per_item_fee, included_weight_grams, per_kg_fee) VALUES
+('sub_dhaka', 'Sub-Dhaka', 10, ARRAY['savar', 'ashulia', 'keraniganj', 'gazipur', 'tongi', 'narayanganj'], 100, 3, 10, 1000, 20),
+('inside_dhaka', 'Inside Dhaka', 20, ARRAY['dhaka'], 60, 3, 10, 1000, 15),
+('outside_dhaka', 'Outside Dhaka', 100, '{}', 120, 3, 15, 1000, 25)
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. PRODUCTS: shipping weight for surcharges
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_grams INTEGER CHECK (weight_grams >= 0);
+
+-- 3. RLS: anyone can read fees (cart/checkout), admins manage them
+ALTER TABLE delivery_zones ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read delivery zones" ON delivery_zones FOR SELECT TO authenticated, anon USING (true);
+CREATE POLICY "Admins manage delivery zones" ON delivery_zones USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+
+CREATE TRIGGER update_delivery_zones_modtime BEFORE UPDATE ON delivery_zones FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
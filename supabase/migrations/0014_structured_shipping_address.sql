@@ -0,0 +1,120 @@
+-- Structured Shipping Address Migration
+-- Rewrites legacy orders.shipping_address JSON ({ address, city, area },
+-- { name, ... }) into the canonical shape written by checkout:
+-- { fullName, phone, division, district, upazila, address, note }.
+-- Upazila spelling is left as entered; districts/divisions are canonicalised.
+
+-- 1. District → division reference (districts are unique nationwide)
+CREATE TEMP TABLE bd_districts (district TEXT PRIMARY KEY, division TEXT NOT NULL);
+INSERT INTO bd_districts (district, division) VALUES
+    ('Barguna', 'Barishal'),
+    ('Barishal', 'Barishal'),
+    ('Bhola', 'Barishal'),
+    ('Jhalokati', 'Barishal'),
+    ('Patuakhali', 'Barishal'),
+    ('Pirojpur', 'Barishal'),
+    ('Bandarban', 'Chattogram'),
+    ('Brahmanbaria', 'Chattogram'),
+    ('Chandpur', 'Chattogram'),
+    ('Chattogram', 'Chattogram'),
+    ('Cox''s Bazar', 'Chattogram'),
+    ('Cumilla', 'Chattogram'),
+    ('Feni', 'Chattogram'),
+    ('Khagrachhari', 'Chattogram'),
+    ('Lakshmipur', 'Chattogram'),
+    ('Noakhali', 'Chattogram'),
+    ('Rangamati', 'Chattogram'),
+    ('Dhaka', 'Dhaka'),
+    ('Faridpur', 'Dhaka'),
+    ('Gazipur', 'Dhaka'),
+    ('Gopalganj', 'Dhaka'),
+    ('Kishoreganj', 'Dhaka'),
+    ('Madaripur', 'Dhaka'),
+    ('Manikganj', 'Dhaka'),
+    ('Munshiganj', 'Dhaka'),
+    ('Narayanganj', 'Dhaka'),
+    ('Narsingdi', 'Dhaka'),
+    ('Rajbari', 'Dhaka'),
+    ('Shariatpur', 'Dhaka'),
+    ('Tangail', 'Dhaka'),
+    ('Bagerhat', 'Khulna'),
+    ('Chuadanga', 'Khulna'),
+    ('Jashore', 'Khulna'),
+    ('Jhenaidah', 'Khulna'),
+    ('Khulna', 'Khulna'),
+    ('Kushtia', 'Khulna'),
+    ('Magura', 'Khulna'),
+    ('Meherpur', 'Khulna'),
+    ('Narail', 'Khulna'),
+    ('Satkhira', 'Khulna'),
+    ('Jamalpur', 'Mymensingh'),
+    ('Mymensingh', 'Mymensingh'),
+    ('Netrokona', 'Mymensingh'),
+    ('Sherpur', 'Mymensingh'),
+    ('Bogura', 'Rajshahi'),
+    ('Chapai Nawabganj', 'Rajshahi'),
+    ('Joypurhat', 'Rajshahi'),
+    ('Naogaon', 'Rajshahi'),
+    ('Natore', 'Rajshahi'),
+    ('Pabna', 'Rajshahi'),
+    ('Rajshahi', 'Rajshahi'),
+    ('Sirajganj', 'Rajshahi'),
+    ('Dinajpur', 'Rangpur'),
+    ('Gaibandha', 'Rangpur'),
+    ('Kurigram', 'Rangpur'),
+    ('Lalmonirhat', 'Rangpur'),
+    ('Nilphamari', 'Rangpur'),
+    ('Panchagarh', 'Rangpur'),
+    ('Rangpur', 'Rangpur'),
+    ('Thakurgaon', 'Rangpur'),
+    ('Habiganj', 'Sylhet'),
+    ('Moulvibazar', 'Sylhet'),
+    ('Sunamganj', 'Sylhet'),
+    ('Sylhet', 'Sylhet');
+
+-- Former spellings still found in customer input
+CREATE TEMP TABLE bd_aliases (alias TEXT PRIMARY KEY, canonical TEXT NOT NULL);
+INSERT INTO bd_aliases (alias, canonical) VALUES
+    ('barisal', 'Barishal'),
+    ('chittagong', 'Chattogram'),
+    ('comilla', 'Cumilla'),
+    ('jessore', 'Jashore'),
+    ('bogra', 'Bogura'),
+    ('coxs bazar', 'Cox''s Bazar'),
+    ('chapainawabganj', 'Chapai Nawabganj');
+
+-- 2. Backfill orders that are not yet in the canonical shape
+WITH legacy AS (
+    SELECT
+        o.id,
+        o.phone_number,
+        o.shipping_address AS sa,
+        btrim(COALESCE(o.shipping_address->>'district', o.shipping_address->>'city', '')) AS district_raw,
+        btrim(COALESCE(o.shipping_address->>'upazila', o.shipping_address->>'area', '')) AS upazila_raw
+    FROM orders o
+    WHERE o.shipping_address IS NOT NULL
+    AND NOT (o.shipping_address ? 'upazila')
+),
+resolved AS (
+    SELECT
+        l.*,
+        d.district AS district,
+        d.division AS division
+    FROM legacy l
+    LEFT JOIN bd_aliases a ON a.alias = lower(replace(l.district_raw, '''', ''))
+    LEFT JOIN bd_districts d ON lower(d.district) = lower(COALESCE(a.canonical, l.district_raw))
+)
+UPDATE orders o SET shipping_address = jsonb_strip_nulls(jsonb_build_object(
+    'fullName', btrim(COALESCE(r.sa->>'fullName', r.sa->>'recipientName', r.sa->>'name', '')),
+    'phone', COALESCE(r.sa->>'phone', r.phone_number, ''),
+    'division', COALESCE(r.division, r.sa->>'division', ''),
+    'district', COALESCE(r.district, r.district_raw),
+    'upazila', r.upazila_raw,
+    'address', btrim(COALESCE(r.sa->>'address', '')),
+    'note', NULLIF(btrim(COALESCE(r.sa->>'note', '')), '')
+))
+FROM resolved r
+WHERE o.id = r.id;
+
+DROP TABLE bd_aliases;
+DROP TABLE bd_districts;
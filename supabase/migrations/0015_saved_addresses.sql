@@ -0,0 +1,39 @@
+-- Saved Addresses Migration
+-- Customer address book used to prefill checkout, and as the set of
+-- "known" addresses the risk engine compares new delivery addresses against.
+
+-- 1. ADDRESSES Table (same structured shape as orders.shipping_address)
+CREATE TABLE IF NOT EXISTS addresses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    label TEXT,
+    full_name TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    division TEXT NOT NULL,
+    district TEXT NOT NULL,
+    upazila TEXT NOT NULL,
+    address TEXT NOT NULL,
+    note TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Set once an order to this address was placed with an OTP-verified phone
+    phone_verified_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user ON addresses(user_id, created_at DESC);
+-- At most one default address per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_user_default ON addresses(user_id) WHERE is_default;
+
+-- 2. Risk penalty for delivering to an address the customer has never used
+INSERT INTO risk_rules (key, value, description) VALUES
+    ('new_address_penalty', 10, 'Points added when a returning customer orders to an address not in their address book or order history')
+ON CONFLICT (key) DO NOTHING;
+
+-- 3. RLS: customers manage their own addresses, admins can view all
+ALTER TABLE addresses ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users manage own addresses" ON addresses FOR ALL USING (user_id = (SELECT id FROM users WHERE clerk_id = auth.uid()::text));
+CREATE POLICY "Admins view all addresses" ON addresses FOR SELECT USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+
+CREATE TRIGGER update_addresses_modtime BEFORE UPDATE ON addresses FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
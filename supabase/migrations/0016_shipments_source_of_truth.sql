@@ -0,0 +1,51 @@
+-- Shipments Source of Truth Migration
+-- Parcel state moves entirely into `shipments`. Orders booked through the old
+-- Steadfast action only recorded their consignment in admin_notes
+-- ("Steadfast Consignment: <id>, Tracking: <code>"); those are backfilled here.
+
+-- 1. Consignment ids are unique per courier, not globally
+ALTER TABLE shipments DROP CONSTRAINT IF EXISTS shipments_consignment_id_key;
+DROP INDEX IF EXISTS idx_shipments_consignment_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipments_provider_consignment ON shipments(provider, consignment_id);
+
+ALTER TABLE shipments ALTER COLUMN provider SET NOT NULL;
+ALTER TABLE shipments ALTER COLUMN order_id SET NOT NULL;
+ALTER TABLE shipments ALTER COLUMN consignment_id SET NOT NULL;
+
+-- 2. Backfill shipments from admin_notes
+INSERT INTO shipments (order_id, provider, consignment_id, tracking_code, status, cod_amount, metadata, created_at)
+SELECT
+    o.id,
+    'steadfast',
+    substring(o.admin_notes FROM 'Consignment: (\w+)'),
+    substring(o.admin_notes FROM 'Tracking: (\w+)'),
+    -- Closest courier status for the order's current state
+    CASE o.status
+        WHEN 'delivered' THEN 'delivered'
+        WHEN 'cancelled' THEN 'cancelled'
+        WHEN 'returned' THEN 'returned_to_merchant'
+        ELSE 'pending'
+    END,
+    o.total_amount,
+    jsonb_build_object('migrated_from', 'admin_notes', 'admin_notes', o.admin_notes),
+    o.updated_at
+FROM orders o
+WHERE o.admin_notes ~ 'Consignment: \w+'
+  AND NOT EXISTS (SELECT 1 FROM shipments s WHERE s.order_id = o.id)
+ON CONFLICT DO NOTHING;
+
+-- 3. Drop the consignment text from the migrated notes
+UPDATE orders o
+SET admin_notes = NULLIF(
+    trim(regexp_replace(o.admin_notes, '(Steadfast )?Consignment: \w+(, Tracking: \w+)?', '')),
+    ''
+)
+WHERE o.admin_notes ~ 'Consignment: \w+'
+  AND EXISTS (
+      SELECT 1 FROM shipments s
+      WHERE s.order_id = o.id
+        AND s.consignment_id = substring(o.admin_notes FROM 'Consignment: (\w+)')
+  );
+
+-- 4. Courier log lookups per shipment
+CREATE INDEX IF NOT EXISTS idx_courier_logs_shipment_id ON courier_logs(shipment_id, created_at DESC);
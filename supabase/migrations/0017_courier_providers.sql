@@ -0,0 +1,11 @@
+-- Courier Providers Migration
+-- Shipments can be booked with Pathao and RedX as well as Steadfast; the
+-- courier is chosen per order when the parcel is booked.
+
+-- 1. SHIPMENTS: known couriers only, and no implicit Steadfast default
+ALTER TABLE shipments ALTER COLUMN provider DROP DEFAULT;
+ALTER TABLE shipments DROP CONSTRAINT IF EXISTS shipments_provider_check;
+ALTER TABLE shipments ADD CONSTRAINT shipments_provider_check CHECK (provider IN ('steadfast', 'pathao', 'redx'));
+
+-- 2. Per-courier reporting (e.g. delivery performance by courier)
+CREATE INDEX IF NOT EXISTS idx_shipments_provider_status ON shipments(provider, status);
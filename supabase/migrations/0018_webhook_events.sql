@@ -0,0 +1,29 @@
+-- Webhook Events Migration
+-- Every courier webhook delivery is stored with its raw payload before it is
+-- applied. The dedupe key makes courier retries of the same event a no-op,
+-- and admins can inspect and reprocess stored events.
+
+-- 1. WEBHOOK_EVENTS Table
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider TEXT NOT NULL CHECK (provider IN ('steadfast', 'pathao', 'redx')),
+    dedupe_key TEXT NOT NULL,          -- SHA-256 of the payload
+    consignment_id TEXT,
+    status TEXT,                       -- Courier status carried by the event
+    payload JSONB NOT NULL,
+    outcome TEXT NOT NULL DEFAULT 'received'
+        CHECK (outcome IN ('received', 'applied', 'unchanged', 'rejected', 'unknown_shipment', 'failed')),
+    error_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- 2. Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_dedupe ON webhook_events(provider, dedupe_key);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received ON webhook_events(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_consignment ON webhook_events(provider, consignment_id);
+
+-- 3. RLS: written by the webhook routes (service role), visible to admins
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins view webhook events" ON webhook_events FOR SELECT USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
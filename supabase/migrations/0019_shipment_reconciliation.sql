@@ -0,0 +1,14 @@
+-- Shipment Reconciliation Migration
+-- A scheduled job polls couriers for open shipments in case a webhook was
+-- missed, and reports parcels that have sat in one courier status too long.
+
+-- 1. SHIPMENTS: when the courier status last changed, and when it was last polled
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMP WITH TIME ZONE;
+
+-- Best available estimate for existing parcels
+UPDATE shipments SET status_changed_at = updated_at WHERE updated_at IS NOT NULL;
+
+-- 2. Indexes: least recently polled first, and stuck-parcel lookups
+CREATE INDEX IF NOT EXISTS idx_shipments_last_checked ON shipments(last_checked_at NULLS FIRST);
+CREATE INDEX IF NOT EXISTS idx_shipments_status_changed ON shipments(status_changed_at);
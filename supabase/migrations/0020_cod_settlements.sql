@@ -0,0 +1,206 @@
+-- COD Settlement Migration
+-- Couriers collect cash on delivery and pay it out later minus their
+-- charges. Each shipment gets a settlement row with the COD we expect; it
+-- becomes outstanding once the order is delivered and is settled (or
+-- disputed) when a courier payment statement covering it is imported.
+
+-- 1. COURIER_PAYOUTS Table: one row per imported payment statement
+CREATE TABLE IF NOT EXISTS courier_payouts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider TEXT NOT NULL CHECK (provider IN ('steadfast', 'pathao', 'redx')),
+    reference TEXT NOT NULL,           -- Courier payment / statement id
+    paid_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    collected_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    charge_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    net_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    unmatched_count INTEGER NOT NULL DEFAULT 0,
+    imported_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (provider, reference)
+);
+
+-- 2. COD_SETTLEMENTS Table: expected vs collected COD per shipment
+CREATE TABLE IF NOT EXISTS cod_settlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shipment_id UUID NOT NULL UNIQUE REFERENCES shipments(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    expected_amount DECIMAL(10, 2) NOT NULL,
+    collected_amount DECIMAL(10, 2),
+    charge_amount DECIMAL(10, 2),      -- Delivery + COD charges deducted by the courier
+    payout_amount DECIMAL(10, 2),      -- collected_amount - charge_amount
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'outstanding', 'settled', 'disputed', 'void')),
+    payout_id UUID REFERENCES courier_payouts(id) ON DELETE SET NULL,
+    dispute_reason TEXT,
+    settled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cod_settlements_status ON cod_settlements(status, provider);
+CREATE INDEX IF NOT EXISTS idx_cod_settlements_order ON cod_settlements(order_id);
+CREATE INDEX IF NOT EXISTS idx_cod_settlements_payout ON cod_settlements(payout_id);
+
+-- 3. COURIER_BALANCES Table: balance snapshots fetched from courier APIs
+CREATE TABLE IF NOT EXISTS courier_balances (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider TEXT NOT NULL CHECK (provider IN ('steadfast', 'pathao', 'redx')),
+    balance DECIMAL(12, 2) NOT NULL,
+    raw JSONB,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_courier_balances_provider ON courier_balances(provider, fetched_at DESC);
+
+-- 4. Expected COD is recorded when a parcel is booked...
+CREATE OR REPLACE FUNCTION create_cod_settlement()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO cod_settlements (shipment_id, order_id, provider, expected_amount)
+    SELECT NEW.id, NEW.order_id, NEW.provider, COALESCE(NEW.cod_amount, o.total_amount)
+    FROM orders o
+    WHERE o.id = NEW.order_id
+    ON CONFLICT (shipment_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_cod_settlement_on_shipment ON shipments;
+CREATE TRIGGER create_cod_settlement_on_shipment AFTER INSERT ON shipments FOR EACH ROW EXECUTE PROCEDURE create_cod_settlement();
+
+-- ...and follows the order until a payout settles it: delivered orders are
+-- owed by the courier, cancelled/refused/returned ones carry no cash
+CREATE OR REPLACE FUNCTION sync_cod_settlement_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE cod_settlements SET status = CASE
+        WHEN NEW.status = 'delivered' THEN 'outstanding'
+        WHEN NEW.status IN ('cancelled', 'refused', 'returned') THEN 'void'
+        ELSE 'pending'
+    END
+    WHERE order_id = NEW.id AND status IN ('pending', 'outstanding', 'void') AND payout_id IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_cod_settlement_on_order ON orders;
+CREATE TRIGGER sync_cod_settlement_on_order AFTER UPDATE OF status ON orders
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status) EXECUTE PROCEDURE sync_cod_settlement_status();
+
+DROP TRIGGER IF EXISTS update_cod_settlements_modtime ON cod_settlements;
+CREATE TRIGGER update_cod_settlements_modtime BEFORE UPDATE ON cod_settlements FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- 5. Backfill existing shipments
+INSERT INTO cod_settlements (shipment_id, order_id, provider, expected_amount, status)
+SELECT s.id, s.order_id, s.provider, COALESCE(s.cod_amount, o.total_amount),
+    CASE
+        WHEN o.status = 'delivered' THEN 'outstanding'
+        WHEN o.status IN ('cancelled', 'refused', 'returned') THEN 'void'
+        ELSE 'pending'
+    END
+FROM shipments s
+JOIN orders o ON o.id = s.order_id
+ON CONFLICT (shipment_id) DO NOTHING;
+
+-- 6. Imports a courier payment statement in one transaction: records the
+-- payout and settles each matched line, so a failure leaves nothing behind
+-- and the statement can be imported again.
+-- p_lines: [{"settlement_id": ..., "collected_amount": ..., "charge_amount": ...}]
+-- A collected amount more than p_tolerance away from the expected COD marks
+-- the settlement disputed; lines already covered by a payout are skipped.
+-- A statement imported before raises unique_violation.
+CREATE OR REPLACE FUNCTION import_courier_payout(
+    p_provider TEXT,
+    p_reference TEXT,
+    p_paid_at TIMESTAMP WITH TIME ZONE,
+    p_collected_amount DECIMAL,
+    p_charge_amount DECIMAL,
+    p_unmatched_count INTEGER,
+    p_imported_by UUID,
+    p_lines JSONB,
+    p_tolerance DECIMAL DEFAULT 1
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_payout_id UUID;
+    v_line JSONB;
+    v_settlement cod_settlements%ROWTYPE;
+    v_collected DECIMAL;
+    v_charge DECIMAL;
+    v_disputed BOOLEAN;
+    v_settled INTEGER := 0;
+    v_disputed_count INTEGER := 0;
+    v_already_settled INTEGER := 0;
+BEGIN
+    INSERT INTO courier_payouts (
+        provider, reference, paid_at, collected_amount, charge_amount, net_amount,
+        matched_count, unmatched_count, imported_by
+    ) VALUES (
+        p_provider, p_reference, p_paid_at, p_collected_amount, p_charge_amount,
+        p_collected_amount - p_charge_amount, jsonb_array_length(p_lines), p_unmatched_count, p_imported_by
+    )
+    RETURNING id INTO v_payout_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        SELECT * INTO v_settlement
+        FROM cod_settlements
+        WHERE id = (v_line ->> 'settlement_id')::UUID AND provider = p_provider
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'SETTLEMENT_NOT_FOUND: %', v_line ->> 'settlement_id';
+        END IF;
+
+        IF v_settlement.payout_id IS NOT NULL THEN
+            v_already_settled := v_already_settled + 1;
+            CONTINUE;
+        END IF;
+
+        v_collected := (v_line ->> 'collected_amount')::DECIMAL;
+        v_charge := (v_line ->> 'charge_amount')::DECIMAL;
+        v_disputed := abs(v_collected - v_settlement.expected_amount) > p_tolerance;
+
+        UPDATE cod_settlements SET
+            collected_amount = v_collected,
+            charge_amount = v_charge,
+            payout_amount = v_collected - v_charge,
+            status = CASE WHEN v_disputed THEN 'disputed' ELSE 'settled' END,
+            dispute_reason = CASE
+                WHEN v_disputed THEN format('Collected ৳%s, expected ৳%s', v_collected, v_settlement.expected_amount)
+            END,
+            payout_id = v_payout_id,
+            settled_at = p_paid_at
+        WHERE id = v_settlement.id;
+
+        IF v_collected > 0 THEN
+            INSERT INTO payments (order_id, amount, status, provider, transaction_id)
+            VALUES (v_settlement.order_id, v_collected, 'succeeded', p_provider, p_reference);
+        END IF;
+
+        IF v_disputed THEN
+            v_disputed_count := v_disputed_count + 1;
+        ELSE
+            v_settled := v_settled + 1;
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'payout_id', v_payout_id,
+        'settled', v_settled,
+        'disputed', v_disputed_count,
+        'already_settled', v_already_settled
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION import_courier_payout(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, DECIMAL, DECIMAL, INTEGER, UUID, JSONB, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- 7. RLS: finance data is admin only
+ALTER TABLE courier_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cod_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE courier_balances ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage courier payouts" ON courier_payouts FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+CREATE POLICY "Admins manage COD settlements" ON cod_settlements FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+CREATE POLICY "Admins view courier balances" ON courier_balances FOR SELECT USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
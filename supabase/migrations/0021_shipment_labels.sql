@@ -0,0 +1,7 @@
+-- Shipment Labels Migration
+-- Shipping labels are printed from /admin/orders/print; point existing
+-- shipments' label_url at their label (new bookings set it on insert).
+
+UPDATE shipments
+SET label_url = '/admin/orders/print?type=labels&ids=' || order_id
+WHERE label_url IS NULL;
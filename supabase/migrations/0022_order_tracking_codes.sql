@@ -0,0 +1,16 @@
+-- Order Tracking Codes Migration
+-- Every order gets an unguessable public code for /track/<code>, so
+-- customers (including guests) can follow it without signing in and
+-- without exposing the order id.
+
+-- 1. ORDERS: tracking code, random per order
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_code TEXT;
+
+UPDATE orders
+SET tracking_code = upper(substr(replace(uuid_generate_v4()::text, '-', ''), 1, 12))
+WHERE tracking_code IS NULL;
+
+ALTER TABLE orders ALTER COLUMN tracking_code SET DEFAULT upper(substr(replace(uuid_generate_v4()::text, '-', ''), 1, 12));
+ALTER TABLE orders ALTER COLUMN tracking_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_tracking_code ON orders(tracking_code);
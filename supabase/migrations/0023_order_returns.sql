@@ -0,0 +1,191 @@
+-- Order Returns Migration
+-- Parcels that come back (returned to merchant or refused at the door) get
+-- a return record with a reason code. Items can be put back into stock
+-- line by line, and the courier's return delivery charge is booked to a
+-- loss ledger. Recording a return also moves the order and the customer's
+-- refusal counters in one transaction.
+
+-- 1. ORDER_RETURNS Table: one per order
+CREATE TABLE IF NOT EXISTS order_returns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+    shipment_id UUID REFERENCES shipments(id) ON DELETE SET NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('returned', 'refused')),
+    reason_code TEXT NOT NULL CHECK (reason_code IN (
+        'customer_refused', 'customer_unreachable', 'wrong_address', 'changed_mind',
+        'damaged', 'wrong_item', 'courier_returned', 'other'
+    )),
+    notes TEXT,
+    source TEXT NOT NULL DEFAULT 'admin' CHECK (source IN ('admin', 'courier')),
+    return_fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    restocked_units INTEGER NOT NULL DEFAULT 0,
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_created ON order_returns(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_returns_reason ON order_returns(reason_code);
+
+-- 2. ORDER_RETURN_ITEMS Table: units put back into stock per order line
+CREATE TABLE IF NOT EXISTS order_return_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    return_id UUID NOT NULL REFERENCES order_returns(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (return_id, order_item_id)
+);
+
+-- 3. LOSS_LEDGER Table: money lost on orders that did not complete
+CREATE TABLE IF NOT EXISTS loss_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    shipment_id UUID REFERENCES shipments(id) ON DELETE SET NULL,
+    return_id UUID REFERENCES order_returns(id) ON DELETE CASCADE,
+    category TEXT NOT NULL CHECK (category IN ('return_fee', 'damaged_goods', 'other')),
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+    description TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loss_ledger_created ON loss_ledger(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loss_ledger_order ON loss_ledger(order_id);
+
+DROP TRIGGER IF EXISTS update_order_returns_modtime ON order_returns;
+CREATE TRIGGER update_order_returns_modtime BEFORE UPDATE ON order_returns FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_order_return_items_modtime ON order_return_items;
+CREATE TRIGGER update_order_return_items_modtime BEFORE UPDATE ON order_return_items FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- 4. Restock: puts units back into inventory, never more than were ordered.
+-- p_items is [{ "order_item_id": uuid, "quantity": int }]; returns units restocked.
+CREATE OR REPLACE FUNCTION restock_return_items(p_return_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_line RECORD;
+    v_quantity INTEGER;
+    v_total INTEGER := 0;
+BEGIN
+    PERFORM 1 FROM order_returns WHERE id = p_return_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'RETURN_NOT_FOUND';
+    END IF;
+
+    FOR v_line IN
+        SELECT
+            oi.id AS order_item_id,
+            oi.product_id,
+            oi.quantity AS ordered,
+            COALESCE(ri.quantity, 0) AS restocked,
+            GREATEST(0, COALESCE((x->>'quantity')::INTEGER, 0)) AS requested
+        FROM jsonb_array_elements(p_items) x
+        JOIN order_returns r ON r.id = p_return_id
+        JOIN order_items oi ON oi.id = (x->>'order_item_id')::UUID AND oi.order_id = r.order_id
+        LEFT JOIN order_return_items ri ON ri.return_id = p_return_id AND ri.order_item_id = oi.id
+    LOOP
+        v_quantity := LEAST(v_line.requested, v_line.ordered - v_line.restocked);
+        IF v_quantity <= 0 OR v_line.product_id IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE products SET inventory = inventory + v_quantity WHERE id = v_line.product_id;
+
+        INSERT INTO order_return_items (return_id, order_item_id, product_id, quantity)
+        VALUES (p_return_id, v_line.order_item_id, v_line.product_id, v_quantity)
+        ON CONFLICT (return_id, order_item_id)
+        DO UPDATE SET quantity = order_return_items.quantity + EXCLUDED.quantity;
+
+        v_total := v_total + v_quantity;
+    END LOOP;
+
+    IF v_total > 0 THEN
+        UPDATE order_returns SET restocked_units = restocked_units + v_total WHERE id = p_return_id;
+    END IF;
+
+    RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Records a return or refusal atomically: return record, loss ledger
+-- entry for the return fee, order status + history, customer counters and
+-- optional restock. Orders already in p_outcome (e.g. moved there before
+-- this migration) keep their status and history.
+CREATE OR REPLACE FUNCTION record_order_return(
+    p_order_id UUID,
+    p_outcome TEXT,
+    p_reason_code TEXT,
+    p_notes TEXT,
+    p_source TEXT,
+    p_return_fee NUMERIC,
+    p_restock JSONB,
+    p_recorded_by UUID,
+    p_history_note TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    v_order RECORD;
+    v_shipment_id UUID;
+    v_return_id UUID;
+BEGIN
+    SELECT id, status, user_id INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'ORDER_NOT_FOUND';
+    END IF;
+
+    IF v_order.status NOT IN ('processing', 'shipped', 'delivered', 'cancelled', p_outcome) THEN
+        RAISE EXCEPTION 'INVALID_ORDER_STATUS: %', v_order.status;
+    END IF;
+
+    SELECT id INTO v_shipment_id FROM shipments WHERE order_id = p_order_id;
+
+    INSERT INTO order_returns (
+        order_id, shipment_id, outcome, reason_code, notes, source, return_fee, recorded_by
+    ) VALUES (
+        p_order_id, v_shipment_id, p_outcome, p_reason_code, p_notes, p_source,
+        GREATEST(0, COALESCE(p_return_fee, 0)), p_recorded_by
+    )
+    RETURNING id INTO v_return_id;
+
+    IF COALESCE(p_return_fee, 0) > 0 THEN
+        INSERT INTO loss_ledger (order_id, shipment_id, return_id, category, amount, description, created_by)
+        VALUES (
+            p_order_id, v_shipment_id, v_return_id, 'return_fee', p_return_fee,
+            'Return delivery charge (' || p_outcome || ', ' || p_reason_code || ')', p_recorded_by
+        );
+    END IF;
+
+    IF v_order.status <> p_outcome THEN
+        UPDATE orders SET status = p_outcome WHERE id = p_order_id;
+
+        INSERT INTO order_status_history (order_id, status, changed_by, notes)
+        VALUES (p_order_id, p_outcome, p_recorded_by, p_history_note);
+
+        PERFORM record_order_outcome(v_order.user_id, v_order.status, p_outcome);
+    END IF;
+
+    IF p_restock IS NOT NULL AND jsonb_array_length(p_restock) > 0 THEN
+        PERFORM restock_return_items(v_return_id, p_restock);
+    END IF;
+
+    RETURN v_return_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'RETURN_EXISTS';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may record returns or restock
+REVOKE EXECUTE ON FUNCTION restock_return_items(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_order_return(UUID, TEXT, TEXT, TEXT, TEXT, NUMERIC, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 6. RLS: returns and losses are admin only
+ALTER TABLE order_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_return_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loss_ledger ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage order returns" ON order_returns FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+CREATE POLICY "Admins manage order return items" ON order_return_items FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+CREATE POLICY "Admins manage loss ledger" ON loss_ledger FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
@@ -0,0 +1,23 @@
+-- Order State Machine Migration
+-- Legal status transitions are enforced in the application
+-- (src/lib/order-state-machine.ts). Cancelling an order that has not reached
+-- the courier yet releases the stock place_cod_order reserved for it.
+
+-- 1. Puts an order's items back into inventory
+CREATE OR REPLACE FUNCTION release_order_inventory(p_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE products p
+    SET inventory = p.inventory + oi.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM order_items
+        WHERE order_id = p_order_id AND product_id IS NOT NULL
+        GROUP BY product_id
+    ) oi
+    WHERE p.id = oi.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may release inventory
+REVOKE EXECUTE ON FUNCTION release_order_inventory(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,361 @@
+-- Inventory Ledger Migration
+-- Every stock change is a row in inventory_movements (sale, cancel, return,
+-- adjustment, import) and products.inventory is maintained from it by a
+-- trigger; direct writes to products.inventory are rejected. Checkout holds
+-- stock for a cart for a few minutes (inventory_reservations), and both
+-- holds and order placement count other carts' live holds against the
+-- locked product row, so stock can never go negative.
+
+-- 1. INVENTORY_MOVEMENTS Table: signed stock changes per product
+CREATE TABLE IF NOT EXISTS inventory_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+    balance_after INTEGER NOT NULL DEFAULT 0,
+    reason TEXT NOT NULL CHECK (reason IN ('sale', 'cancel', 'return', 'adjustment', 'import')),
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    note TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product ON inventory_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order ON inventory_movements(order_id);
+
+-- 2. INVENTORY_RESERVATIONS Table: checkout holds, one per cart and product
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cart_id UUID NOT NULL REFERENCES carts(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (cart_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_product ON inventory_reservations(product_id, expires_at);
+
+-- 3. Opening balances: current stock becomes the first movement per product
+UPDATE products SET inventory = 0 WHERE inventory < 0;
+
+INSERT INTO inventory_movements (product_id, quantity_change, balance_after, reason, note)
+SELECT id, inventory, inventory, 'adjustment', 'Opening balance'
+FROM products
+WHERE inventory > 0;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_inventory_non_negative;
+ALTER TABLE products ADD CONSTRAINT products_inventory_non_negative CHECK (inventory >= 0);
+
+-- 4. Movements maintain products.inventory...
+CREATE OR REPLACE FUNCTION apply_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_name TEXT;
+    v_balance INTEGER;
+BEGIN
+    SELECT name, inventory + NEW.quantity_change INTO v_name, v_balance
+    FROM products WHERE id = NEW.product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+    END IF;
+    IF v_balance < 0 THEN
+        RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_name;
+    END IF;
+
+    PERFORM set_config('niihut.inventory_ledger', 'on', true);
+    UPDATE products SET inventory = v_balance WHERE id = NEW.product_id;
+    PERFORM set_config('niihut.inventory_ledger', 'off', true);
+
+    NEW.balance_after := v_balance;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_inventory_movement_on_insert ON inventory_movements;
+CREATE TRIGGER apply_inventory_movement_on_insert BEFORE INSERT ON inventory_movements FOR EACH ROW EXECUTE PROCEDURE apply_inventory_movement();
+
+-- ...and are the only way to change it
+CREATE OR REPLACE FUNCTION guard_product_inventory()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.inventory IS DISTINCT FROM OLD.inventory
+        AND current_setting('niihut.inventory_ledger', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'INVENTORY_LEDGER_ONLY: record an inventory movement to change stock';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_product_inventory_on_update ON products;
+CREATE TRIGGER guard_product_inventory_on_update BEFORE UPDATE OF inventory ON products FOR EACH ROW EXECUTE PROCEDURE guard_product_inventory();
+
+-- 5. Sets a product's stock to a counted quantity (manual adjustment / import)
+CREATE OR REPLACE FUNCTION set_product_inventory(
+    p_product_id UUID,
+    p_quantity INTEGER,
+    p_reason TEXT,
+    p_note TEXT,
+    p_created_by UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_current INTEGER;
+BEGIN
+    IF p_quantity < 0 THEN
+        RAISE EXCEPTION 'INVALID_QUANTITY';
+    END IF;
+
+    SELECT inventory INTO v_current FROM products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+    END IF;
+
+    IF p_quantity <> v_current THEN
+        INSERT INTO inventory_movements (product_id, quantity_change, reason, note, created_by)
+        VALUES (p_product_id, p_quantity - v_current, p_reason, p_note, p_created_by);
+    END IF;
+
+    RETURN p_quantity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Checkout holds: (re)reserves the whole cart until NOW() + p_minutes.
+-- Stock held by other carts is unavailable; raises if the cart no longer fits.
+CREATE OR REPLACE FUNCTION reserve_cart_inventory(p_cart_id UUID, p_minutes INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+    v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(mins => p_minutes);
+    v_item RECORD;
+    v_held INTEGER;
+BEGIN
+    FOR v_item IN
+        SELECT ci.product_id, ci.quantity, p.name, p.inventory, p.is_active
+        FROM cart_items ci
+        JOIN products p ON p.id = ci.product_id
+        WHERE ci.cart_id = p_cart_id
+        ORDER BY ci.product_id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT COALESCE(v_item.is_active, false) THEN
+            RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+        END IF;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_held
+        FROM inventory_reservations
+        WHERE product_id = v_item.product_id AND cart_id <> p_cart_id AND expires_at > NOW();
+
+        IF v_item.inventory - v_held < v_item.quantity THEN
+            RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_item.name;
+        END IF;
+
+        INSERT INTO inventory_reservations (cart_id, product_id, quantity, expires_at)
+        VALUES (p_cart_id, v_item.product_id, v_item.quantity, v_expires_at)
+        ON CONFLICT (cart_id, product_id)
+        DO UPDATE SET quantity = EXCLUDED.quantity, expires_at = EXCLUDED.expires_at;
+    END LOOP;
+
+    -- Items removed from the cart since the last hold, and expired holds
+    DELETE FROM inventory_reservations r
+    WHERE r.cart_id = p_cart_id
+      AND NOT EXISTS (SELECT 1 FROM cart_items ci WHERE ci.cart_id = p_cart_id AND ci.product_id = r.product_id);
+    DELETE FROM inventory_reservations WHERE expires_at <= NOW();
+
+    RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. place_cod_order: other carts' holds count against stock, the sale is a
+-- ledger movement and the cart's own holds are released
+CREATE OR REPLACE FUNCTION place_cod_order(
+    p_cart_id UUID,
+    p_user_id UUID,
+    p_status TEXT,
+    p_phone TEXT,
+    p_shipping_address JSONB,
+    p_delivery_fee NUMERIC,
+    p_admin_notes TEXT,
+    p_history_note TEXT,
+    p_risk_score INTEGER,
+    p_risk_factors JSONB,
+    p_risk_action TEXT,
+    p_phone_verification_id UUID DEFAULT NULL,
+    p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_order_id UUID;
+    v_subtotal NUMERIC := 0;
+    v_item RECORD;
+    v_item_count INTEGER := 0;
+    v_held INTEGER;
+BEGIN
+    -- 0. Replayed submission: serialise on the key, then return the original order
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+
+        SELECT id INTO v_order_id FROM orders WHERE idempotency_key = p_idempotency_key;
+        IF v_order_id IS NOT NULL THEN
+            RETURN v_order_id;
+        END IF;
+    END IF;
+
+    -- 1. Lock the cart's products (in a stable order to avoid deadlocks) and
+    --    validate stock, less other carts' live holds, against the locked rows
+    FOR v_item IN
+        SELECT ci.product_id, ci.quantity, p.name, p.price, p.inventory, p.is_active
+        FROM cart_items ci
+        JOIN products p ON p.id = ci.product_id
+        WHERE ci.cart_id = p_cart_id
+        ORDER BY ci.product_id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT COALESCE(v_item.is_active, false) THEN
+            RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+        END IF;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_held
+        FROM inventory_reservations
+        WHERE product_id = v_item.product_id AND cart_id <> p_cart_id AND expires_at > NOW();
+
+        IF v_item.inventory - v_held < v_item.quantity THEN
+            RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_item.name;
+        END IF;
+
+        v_subtotal := v_subtotal + v_item.price * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION 'CART_EMPTY';
+    END IF;
+
+    -- 2. Order
+    INSERT INTO orders (
+        user_id, total_amount, delivery_fee, status, shipping_address,
+        phone_number, verified_phone, admin_notes, idempotency_key
+    ) VALUES (
+        p_user_id, v_subtotal + p_delivery_fee, p_delivery_fee, p_status, p_shipping_address,
+        p_phone, p_phone_verification_id IS NOT NULL, p_admin_notes, p_idempotency_key
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 3. Items at the locked prices
+    INSERT INTO order_items (order_id, product_id, quantity, price_at_purchase)
+    SELECT v_order_id, ci.product_id, ci.quantity, p.price
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    WHERE ci.cart_id = p_cart_id;
+
+    -- 4. Stock leaves through the ledger; the cart's holds are no longer needed
+    INSERT INTO inventory_movements (product_id, quantity_change, reason, order_id, created_by)
+    SELECT ci.product_id, -ci.quantity, 'sale', v_order_id, p_user_id
+    FROM cart_items ci
+    WHERE ci.cart_id = p_cart_id
+    ORDER BY ci.product_id;
+
+    DELETE FROM inventory_reservations WHERE cart_id = p_cart_id;
+
+    -- 5. Risk assessment
+    INSERT INTO order_risk_assessments (order_id, risk_score, factors, action)
+    VALUES (v_order_id, p_risk_score, p_risk_factors, p_risk_action);
+
+    -- 6. Status history
+    INSERT INTO order_status_history (order_id, status, changed_by, notes)
+    VALUES (v_order_id, p_status, p_user_id, p_history_note);
+
+    -- 7. Phone verification can back exactly one order
+    IF p_phone_verification_id IS NOT NULL THEN
+        UPDATE phone_verifications
+        SET order_id = v_order_id
+        WHERE id = p_phone_verification_id AND order_id IS NULL;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'PHONE_VERIFICATION_USED';
+        END IF;
+    END IF;
+
+    -- 8. Customer counters
+    IF p_user_id IS NOT NULL THEN
+        UPDATE users SET total_orders = COALESCE(total_orders, 0) + 1 WHERE id = p_user_id;
+    END IF;
+
+    -- 9. Clear the cart
+    DELETE FROM cart_items WHERE cart_id = p_cart_id;
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Cancellations and returns put stock back through the ledger
+CREATE OR REPLACE FUNCTION release_order_inventory(p_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO inventory_movements (product_id, quantity_change, reason, order_id, note)
+    SELECT product_id, SUM(quantity), 'cancel', p_order_id, 'Order cancelled'
+    FROM order_items
+    WHERE order_id = p_order_id AND product_id IS NOT NULL
+    GROUP BY product_id
+    ORDER BY product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION restock_return_items(p_return_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_line RECORD;
+    v_quantity INTEGER;
+    v_total INTEGER := 0;
+BEGIN
+    PERFORM 1 FROM order_returns WHERE id = p_return_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'RETURN_NOT_FOUND';
+    END IF;
+
+    FOR v_line IN
+        SELECT
+            oi.id AS order_item_id,
+            oi.order_id,
+            oi.product_id,
+            oi.quantity AS ordered,
+            COALESCE(ri.quantity, 0) AS restocked,
+            GREATEST(0, COALESCE((x->>'quantity')::INTEGER, 0)) AS requested,
+            r.recorded_by
+        FROM jsonb_array_elements(p_items) x
+        JOIN order_returns r ON r.id = p_return_id
+        JOIN order_items oi ON oi.id = (x->>'order_item_id')::UUID AND oi.order_id = r.order_id
+        LEFT JOIN order_return_items ri ON ri.return_id = p_return_id AND ri.order_item_id = oi.id
+    LOOP
+        v_quantity := LEAST(v_line.requested, v_line.ordered - v_line.restocked);
+        IF v_quantity <= 0 OR v_line.product_id IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        INSERT INTO inventory_movements (product_id, quantity_change, reason, order_id, note, created_by)
+        VALUES (v_line.product_id, v_quantity, 'return', v_line.order_id, 'Returned item restocked', v_line.recorded_by);
+
+        INSERT INTO order_return_items (return_id, order_item_id, product_id, quantity)
+        VALUES (p_return_id, v_line.order_item_id, v_line.product_id, v_quantity)
+        ON CONFLICT (return_id, order_item_id)
+        DO UPDATE SET quantity = order_return_items.quantity + EXCLUDED.quantity;
+
+        v_total := v_total + v_quantity;
+    END LOOP;
+
+    IF v_total > 0 THEN
+        UPDATE order_returns SET restocked_units = restocked_units + v_total WHERE id = p_return_id;
+    END IF;
+
+    RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may move stock
+REVOKE EXECUTE ON FUNCTION set_product_inventory(UUID, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_cart_inventory(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 9. RLS: the ledger and holds are server / admin only
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_reservations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins view inventory movements" ON inventory_movements FOR SELECT USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+CREATE POLICY "Admins view inventory reservations" ON inventory_reservations FOR SELECT USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
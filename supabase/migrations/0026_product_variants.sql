@@ -0,0 +1,502 @@
+-- Product Variants Migration
+-- Products can have options (e.g. Size, Colour) and one variant per option
+-- combination with its own SKU, price override, stock and images. Variant
+-- stock moves through inventory_movements like product stock; the ledger
+-- keeps products.inventory as the total across the product's variants.
+-- Carts, checkout holds and orders carry the variant, so a simple product
+-- (no variants) behaves exactly as before.
+
+-- 1. PRODUCT_OPTIONS Table: option names and their values, in display order
+CREATE TABLE IF NOT EXISTS product_options (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    option_values TEXT[] NOT NULL DEFAULT '{}',
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (product_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_options_product ON product_options(product_id, position);
+
+-- 2. PRODUCT_VARIANTS Table: one sellable combination of option values.
+-- options maps option name → value; title is the display label ("Red / M").
+-- Removed variants are deactivated, not deleted, so orders keep their link.
+CREATE TABLE IF NOT EXISTS product_variants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    sku TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    options JSONB NOT NULL DEFAULT '{}',
+    price DECIMAL(10,2) CHECK (price IS NULL OR price >= 0),
+    inventory INTEGER NOT NULL DEFAULT 0 CHECK (inventory >= 0),
+    image_urls TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_options ON product_variants(product_id, options) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_product_options_updated_at ON product_options;
+CREATE TRIGGER update_product_options_updated_at BEFORE UPDATE ON product_options FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+DROP TRIGGER IF EXISTS update_product_variants_updated_at ON product_variants;
+CREATE TRIGGER update_product_variants_updated_at BEFORE UPDATE ON product_variants FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- 3. Variant references on carts, holds, orders and the ledger.
+-- A cart holds one line per product and variant (NULL for simple products).
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_cart_id_product_id_key;
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_cart_product_variant_key;
+ALTER TABLE cart_items ADD CONSTRAINT cart_items_cart_product_variant_key UNIQUE NULLS NOT DISTINCT (cart_id, product_id, variant_id);
+
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE inventory_reservations DROP CONSTRAINT IF EXISTS inventory_reservations_cart_id_product_id_key;
+ALTER TABLE inventory_reservations DROP CONSTRAINT IF EXISTS inventory_reservations_cart_product_variant_key;
+ALTER TABLE inventory_reservations ADD CONSTRAINT inventory_reservations_cart_product_variant_key UNIQUE NULLS NOT DISTINCT (cart_id, product_id, variant_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_variant ON inventory_reservations(variant_id, expires_at);
+
+-- Orders keep a snapshot of the variant they were placed for
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_label TEXT;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS sku TEXT;
+
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_variant ON inventory_movements(variant_id, created_at DESC);
+
+-- 4. Movements for a variant change the variant's stock and the product
+-- total; balance_after is the variant's balance
+CREATE OR REPLACE FUNCTION apply_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_name TEXT;
+    v_balance INTEGER;
+    v_variant_balance INTEGER;
+    v_variant_title TEXT;
+BEGIN
+    SELECT name, inventory + NEW.quantity_change INTO v_name, v_balance
+    FROM products WHERE id = NEW.product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+    END IF;
+
+    IF NEW.variant_id IS NOT NULL THEN
+        SELECT title, inventory + NEW.quantity_change INTO v_variant_title, v_variant_balance
+        FROM product_variants WHERE id = NEW.variant_id AND product_id = NEW.product_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'VARIANT_NOT_FOUND';
+        END IF;
+        IF v_variant_balance < 0 THEN
+            RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: % (%)', v_name, v_variant_title;
+        END IF;
+    END IF;
+
+    IF v_balance < 0 THEN
+        RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_name;
+    END IF;
+
+    PERFORM set_config('niihut.inventory_ledger', 'on', true);
+    IF NEW.variant_id IS NOT NULL THEN
+        UPDATE product_variants SET inventory = v_variant_balance WHERE id = NEW.variant_id;
+    END IF;
+    UPDATE products SET inventory = v_balance WHERE id = NEW.product_id;
+    PERFORM set_config('niihut.inventory_ledger', 'off', true);
+
+    NEW.balance_after := COALESCE(v_variant_balance, v_balance);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Variant stock is ledger-only too
+DROP TRIGGER IF EXISTS guard_variant_inventory_on_update ON product_variants;
+CREATE TRIGGER guard_variant_inventory_on_update BEFORE UPDATE OF inventory ON product_variants FOR EACH ROW EXECUTE PROCEDURE guard_product_inventory();
+
+-- 5. Stock counts: products with variants are counted per variant
+CREATE OR REPLACE FUNCTION set_product_inventory(
+    p_product_id UUID,
+    p_quantity INTEGER,
+    p_reason TEXT,
+    p_note TEXT,
+    p_created_by UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_current INTEGER;
+BEGIN
+    IF p_quantity < 0 THEN
+        RAISE EXCEPTION 'INVALID_QUANTITY';
+    END IF;
+
+    SELECT inventory INTO v_current FROM products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM product_variants WHERE product_id = p_product_id AND is_active) THEN
+        RAISE EXCEPTION 'PRODUCT_HAS_VARIANTS';
+    END IF;
+
+    IF p_quantity <> v_current THEN
+        INSERT INTO inventory_movements (product_id, quantity_change, reason, note, created_by)
+        VALUES (p_product_id, p_quantity - v_current, p_reason, p_note, p_created_by);
+    END IF;
+
+    RETURN p_quantity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_variant_inventory(
+    p_variant_id UUID,
+    p_quantity INTEGER,
+    p_reason TEXT,
+    p_note TEXT,
+    p_created_by UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_product_id UUID;
+    v_current INTEGER;
+BEGIN
+    IF p_quantity < 0 THEN
+        RAISE EXCEPTION 'INVALID_QUANTITY';
+    END IF;
+
+    SELECT product_id INTO v_product_id FROM product_variants WHERE id = p_variant_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'VARIANT_NOT_FOUND';
+    END IF;
+
+    -- Same lock order as the ledger trigger: product, then variant
+    PERFORM 1 FROM products WHERE id = v_product_id FOR UPDATE;
+    SELECT inventory INTO v_current FROM product_variants WHERE id = p_variant_id FOR UPDATE;
+
+    IF p_quantity <> v_current THEN
+        INSERT INTO inventory_movements (product_id, variant_id, quantity_change, reason, note, created_by)
+        VALUES (v_product_id, p_variant_id, p_quantity - v_current, p_reason, p_note, p_created_by);
+    END IF;
+
+    RETURN p_quantity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Checkout holds per product and variant. A variant line is checked
+-- against the variant's stock; products with variants need a variant.
+CREATE OR REPLACE FUNCTION reserve_cart_inventory(p_cart_id UUID, p_minutes INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+    v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(mins => p_minutes);
+    v_item RECORD;
+    v_held INTEGER;
+BEGIN
+    FOR v_item IN
+        SELECT
+            ci.product_id, ci.variant_id, ci.quantity, p.name, p.inventory, p.is_active,
+            v.id AS found_variant_id, v.title AS variant_title, v.inventory AS variant_inventory,
+            v.is_active AS variant_active,
+            EXISTS (SELECT 1 FROM product_variants pv WHERE pv.product_id = p.id AND pv.is_active) AS has_variants
+        FROM cart_items ci
+        JOIN products p ON p.id = ci.product_id
+        LEFT JOIN product_variants v ON v.id = ci.variant_id AND v.product_id = ci.product_id
+        WHERE ci.cart_id = p_cart_id
+        ORDER BY ci.product_id, ci.variant_id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT COALESCE(v_item.is_active, false) THEN
+            RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+        END IF;
+
+        IF v_item.variant_id IS NULL THEN
+            IF v_item.has_variants THEN
+                RAISE EXCEPTION 'VARIANT_REQUIRED: %', v_item.name;
+            END IF;
+
+            SELECT COALESCE(SUM(quantity), 0) INTO v_held
+            FROM inventory_reservations
+            WHERE product_id = v_item.product_id AND variant_id IS NULL
+              AND cart_id <> p_cart_id AND expires_at > NOW();
+
+            IF v_item.inventory - v_held < v_item.quantity THEN
+                RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_item.name;
+            END IF;
+        ELSE
+            IF v_item.found_variant_id IS NULL OR NOT COALESCE(v_item.variant_active, false) THEN
+                RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+            END IF;
+
+            SELECT COALESCE(SUM(quantity), 0) INTO v_held
+            FROM inventory_reservations
+            WHERE variant_id = v_item.variant_id AND cart_id <> p_cart_id AND expires_at > NOW();
+
+            IF v_item.variant_inventory - v_held < v_item.quantity THEN
+                RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: % (%)', v_item.name, v_item.variant_title;
+            END IF;
+        END IF;
+
+        INSERT INTO inventory_reservations (cart_id, product_id, variant_id, quantity, expires_at)
+        VALUES (p_cart_id, v_item.product_id, v_item.variant_id, v_item.quantity, v_expires_at)
+        ON CONFLICT (cart_id, product_id, variant_id)
+        DO UPDATE SET quantity = EXCLUDED.quantity, expires_at = EXCLUDED.expires_at;
+    END LOOP;
+
+    -- Items removed from the cart since the last hold, and expired holds
+    DELETE FROM inventory_reservations r
+    WHERE r.cart_id = p_cart_id
+      AND NOT EXISTS (
+          SELECT 1 FROM cart_items ci
+          WHERE ci.cart_id = p_cart_id
+            AND ci.product_id = r.product_id
+            AND ci.variant_id IS NOT DISTINCT FROM r.variant_id
+      );
+    DELETE FROM inventory_reservations WHERE expires_at <= NOW();
+
+    RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. place_cod_order: variant lines are priced at the variant's override
+-- (falling back to the product price), checked against the variant's stock
+-- and snapshot the variant label and SKU onto the order item
+CREATE OR REPLACE FUNCTION place_cod_order(
+    p_cart_id UUID,
+    p_user_id UUID,
+    p_status TEXT,
+    p_phone TEXT,
+    p_shipping_address JSONB,
+    p_delivery_fee NUMERIC,
+    p_admin_notes TEXT,
+    p_history_note TEXT,
+    p_risk_score INTEGER,
+    p_risk_factors JSONB,
+    p_risk_action TEXT,
+    p_phone_verification_id UUID DEFAULT NULL,
+    p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_order_id UUID;
+    v_subtotal NUMERIC := 0;
+    v_item RECORD;
+    v_item_count INTEGER := 0;
+    v_held INTEGER;
+BEGIN
+    -- 0. Replayed submission: serialise on the key, then return the original order
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+
+        SELECT id INTO v_order_id FROM orders WHERE idempotency_key = p_idempotency_key;
+        IF v_order_id IS NOT NULL THEN
+            RETURN v_order_id;
+        END IF;
+    END IF;
+
+    -- 1. Lock the cart's products (in a stable order to avoid deadlocks) and
+    --    validate stock, less other carts' live holds, against the locked rows.
+    --    Variant stock only changes under its product's lock.
+    FOR v_item IN
+        SELECT
+            ci.product_id, ci.variant_id, ci.quantity, p.name, p.price, p.inventory, p.is_active,
+            v.id AS found_variant_id, v.title AS variant_title, v.price AS variant_price,
+            v.inventory AS variant_inventory, v.is_active AS variant_active,
+            EXISTS (SELECT 1 FROM product_variants pv WHERE pv.product_id = p.id AND pv.is_active) AS has_variants
+        FROM cart_items ci
+        JOIN products p ON p.id = ci.product_id
+        LEFT JOIN product_variants v ON v.id = ci.variant_id AND v.product_id = ci.product_id
+        WHERE ci.cart_id = p_cart_id
+        ORDER BY ci.product_id, ci.variant_id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT COALESCE(v_item.is_active, false) THEN
+            RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+        END IF;
+
+        IF v_item.variant_id IS NULL THEN
+            IF v_item.has_variants THEN
+                RAISE EXCEPTION 'VARIANT_REQUIRED: %', v_item.name;
+            END IF;
+
+            SELECT COALESCE(SUM(quantity), 0) INTO v_held
+            FROM inventory_reservations
+            WHERE product_id = v_item.product_id AND variant_id IS NULL
+              AND cart_id <> p_cart_id AND expires_at > NOW();
+
+            IF v_item.inventory - v_held < v_item.quantity THEN
+                RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: %', v_item.name;
+            END IF;
+        ELSE
+            IF v_item.found_variant_id IS NULL OR NOT COALESCE(v_item.variant_active, false) THEN
+                RAISE EXCEPTION 'PRODUCT_UNAVAILABLE: %', v_item.name;
+            END IF;
+
+            SELECT COALESCE(SUM(quantity), 0) INTO v_held
+            FROM inventory_reservations
+            WHERE variant_id = v_item.variant_id AND cart_id <> p_cart_id AND expires_at > NOW();
+
+            IF v_item.variant_inventory - v_held < v_item.quantity THEN
+                RAISE EXCEPTION 'INSUFFICIENT_INVENTORY: % (%)', v_item.name, v_item.variant_title;
+            END IF;
+        END IF;
+
+        v_subtotal := v_subtotal + COALESCE(v_item.variant_price, v_item.price) * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION 'CART_EMPTY';
+    END IF;
+
+    -- 2. Order
+    INSERT INTO orders (
+        user_id, total_amount, delivery_fee, status, shipping_address,
+        phone_number, verified_phone, admin_notes, idempotency_key
+    ) VALUES (
+        p_user_id, v_subtotal + p_delivery_fee, p_delivery_fee, p_status, p_shipping_address,
+        p_phone, p_phone_verification_id IS NOT NULL, p_admin_notes, p_idempotency_key
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 3. Items at the locked prices, with the variant snapshot
+    INSERT INTO order_items (order_id, product_id, variant_id, variant_label, sku, quantity, price_at_purchase)
+    SELECT v_order_id, ci.product_id, ci.variant_id, v.title, v.sku, ci.quantity, COALESCE(v.price, p.price)
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = p_cart_id;
+
+    -- 4. Stock leaves through the ledger; the cart's holds are no longer needed
+    INSERT INTO inventory_movements (product_id, variant_id, quantity_change, reason, order_id, created_by)
+    SELECT ci.product_id, ci.variant_id, -ci.quantity, 'sale', v_order_id, p_user_id
+    FROM cart_items ci
+    WHERE ci.cart_id = p_cart_id
+    ORDER BY ci.product_id, ci.variant_id;
+
+    DELETE FROM inventory_reservations WHERE cart_id = p_cart_id;
+
+    -- 5. Risk assessment
+    INSERT INTO order_risk_assessments (order_id, risk_score, factors, action)
+    VALUES (v_order_id, p_risk_score, p_risk_factors, p_risk_action);
+
+    -- 6. Status history
+    INSERT INTO order_status_history (order_id, status, changed_by, notes)
+    VALUES (v_order_id, p_status, p_user_id, p_history_note);
+
+    -- 7. Phone verification can back exactly one order
+    IF p_phone_verification_id IS NOT NULL THEN
+        UPDATE phone_verifications
+        SET order_id = v_order_id
+        WHERE id = p_phone_verification_id AND order_id IS NULL;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'PHONE_VERIFICATION_USED';
+        END IF;
+    END IF;
+
+    -- 8. Customer counters
+    IF p_user_id IS NOT NULL THEN
+        UPDATE users SET total_orders = COALESCE(total_orders, 0) + 1 WHERE id = p_user_id;
+    END IF;
+
+    -- 9. Clear the cart
+    DELETE FROM cart_items WHERE cart_id = p_cart_id;
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Cancellations and returns put stock back on the variant it left.
+-- A cancelled order is released once, and only while no parcel has been
+-- booked: booked items are still with the courier and come back through a
+-- return.
+CREATE OR REPLACE FUNCTION release_order_inventory(p_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM shipments WHERE order_id = p_order_id)
+        OR EXISTS (SELECT 1 FROM inventory_movements WHERE order_id = p_order_id AND reason = 'cancel') THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO inventory_movements (product_id, variant_id, quantity_change, reason, order_id, note)
+    SELECT product_id, variant_id, SUM(quantity), 'cancel', p_order_id, 'Order cancelled'
+    FROM order_items
+    WHERE order_id = p_order_id AND product_id IS NOT NULL
+    GROUP BY product_id, variant_id
+    ORDER BY product_id, variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Never restocks more than was ordered, less anything the cancellation
+-- already released
+CREATE OR REPLACE FUNCTION restock_return_items(p_return_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_line RECORD;
+    v_quantity INTEGER;
+    v_total INTEGER := 0;
+BEGIN
+    PERFORM 1 FROM order_returns WHERE id = p_return_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'RETURN_NOT_FOUND';
+    END IF;
+
+    FOR v_line IN
+        SELECT
+            oi.id AS order_item_id,
+            oi.order_id,
+            oi.product_id,
+            oi.variant_id,
+            oi.quantity AS ordered,
+            COALESCE(ri.quantity, 0) AS restocked,
+            -- units already put back when the order was cancelled
+            COALESCE((
+                SELECT SUM(m.quantity_change)
+                FROM inventory_movements m
+                WHERE m.order_id = oi.order_id
+                  AND m.reason = 'cancel'
+                  AND m.product_id = oi.product_id
+                  AND m.variant_id IS NOT DISTINCT FROM oi.variant_id
+            ), 0) AS released,
+            GREATEST(0, COALESCE((x->>'quantity')::INTEGER, 0)) AS requested,
+            r.recorded_by
+        FROM jsonb_array_elements(p_items) x
+        JOIN order_returns r ON r.id = p_return_id
+        JOIN order_items oi ON oi.id = (x->>'order_item_id')::UUID AND oi.order_id = r.order_id
+        LEFT JOIN order_return_items ri ON ri.return_id = p_return_id AND ri.order_item_id = oi.id
+    LOOP
+        v_quantity := LEAST(v_line.requested, v_line.ordered - v_line.released - v_line.restocked);
+        IF v_quantity <= 0 OR v_line.product_id IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        INSERT INTO inventory_movements (product_id, variant_id, quantity_change, reason, order_id, note, created_by)
+        VALUES (v_line.product_id, v_line.variant_id, v_quantity, 'return', v_line.order_id, 'Returned item restocked', v_line.recorded_by);
+
+        INSERT INTO order_return_items (return_id, order_item_id, product_id, quantity)
+        VALUES (p_return_id, v_line.order_item_id, v_line.product_id, v_quantity)
+        ON CONFLICT (return_id, order_item_id)
+        DO UPDATE SET quantity = order_return_items.quantity + EXCLUDED.quantity;
+
+        v_total := v_total + v_quantity;
+    END LOOP;
+
+    IF v_total > 0 THEN
+        UPDATE order_returns SET restocked_units = restocked_units + v_total WHERE id = p_return_id;
+    END IF;
+
+    RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may move stock
+REVOKE EXECUTE ON FUNCTION set_variant_inventory(UUID, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 9. RLS: options and active variants are public, admins manage them
+ALTER TABLE product_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read product options" ON product_options FOR SELECT TO authenticated, anon USING (true);
+CREATE POLICY "Admin manage product options" ON product_options FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
+CREATE POLICY "Public read product variants" ON product_variants FOR SELECT TO authenticated, anon USING (is_active = true);
+CREATE POLICY "Admin manage product variants" ON product_variants FOR ALL USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
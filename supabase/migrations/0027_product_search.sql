@@ -0,0 +1,144 @@
+-- Product Search Migration
+-- Ranked, typo-tolerant product search for /search and the header
+-- autocomplete: trigram similarity on the name (index from 0004) plus
+-- full-text on name and description. Full-text uses both the English
+-- stemmer and the 'simple' configuration, which keeps Bangla words as they
+-- are; a substring match on the name catches anything the parsers split.
+-- Searches that find nothing are counted in search_misses for merchandising.
+
+-- 1. Full-text document: name (weight A) and description (weight B)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING gin (search_vector);
+
+-- 2. SEARCH_MISSES Table: normalised queries that returned no products
+CREATE TABLE IF NOT EXISTS search_misses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    query TEXT NOT NULL UNIQUE,
+    searches INTEGER NOT NULL DEFAULT 1,
+    last_filters JSONB,
+    first_searched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_searched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_misses_searches ON search_misses(searches DESC, last_searched_at DESC);
+
+-- 3. Escapes LIKE wildcards in user input
+CREATE OR REPLACE FUNCTION escape_like(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 4. Ranked search with optional category and price filters.
+-- rank: name similarity (typos), full-text relevance, and a bonus when the
+-- name starts with the query. total_count is the match count before paging.
+CREATE OR REPLACE FUNCTION search_products(
+    p_query TEXT,
+    p_category_id UUID DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_limit INTEGER DEFAULT 16,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    slug TEXT,
+    price NUMERIC,
+    inventory INTEGER,
+    category_id UUID,
+    image_url TEXT,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH q AS (
+        SELECT
+            websearch_to_tsquery('english', p_query) || websearch_to_tsquery('simple', p_query) AS tsq,
+            escape_like(p_query) AS pattern
+    ),
+    matches AS (
+        SELECT
+            p.id,
+            p.name,
+            p.slug,
+            p.price,
+            p.inventory,
+            p.category_id,
+            (
+                2 * word_similarity(p_query, p.name)
+                + ts_rank(p.search_vector, q.tsq)
+                + CASE WHEN p.name ILIKE q.pattern || '%' THEN 1 ELSE 0 END
+            )::REAL AS rank
+        FROM products p, q
+        WHERE p.is_active
+          AND (p_category_id IS NULL OR p.category_id = p_category_id)
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+          AND (
+              p.search_vector @@ q.tsq
+              OR p_query <% p.name
+              OR p.name ILIKE '%' || q.pattern || '%'
+          )
+    )
+    SELECT
+        m.id,
+        m.name,
+        m.slug,
+        m.price,
+        m.inventory,
+        m.category_id,
+        (SELECT pi.url FROM product_images pi WHERE pi.product_id = m.id ORDER BY pi.display_order LIMIT 1),
+        m.rank,
+        COUNT(*) OVER ()
+    FROM matches m
+    ORDER BY m.rank DESC, m.name
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- 5. Autocomplete: names starting with (or containing a word starting
+-- with) the typed text first, then close trigram matches
+CREATE OR REPLACE FUNCTION suggest_products(p_query TEXT, p_limit INTEGER DEFAULT 6)
+RETURNS TABLE (id UUID, name TEXT, slug TEXT, price NUMERIC, image_url TEXT) AS $$
+    SELECT
+        p.id,
+        p.name,
+        p.slug,
+        p.price,
+        (SELECT pi.url FROM product_images pi WHERE pi.product_id = p.id ORDER BY pi.display_order LIMIT 1)
+    FROM products p
+    WHERE p.is_active
+      AND (
+          p.name ILIKE escape_like(p_query) || '%'
+          OR p.name ILIKE '% ' || escape_like(p_query) || '%'
+          OR p_query <% p.name
+      )
+    ORDER BY
+        p.name ILIKE escape_like(p_query) || '%' DESC,
+        word_similarity(p_query, p.name) DESC,
+        p.name
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- 6. Counts a search that found nothing
+CREATE OR REPLACE FUNCTION log_search_miss(p_query TEXT, p_filters JSONB)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO search_misses (query, last_filters)
+    VALUES (p_query, p_filters)
+    ON CONFLICT (query) DO UPDATE
+    SET searches = search_misses.searches + 1,
+        last_filters = EXCLUDED.last_filters,
+        last_searched_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION log_search_miss(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- 7. RLS: search misses are server / admin only
+ALTER TABLE search_misses ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins view search misses" ON search_misses FOR SELECT USING (is_admin((SELECT id FROM users WHERE clerk_id = auth.uid()::text)));
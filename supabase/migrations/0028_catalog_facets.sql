@@ -0,0 +1,171 @@
+-- Catalog Facets Migration
+-- Faceted filtering for /product: several categories at once (through the
+-- product_categories join table), a price range, in-stock only, and variant
+-- attributes (product_options / product_variants.options) with a product
+-- count for every facet value. products.category_id stays the primary
+-- category and is mirrored into product_categories.
+
+-- 1. Backfill product_categories from the primary category
+INSERT INTO product_categories (product_id, category_id)
+SELECT id, category_id FROM products WHERE category_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_product_categories_category ON product_categories(category_id);
+
+-- 2. Keep the primary category in product_categories
+CREATE OR REPLACE FUNCTION sync_primary_product_category()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.category_id IS NOT NULL AND OLD.category_id IS DISTINCT FROM NEW.category_id THEN
+        DELETE FROM product_categories WHERE product_id = NEW.id AND category_id = OLD.category_id;
+    END IF;
+
+    IF NEW.category_id IS NOT NULL THEN
+        INSERT INTO product_categories (product_id, category_id)
+        VALUES (NEW.id, NEW.category_id)
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION sync_primary_product_category() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS sync_primary_product_category_on_write ON products;
+CREATE TRIGGER sync_primary_product_category_on_write AFTER INSERT OR UPDATE OF category_id ON products FOR EACH ROW EXECUTE PROCEDURE sync_primary_product_category();
+
+-- 3. Attribute match: some active variant (in stock, when asked) has one of
+-- the selected values for every selected option.
+-- p_attributes: {"Size": ["M", "L"], "Colour": ["Red"]}
+CREATE OR REPLACE FUNCTION product_matches_attributes(
+    p_product_id UUID,
+    p_attributes JSONB,
+    p_in_stock BOOLEAN DEFAULT false
+)
+RETURNS BOOLEAN AS $$
+    SELECT p_attributes = '{}'::jsonb OR EXISTS (
+        SELECT 1
+        FROM product_variants v
+        WHERE v.product_id = p_product_id
+          AND v.is_active
+          AND (NOT p_in_stock OR v.inventory > 0)
+          AND NOT EXISTS (
+              SELECT 1
+              FROM jsonb_each(p_attributes) a
+              WHERE NOT COALESCE(a.value ? (v.options ->> a.key), false)
+          )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- 4. Active products matching every filter. NULL / empty filters match all.
+CREATE OR REPLACE FUNCTION catalog_products(
+    p_category_slugs TEXT[] DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_attributes JSONB DEFAULT '{}'
+)
+RETURNS SETOF products AS $$
+    SELECT p.*
+    FROM products p
+    WHERE p.is_active
+      AND (
+          COALESCE(cardinality(p_category_slugs), 0) = 0
+          OR EXISTS (
+              SELECT 1
+              FROM product_categories pc
+              JOIN categories c ON c.id = pc.category_id
+              WHERE pc.product_id = p.id
+                AND c.is_active
+                AND c.slug = ANY (p_category_slugs)
+          )
+      )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT p_in_stock OR p.inventory > 0)
+      AND product_matches_attributes(p.id, COALESCE(p_attributes, '{}'), p_in_stock);
+$$ LANGUAGE sql STABLE;
+
+-- 5. One sorted page of the filtered listing. total_count is the match
+-- count before paging.
+CREATE OR REPLACE FUNCTION filter_products(
+    p_category_slugs TEXT[] DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_attributes JSONB DEFAULT '{}',
+    p_sort TEXT DEFAULT 'newest',
+    p_limit INTEGER DEFAULT 16,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    slug TEXT,
+    price NUMERIC,
+    inventory INTEGER,
+    category_id UUID,
+    image_url TEXT,
+    total_count BIGINT
+) AS $$
+    SELECT
+        p.id,
+        p.name,
+        p.slug,
+        p.price,
+        p.inventory,
+        p.category_id,
+        (SELECT pi.url FROM product_images pi WHERE pi.product_id = p.id ORDER BY pi.display_order LIMIT 1),
+        COUNT(*) OVER ()
+    FROM catalog_products(p_category_slugs, p_min_price, p_max_price, p_in_stock, p_attributes) p
+    ORDER BY
+        CASE WHEN p_sort = 'price_asc' THEN p.price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN p.price END DESC,
+        CASE WHEN p_sort = 'name_asc' THEN p.name END ASC,
+        p.created_at DESC,
+        p.id
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- 6. Facet values with product counts. Each facet is counted with the
+-- other filters applied but not its own selection, so picking "Red" still
+-- shows how many products come in "Blue". Values with no products are left
+-- out; attribute values keep the order merchants entered them in.
+CREATE OR REPLACE FUNCTION product_facets(
+    p_category_slugs TEXT[] DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_attributes JSONB DEFAULT '{}'
+)
+RETURNS TABLE (facet TEXT, name TEXT, value TEXT, label TEXT, product_count BIGINT) AS $$
+    (
+        SELECT 'category', 'category', c.slug, c.name, COUNT(DISTINCT p.id)
+        FROM catalog_products(NULL, p_min_price, p_max_price, p_in_stock, p_attributes) p
+        JOIN product_categories pc ON pc.product_id = p.id
+        JOIN categories c ON c.id = pc.category_id AND c.is_active
+        GROUP BY c.slug, c.name
+        ORDER BY c.name
+    )
+    UNION ALL
+    (
+        SELECT 'attribute', o.name, o.value, o.value, n.product_count
+        FROM (
+            SELECT po.name, v.value, MIN(v.position) AS position
+            FROM catalog_products(p_category_slugs, p_min_price, p_max_price, p_in_stock, '{}') p
+            JOIN product_options po ON po.product_id = p.id
+            CROSS JOIN LATERAL unnest(po.option_values) WITH ORDINALITY AS v(value, position)
+            GROUP BY po.name, v.value
+        ) o
+        CROSS JOIN LATERAL (
+            SELECT COUNT(*) AS product_count
+            FROM catalog_products(
+                p_category_slugs, p_min_price, p_max_price, p_in_stock,
+                (COALESCE(p_attributes, '{}') - o.name) || jsonb_build_object(o.name, jsonb_build_array(o.value))
+            )
+        ) n
+        WHERE n.product_count > 0
+        ORDER BY o.name, o.position, o.value
+    );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,204 @@
+-- Category Hierarchy Migration
+-- Parent/child categories (categories.parent_id). Listing, search and facet
+-- queries treat a category as itself plus every active descendant, through
+-- product_categories (many-to-many; products.category_id stays the primary
+-- category and is mirrored there by 0028).
+
+-- 1. Parent category
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- 2. Guard: a category cannot sit under itself or one of its descendants
+CREATE OR REPLACE FUNCTION prevent_category_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM categories WHERE id = NEW.parent_id
+            UNION
+            SELECT c.id, c.parent_id FROM categories c JOIN ancestors a ON c.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'CATEGORY_CYCLE';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_category_cycle_on_write ON categories;
+CREATE TRIGGER prevent_category_cycle_on_write BEFORE INSERT OR UPDATE OF parent_id ON categories FOR EACH ROW EXECUTE PROCEDURE prevent_category_cycle();
+
+-- 3. Active categories with their active descendants. An inactive category
+-- hides its whole branch.
+CREATE OR REPLACE FUNCTION category_descendants(p_category_ids UUID[])
+RETURNS TABLE (category_id UUID) AS $$
+    WITH RECURSIVE tree AS (
+        SELECT c.id FROM categories c WHERE c.id = ANY (p_category_ids) AND c.is_active
+        UNION
+        SELECT c.id FROM categories c JOIN tree t ON c.parent_id = t.id WHERE c.is_active
+    )
+    SELECT id FROM tree;
+$$ LANGUAGE sql STABLE;
+
+-- 4. Catalog filter (0028): selected categories include their descendants
+CREATE OR REPLACE FUNCTION catalog_products(
+    p_category_slugs TEXT[] DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_attributes JSONB DEFAULT '{}'
+)
+RETURNS SETOF products AS $$
+    SELECT p.*
+    FROM products p
+    WHERE p.is_active
+      AND (
+          COALESCE(cardinality(p_category_slugs), 0) = 0
+          OR EXISTS (
+              SELECT 1
+              FROM product_categories pc
+              WHERE pc.product_id = p.id
+                AND pc.category_id IN (
+                    SELECT d.category_id
+                    FROM category_descendants(
+                        ARRAY(SELECT c.id FROM categories c WHERE c.slug = ANY (p_category_slugs))
+                    ) d
+                )
+          )
+      )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT p_in_stock OR p.inventory > 0)
+      AND product_matches_attributes(p.id, COALESCE(p_attributes, '{}'), p_in_stock);
+$$ LANGUAGE sql STABLE;
+
+-- 5. Facets (0028): a category's count includes products in its
+-- descendants, each product counted once
+CREATE OR REPLACE FUNCTION product_facets(
+    p_category_slugs TEXT[] DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_attributes JSONB DEFAULT '{}'
+)
+RETURNS TABLE (facet TEXT, name TEXT, value TEXT, label TEXT, product_count BIGINT) AS $$
+    (
+        WITH RECURSIVE ancestry AS (
+            -- every active category paired with itself and each active ancestor
+            SELECT c.id AS category_id, c.id AS ancestor_id, c.parent_id
+            FROM categories c
+            WHERE c.is_active
+            UNION
+            SELECT a.category_id, c.id, c.parent_id
+            FROM ancestry a
+            JOIN categories c ON c.id = a.parent_id AND c.is_active
+        )
+        SELECT 'category', 'category', c.slug, c.name, COUNT(DISTINCT p.id)
+        FROM catalog_products(NULL, p_min_price, p_max_price, p_in_stock, p_attributes) p
+        JOIN product_categories pc ON pc.product_id = p.id
+        JOIN ancestry a ON a.category_id = pc.category_id
+        JOIN categories c ON c.id = a.ancestor_id
+        GROUP BY c.slug, c.name
+        ORDER BY c.name
+    )
+    UNION ALL
+    (
+        SELECT 'attribute', o.name, o.value, o.value, n.product_count
+        FROM (
+            SELECT po.name, v.value, MIN(v.position) AS position
+            FROM catalog_products(p_category_slugs, p_min_price, p_max_price, p_in_stock, '{}') p
+            JOIN product_options po ON po.product_id = p.id
+            CROSS JOIN LATERAL unnest(po.option_values) WITH ORDINALITY AS v(value, position)
+            GROUP BY po.name, v.value
+        ) o
+        CROSS JOIN LATERAL (
+            SELECT COUNT(*) AS product_count
+            FROM catalog_products(
+                p_category_slugs, p_min_price, p_max_price, p_in_stock,
+                (COALESCE(p_attributes, '{}') - o.name) || jsonb_build_object(o.name, jsonb_build_array(o.value))
+            )
+        ) n
+        WHERE n.product_count > 0
+        ORDER BY o.name, o.position, o.value
+    );
+$$ LANGUAGE sql STABLE;
+
+-- 6. Search (0027): the category filter covers every category a product is
+-- in, and their descendants
+CREATE OR REPLACE FUNCTION search_products(
+    p_query TEXT,
+    p_category_id UUID DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_limit INTEGER DEFAULT 16,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    slug TEXT,
+    price NUMERIC,
+    inventory INTEGER,
+    category_id UUID,
+    image_url TEXT,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH q AS (
+        SELECT
+            websearch_to_tsquery('english', p_query) || websearch_to_tsquery('simple', p_query) AS tsq,
+            escape_like(p_query) AS pattern
+    ),
+    matches AS (
+        SELECT
+            p.id,
+            p.name,
+            p.slug,
+            p.price,
+            p.inventory,
+            p.category_id,
+            (
+                2 * word_similarity(p_query, p.name)
+                + ts_rank(p.search_vector, q.tsq)
+                + CASE WHEN p.name ILIKE q.pattern || '%' THEN 1 ELSE 0 END
+            )::REAL AS rank
+        FROM products p, q
+        WHERE p.is_active
+          AND (
+              p_category_id IS NULL
+              OR EXISTS (
+                  SELECT 1
+                  FROM product_categories pc
+                  WHERE pc.product_id = p.id
+                    AND pc.category_id IN (SELECT d.category_id FROM category_descendants(ARRAY[p_category_id]) d)
+              )
+          )
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+          AND (
+              p.search_vector @@ q.tsq
+              OR p_query <% p.name
+              OR p.name ILIKE '%' || q.pattern || '%'
+          )
+    )
+    SELECT
+        m.id,
+        m.name,
+        m.slug,
+        m.price,
+        m.inventory,
+        m.category_id,
+        (SELECT pi.url FROM product_images pi WHERE pi.product_id = m.id ORDER BY pi.display_order LIMIT 1),
+        m.rank,
+        COUNT(*) OVER ()
+    FROM matches m
+    ORDER BY m.rank DESC, m.name
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;